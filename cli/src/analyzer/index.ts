@@ -15,6 +15,7 @@ export {
   parseFile,
   parseContentForExports,
   detectLanguage,
+  getSupportedExtensions,
   SUPPORTED_EXTENSIONS,
   type ParsedImport,
   type ParsedFile,
@@ -2,17 +2,121 @@
 
 import { Command } from 'commander';
 import { mkdir, writeFile } from 'fs/promises';
-import { resolve, dirname } from 'path';
-import { analyzeDirectory, saveTopologyData, createSnapshot, detectConflicts, resolveVectorConfig, type TopologyGraph } from '@topology/core';
-import { generateReport, type ReportFormat } from '@topology/core/reporter';
+import { resolve, dirname, relative } from 'path';
+import { analyzeDirectory, saveTopologyData, storeSnapshots, listStoredSnapshots, getStoredSnapshot, diffSnapshots, analyzeImpact, createNodeIdResolver, getChangedFiles, selectAffectedTests, backfillHistory, createSnapshot, detectConflicts, loadPlugins, pluginRegistry, loadRules, evaluateRules, resolveProjectConfig, toAnalyzeOptions, type TopologyGraph } from '@topology/core';
+import { generateReport, generateSnapshotDiffReport, REPORT_FORMATS, type ReportFormat } from '@topology/core/reporter';
 import { CacheDb, AuthDb, UserManager, ApiKeyManager } from '@topology/core';
-import type { VectorStoreConfig } from '@topology/protocol';
+import type { ProjectConfig, VectorProvider } from '@topology/protocol';
 import { FileWatcher, GitWatcher, TopologyWsServer } from '@topology/server';
 import type { GitWatcherEvent } from '@topology/server';
-import type { Role } from '@topology/protocol';
+import type { ConflictWarning, Role, RuleViolation } from '@topology/protocol';
 
 const program = new Command();
 
+/** Exit code when error-severity architecture rules are violated (1 is used for failures and thresholds) */
+const EXIT_RULE_VIOLATIONS = 3;
+
+/**
+ * Helper: load external language plugins (plugins/ dir, config, --plugin) and report them
+ */
+async function registerExternalPlugins(rootDir: string, plugins?: string[]): Promise<void> {
+  const result = await loadPlugins(rootDir, { plugins });
+
+  for (const info of result.loaded) {
+    console.log(`🧩 Loaded plugin "${info.name}" (${info.extensions.join(', ')}) from ${info.source}`);
+  }
+  for (const err of result.errors) {
+    console.warn(`⚠️  Plugin ${err.source}: ${err.message}`);
+  }
+}
+
+/**
+ * Helper: collect the settings given explicitly on the command line
+ * Option defaults are left out so they do not override the project config or environment
+ */
+function cliConfigOverrides(command: Command): ProjectConfig {
+  const opts = command.opts();
+  const given = (name: string) => command.getOptionValueSource(name) === 'cli';
+  const pick = <T>(name: string, convert: (value: unknown) => T = (value) => value as T): T | undefined =>
+    given(name) ? convert(opts[name]) : undefined;
+  const toInt = (value: unknown) => parseInt(String(value), 10);
+
+  return {
+    base: pick('base'),
+    git: pick('git'),
+    // Relative to the working directory, unlike the config file's output (relative to the project root)
+    output: pick('output', (value) => resolve(String(value))),
+    plugins: pick('plugin'),
+    include: pick('include'),
+    exclude: pick('exclude'),
+    gitignore: pick('gitignore'),
+    symbols: pick('symbols'),
+    assets: pick('assets'),
+    pythonRoots: pick('pythonRoot'),
+    rules: pick('rules'),
+    testPatterns: pick('testPattern'),
+    cache: pick('cache'),
+    cacheDir: pick('cacheDir'),
+    embeddings: pick('embeddings'),
+    similarityThreshold: pick('similarityThreshold', (value) => parseFloat(String(value))),
+    history: pick('history'),
+    maxSnapshots: pick('maxSnapshots', toInt),
+    vector: {
+      provider: pick<VectorProvider>('vectorProvider'),
+      pinecone: {
+        apiKey: pick('pineconeApiKey'),
+        indexName: pick('pineconeIndex'),
+        namespace: pick('pineconeNamespace'),
+      },
+      pgvector: { connectionString: pick('pgvectorUrl') },
+      sync: { enabled: pick('vectorSync'), useCloudSearch: pick('cloudSearch') },
+    },
+    watch: { port: pick('port', toInt), debounceMs: pick('debounce', toInt) },
+  };
+}
+
+/**
+ * Helper: resolve the effective project config (CLI flags > env vars > config file > defaults)
+ */
+async function loadCliConfig(rootDir: string, command: Command, configPath?: string): Promise<ProjectConfig> {
+  const { config, path } = await resolveProjectConfig(rootDir, {
+    configPath,
+    overrides: cliConfigOverrides(command),
+  });
+  if (path) {
+    console.log(`⚙️  Loaded config from ${path}`);
+  }
+  return config;
+}
+
+/**
+ * Helper: print architecture rule violations, errors first
+ */
+function logRuleViolations(violations: RuleViolation[]): void {
+  const errorCount = violations.filter(v => v.severity === 'error').length;
+  const warningCount = violations.length - errorCount;
+
+  console.log(`\n🚧 Rule violations: ${errorCount} error(s), ${warningCount} warning(s)`);
+  for (const v of [...violations].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1))) {
+    const icon = v.severity === 'error' ? '🔴' : '🟡';
+    console.log(`   ${icon} [${v.rule}] ${v.message}`);
+  }
+}
+
+/**
+ * Helper: send progress logs to stderr so stdout carries only machine-readable output
+ */
+function redirectLogsToStderr(): void {
+  console.log = console.error;
+}
+
+/**
+ * Helper: turn paths given on the command line into graph node IDs (relative to the repo, forward slashes)
+ */
+function toRepoPaths(rootDir: string, files: string[]): string[] {
+  return files.map((file) => relative(rootDir, resolve(file)).replace(/\\/g, '/'));
+}
+
 program
   .name('topology')
   .description('Code topology analysis tool - visualize your codebase dependencies')
@@ -22,15 +126,18 @@ program
   .command('analyze')
   .description('Analyze a directory and generate topology graph')
   .argument('[path]', 'Path to analyze', '.')
+  .option('-c, --config <file>', 'Project config file (default: topology.config.ts or .topology/config.json if present)')
   .option('-o, --output <file>', 'Output JSON file path', './packages/web/public/data/topology-data.json')
   .option('-b, --base <branch>', 'Base branch to compare against (default: auto-detect main/master)')
   .option('--no-git', 'Skip git diff analysis')
-  .option('-H, --history', 'Enable history mode (append to existing snapshots)')
+  .option('-H, --history', 'Enable history mode (keep every snapshot in the cache DB)')
   .option('--max-snapshots <n>', 'Maximum number of snapshots to keep', '50')
   .option('--snapshot-label <text>', 'Custom label for this snapshot')
-  .option('--report <format>', 'Generate report (markdown|json)')
+  .option('--report <format>', 'Generate report (markdown|json|sarif|junit)')
   .option('--output-report <file>', 'Output report to file')
   .option('--fail-on-broken <n>', 'Exit with error if broken edges exceed threshold', '-1')
+  .option('--fail-on-cycles <n>', 'Exit with error if import cycles exceed threshold', '-1')
+  .option('--rules <file>', 'Architecture rules file (default: <repo>/.topology/rules.json if present)')
   .option('--no-cache', 'Disable SQLite parse cache')
   .option('--cache-dir <path>', 'Custom cache directory (default: <repo>/.topology/)')
   .option('--no-embeddings', 'Disable semantic embedding analysis')
@@ -41,69 +148,64 @@ program
   .option('--pinecone-namespace <ns>', 'Pinecone namespace')
   .option('--pgvector-url <url>', 'pgvector connection string')
   .option('--no-vector-sync', 'Disable cloud vector sync')
+  .option('--cloud-search', 'Enable cloud-based semantic search')
   .option('--no-cloud-search', 'Disable cloud-based semantic search')
+  .option('--plugin <module...>', 'Load a language plugin (file path or npm package name)')
+  .option('--symbols', 'Add exported classes/functions/interfaces as symbol nodes')
+  .option('--python-root <dir...>', 'Python source root for absolute imports (default: detected from pyproject.toml/setup.cfg and src/)')
+  .option('--assets', 'Add stylesheets, JSON, GraphQL and image files as asset nodes')
+  .option('--include <glob...>', 'Only scan files matching these globs or path prefixes')
+  .option('--exclude <glob...>', 'Skip files matching these globs or path prefixes (in addition to .gitignore/.topologyignore)')
+  .option('--no-gitignore', 'Do not honor .gitignore files')
+  .option('--verbose', 'Print the effective scan rules')
   .action(async (path: string, options: {
+    config?: string;
     output: string;
-    base?: string;
-    git: boolean;
-    history?: boolean;
-    maxSnapshots: string;
     snapshotLabel?: string;
     report?: string;
     outputReport?: string;
     failOnBroken: string;
-    cache: boolean;
-    cacheDir?: string;
-    embeddings: boolean;
-    similarityThreshold: string;
-    vectorProvider?: string;
-    pineconeApiKey?: string;
-    pineconeIndex?: string;
-    pineconeNamespace?: string;
-    pgvectorUrl?: string;
-    vectorSync: boolean;
-    cloudSearch: boolean;
-  }) => {
+    failOnCycles: string;
+    verbose?: boolean;
+  }, command: Command) => {
     console.log(`\n🔍 Code Topology Analyzer\n`);
 
     try {
       const absolutePath = resolve(path);
 
-      // Resolve vector store config from CLI flags + env vars
-      const vectorStoreConfig = resolveVectorConfig({
-        provider: options.vectorProvider as VectorStoreConfig['provider'] | undefined,
-        pinecone: options.pineconeApiKey && options.pineconeIndex
-          ? { apiKey: options.pineconeApiKey, indexName: options.pineconeIndex, namespace: options.pineconeNamespace }
-          : undefined,
-        pgvector: options.pgvectorUrl
-          ? { connectionString: options.pgvectorUrl }
-          : undefined,
-        sync: {
-          enabled: options.vectorSync,
-          useCloudSearch: options.cloudSearch,
-        },
-      });
+      // Merge the project config with env vars and CLI flags
+      const config = await loadCliConfig(absolutePath, command, options.config);
+
+      // Register external language plugins before scanning
+      await registerExternalPlugins(absolutePath, config.plugins);
+
+      // Load architecture rules up front so an invalid rules file fails fast
+      const rulesConfig = await loadRules(absolutePath, config.rules);
+      if (rulesConfig.path) {
+        console.log(`📐 Loaded ${rulesConfig.rules.length} architecture rule(s) from ${rulesConfig.path}`);
+      }
 
       // Analyze the directory
       const graph = await analyzeDirectory(path, {
-        baseBranch: options.base,
-        skipGitDiff: !options.git,
-        noCache: !options.cache,
-        cacheDir: options.cacheDir,
-        noEmbeddings: !options.embeddings,
-        similarityThreshold: parseFloat(options.similarityThreshold),
-        vectorStoreConfig,
+        ...toAnalyzeOptions(config),
+        verbose: options.verbose,
       });
 
+      // Evaluate architecture rules against the final graph
+      if (rulesConfig.path) {
+        graph.violations = evaluateRules(graph, rulesConfig.rules);
+      }
+
       // Ensure output directory exists
-      const outputPath = resolve(options.output);
+      const outputPath = config.output ? resolve(absolutePath, config.output) : resolve(options.output);
       await mkdir(dirname(outputPath), { recursive: true });
 
       // Save with history management
-      const dataFile = await saveTopologyData(outputPath, graph, absolutePath, {
-        history: options.history,
-        maxSnapshots: parseInt(options.maxSnapshots, 10),
+      const { snapshotCount } = await saveTopologyData(outputPath, graph, absolutePath, {
+        history: config.history,
+        maxSnapshots: config.maxSnapshots,
         label: options.snapshotLabel,
+        cacheDir: config.cacheDir,
       });
 
       // Calculate stats
@@ -111,7 +213,12 @@ program
       const addedCount = graph.nodes.filter(n => n.status === 'ADDED').length;
       const modifiedCount = graph.nodes.filter(n => n.status === 'MODIFIED').length;
       const deletedCount = graph.nodes.filter(n => n.status === 'DELETED').length;
+      const renamedCount = graph.nodes.filter(n => n.status === 'RENAMED').length;
       const brokenCount = graph.edges.filter(e => e.isBroken).length;
+      const cycleCount = graph.cycles?.length ?? 0;
+      const newCycleCount = graph.cycles?.filter(c => c.isNew).length ?? 0;
+      const violations = graph.violations ?? [];
+      const ruleErrorCount = violations.filter(v => v.severity === 'error').length;
 
       const semanticEdgeCount = graph.edges.filter(e => e.linkType === 'semantic').length;
       const depEdgeCount = graph.edges.length - semanticEdgeCount;
@@ -123,8 +230,8 @@ program
         console.log(`   - Semantic edges: ${semanticEdgeCount}`);
       }
 
-      if (options.history) {
-        console.log(`   - Snapshots: ${dataFile.snapshots.length}`);
+      if (config.history) {
+        console.log(`   - Snapshots: ${snapshotCount} (history in ${config.cacheDir ?? '.topology'}/cache.db)`);
       }
 
       if (changedCount > 0) {
@@ -132,24 +239,45 @@ program
         if (addedCount > 0) console.log(`   - Added: ${addedCount}`);
         if (modifiedCount > 0) console.log(`   - Modified: ${modifiedCount}`);
         if (deletedCount > 0) console.log(`   - Deleted: ${deletedCount}`);
+        if (renamedCount > 0) console.log(`   - Renamed: ${renamedCount}`);
       }
 
       if (brokenCount > 0) {
         console.log(`\n⚠️  Potentially broken dependencies: ${brokenCount}`);
       }
 
+      if (cycleCount > 0) {
+        console.log(`\n🔁 Import cycles: ${cycleCount}${newCycleCount > 0 ? ` (${newCycleCount} new)` : ''}`);
+      }
+
+      if (violations.length > 0) {
+        logRuleViolations(violations);
+      }
+
       // Generate report if requested
       if (options.report) {
         const format = options.report as ReportFormat;
-        if (format !== 'markdown' && format !== 'json') {
-          console.error(`❌ Invalid report format: ${options.report}. Use 'markdown' or 'json'.`);
+        if (!REPORT_FORMATS.includes(format)) {
+          console.error(`❌ Invalid report format: ${options.report}. Use ${REPORT_FORMATS.map((f) => `'${f}'`).join(', ')}.`);
           process.exit(1);
         }
 
+        // SARIF also carries cross-branch conflicts for code scanning
+        let conflicts: ConflictWarning[] | undefined;
+        if (format === 'sarif' && config.git !== false) {
+          try {
+            conflicts = await detectConflicts({ repoPath: absolutePath, graph, baseBranch: config.base });
+          } catch (err) {
+            console.warn(`⚠️  Conflict detection failed, reporting without conflicts: ${(err as Error).message}`);
+          }
+        }
+
         const report = generateReport({
           graph,
           format,
-          baseBranch: options.base,
+          baseBranch: config.base,
+          testPatterns: config.testPatterns,
+          conflicts,
         });
 
         if (options.outputReport) {
@@ -170,6 +298,19 @@ program
         process.exit(1);
       }
 
+      // Check fail-on-cycles threshold
+      const cycleThreshold = parseInt(options.failOnCycles, 10);
+      if (cycleThreshold >= 0 && cycleCount > cycleThreshold) {
+        console.error(`\n❌ Import cycles (${cycleCount}) exceed threshold (${cycleThreshold})`);
+        process.exit(1);
+      }
+
+      // Error-severity rule violations always fail, with a dedicated exit code
+      if (ruleErrorCount > 0) {
+        console.error(`\n❌ Architecture rules violated (${ruleErrorCount} error(s))`);
+        process.exit(EXIT_RULE_VIOLATIONS);
+      }
+
       if (!options.report) {
         console.log(`\n💡 Start the web viewer with: pnpm dev:web\n`);
       }
@@ -183,6 +324,7 @@ program
   .command('watch')
   .description('Watch directory and push updates via WebSocket')
   .argument('[path]', 'Path to watch', '.')
+  .option('-c, --config <file>', 'Project config file (default: topology.config.ts or .topology/config.json if present)')
   .option('-p, --port <number>', 'WebSocket server port', '8765')
   .option('-d, --debounce <ms>', 'Debounce delay in milliseconds', '300')
   .option('-o, --output <file>', 'Output JSON file path', './packages/web/public/data/topology-data.json')
@@ -198,51 +340,50 @@ program
   .option('--pinecone-namespace <ns>', 'Pinecone namespace')
   .option('--pgvector-url <url>', 'pgvector connection string')
   .option('--no-vector-sync', 'Disable cloud vector sync')
+  .option('--cloud-search', 'Enable cloud-based semantic search')
   .option('--no-cloud-search', 'Disable cloud-based semantic search')
+  .option('--plugin <module...>', 'Load a language plugin (file path or npm package name)')
+  .option('--symbols', 'Add exported classes/functions/interfaces as symbol nodes')
+  .option('--python-root <dir...>', 'Python source root for absolute imports (default: detected from pyproject.toml/setup.cfg and src/)')
+  .option('--assets', 'Add stylesheets, JSON, GraphQL and image files as asset nodes')
+  .option('--include <glob...>', 'Only scan files matching these globs or path prefixes')
+  .option('--exclude <glob...>', 'Skip files matching these globs or path prefixes (in addition to .gitignore/.topologyignore)')
+  .option('--no-gitignore', 'Do not honor .gitignore files')
+  .option('--verbose', 'Print the effective scan rules')
+  .option('--rules <file>', 'Architecture rules file (default: <repo>/.topology/rules.json if present)')
   .action(async (path: string, options: {
-    port: string;
-    debounce: string;
+    config?: string;
     output: string;
-    base?: string;
-    git: boolean;
-    cache: boolean;
-    cacheDir?: string;
-    embeddings: boolean;
-    similarityThreshold: string;
-    vectorProvider?: string;
-    pineconeApiKey?: string;
-    pineconeIndex?: string;
-    pineconeNamespace?: string;
-    pgvectorUrl?: string;
-    vectorSync: boolean;
-    cloudSearch: boolean;
-  }) => {
+    verbose?: boolean;
+  }, command: Command) => {
     console.log(`\n👁️  Code Topology Watch Mode\n`);
 
     const absolutePath = resolve(path);
-    const port = parseInt(options.port, 10);
-    const debounceMs = parseInt(options.debounce, 10);
-    const outputPath = resolve(options.output);
-
-    // Resolve vector store config
-    const vectorStoreConfig = resolveVectorConfig({
-      provider: options.vectorProvider as VectorStoreConfig['provider'] | undefined,
-      pinecone: options.pineconeApiKey && options.pineconeIndex
-        ? { apiKey: options.pineconeApiKey, indexName: options.pineconeIndex, namespace: options.pineconeNamespace }
-        : undefined,
-      pgvector: options.pgvectorUrl
-        ? { connectionString: options.pgvectorUrl }
-        : undefined,
-      sync: {
-        enabled: options.vectorSync,
-        useCloudSearch: options.cloudSearch,
-      },
-    });
+
+    // Merge the project config with env vars and CLI flags
+    let config: ProjectConfig;
+    try {
+      config = await loadCliConfig(absolutePath, command, options.config);
+    } catch (error) {
+      console.error('❌ Failed to load config:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+
+    const port = config.watch?.port ?? 8765;
+    const debounceMs = config.watch?.debounceMs ?? 300;
+    const outputPath = config.output ? resolve(absolutePath, config.output) : resolve(options.output);
+    const analyzeOptions = toAnalyzeOptions(config);
 
     // Create file watcher
     const watcher = new FileWatcher({
       path: absolutePath,
       debounceMs,
+      assets: config.assets,
+      scan: {
+        include: config.include,
+        exclude: config.exclude,
+        gitignore: config.gitignore,
+      },
     });
 
     // Create git watcher
@@ -263,7 +404,7 @@ program
         const warnings = await detectConflicts({
           repoPath: absolutePath,
           graph,
-          baseBranch: options.base,
+          baseBranch: config.base,
         });
 
         if (warnings.length > 0) {
@@ -300,15 +441,22 @@ program
         console.log(`\n🔄 Running analysis...`);
 
         const graph = await analyzeDirectory(absolutePath, {
-          baseBranch: options.base,
-          skipGitDiff: !options.git,
-          noCache: !options.cache,
-          cacheDir: options.cacheDir,
-          noEmbeddings: !options.embeddings,
-          similarityThreshold: parseFloat(options.similarityThreshold),
-          vectorStoreConfig,
+          ...analyzeOptions,
+          verbose: options.verbose,
         });
 
+        // Re-read rules on every run so edits to the rules file apply without a restart
+        let rulesConfigured = false;
+        try {
+          const rulesConfig = await loadRules(absolutePath, config.rules);
+          if (rulesConfig.path) {
+            graph.violations = evaluateRules(graph, rulesConfig.rules);
+            rulesConfigured = true;
+          }
+        } catch (error) {
+          console.warn('⚠️  Rule evaluation skipped:', error instanceof Error ? error.message : error);
+        }
+
         // Save to file
         await mkdir(dirname(outputPath), { recursive: true });
         const snapshot = await createSnapshot(graph, absolutePath);
@@ -330,6 +478,14 @@ program
           console.log(`⚠️  Potentially broken dependencies: ${brokenCount}`);
         }
 
+        if (rulesConfigured) {
+          const violations = graph.violations ?? [];
+          if (violations.length > 0) {
+            logRuleViolations(violations);
+          }
+          wsServer.broadcastRuleViolations(violations);
+        }
+
         // Run conflict detection asynchronously (non-blocking)
         runConflictDetection(graph);
       } catch (error) {
@@ -391,6 +547,9 @@ program
     process.on('SIGTERM', shutdown);
 
     try {
+      // Register external language plugins before the first analysis and watcher start
+      await registerExternalPlugins(absolutePath, config.plugins);
+
       // Start WebSocket server
       await wsServer.start();
 
@@ -417,6 +576,378 @@ program
     }
   });
 
+// ── Config subcommands ─────────────────────────────────────────
+
+const configCommand = program
+  .command('config')
+  .description('Inspect the project configuration');
+
+/**
+ * Helper: mask credentials (Pinecone API key, pgvector connection string password) for display
+ */
+function redactConfig(config: ProjectConfig): ProjectConfig {
+  const vector = config.vector;
+  if (!vector) return config;
+
+  return {
+    ...config,
+    vector: {
+      ...vector,
+      pinecone: vector.pinecone?.apiKey ? { ...vector.pinecone, apiKey: '********' } : vector.pinecone,
+      pgvector: vector.pgvector?.connectionString
+        ? { ...vector.pgvector, connectionString: vector.pgvector.connectionString.replace(/(:\/\/[^:/@]*:)[^@]*@/, '$1********@') }
+        : vector.pgvector,
+    },
+  };
+}
+
+configCommand
+  .command('show')
+  .description('Print the effective config (defaults < config file < env vars < CLI flags)')
+  .argument('[path]', 'Project root', '.')
+  .option('-c, --config <file>', 'Project config file (default: topology.config.ts or .topology/config.json if present)')
+  .option('--show-secrets', 'Print API keys and connection strings unmasked')
+  .action(async (path: string, options: { config?: string; showSecrets?: boolean }) => {
+    try {
+      const { config, path: configPath } = await resolveProjectConfig(resolve(path), { configPath: options.config });
+
+      console.log(`\n⚙️  Config file: ${configPath ?? '(none)'}\n`);
+      console.log(JSON.stringify(options.showSecrets ? config : redactConfig(config), null, 2));
+      console.log('');
+    } catch (error) {
+      console.error('❌', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// ── History subcommands ────────────────────────────────────────
+
+const historyCommand = program
+  .command('history')
+  .description('Manage topology snapshot history');
+
+historyCommand
+  .command('backfill')
+  .description('Build snapshots for past commits (read from git objects; the working tree is not touched)')
+  .argument('[path]', 'Path to the repository', '.')
+  .option('-c, --config <file>', 'Project config file (default: topology.config.ts or .topology/config.json if present)')
+  .option('--from <ref>', 'Oldest commit to include (default: the first commit)')
+  .option('--to <ref>', 'Newest commit to include', 'HEAD')
+  .option('--every <n>', 'Snapshot every n-th commit, counted back from --to', '1')
+  .option('--max-snapshots <n>', 'Maximum number of snapshots to keep', '50')
+  .option('--no-cache', 'Disable SQLite parse cache')
+  .option('--cache-dir <path>', 'Custom cache directory (default: <repo>/.topology/)')
+  .option('--plugin <module...>', 'Load a language plugin (file path or npm package name)')
+  .option('--symbols', 'Add exported classes/functions/interfaces as symbol nodes')
+  .option('--python-root <dir...>', 'Python source root for absolute imports (default: detected from pyproject.toml/setup.cfg and src/)')
+  .option('--assets', 'Add stylesheets, JSON, GraphQL and image files as asset nodes')
+  .option('--include <glob...>', 'Only scan files matching these globs or path prefixes')
+  .option('--exclude <glob...>', 'Skip files matching these globs or path prefixes')
+  .action(async (path: string, options: {
+    config?: string;
+    from?: string;
+    to: string;
+    every: string;
+  }, command: Command) => {
+    console.log(`\n🕰️  History Backfill\n`);
+
+    try {
+      const absolutePath = resolve(path);
+      const config = await loadCliConfig(absolutePath, command, options.config);
+      await registerExternalPlugins(absolutePath, config.plugins);
+
+      const every = parseInt(options.every, 10);
+      if (!Number.isInteger(every) || every < 1) {
+        console.error(`❌ Invalid --every value: ${options.every}`);
+        process.exit(1);
+      }
+
+      // Commits that already have a snapshot are not analyzed again
+      const stored = listStoredSnapshots(absolutePath, config.cacheDir);
+      const skipCommits = new Set(stored.flatMap((s) => (s.commitHash ? [s.commitHash] : [])));
+
+      const snapshots = await backfillHistory(absolutePath, {
+        ...toAnalyzeOptions(config),
+        from: options.from,
+        to: options.to,
+        every,
+        skipCommits,
+        onSnapshot: (snapshot, commit, index, total) => {
+          const { nodeCount, edgeCount, changedCount } = snapshot.metadata;
+          console.log(
+            `   [${index + 1}/${total}] ${snapshot.metadata.commitHash} ${commit.message}  (${nodeCount} nodes, ${edgeCount} edges, ${changedCount} changed)`
+          );
+        },
+      });
+
+      if (snapshots.length === 0) {
+        console.log('\n✅ No new commits to backfill');
+        return;
+      }
+
+      const maxSnapshots = config.maxSnapshots ?? 50;
+      const snapshotCount = await storeSnapshots(absolutePath, snapshots, {
+        maxSnapshots,
+        cacheDir: config.cacheDir,
+      });
+
+      console.log(`\n✅ Added ${snapshots.length} snapshot(s) to the history in ${config.cacheDir ?? '.topology'}/cache.db`);
+      console.log(`   - Snapshots: ${snapshotCount}`);
+      if (stored.length + snapshots.length > maxSnapshots) {
+        console.warn(`⚠️  Oldest snapshots were dropped to stay within ${maxSnapshots} (raise with --max-snapshots)`);
+      }
+    } catch (error) {
+      console.error('❌ Backfill failed:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// ── Snapshot diff ──────────────────────────────────────────────
+
+program
+  .command('diff')
+  .description('Show architectural changes between two stored snapshots')
+  .argument('<base>', 'Base snapshot: ID, label, commit hash or "latest"')
+  .argument('<head>', 'Head snapshot: ID, label, commit hash or "latest"')
+  .option('-r, --repo <path>', 'Path to the repository', '.')
+  .option('-c, --config <file>', 'Project config file (default: topology.config.ts or .topology/config.json if present)')
+  .option('--cache-dir <path>', 'Custom cache directory (default: <repo>/.topology/)')
+  .option('-f, --format <format>', 'Output format (markdown|json)', 'markdown')
+  .option('-o, --output <file>', 'Write the diff to a file instead of stdout')
+  .action(async (baseRef: string, headRef: string, options: {
+    repo: string;
+    config?: string;
+    format: string;
+    output?: string;
+  }, command: Command) => {
+    try {
+      const format = options.format as ReportFormat;
+      if (format !== 'markdown' && format !== 'json') {
+        console.error(`❌ Invalid format: ${options.format}. Use 'markdown' or 'json'.`);
+        process.exit(1);
+      }
+
+      const absolutePath = resolve(options.repo);
+      const config = await loadCliConfig(absolutePath, command, options.config);
+
+      const base = getStoredSnapshot(absolutePath, baseRef, config.cacheDir);
+      const head = getStoredSnapshot(absolutePath, headRef, config.cacheDir);
+      if (!base || !head) {
+        console.error(`❌ No stored snapshot matches "${base ? headRef : baseRef}" (run analyze --history or history backfill first)`);
+        process.exit(1);
+      }
+
+      const report = generateSnapshotDiffReport(diffSnapshots(base, head), format);
+
+      if (options.output) {
+        const outputPath = resolve(options.output);
+        await mkdir(dirname(outputPath), { recursive: true });
+        await writeFile(outputPath, report, 'utf-8');
+        console.log(`📝 Diff written to: ${outputPath}`);
+      } else {
+        console.log(report);
+      }
+    } catch (error) {
+      console.error('❌ Diff failed:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// ── Change impact ──────────────────────────────────────────────
+
+program
+  .command('impact')
+  .description('Show the files that transitively depend on changed files (default: changes vs the base branch)')
+  .argument('[files...]', 'Changed files (default: files changed relative to the base branch)')
+  .option('-r, --repo <path>', 'Path to the repository', '.')
+  .option('-c, --config <file>', 'Project config file (default: topology.config.ts or .topology/config.json if present)')
+  .option('-b, --base <branch>', 'Base branch to compare against (default: auto-detect main/master)')
+  .option('-d, --max-depth <n>', 'Follow dependents at most this many imports away')
+  .option('--test-pattern <glob...>', 'Globs marking test files (default: *.test.*, *.spec.*, *_test.*, test_*.py, **/__tests__/**)')
+  .option('-f, --format <format>', 'Output format (text|json)', 'text')
+  .option('--no-cache', 'Disable SQLite parse cache')
+  .option('--cache-dir <path>', 'Custom cache directory (default: <repo>/.topology/)')
+  .option('--plugin <module...>', 'Load a language plugin (file path or npm package name)')
+  .option('--include <glob...>', 'Only scan files matching these globs or path prefixes')
+  .option('--exclude <glob...>', 'Skip files matching these globs or path prefixes')
+  .action(async (files: string[], options: {
+    repo: string;
+    config?: string;
+    maxDepth?: string;
+    format: string;
+  }, command: Command) => {
+    try {
+      if (options.format !== 'text' && options.format !== 'json') {
+        console.error(`❌ Invalid format: ${options.format}. Use 'text' or 'json'.`);
+        process.exit(1);
+      }
+      if (options.format === 'json') {
+        redirectLogsToStderr();
+      }
+
+      const maxDepth = options.maxDepth !== undefined ? parseInt(options.maxDepth, 10) : undefined;
+      if (maxDepth !== undefined && (!Number.isInteger(maxDepth) || maxDepth < 1)) {
+        console.error(`❌ Invalid --max-depth value: ${options.maxDepth}`);
+        process.exit(1);
+      }
+
+      const absolutePath = resolve(options.repo);
+      const config = await loadCliConfig(absolutePath, command, options.config);
+      await registerExternalPlugins(absolutePath, config.plugins);
+
+      // Semantic edges do not carry impact, so embeddings are skipped
+      const graph = await analyzeDirectory(absolutePath, {
+        ...toAnalyzeOptions(config),
+        // Given files make the git diff unnecessary
+        skipGitDiff: files.length > 0 || config.git === false,
+        noEmbeddings: true,
+      });
+
+      // Given files map to their node (member files of merged nodes such as Go packages to the package)
+      const toNodeId = createNodeIdResolver(graph, (file) => pluginRegistry.getNodeId(file));
+      const nodeIds = new Set(graph.nodes.map((n) => n.id));
+      const changedFiles = files.length > 0 ? toRepoPaths(absolutePath, files).map(toNodeId) : undefined;
+      for (const file of changedFiles ?? []) {
+        if (!nodeIds.has(file)) {
+          console.warn(`⚠️  ${file} is not in the dependency graph`);
+        }
+      }
+
+      const impact = analyzeImpact(graph, changedFiles, { maxDepth, testPatterns: config.testPatterns });
+
+      if (options.format === 'json') {
+        process.stdout.write(JSON.stringify(impact, null, 2) + '\n');
+        return;
+      }
+
+      if (impact.changedFiles.length === 0) {
+        console.log('\n✅ No changed files (pass files explicitly or check --base)');
+        return;
+      }
+
+      console.log(`\n💥 Change impact of ${impact.changedFiles.length} file(s):`);
+      for (const file of impact.changedFiles) {
+        console.log(`   - ${file}`);
+      }
+
+      if (impact.impactedFiles.length === 0) {
+        console.log('\n✅ No other files depend on them');
+        return;
+      }
+
+      console.log(`\n📦 Impacted files: ${impact.impactedFiles.length}`);
+      for (const f of impact.impactedFiles) {
+        const via = f.distance === 1 ? `imports ${f.changedDependencies.join(', ')}` : `${f.distance} hops from ${f.changedDependencies.join(', ')}`;
+        console.log(`   ${f.isTest ? '🧪' : '  '} ${f.file}  (${via})`);
+      }
+
+      if (impact.testFiles.length > 0) {
+        console.log(`\n🧪 Test files: ${impact.testFiles.length}`);
+        for (const file of impact.testFiles) {
+          console.log(`   - ${file}`);
+        }
+      }
+    } catch (error) {
+      console.error('❌ Impact analysis failed:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// ── Affected tests ─────────────────────────────────────────────
+
+program
+  .command('affected-tests')
+  .description('List the test files that transitively depend on files changed relative to the base branch')
+  .argument('[path]', 'Path to the repository', '.')
+  .option('-c, --config <file>', 'Project config file (default: topology.config.ts or .topology/config.json if present)')
+  .option('-b, --base <branch>', 'Base branch to compare against (default: auto-detect main/master)')
+  .option('--test-pattern <glob...>', 'Globs marking test files (default: *.test.*, *.spec.*, *_test.*, test_*.py, **/__tests__/**)')
+  .option('-f, --format <format>', 'Output format: plain (one per line), json or null (NUL-delimited, for xargs -0)', 'plain')
+  .option('--no-cache', 'Disable SQLite parse cache')
+  .option('--cache-dir <path>', 'Custom cache directory (default: <repo>/.topology/)')
+  .option('--plugin <module...>', 'Load a language plugin (file path or npm package name)')
+  .option('--python-root <dir...>', 'Python source root for absolute imports (default: detected from pyproject.toml/setup.cfg and src/)')
+  .option('--include <glob...>', 'Only scan files matching these globs or path prefixes')
+  .option('--exclude <glob...>', 'Skip files matching these globs or path prefixes')
+  .action(async (path: string, options: {
+    config?: string;
+    format: string;
+  }, command: Command) => {
+    // stdout carries only the test list, so it can be piped into a test runner
+    redirectLogsToStderr();
+
+    try {
+      if (options.format !== 'plain' && options.format !== 'json' && options.format !== 'null') {
+        console.error(`❌ Invalid format: ${options.format}. Use 'plain', 'json' or 'null'.`);
+        process.exit(1);
+      }
+
+      const absolutePath = resolve(path);
+      const config = await loadCliConfig(absolutePath, command, options.config);
+      if (config.git === false) {
+        console.error('❌ affected-tests needs the git diff (remove "git": false from the config)');
+        process.exit(1);
+      }
+      await registerExternalPlugins(absolutePath, config.plugins);
+
+      // Statuses come from the git diff against the base branch; semantic edges are not needed
+      const graph = await analyzeDirectory(absolutePath, {
+        ...toAnalyzeOptions(config),
+        noEmbeddings: true,
+      });
+
+      const changedFiles = getChangedFiles(graph);
+      const testFiles = selectAffectedTests(graph, changedFiles, { testPatterns: config.testPatterns });
+      console.error(`🧪 ${changedFiles.length} changed file(s), ${testFiles.length} affected test file(s)`);
+
+      if (options.format === 'json') {
+        process.stdout.write(JSON.stringify({ changedFiles, testFiles }, null, 2) + '\n');
+      } else if (options.format === 'null') {
+        process.stdout.write(testFiles.map((file) => `${file}\0`).join(''));
+      } else if (testFiles.length > 0) {
+        process.stdout.write(testFiles.join('\n') + '\n');
+      }
+    } catch (error) {
+      console.error('❌ Affected test selection failed:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// ── Plugin subcommands ─────────────────────────────────────────
+
+const plugins = program
+  .command('plugins')
+  .description('Manage language plugins');
+
+plugins
+  .command('list')
+  .description('List registered language plugins, their extensions and where they were loaded from')
+  .argument('[path]', 'Project root used to discover plugins', '.')
+  .option('-c, --config <file>', 'Project config file (default: topology.config.ts or .topology/config.json if present)')
+  .option('--plugin <module...>', 'Also load a language plugin (file path or npm package name)')
+  .action(async (path: string, options: { config?: string }, command: Command) => {
+    const rootDir = resolve(path);
+    const { config } = await resolveProjectConfig(rootDir, {
+      configPath: options.config,
+      overrides: cliConfigOverrides(command),
+    });
+    const result = await loadPlugins(rootDir, { plugins: config.plugins });
+
+    console.log('\nRegistered plugins:\n');
+    for (const info of pluginRegistry.listPlugins()) {
+      console.log(`  ${info.name}  extensions=${info.extensions.join(',')}  source=${info.source}`);
+    }
+    console.log('');
+
+    if (result.errors.length > 0) {
+      console.log('Failed to load:\n');
+      for (const err of result.errors) {
+        console.log(`  ${err.source}  ${err.message}`);
+      }
+      console.log('');
+    }
+  });
+
 // ── Auth subcommands ───────────────────────────────────────────
 
 const auth = program
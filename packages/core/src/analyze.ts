@@ -7,13 +7,10 @@ import { glob } from 'glob';
 import { readFile } from 'fs/promises';
 import { resolve, join } from 'path';
 import type { TopologyGraph, Language, VectorStoreConfig } from '@topology/protocol';
-import {
-  parseFileContent,
-  detectLanguage,
-  SUPPORTED_EXTENSIONS,
-  type ParsedFile,
-} from './parser/index.js';
+import type { ParsedFile } from './parser/index.js';
+import { pluginRegistry } from './plugins/index.js';
 import { getGitDiff, type GitDiffResult } from './git/index.js';
+import { ScanFilter } from './scan/index.js';
 import { buildGraph } from './graph/index.js';
 import { CacheDb } from './cache/db.js';
 import { ParseCache } from './cache/parseCache.js';
@@ -44,6 +41,20 @@ export interface AnalyzeOptions {
   maxSemanticEdgesPerFile?: number;
   /** Cloud vector store configuration (default: sqlite-only, no cloud sync) */
   vectorStoreConfig?: VectorStoreConfig;
+  /** Add exported classes/functions/interfaces as nodes contained in their files */
+  symbols?: boolean;
+  /** Python source roots for absolute imports (default: detected from pyproject.toml/setup.cfg and src/) */
+  pythonSourceRoots?: string[];
+  /** Add stylesheets, JSON, GraphQL and image files as ASSET nodes with their import edges */
+  assets?: boolean;
+  /** Only scan files matching these globs or path prefixes (default: all) */
+  include?: string[];
+  /** Skip files matching these globs or path prefixes, in addition to .gitignore and .topologyignore */
+  exclude?: string[];
+  /** Honor .gitignore files (default: true) */
+  gitignore?: boolean;
+  /** Print the effective scan rules */
+  verbose?: boolean;
 }
 
 /**
@@ -53,13 +64,6 @@ function toForwardSlash(path: string): string {
   return path.replace(/\\/g, '/');
 }
 
-/**
- * Map Language to parseFileContent mode
- */
-function langToMode(lang: Language): 'js' | 'python' {
-  return lang === 'python' ? 'python' : 'js';
-}
-
 /**
  * Analyze a directory and generate topology graph
  * @param dirPath - Path to the directory to analyze
@@ -73,23 +77,28 @@ export async function analyzeDirectory(
   const absolutePath = resolve(dirPath);
   console.log(`📂 Scanning directory: ${absolutePath}`);
 
-  // Build glob pattern for all supported extensions
-  const extensionPattern = SUPPORTED_EXTENSIONS.map(ext => ext.slice(1)).join(',');
+  // Build one glob pattern per extension contributed by registered plugins
+  const patterns = pluginRegistry
+    .getSupportedExtensions({ assets: options.assets })
+    .map(ext => `**/*${ext}`);
+
+  // Built-in ignore list, .gitignore, .topologyignore and include/exclude globs
+  const scanFilter = await ScanFilter.load(absolutePath, {
+    include: options.include,
+    exclude: options.exclude,
+    gitignore: options.gitignore,
+  });
+  if (options.verbose) {
+    console.log('🧹 Scan rules:');
+    for (const line of scanFilter.describe()) {
+      console.log(`   ${line}`);
+    }
+  }
 
   // Find all supported source files
-  const rawFiles = await glob(`**/*.{${extensionPattern}}`, {
+  const rawFiles = await glob(patterns, {
     cwd: absolutePath,
-    ignore: [
-      '**/node_modules/**',
-      '**/dist/**',
-      '**/.next/**',
-      '**/*.d.ts',
-      '**/__pycache__/**',
-      '**/venv/**',
-      '**/.venv/**',
-      '**/env/**',
-      '**/.env/**',
-    ],
+    ignore: scanFilter.toGlobIgnore(),
     absolute: false,
   });
 
@@ -97,16 +106,12 @@ export async function analyzeDirectory(
   const files = rawFiles.map(f => toForwardSlash(f));
 
   // Count files by language
-  const languageStats: Record<Language, number> = {
-    typescript: 0,
-    javascript: 0,
-    python: 0,
-  };
+  const languageStats: Record<Language, number> = {};
 
   for (const file of files) {
-    const lang = detectLanguage(file);
+    const lang = pluginRegistry.detectLanguage(file);
     if (lang) {
-      languageStats[lang]++;
+      languageStats[lang] = (languageStats[lang] ?? 0) + 1;
     }
   }
 
@@ -164,11 +169,18 @@ export async function analyzeDirectory(
       }
     }
 
-    // Cache miss — parse with Tree-sitter
-    const lang = detectLanguage(file);
-    if (!lang) continue;
+    // Cache miss — parse with the plugin registered for this extension
+    const plugin = pluginRegistry.getPluginForFile(file);
+    if (!plugin) continue;
+
+    let parsed: ParsedFile | null;
+    try {
+      parsed = plugin.parse(content, normalizedFile, absolutePath);
+    } catch (err) {
+      console.warn(`⚠️  Plugin "${plugin.name}" failed to parse ${normalizedFile}: ${(err as Error).message}`);
+      continue;
+    }
 
-    const parsed = parseFileContent(content, file, langToMode(lang));
     if (parsed) {
       parsed.filePath = normalizedFile;
       parsedFiles.push(parsed);
@@ -207,28 +219,37 @@ export async function analyzeDirectory(
   // Get git diff status
   let gitDiff: GitDiffResult | null = null;
   if (!options.skipGitDiff) {
-    gitDiff = await getGitDiff(absolutePath, options.baseBranch);
+    gitDiff = await getGitDiff(absolutePath, options.baseBranch, { assets: options.assets });
   }
 
   // Build topology graph with git status
-  const graph = await buildGraph(parsedFiles, absolutePath, gitDiff);
+  const graph = await buildGraph(parsedFiles, absolutePath, gitDiff, {
+    symbols: options.symbols,
+    pythonSourceRoots: options.pythonSourceRoots,
+  });
 
   // --- Semantic Embedding Analysis (Slow Lane) ---
   const noEmbeddings = options.noEmbeddings ?? false;
   const similarityThreshold = options.similarityThreshold ?? 0.7;
   const maxPerFile = options.maxSemanticEdgesPerFile ?? 3;
   const MAX_FILES_FOR_EMBEDDING = 1000;
+  // Only code is embedded: assets have no meaningful text
+  const codeFiles = options.assets ? files.filter(f => !pluginRegistry.isAssetFile(f)) : files;
 
-  if (!noEmbeddings && files.length <= MAX_FILES_FOR_EMBEDDING) {
+  if (!noEmbeddings && codeFiles.length <= MAX_FILES_FOR_EMBEDDING) {
     try {
-      // Prepare file contents map (filePath → content)
+      // Prepare node contents map (node ID → content); files merged into one node are concatenated
       const fileContents = new Map<string, { content: string; hash: string }>();
-      for (const file of files) {
+      for (const file of [...codeFiles].sort()) {
         const fullPath = join(absolutePath, file);
         try {
-          const content = await readFile(fullPath, 'utf-8');
+          const nodeId = pluginRegistry.getNodeId(toForwardSlash(file));
+          const previous = fileContents.get(nodeId)?.content;
+          const content = previous !== undefined
+            ? `${previous}\n${await readFile(fullPath, 'utf-8')}`
+            : await readFile(fullPath, 'utf-8');
           const hash = simpleHash(content);
-          fileContents.set(toForwardSlash(file), { content, hash });
+          fileContents.set(nodeId, { content, hash });
         } catch {
           // Skip unreadable
         }
@@ -377,8 +398,8 @@ export async function analyzeDirectory(
     } catch (err) {
       console.warn(`\u26A0\uFE0F  Semantic analysis skipped: ${(err as Error).message}`);
     }
-  } else if (!noEmbeddings && files.length > MAX_FILES_FOR_EMBEDDING) {
-    console.warn(`\u26A0\uFE0F  Too many files (${files.length}), skipping semantic analysis (max: ${MAX_FILES_FOR_EMBEDDING})`);
+  } else if (!noEmbeddings && codeFiles.length > MAX_FILES_FOR_EMBEDDING) {
+    console.warn(`\u26A0\uFE0F  Too many files (${codeFiles.length}), skipping semantic analysis (max: ${MAX_FILES_FOR_EMBEDDING})`);
   }
 
   // Close cache DB
@@ -389,10 +410,14 @@ export async function analyzeDirectory(
   // Count stats
   const depEdges = graph.edges.filter(e => e.linkType !== 'semantic');
   const semEdges = graph.edges.filter(e => e.linkType === 'semantic');
-  const changedNodes = graph.nodes.filter(n => n.status !== 'UNCHANGED').length;
+  const symbolNodes = graph.nodes.filter(n => n.parentId).length;
+  const changedNodes = graph.nodes.filter(n => !n.parentId && n.status !== 'UNCHANGED').length;
   const brokenEdges = depEdges.filter(e => e.isBroken).length;
 
   console.log(`\u{1F517} Generated ${graph.nodes.length} nodes and ${depEdges.length} dependency edges`);
+  if (symbolNodes > 0) {
+    console.log(`   (${symbolNodes} symbol nodes)`);
+  }
   if (semEdges.length > 0) {
     console.log(`   + ${semEdges.length} semantic edges`);
   }
@@ -402,6 +427,11 @@ export async function analyzeDirectory(
   if (brokenEdges > 0) {
     console.log(`\u26A0\uFE0F  ${brokenEdges} potentially broken dependencies`);
   }
+  const cycles = graph.cycles ?? [];
+  if (cycles.length > 0) {
+    const newCycles = cycles.filter(c => c.isNew).length;
+    console.log(`\u{1F501} ${cycles.length} import cycles${newCycles > 0 ? ` (${newCycles} new)` : ''}`);
+  }
 
   return graph;
 }
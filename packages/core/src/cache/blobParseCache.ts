@@ -0,0 +1,55 @@
+/**
+ * Parse result cache for git blobs (history backfill)
+ * Stores ParsedFile results keyed by file path and blob hash, so every version of a
+ * file stays cached; the working-tree ParseCache keeps one version per path
+ */
+
+import type Database from 'better-sqlite3';
+import type { ParsedFile } from '../parser/index.js';
+import type { CacheDb } from './db.js';
+import { rowToParsedFile, type CachedRow } from './parseCache.js';
+
+export class BlobParseCache {
+  private readonly db: Database.Database;
+  private readonly stmtGet: Database.Statement;
+  private readonly stmtUpsert: Database.Statement;
+
+  constructor(cacheDb: CacheDb) {
+    this.db = cacheDb.database;
+
+    this.stmtGet = this.db.prepare(
+      'SELECT * FROM parsed_blobs WHERE file_path = ? AND blob_oid = ?'
+    );
+
+    this.stmtUpsert = this.db.prepare(`
+      INSERT OR REPLACE INTO parsed_blobs (file_path, blob_oid, content_hash, language, imports_json, export_sig, symbols_json, exports_json, shapes_json, cached_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+  }
+
+  get(filePath: string, blobOid: string): ParsedFile | null {
+    const row = this.stmtGet.get(filePath, blobOid) as CachedRow | undefined;
+    if (!row) return null;
+    return rowToParsedFile(row);
+  }
+
+  setBatch(entries: { blobOid: string; parsed: ParsedFile }[]): void {
+    const transaction = this.db.transaction((batch: { blobOid: string; parsed: ParsedFile }[]) => {
+      for (const { blobOid, parsed } of batch) {
+        this.stmtUpsert.run(
+          parsed.filePath,
+          blobOid,
+          parsed.contentHash,
+          parsed.language,
+          JSON.stringify(parsed.imports),
+          parsed.exportSignature,
+          parsed.symbols ? JSON.stringify(parsed.symbols) : null,
+          parsed.exportedNames ? JSON.stringify(parsed.exportedNames) : null,
+          parsed.exportShapes ? JSON.stringify(parsed.exportShapes) : null,
+          Date.now(),
+        );
+      }
+    });
+    transaction(entries);
+  }
+}
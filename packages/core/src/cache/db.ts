@@ -7,7 +7,7 @@ import Database from 'better-sqlite3';
 import { mkdirSync, existsSync, unlinkSync, statSync } from 'fs';
 import { join, dirname } from 'path';
 
-const CURRENT_SCHEMA_VERSION = 4;
+const CURRENT_SCHEMA_VERSION = 12;
 
 const SCHEMA_SQL = `
 CREATE TABLE IF NOT EXISTS schema_version (version INTEGER NOT NULL);
@@ -19,10 +19,27 @@ CREATE TABLE IF NOT EXISTS parsed_files (
   language      TEXT    NOT NULL,
   imports_json  TEXT    NOT NULL,
   export_sig    TEXT    NOT NULL,
+  symbols_json  TEXT,
+  exports_json  TEXT,
+  shapes_json   TEXT,
   cached_at     INTEGER NOT NULL
 );
 CREATE INDEX IF NOT EXISTS idx_parsed_files_cached_at ON parsed_files (cached_at);
 
+CREATE TABLE IF NOT EXISTS parsed_blobs (
+  file_path     TEXT    NOT NULL,
+  blob_oid      TEXT    NOT NULL,
+  content_hash  TEXT    NOT NULL,
+  language      TEXT    NOT NULL,
+  imports_json  TEXT    NOT NULL,
+  export_sig    TEXT    NOT NULL,
+  symbols_json  TEXT,
+  exports_json  TEXT,
+  shapes_json   TEXT,
+  cached_at     INTEGER NOT NULL,
+  PRIMARY KEY (file_path, blob_oid)
+);
+
 CREATE TABLE IF NOT EXISTS embeddings (
   file_path      TEXT    NOT NULL PRIMARY KEY,
   content_hash   TEXT    NOT NULL,
@@ -31,6 +48,25 @@ CREATE TABLE IF NOT EXISTS embeddings (
   cached_at      INTEGER NOT NULL
 );
 
+CREATE TABLE IF NOT EXISTS snapshots (
+  id             INTEGER PRIMARY KEY AUTOINCREMENT,
+  timestamp      INTEGER NOT NULL,
+  commit_hash    TEXT,
+  commit_message TEXT,
+  branch         TEXT,
+  label          TEXT,
+  node_count     INTEGER NOT NULL,
+  edge_count     INTEGER NOT NULL,
+  changed_count  INTEGER NOT NULL,
+  broken_count   INTEGER NOT NULL,
+  base_id        INTEGER,
+  chain_length   INTEGER NOT NULL DEFAULT 0,
+  graph_json     TEXT    NOT NULL,
+  metrics_json   TEXT,
+  created_at     INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_snapshots_timestamp ON snapshots (timestamp, id);
+
 CREATE TABLE IF NOT EXISTS auth_config (
   key   TEXT PRIMARY KEY,
   value TEXT NOT NULL
@@ -155,6 +191,94 @@ CREATE TABLE IF NOT EXISTS vector_sync_state (
 UPDATE schema_version SET version = 4;
 `;
 
+// Parsed imports gained a kind (static/dynamic/require) and call-based imports: re-parse everything
+const MIGRATION_V4_TO_V5 = `
+DELETE FROM parsed_files;
+
+UPDATE schema_version SET version = 5;
+`;
+
+// Exported symbols for symbol-level graphs: re-parse so every row has them
+const MIGRATION_V5_TO_V6 = `
+ALTER TABLE parsed_files ADD COLUMN symbols_json TEXT;
+DELETE FROM parsed_files;
+
+UPDATE schema_version SET version = 6;
+`;
+
+// Exported names for symbol-precise broken-edge detection
+const MIGRATION_V6_TO_V7 = `
+ALTER TABLE parsed_files ADD COLUMN exports_json TEXT;
+DELETE FROM parsed_files;
+
+UPDATE schema_version SET version = 7;
+`;
+
+// Export signatures now include parameter/type shapes: re-parse with per-export shape hashes
+const MIGRATION_V7_TO_V8 = `
+ALTER TABLE parsed_files ADD COLUMN shapes_json TEXT;
+DELETE FROM parsed_files;
+
+UPDATE schema_version SET version = 8;
+`;
+
+// Parse results of git blobs (history backfill), one row per file version
+const MIGRATION_V8_TO_V9 = `
+CREATE TABLE IF NOT EXISTS parsed_blobs (
+  file_path     TEXT    NOT NULL,
+  blob_oid      TEXT    NOT NULL,
+  content_hash  TEXT    NOT NULL,
+  language      TEXT    NOT NULL,
+  imports_json  TEXT    NOT NULL,
+  export_sig    TEXT    NOT NULL,
+  symbols_json  TEXT,
+  exports_json  TEXT,
+  shapes_json   TEXT,
+  cached_at     INTEGER NOT NULL,
+  PRIMARY KEY (file_path, blob_oid)
+);
+
+UPDATE schema_version SET version = 9;
+`;
+
+// Snapshot history (full graphs or deltas against base_id)
+const MIGRATION_V9_TO_V10 = `
+CREATE TABLE IF NOT EXISTS snapshots (
+  id             INTEGER PRIMARY KEY AUTOINCREMENT,
+  timestamp      INTEGER NOT NULL,
+  commit_hash    TEXT,
+  commit_message TEXT,
+  branch         TEXT,
+  label          TEXT,
+  node_count     INTEGER NOT NULL,
+  edge_count     INTEGER NOT NULL,
+  changed_count  INTEGER NOT NULL,
+  broken_count   INTEGER NOT NULL,
+  base_id        INTEGER,
+  chain_length   INTEGER NOT NULL DEFAULT 0,
+  graph_json     TEXT    NOT NULL,
+  created_at     INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_snapshots_timestamp ON snapshots (timestamp, id);
+
+UPDATE schema_version SET version = 10;
+`;
+
+// Architecture metrics summary per snapshot
+const MIGRATION_V10_TO_V11 = `
+ALTER TABLE snapshots ADD COLUMN metrics_json TEXT;
+
+UPDATE schema_version SET version = 11;
+`;
+
+// jest/vitest mock calls became their own import kind (formerly 'require'): re-parse everything
+const MIGRATION_V11_TO_V12 = `
+DELETE FROM parsed_files;
+DELETE FROM parsed_blobs;
+
+UPDATE schema_version SET version = 12;
+`;
+
 export class CacheDb {
   private db: Database.Database | null = null;
   private readonly dbPath: string;
@@ -193,6 +317,26 @@ export class CacheDb {
     }
   }
 
+  /**
+   * Open an existing DB for reading only: no directory creation, migrations or rebuilds
+   * @throws Error when the DB cannot be opened or its schema is older than this version
+   */
+  openReadOnly(): void {
+    const db = new Database(this.dbPath, { readonly: true, fileMustExist: true });
+    try {
+      db.pragma('busy_timeout = 5000');
+      const row = db.prepare('SELECT version FROM schema_version LIMIT 1').get() as { version: number } | undefined;
+      const version = row?.version ?? 0;
+      if (version < CURRENT_SCHEMA_VERSION) {
+        throw new Error(`Cache DB schema v${version} is outdated (v${CURRENT_SCHEMA_VERSION} expected); run an analysis to migrate it`);
+      }
+    } catch (err) {
+      db.close();
+      throw err;
+    }
+    this.db = db;
+  }
+
   close(): void {
     if (this.db) {
       try {
@@ -256,6 +400,30 @@ export class CacheDb {
         if (currentVersion < 4) {
           this.db.exec(MIGRATION_V3_TO_V4);
         }
+        if (currentVersion < 5) {
+          this.db.exec(MIGRATION_V4_TO_V5);
+        }
+        if (currentVersion < 6) {
+          this.db.exec(MIGRATION_V5_TO_V6);
+        }
+        if (currentVersion < 7) {
+          this.db.exec(MIGRATION_V6_TO_V7);
+        }
+        if (currentVersion < 8) {
+          this.db.exec(MIGRATION_V7_TO_V8);
+        }
+        if (currentVersion < 9) {
+          this.db.exec(MIGRATION_V8_TO_V9);
+        }
+        if (currentVersion < 10) {
+          this.db.exec(MIGRATION_V9_TO_V10);
+        }
+        if (currentVersion < 11) {
+          this.db.exec(MIGRATION_V10_TO_V11);
+        }
+        if (currentVersion < 12) {
+          this.db.exec(MIGRATION_V11_TO_V12);
+        }
       }
     } catch (err) {
       console.warn(`⚠️  Cache migration failed, rebuilding: ${(err as Error).message}`);
@@ -5,4 +5,6 @@
 
 export { CacheDb } from './db.js';
 export { ParseCache, type CacheStats } from './parseCache.js';
+export { BlobParseCache } from './blobParseCache.js';
+export { SnapshotStore } from './snapshotStore.js';
 export { simpleHash } from './contentHash.js';
@@ -5,15 +5,19 @@
 
 import type Database from 'better-sqlite3';
 import type { Language } from '@topology/protocol';
-import type { ParsedFile, ParsedImport } from '../parser/index.js';
+import type { ParsedFile, ParsedImport, ParsedSymbol } from '../parser/index.js';
 import type { CacheDb } from './db.js';
 
-interface CachedRow {
+/** Row of the parsed_files and parsed_blobs tables */
+export interface CachedRow {
   file_path: string;
   content_hash: string;
   language: string;
   imports_json: string;
   export_sig: string;
+  symbols_json: string | null;
+  exports_json: string | null;
+  shapes_json: string | null;
   cached_at: number;
 }
 
@@ -36,13 +40,16 @@ export class ParseCache {
     );
 
     this.stmtUpsert = this.db.prepare(`
-      INSERT INTO parsed_files (file_path, content_hash, language, imports_json, export_sig, cached_at)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT INTO parsed_files (file_path, content_hash, language, imports_json, export_sig, symbols_json, exports_json, shapes_json, cached_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
       ON CONFLICT(file_path) DO UPDATE SET
         content_hash = excluded.content_hash,
         language = excluded.language,
         imports_json = excluded.imports_json,
         export_sig = excluded.export_sig,
+        symbols_json = excluded.symbols_json,
+        exports_json = excluded.exports_json,
+        shapes_json = excluded.shapes_json,
         cached_at = excluded.cached_at
     `);
 
@@ -52,7 +59,7 @@ export class ParseCache {
   get(filePath: string, currentContentHash: string): ParsedFile | null {
     const row = this.stmtGet.get(filePath, currentContentHash) as CachedRow | undefined;
     if (!row) return null;
-    return this.rowToParsedFile(row);
+    return rowToParsedFile(row);
   }
 
   set(parsed: ParsedFile): void {
@@ -62,6 +69,9 @@ export class ParseCache {
       parsed.language,
       JSON.stringify(parsed.imports),
       parsed.exportSignature,
+      parsed.symbols ? JSON.stringify(parsed.symbols) : null,
+      parsed.exportedNames ? JSON.stringify(parsed.exportedNames) : null,
+      parsed.exportShapes ? JSON.stringify(parsed.exportShapes) : null,
       Date.now(),
     );
   }
@@ -75,6 +85,9 @@ export class ParseCache {
           parsed.language,
           JSON.stringify(parsed.imports),
           parsed.exportSignature,
+          parsed.symbols ? JSON.stringify(parsed.symbols) : null,
+          parsed.exportedNames ? JSON.stringify(parsed.exportedNames) : null,
+          parsed.exportShapes ? JSON.stringify(parsed.exportShapes) : null,
           Date.now(),
         );
       }
@@ -96,14 +109,20 @@ export class ParseCache {
     transaction();
     return pruned;
   }
+}
 
-  private rowToParsedFile(row: CachedRow): ParsedFile {
-    return {
-      filePath: row.file_path,
-      contentHash: row.content_hash,
-      language: row.language as Language,
-      imports: JSON.parse(row.imports_json) as ParsedImport[],
-      exportSignature: row.export_sig,
-    };
-  }
+/**
+ * Convert a cache row back to a ParsedFile
+ */
+export function rowToParsedFile(row: CachedRow): ParsedFile {
+  return {
+    filePath: row.file_path,
+    contentHash: row.content_hash,
+    language: row.language as Language,
+    imports: JSON.parse(row.imports_json) as ParsedImport[],
+    exportSignature: row.export_sig,
+    ...(row.symbols_json ? { symbols: JSON.parse(row.symbols_json) as ParsedSymbol[] } : {}),
+    ...(row.exports_json ? { exportedNames: JSON.parse(row.exports_json) as string[] } : {}),
+    ...(row.shapes_json ? { exportShapes: JSON.parse(row.shapes_json) as Record<string, string> } : {}),
+  };
 }
@@ -0,0 +1,278 @@
+/**
+ * Snapshot history store using SQLite
+ * Each snapshot's graph is stored as a delta against the previous snapshot in the
+ * timeline, with a full graph every KEYFRAME_INTERVAL snapshots so reads stay cheap
+ */
+
+import type Database from 'better-sqlite3';
+import type {
+  TopologyGraph,
+  TopologyNode,
+  TopologyEdge,
+  TopologySnapshot,
+  SnapshotMetadata,
+  StoredSnapshotMetadata,
+  MetricsSummary,
+} from '@topology/protocol';
+import type { CacheDb } from './db.js';
+
+/** Longest run of deltas before a full graph is stored again */
+const KEYFRAME_INTERVAL = 20;
+
+interface SnapshotRow {
+  id: number;
+  timestamp: number;
+  commit_hash: string | null;
+  commit_message: string | null;
+  branch: string | null;
+  label: string | null;
+  node_count: number;
+  edge_count: number;
+  changed_count: number;
+  broken_count: number;
+  base_id: number | null;
+  chain_length: number;
+  graph_json: string;
+  metrics_json: string | null;
+  created_at: number;
+}
+
+/** Changes from a base graph to the stored graph */
+interface GraphDelta {
+  /** Nodes added or changed since the base graph */
+  nodes: TopologyNode[];
+  /** IDs of base nodes that are gone */
+  removedNodes: string[];
+  /** Edges added or changed since the base graph */
+  edges: TopologyEdge[];
+  /** IDs of base edges that are gone */
+  removedEdges: string[];
+  /** Remaining graph fields (cycles, violations, timestamp), stored whole */
+  rest: Omit<TopologyGraph, 'nodes' | 'edges'>;
+}
+
+/**
+ * Diff items by ID: changed or new items, and IDs missing from the current list
+ */
+function diffById<T extends { id: string }>(base: T[], current: T[]): { changed: T[]; removed: string[] } {
+  const baseById = new Map(base.map((item) => [item.id, JSON.stringify(item)]));
+  const currentIds = new Set(current.map((item) => item.id));
+
+  return {
+    changed: current.filter((item) => baseById.get(item.id) !== JSON.stringify(item)),
+    removed: base.filter((item) => !currentIds.has(item.id)).map((item) => item.id),
+  };
+}
+
+/**
+ * Apply changed and removed items to a base list
+ * Base order is kept (changed items replace theirs in place); new items are appended
+ */
+function applyById<T extends { id: string }>(base: T[], changed: T[], removed: string[]): T[] {
+  const changedById = new Map(changed.map((item) => [item.id, item]));
+  const removedIds = new Set(removed);
+  const baseIds = new Set(base.map((item) => item.id));
+
+  return [
+    ...base.filter((item) => !removedIds.has(item.id)).map((item) => changedById.get(item.id) ?? item),
+    ...changed.filter((item) => !baseIds.has(item.id)),
+  ];
+}
+
+function encodeDelta(base: TopologyGraph, graph: TopologyGraph): GraphDelta {
+  const { nodes, edges, ...rest } = graph;
+  const nodeDiff = diffById(base.nodes, nodes);
+  const edgeDiff = diffById(base.edges, edges);
+  return {
+    nodes: nodeDiff.changed,
+    removedNodes: nodeDiff.removed,
+    edges: edgeDiff.changed,
+    removedEdges: edgeDiff.removed,
+    rest,
+  };
+}
+
+function applyDelta(base: TopologyGraph, delta: GraphDelta): TopologyGraph {
+  return {
+    ...delta.rest,
+    nodes: applyById(base.nodes, delta.nodes, delta.removedNodes),
+    edges: applyById(base.edges, delta.edges, delta.removedEdges),
+  };
+}
+
+function rowToMetadata(row: SnapshotRow): SnapshotMetadata {
+  const metadata: SnapshotMetadata = {
+    timestamp: row.timestamp,
+    commitHash: row.commit_hash,
+    commitMessage: row.commit_message,
+    branch: row.branch,
+    label: row.label,
+    nodeCount: row.node_count,
+    edgeCount: row.edge_count,
+    changedCount: row.changed_count,
+    brokenCount: row.broken_count,
+  };
+  if (row.metrics_json) {
+    metadata.metrics = JSON.parse(row.metrics_json) as MetricsSummary;
+  }
+  return metadata;
+}
+
+export class SnapshotStore {
+  private readonly db: Database.Database;
+  private readonly stmtGet: Database.Statement;
+  private readonly stmtInsert: Database.Statement;
+  private readonly stmtPrevious: Database.Statement;
+  private readonly stmtList: Database.Statement;
+  private readonly stmtCount: Database.Statement;
+  private readonly stmtDelete: Database.Statement;
+  private readonly stmtRebase: Database.Statement;
+
+  constructor(cacheDb: CacheDb) {
+    this.db = cacheDb.database;
+
+    this.stmtGet = this.db.prepare('SELECT * FROM snapshots WHERE id = ?');
+
+    this.stmtInsert = this.db.prepare(`
+      INSERT INTO snapshots (timestamp, commit_hash, commit_message, branch, label, node_count, edge_count, changed_count, broken_count, base_id, chain_length, graph_json, metrics_json, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    // Timeline order is (timestamp, id): snapshots with equal timestamps keep insertion order
+    this.stmtPrevious = this.db.prepare(
+      'SELECT id, chain_length FROM snapshots WHERE timestamp <= ? ORDER BY timestamp DESC, id DESC LIMIT 1'
+    );
+
+    this.stmtList = this.db.prepare(`
+      SELECT id, timestamp, commit_hash, commit_message, branch, label, node_count, edge_count, changed_count, broken_count, metrics_json
+      FROM snapshots ORDER BY timestamp, id LIMIT ? OFFSET ?
+    `);
+
+    this.stmtCount = this.db.prepare('SELECT COUNT(*) as count FROM snapshots');
+
+    this.stmtDelete = this.db.prepare('DELETE FROM snapshots WHERE id = ?');
+
+    this.stmtRebase = this.db.prepare(
+      'UPDATE snapshots SET base_id = NULL, chain_length = 0, graph_json = ? WHERE id = ?'
+    );
+  }
+
+  /**
+   * Store a snapshot at its place in the timeline (by timestamp)
+   * @returns The new snapshot's ID
+   */
+  add(snapshot: TopologySnapshot): number {
+    const { metadata, graph } = snapshot;
+    const previous = this.stmtPrevious.get(metadata.timestamp) as Pick<SnapshotRow, 'id' | 'chain_length'> | undefined;
+
+    let baseId: number | null = null;
+    let chainLength = 0;
+    let graphJson: string;
+    const baseGraph = previous && previous.chain_length < KEYFRAME_INTERVAL - 1 ? this.getGraph(previous.id) : null;
+    if (previous && baseGraph) {
+      baseId = previous.id;
+      chainLength = previous.chain_length + 1;
+      graphJson = JSON.stringify(encodeDelta(baseGraph, graph));
+    } else {
+      graphJson = JSON.stringify(graph);
+    }
+
+    const result = this.stmtInsert.run(
+      metadata.timestamp,
+      metadata.commitHash,
+      metadata.commitMessage,
+      metadata.branch,
+      metadata.label,
+      metadata.nodeCount,
+      metadata.edgeCount,
+      metadata.changedCount,
+      metadata.brokenCount,
+      baseId,
+      chainLength,
+      graphJson,
+      metadata.metrics ? JSON.stringify(metadata.metrics) : null,
+      Date.now(),
+    );
+    return Number(result.lastInsertRowid);
+  }
+
+  /**
+   * Store several snapshots in one transaction
+   */
+  addBatch(snapshots: TopologySnapshot[]): number[] {
+    const transaction = this.db.transaction((batch: TopologySnapshot[]) => batch.map((snapshot) => this.add(snapshot)));
+    return transaction(snapshots);
+  }
+
+  /**
+   * Get a snapshot with its full graph, or null if the ID is unknown
+   */
+  get(id: number): TopologySnapshot | null {
+    const row = this.stmtGet.get(id) as SnapshotRow | undefined;
+    if (!row) return null;
+
+    const graph = this.getGraph(id);
+    if (!graph) return null;
+
+    return { metadata: rowToMetadata(row), graph };
+  }
+
+  /**
+   * List snapshot metadata in timeline order (oldest first)
+   */
+  list(offset: number = 0, limit: number = -1): StoredSnapshotMetadata[] {
+    const rows = this.stmtList.all(limit, offset) as SnapshotRow[];
+    return rows.map((row) => ({ id: row.id, ...rowToMetadata(row) }));
+  }
+
+  count(): number {
+    return (this.stmtCount.get() as { count: number }).count;
+  }
+
+  /**
+   * Delete the oldest snapshots beyond maxSnapshots
+   * Snapshots stored as deltas against a deleted snapshot are rewritten as full graphs first
+   * @returns Number of deleted snapshots
+   */
+  prune(maxSnapshots: number): number {
+    const excess = this.count() - maxSnapshots;
+    if (excess <= 0) return 0;
+
+    const deleted = new Set(this.list(0, excess).map((meta) => meta.id));
+    const dependents = (this.db.prepare(
+      `SELECT id FROM snapshots WHERE base_id IN (${Array.from(deleted, () => '?').join(', ')})`
+    ).all(...deleted) as { id: number }[]).filter((row) => !deleted.has(row.id));
+
+    const transaction = this.db.transaction(() => {
+      for (const { id } of dependents) {
+        const graph = this.getGraph(id);
+        if (graph) this.stmtRebase.run(JSON.stringify(graph), id);
+      }
+      for (const id of deleted) {
+        this.stmtDelete.run(id);
+      }
+    });
+    transaction();
+    return deleted.size;
+  }
+
+  /**
+   * Rebuild a stored graph by replaying deltas from the nearest full graph
+   */
+  private getGraph(id: number): TopologyGraph | null {
+    const deltas: GraphDelta[] = [];
+    let row = this.stmtGet.get(id) as SnapshotRow | undefined;
+
+    while (row && row.base_id !== null) {
+      deltas.push(JSON.parse(row.graph_json) as GraphDelta);
+      row = this.stmtGet.get(row.base_id) as SnapshotRow | undefined;
+    }
+    if (!row) return null;
+
+    let graph = JSON.parse(row.graph_json) as TopologyGraph;
+    for (const delta of deltas.reverse()) {
+      graph = applyDelta(graph, delta);
+    }
+    return graph;
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Compare module - architectural diff between two topology snapshots
+ * @module @topology/core/compare
+ */
+
+export {
+  diffSnapshots,
+  type SnapshotDiff,
+  type NodeRename,
+  type FanInChange,
+} from './snapshotDiff.js';
@@ -0,0 +1,114 @@
+/**
+ * Snapshot comparison - what changed architecturally between two snapshots
+ * Works on graphs only (no file system access), so it also runs in the browser
+ */
+
+import type { SnapshotMetadata, TopologyEdge, TopologyNode, TopologySnapshot } from '@topology/protocol';
+import { getFileDependencies } from '../graph/cycles.js';
+
+/** A node whose ID changed between the snapshots (file moved or renamed) */
+export interface NodeRename {
+  from: string;
+  to: string;
+}
+
+/** A file whose number of importers changed */
+export interface FanInChange {
+  /** File ID in the head snapshot */
+  nodeId: string;
+  before: number;
+  after: number;
+}
+
+export interface SnapshotDiff {
+  base: SnapshotMetadata;
+  head: SnapshotMetadata;
+  /** Nodes only in the head snapshot */
+  addedNodes: TopologyNode[];
+  /** Nodes only in the base snapshot */
+  removedNodes: TopologyNode[];
+  /** Nodes present in both under different IDs (matched by previousId) */
+  renamedNodes: NodeRename[];
+  /** Dependency edges only in the head snapshot */
+  addedEdges: TopologyEdge[];
+  /** Dependency edges only in the base snapshot */
+  removedEdges: TopologyEdge[];
+  /** Head edges that are broken and were not broken (or did not exist) in the base */
+  newBrokenEdges: TopologyEdge[];
+  /** Files in both snapshots whose importer count changed, largest change first */
+  fanInChanges: FanInChange[];
+}
+
+/**
+ * Key an edge by its endpoints (edge IDs are not stable across analyses)
+ */
+function edgeKey(source: string, target: string): string {
+  return `${source}\n${target}`;
+}
+
+/**
+ * Count importers per file
+ */
+function countFanIn(nodes: TopologyNode[], edges: TopologyEdge[]): Map<string, number> {
+  const fanIn = new Map<string, number>();
+  for (const { target } of getFileDependencies(nodes, edges)) {
+    fanIn.set(target, (fanIn.get(target) ?? 0) + 1);
+  }
+  return fanIn;
+}
+
+/**
+ * Diff two snapshots
+ * Base IDs are mapped through renames first, so a moved file and its edges are reported
+ * as a rename rather than as removed and added. Semantic edges are ignored.
+ */
+export function diffSnapshots(base: TopologySnapshot, head: TopologySnapshot): SnapshotDiff {
+  const baseNodeIds = new Set(base.graph.nodes.map((n) => n.id));
+  const headNodeIds = new Set(head.graph.nodes.map((n) => n.id));
+
+  // Base ID -> head ID for nodes whose previous ID only exists in the base
+  const renamedTo = new Map<string, string>();
+  for (const node of head.graph.nodes) {
+    if (node.previousId && !baseNodeIds.has(node.id) && baseNodeIds.has(node.previousId) && !headNodeIds.has(node.previousId)) {
+      renamedTo.set(node.previousId, node.id);
+    }
+  }
+  const toHeadId = (id: string) => renamedTo.get(id) ?? id;
+  const renamedIds = new Set(renamedTo.values());
+
+  const addedNodes = head.graph.nodes.filter((n) => !baseNodeIds.has(n.id) && !renamedIds.has(n.id));
+  const removedNodes = base.graph.nodes.filter((n) => !headNodeIds.has(n.id) && !renamedTo.has(n.id));
+
+  const baseEdges = base.graph.edges.filter((e) => e.linkType !== 'semantic');
+  const headEdges = head.graph.edges.filter((e) => e.linkType !== 'semantic');
+  const baseEdgesByKey = new Map(baseEdges.map((e) => [edgeKey(toHeadId(e.source), toHeadId(e.target)), e]));
+  const headEdgeKeys = new Set(headEdges.map((e) => edgeKey(e.source, e.target)));
+
+  const addedEdges = headEdges.filter((e) => !baseEdgesByKey.has(edgeKey(e.source, e.target)));
+  const removedEdges = baseEdges.filter((e) => !headEdgeKeys.has(edgeKey(toHeadId(e.source), toHeadId(e.target))));
+  const newBrokenEdges = headEdges.filter((e) => e.isBroken && !baseEdgesByKey.get(edgeKey(e.source, e.target))?.isBroken);
+
+  // Fan-in of files present in both snapshots, compared under their head IDs
+  const baseFanIn = new Map<string, number>();
+  for (const [id, count] of countFanIn(base.graph.nodes, base.graph.edges)) {
+    baseFanIn.set(toHeadId(id), count);
+  }
+  const headFanIn = countFanIn(head.graph.nodes, head.graph.edges);
+  const fanInChanges: FanInChange[] = head.graph.nodes
+    .filter((n) => !n.parentId && (baseNodeIds.has(n.id) || renamedIds.has(n.id)))
+    .map((n) => ({ nodeId: n.id, before: baseFanIn.get(n.id) ?? 0, after: headFanIn.get(n.id) ?? 0 }))
+    .filter((change) => change.before !== change.after)
+    .sort((a, b) => Math.abs(b.after - b.before) - Math.abs(a.after - a.before) || a.nodeId.localeCompare(b.nodeId));
+
+  return {
+    base: base.metadata,
+    head: head.metadata,
+    addedNodes,
+    removedNodes,
+    renamedNodes: Array.from(renamedTo, ([from, to]) => ({ from, to })),
+    addedEdges,
+    removedEdges,
+    newBrokenEdges,
+    fanInChanges,
+  };
+}
@@ -0,0 +1,17 @@
+/**
+ * Config module - project configuration file merged with environment variables and CLI flags
+ * @module @topology/core/config
+ */
+
+export {
+  loadProjectConfig,
+  resolveProjectConfig,
+  mergeProjectConfig,
+  readEnvProjectConfig,
+  toAnalyzeOptions,
+  defineConfig,
+  PROJECT_CONFIG_FILES,
+  DEFAULT_PROJECT_CONFIG,
+  type LoadedProjectConfig,
+  type ResolveProjectConfigOptions,
+} from './projectConfig.js';
@@ -0,0 +1,199 @@
+/**
+ * Project configuration loader
+ * Reads topology.config.ts/.js or .topology/config.json and merges it with environment
+ * variables and CLI flags: CLI > env > config file > defaults
+ */
+
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, resolve, extname } from 'path';
+import { pathToFileURL } from 'url';
+import { ProjectConfigSchema, type ProjectConfig } from '@topology/protocol';
+import type { AnalyzeOptions } from '../analyze.js';
+import { readVectorEnv, mergeVectorConfig, toVectorStoreConfig } from '../embedding/vectorConfig.js';
+
+/** Config file locations relative to the project root, in lookup order (the first one found is used) */
+export const PROJECT_CONFIG_FILES = [
+  'topology.config.ts',
+  'topology.config.mts',
+  'topology.config.js',
+  'topology.config.mjs',
+  join('.topology', 'config.json'),
+];
+
+/** Settings used when neither the config file, the environment nor the CLI set them */
+export const DEFAULT_PROJECT_CONFIG: ProjectConfig = {
+  git: true,
+  gitignore: true,
+  symbols: false,
+  assets: false,
+  cache: true,
+  embeddings: true,
+  similarityThreshold: 0.7,
+  history: false,
+  maxSnapshots: 50,
+  vector: {
+    provider: 'sqlite',
+    sync: { enabled: true, batchSize: 100, useCloudSearch: false },
+  },
+  watch: { port: 8765, debounceMs: 300 },
+};
+
+/** Lists that accumulate across layers instead of being replaced */
+const ADDITIVE_KEYS = ['plugins', 'exclude'] as const;
+
+export interface LoadedProjectConfig {
+  /** Validated settings */
+  config: ProjectConfig;
+  /** Absolute path of the config file, or null when none was found */
+  path: string | null;
+}
+
+export interface ResolveProjectConfigOptions {
+  /** Explicit config file (must exist); defaults to the first of PROJECT_CONFIG_FILES present */
+  configPath?: string;
+  /** Highest-precedence settings, typically CLI flags */
+  overrides?: ProjectConfig;
+  /** Environment variables (default: process.env) */
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Format Zod issues as "path: message" pairs
+ */
+function describeIssues(issues: { path: (string | number)[]; message: string }[]): string {
+  return issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+}
+
+/**
+ * Identity helper that types a topology.config.ts default export
+ */
+export function defineConfig(config: ProjectConfig): ProjectConfig {
+  return config;
+}
+
+/**
+ * Load and validate the project config file
+ * JSON files are parsed; modules are imported and their default export (an object or a
+ * function returning one) is used
+ * @param configPath - Explicit config file (must exist); defaults to the first of PROJECT_CONFIG_FILES present
+ * @throws Error when the file cannot be read or imported, or fails schema validation
+ */
+export async function loadProjectConfig(rootDir: string, configPath?: string): Promise<LoadedProjectConfig> {
+  const path = configPath
+    ? resolve(rootDir, configPath)
+    : PROJECT_CONFIG_FILES.map((file) => resolve(rootDir, file)).find((file) => existsSync(file));
+  if (!path) {
+    return { config: {}, path: null };
+  }
+
+  let raw: unknown;
+  try {
+    if (extname(path) === '.json') {
+      raw = JSON.parse(await readFile(path, 'utf-8'));
+    } else {
+      const mod = (await import(pathToFileURL(path).href)) as { default?: unknown };
+      raw = typeof mod.default === 'function' ? await (mod.default as () => unknown)() : mod.default;
+    }
+  } catch (error) {
+    const hint = /\.m?ts$/.test(path) && (error as { code?: string }).code === 'ERR_UNKNOWN_FILE_EXTENSION'
+      ? ' (TypeScript config files need Node.js with type stripping or a loader such as tsx)'
+      : '';
+    throw new Error(`Cannot read config file ${path}: ${error instanceof Error ? error.message : error}${hint}`);
+  }
+
+  const parsed = ProjectConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid config file ${path}: ${describeIssues(parsed.error.issues)}`);
+  }
+
+  return { config: parsed.data, path };
+}
+
+/**
+ * Read settings from environment variables (TOPOLOGY_PLUGINS and the vector store variables)
+ */
+export function readEnvProjectConfig(env: NodeJS.ProcessEnv = process.env): ProjectConfig {
+  const plugins = (env.TOPOLOGY_PLUGINS ?? '')
+    .split(',')
+    .map((p) => p.trim())
+    .filter(Boolean);
+
+  return {
+    plugins: plugins.length > 0 ? plugins : undefined,
+    vector: readVectorEnv(env),
+  };
+}
+
+/**
+ * Merge two config layers; values set in override win, unset values fall through to base
+ * "plugins" and "exclude" accumulate, and "vector"/"watch" are merged per setting
+ */
+export function mergeProjectConfig(base: ProjectConfig, override: ProjectConfig): ProjectConfig {
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value !== undefined) merged[key] = value;
+  }
+
+  for (const key of ADDITIVE_KEYS) {
+    if (base[key] && override[key]) {
+      merged[key] = Array.from(new Set([...base[key], ...override[key]]));
+    }
+  }
+  if (base.vector || override.vector) {
+    merged.vector = mergeVectorConfig(base.vector, override.vector);
+  }
+  if (base.watch && override.watch) {
+    merged.watch = {
+      port: override.watch.port ?? base.watch.port,
+      debounceMs: override.watch.debounceMs ?? base.watch.debounceMs,
+    };
+  }
+
+  return merged as ProjectConfig;
+}
+
+/**
+ * Resolve the effective project config: defaults, then the config file, environment variables
+ * and overrides (CLI flags), each taking precedence over the previous
+ * @throws Error when the config file or the merged settings are invalid
+ */
+export async function resolveProjectConfig(
+  rootDir: string,
+  options: ResolveProjectConfigOptions = {}
+): Promise<LoadedProjectConfig> {
+  const file = await loadProjectConfig(rootDir, options.configPath);
+
+  const config = [file.config, readEnvProjectConfig(options.env), options.overrides ?? {}].reduce(
+    mergeProjectConfig,
+    DEFAULT_PROJECT_CONFIG
+  );
+
+  const parsed = ProjectConfigSchema.safeParse(config);
+  if (!parsed.success) {
+    throw new Error(`Invalid configuration: ${describeIssues(parsed.error.issues)}`);
+  }
+
+  return { config: parsed.data, path: file.path };
+}
+
+/**
+ * Convert project settings to analyzeDirectory options
+ */
+export function toAnalyzeOptions(config: ProjectConfig): AnalyzeOptions {
+  return {
+    baseBranch: config.base,
+    skipGitDiff: config.git === false,
+    noCache: config.cache === false,
+    cacheDir: config.cacheDir,
+    noEmbeddings: config.embeddings === false,
+    similarityThreshold: config.similarityThreshold,
+    vectorStoreConfig: toVectorStoreConfig(config.vector),
+    symbols: config.symbols,
+    pythonSourceRoots: config.pythonRoots,
+    assets: config.assets,
+    include: config.include,
+    exclude: config.exclude,
+    gitignore: config.gitignore,
+  };
+}
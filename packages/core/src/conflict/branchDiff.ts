@@ -5,7 +5,7 @@
 
 import git from 'isomorphic-git';
 import fs from 'node:fs';
-import { SUPPORTED_EXTENSIONS } from '../parser/index.js';
+import { pluginRegistry } from '../plugins/index.js';
 
 /** Directories to skip during tree walking */
 const SKIP_DIRS = new Set([
@@ -19,10 +19,11 @@ const SKIP_DIRS = new Set([
 ]);
 
 /**
- * Check if a file has a supported source code extension
+ * Check if a file has an extension handled by a registered language (not asset) plugin
  */
 function isSupportedFile(filePath: string): boolean {
-  return SUPPORTED_EXTENSIONS.some((ext) => filePath.endsWith(ext));
+  const plugin = pluginRegistry.getPluginForFile(filePath);
+  return plugin !== null && !plugin.asset;
 }
 
 /**
@@ -7,6 +7,7 @@ import git from 'isomorphic-git';
 import fs from 'node:fs';
 import type { TopologyGraph, ConflictWarning, ConflictType, ConflictSeverity } from '@topology/protocol';
 import { listOtherBranches, getBranchModifiedFiles } from './branchDiff.js';
+import { pluginRegistry } from '../plugins/index.js';
 
 export interface DetectConflictsOptions {
   /** Path to the git repository */
@@ -121,7 +122,8 @@ export async function detectConflicts(
 
       // 2. Check against all current modified files for dependency/semantic conflicts
       for (const currentFile of currentModifiedFiles) {
-        const key = edgeKey(currentFile, otherFile);
+        // Files merged into one node (e.g. Go packages) are looked up by node ID
+        const key = edgeKey(pluginRegistry.getNodeId(currentFile), pluginRegistry.getNodeId(otherFile));
 
         if (dependencyEdges.has(key)) {
           warnings.push(createWarning({
@@ -12,6 +12,12 @@ export { cosineSimilarity, findSemanticEdges, type SemanticEdge } from './simila
 // Vector store abstractions
 export type { VectorStore, VectorRecord, SimilarResult, VectorRecordMetadata } from './vectorStore.js';
 export { createVectorStore } from './stores/index.js';
-export { resolveVectorConfig, type VectorConfigOverrides } from './vectorConfig.js';
+export {
+  resolveVectorConfig,
+  readVectorEnv,
+  mergeVectorConfig,
+  toVectorStoreConfig,
+  type VectorConfigOverrides,
+} from './vectorConfig.js';
 export { syncToCloud, type CloudSyncResult } from './cloudSync.js';
 export { findSemanticEdgesCloud, type CloudSearchOptions } from './cloudSearch.js';
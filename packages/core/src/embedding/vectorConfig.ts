@@ -2,7 +2,12 @@
  * Resolve VectorStoreConfig from environment variables + overrides
  */
 
-import { VectorStoreConfigSchema, type VectorStoreConfig, type VectorProvider } from '@topology/protocol';
+import {
+  VectorStoreConfigSchema,
+  type VectorStoreConfig,
+  type VectorProvider,
+  type ProjectVectorConfig,
+} from '@topology/protocol';
 
 export interface VectorConfigOverrides {
   provider?: VectorProvider;
@@ -23,53 +28,94 @@ export interface VectorConfigOverrides {
   };
 }
 
-export function resolveVectorConfig(
-  overrides?: VectorConfigOverrides,
-): VectorStoreConfig {
-  const env = process.env;
+/**
+ * Read vector store settings from TOPOLOGY_VECTOR_*, TOPOLOGY_PINECONE_* and TOPOLOGY_PGVECTOR_* variables
+ * @returns Only the settings that are set
+ */
+export function readVectorEnv(env: NodeJS.ProcessEnv = process.env): ProjectVectorConfig {
+  const flag = (value: string | undefined) => (value !== undefined ? value !== 'false' : undefined);
+
+  return {
+    provider: env.TOPOLOGY_VECTOR_PROVIDER as VectorProvider | undefined,
+    pinecone: {
+      apiKey: env.TOPOLOGY_PINECONE_API_KEY,
+      indexName: env.TOPOLOGY_PINECONE_INDEX,
+      namespace: env.TOPOLOGY_PINECONE_NAMESPACE,
+    },
+    pgvector: {
+      connectionString: env.TOPOLOGY_PGVECTOR_URL,
+      tableName: env.TOPOLOGY_PGVECTOR_TABLE,
+      namespace: env.TOPOLOGY_PGVECTOR_NAMESPACE,
+    },
+    sync: {
+      enabled: flag(env.TOPOLOGY_VECTOR_SYNC),
+      batchSize: env.TOPOLOGY_VECTOR_BATCH_SIZE ? parseInt(env.TOPOLOGY_VECTOR_BATCH_SIZE, 10) : undefined,
+      useCloudSearch: flag(env.TOPOLOGY_VECTOR_CLOUD_SEARCH),
+    },
+  };
+}
+
+/**
+ * Merge vector store settings; values set in override win, unset values fall through to base
+ */
+export function mergeVectorConfig(
+  base: ProjectVectorConfig = {},
+  override: ProjectVectorConfig = {}
+): ProjectVectorConfig {
+  // Sections without any set value are left out
+  const merge = <T extends object>(a: T | undefined, b: T | undefined): T | undefined => {
+    const merged: Record<string, unknown> = {};
+    for (const [key, value] of [...Object.entries(a ?? {}), ...Object.entries(b ?? {})]) {
+      if (value !== undefined) merged[key] = value;
+    }
+    return Object.keys(merged).length > 0 ? (merged as T) : undefined;
+  };
 
+  return {
+    provider: override.provider ?? base.provider,
+    pinecone: merge(base.pinecone, override.pinecone),
+    pgvector: merge(base.pgvector, override.pgvector),
+    sync: merge(base.sync, override.sync),
+  };
+}
+
+/**
+ * Build a validated VectorStoreConfig from (partial) vector store settings
+ * Pinecone needs an API key and index name and pgvector a connection string; otherwise they are left out
+ */
+export function toVectorStoreConfig(vector: ProjectVectorConfig = {}): VectorStoreConfig {
   const raw: Record<string, unknown> = {
-    provider: overrides?.provider ?? env.TOPOLOGY_VECTOR_PROVIDER ?? 'sqlite',
+    provider: vector.provider ?? 'sqlite',
     sync: {
-      enabled:
-        overrides?.sync?.enabled ??
-        (env.TOPOLOGY_VECTOR_SYNC !== undefined
-          ? env.TOPOLOGY_VECTOR_SYNC !== 'false'
-          : true),
-      batchSize:
-        overrides?.sync?.batchSize ??
-        (env.TOPOLOGY_VECTOR_BATCH_SIZE
-          ? parseInt(env.TOPOLOGY_VECTOR_BATCH_SIZE, 10)
-          : 100),
-      useCloudSearch:
-        overrides?.sync?.useCloudSearch ??
-        (env.TOPOLOGY_VECTOR_CLOUD_SEARCH !== undefined
-          ? env.TOPOLOGY_VECTOR_CLOUD_SEARCH !== 'false'
-          : false),
+      enabled: vector.sync?.enabled ?? true,
+      batchSize: vector.sync?.batchSize ?? 100,
+      useCloudSearch: vector.sync?.useCloudSearch ?? false,
     },
   };
 
   // Pinecone config
-  const pineconeApiKey = overrides?.pinecone?.apiKey ?? env.TOPOLOGY_PINECONE_API_KEY;
-  const pineconeIndex = overrides?.pinecone?.indexName ?? env.TOPOLOGY_PINECONE_INDEX;
-  if (pineconeApiKey && pineconeIndex) {
+  if (vector.pinecone?.apiKey && vector.pinecone.indexName) {
     raw.pinecone = {
-      apiKey: pineconeApiKey,
-      indexName: pineconeIndex,
-      namespace: overrides?.pinecone?.namespace ?? env.TOPOLOGY_PINECONE_NAMESPACE,
+      apiKey: vector.pinecone.apiKey,
+      indexName: vector.pinecone.indexName,
+      namespace: vector.pinecone.namespace,
     };
   }
 
   // pgvector config
-  const pgvectorUrl = overrides?.pgvector?.connectionString ?? env.TOPOLOGY_PGVECTOR_URL;
-  if (pgvectorUrl) {
+  if (vector.pgvector?.connectionString) {
     raw.pgvector = {
-      connectionString: pgvectorUrl,
-      tableName:
-        overrides?.pgvector?.tableName ?? env.TOPOLOGY_PGVECTOR_TABLE ?? 'topology_embeddings',
-      namespace: overrides?.pgvector?.namespace ?? env.TOPOLOGY_PGVECTOR_NAMESPACE,
+      connectionString: vector.pgvector.connectionString,
+      tableName: vector.pgvector.tableName ?? 'topology_embeddings',
+      namespace: vector.pgvector.namespace,
     };
   }
 
   return VectorStoreConfigSchema.parse(raw);
 }
+
+export function resolveVectorConfig(
+  overrides?: VectorConfigOverrides,
+): VectorStoreConfig {
+  return toVectorStoreConfig(mergeVectorConfig(readVectorEnv(), overrides));
+}
@@ -0,0 +1,145 @@
+/**
+ * Commit history access - walks commits and reads trees and blobs from the object
+ * database without touching the working tree
+ */
+
+import git, { TREE } from 'isomorphic-git';
+import fs from 'node:fs';
+import { resolve } from 'node:path';
+
+/** A commit picked for history analysis */
+export interface HistoryCommit {
+  /** Full commit hash */
+  oid: string;
+  /** First parent's hash (null for a root commit) */
+  parent: string | null;
+  /** First line of the commit message */
+  message: string;
+  /** Commit time in milliseconds */
+  timestamp: number;
+}
+
+export interface ListCommitsOptions {
+  /** Oldest commit to include (default: the root commit) */
+  from?: string;
+  /** Newest commit to include (default: HEAD) */
+  to?: string;
+  /** Keep every n-th commit, counted back from `to` (default: 1) */
+  every?: number;
+}
+
+/** Decides which tree entries readTreeFiles returns */
+export interface TreeFileFilter {
+  /** Check whether a file (path relative to the repo root) is returned */
+  accepts(filePath: string): boolean;
+  /** Check whether a directory is skipped with everything below it */
+  isIgnoredDirectory(dirPath: string): boolean;
+}
+
+/**
+ * Resolve a branch, tag, full or abbreviated hash to a commit hash
+ * @throws Error when the ref does not name a commit
+ */
+export async function resolveCommit(repoPath: string, ref: string): Promise<string> {
+  const dir = resolve(repoPath);
+
+  let oid: string;
+  try {
+    oid = await git.resolveRef({ fs, dir, ref });
+  } catch {
+    try {
+      oid = await git.expandOid({ fs, dir, oid: ref });
+    } catch {
+      throw new Error(`Unknown git ref: ${ref}`);
+    }
+  }
+
+  // Annotated tags point at a tag object: peel it to the commit
+  const { oid: commitOid } = await git.readCommit({ fs, dir, oid: await peelTag(dir, oid) });
+  return commitOid;
+}
+
+/**
+ * Follow annotated tags to the object they point at
+ */
+async function peelTag(dir: string, oid: string): Promise<string> {
+  const object = await git.readObject({ fs, dir, oid, format: 'parsed' });
+  if (object.type === 'tag') {
+    return peelTag(dir, (object.object as { object: string }).object);
+  }
+  return oid;
+}
+
+/**
+ * List commits between two refs along first-parent history, oldest first
+ * @throws Error when a ref is unknown or `from` is not a first-parent ancestor of `to`
+ */
+export async function listCommits(repoPath: string, options: ListCommitsOptions = {}): Promise<HistoryCommit[]> {
+  const dir = resolve(repoPath);
+  const every = Math.max(1, options.every ?? 1);
+  const toOid = await resolveCommit(dir, options.to ?? 'HEAD');
+  const fromOid = options.from ? await resolveCommit(dir, options.from) : null;
+
+  const commits: HistoryCommit[] = [];
+  let oid: string | null = toOid;
+  while (oid) {
+    const { commit } = await git.readCommit({ fs, dir, oid });
+    commits.push({
+      oid,
+      parent: commit.parent[0] ?? null,
+      message: (commit.message || '').split('\n')[0] || '',
+      timestamp: commit.committer.timestamp * 1000,
+    });
+    if (oid === fromOid) break;
+    oid = commit.parent[0] ?? null;
+  }
+
+  if (fromOid && commits[commits.length - 1]?.oid !== fromOid) {
+    throw new Error(`${options.from} is not an ancestor of ${options.to ?? 'HEAD'} (first-parent history)`);
+  }
+
+  // Newest first here, so `to` is always kept
+  return commits.filter((_, i) => i % every === 0).reverse();
+}
+
+/**
+ * List the files of a commit's tree
+ * @returns Map of file path (forward slashes) to blob hash
+ */
+export async function readTreeFiles(
+  repoPath: string,
+  ref: string,
+  filter?: TreeFileFilter
+): Promise<Map<string, string>> {
+  const dir = resolve(repoPath);
+  const files = new Map<string, string>();
+
+  await git.walk({
+    fs,
+    dir,
+    trees: [TREE({ ref })],
+    map: async (filepath, [entry]) => {
+      if (!entry || filepath === '.') return true;
+
+      const type = await entry.type();
+      if (type === 'tree') {
+        // null prunes the directory
+        return filter?.isIgnoredDirectory(filepath) ? null : true;
+      }
+      if (type === 'blob' && (!filter || filter.accepts(filepath))) {
+        files.set(filepath, await entry.oid());
+      }
+      return true;
+    },
+  });
+
+  return files;
+}
+
+/**
+ * Read a blob as UTF-8 text
+ */
+export async function readBlobContent(repoPath: string, blobOid: string): Promise<string> {
+  const { blob } = await git.readBlob({ fs, dir: resolve(repoPath), oid: blobOid });
+  return new TextDecoder().decode(blob);
+}
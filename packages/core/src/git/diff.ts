@@ -5,13 +5,18 @@
 
 import git from 'isomorphic-git';
 import fs from 'node:fs';
-import { resolve } from 'node:path';
+import { readFile } from 'node:fs/promises';
+import { resolve, join } from 'node:path';
 import type { DiffStatus } from '@topology/protocol';
-import { SUPPORTED_EXTENSIONS } from '../parser/index.js';
+import { pluginRegistry } from '../plugins/index.js';
+import { detectRenames, DEFAULT_RENAME_THRESHOLD } from './renames.js';
+import { readBlobContent } from './commits.js';
 
 export interface GitDiffResult {
   /** Map of file paths to their diff status */
   fileStatus: Map<string, DiffStatus>;
+  /** Renamed/moved files: current path to path on the base side */
+  renames: Map<string, string>;
   /** Base branch name that was compared against */
   baseBranch: string | null;
   /** Current branch name */
@@ -21,10 +26,12 @@ export interface GitDiffResult {
 }
 
 /**
- * Check if a file has a supported source code extension
+ * Check if a file has an extension handled by a registered language plugin
+ * @param assets - Also accept files handled by asset plugins
  */
-function isSupportedFile(filePath: string): boolean {
-  return SUPPORTED_EXTENSIONS.some((ext) => filePath.endsWith(ext));
+function isSupportedFile(filePath: string, assets: boolean): boolean {
+  const plugin = pluginRegistry.getPluginForFile(filePath);
+  return plugin !== null && (assets || !plugin.asset);
 }
 
 /**
@@ -68,6 +75,57 @@ async function detectBaseBranch(dir: string): Promise<string | null> {
   }
 }
 
+export interface GitDiffOptions {
+  /** Include asset files (stylesheets, data, images) */
+  assets?: boolean;
+  /** Pair deleted and added files with similar content as renames (default: true) */
+  detectRenames?: boolean;
+  /** Minimum content similarity (0-1) for a rename (default: 0.5) */
+  renameThreshold?: number;
+}
+
+/**
+ * Turn deleted + added pairs with similar content into RENAMED entries
+ * @param readDeleted - Reads a deleted file's content on the base side (null when unavailable)
+ * @param readAdded - Reads an added file's current content (null when unavailable)
+ */
+async function markRenames(
+  result: GitDiffResult,
+  threshold: number,
+  readDeleted: (path: string) => Promise<string | null>,
+  readAdded: (path: string) => Promise<string | null>
+): Promise<void> {
+  const deleted = new Map<string, string>();
+  const added = new Map<string, string>();
+
+  for (const [path, status] of result.fileStatus) {
+    // Unreadable files stay DELETED/ADDED
+    const content = status === 'DELETED' ? await readDeleted(path) : status === 'ADDED' ? await readAdded(path) : null;
+    if (content === null) continue;
+    (status === 'DELETED' ? deleted : added).set(path, content);
+  }
+  if (deleted.size === 0 || added.size === 0) {
+    return;
+  }
+
+  for (const [path, previousPath] of detectRenames(deleted, added, threshold)) {
+    result.fileStatus.delete(previousPath);
+    result.fileStatus.set(path, 'RENAMED');
+    result.renames.set(path, previousPath);
+  }
+}
+
+/**
+ * Read a working-tree file, or null when it cannot be read
+ */
+async function readWorkdirFile(dir: string, path: string): Promise<string | null> {
+  try {
+    return await readFile(join(dir, path), 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Get the diff status of files between current branch and base branch
  * @param repoPath - Path to the git repository
@@ -76,11 +134,15 @@ async function detectBaseBranch(dir: string): Promise<string | null> {
  */
 export async function getGitDiff(
   repoPath: string,
-  baseBranch?: string
+  baseBranch?: string,
+  options: GitDiffOptions = {}
 ): Promise<GitDiffResult> {
+  const assets = options.assets ?? false;
+  const renameThreshold = options.detectRenames === false ? null : options.renameThreshold ?? DEFAULT_RENAME_THRESHOLD;
   const dir = resolve(repoPath);
   const result: GitDiffResult = {
     fileStatus: new Map(),
+    renames: new Map(),
     baseBranch: null,
     currentBranch: null,
     hasUncommittedChanges: false,
@@ -115,7 +177,7 @@ export async function getGitDiff(
     const matrix = await git.statusMatrix({
       fs,
       dir,
-      filter: (f) => isSupportedFile(f),
+      filter: (f) => isSupportedFile(f, assets),
     });
 
     // Detect uncommitted changes
@@ -148,6 +210,15 @@ export async function getGitDiff(
         }
       }
 
+      if (renameThreshold !== null) {
+        await markRenames(
+          result,
+          renameThreshold,
+          (path) => getFileAtRef(dir, path, 'HEAD'),
+          (path) => readWorkdirFile(dir, path)
+        );
+      }
+
       return result;
     }
 
@@ -167,7 +238,7 @@ export async function getGitDiff(
       fs,
       dir,
       ref: effectiveBaseBranch,
-      filter: (f) => isSupportedFile(f),
+      filter: (f) => isSupportedFile(f, assets),
     });
 
     for (const [filepath, head, workdir] of branchMatrix) {
@@ -185,7 +256,16 @@ export async function getGitDiff(
       }
     }
 
-    console.log(`   Found ${result.fileStatus.size} changed source files`);
+    if (renameThreshold !== null) {
+      await markRenames(
+        result,
+        renameThreshold,
+        (path) => getFileAtRef(dir, path, effectiveBaseBranch),
+        (path) => readWorkdirFile(dir, path)
+      );
+    }
+
+    console.log(`   Found ${result.fileStatus.size} changed source files${result.renames.size > 0 ? ` (${result.renames.size} renamed)` : ''}`);
 
   } catch (error) {
     console.warn('⚠️  Git operation failed:', error instanceof Error ? error.message : error);
@@ -194,6 +274,62 @@ export async function getGitDiff(
   return result;
 }
 
+/**
+ * Get the diff status of files between two commit trees (no working tree involved)
+ * @param baseRef - Commit the base files belong to (recorded as the result's base branch)
+ * @param baseFiles - Base tree files: path to blob hash (see readTreeFiles)
+ * @param files - Compared tree files: path to blob hash
+ * @returns GitDiffResult with file statuses; the current branch is left null
+ */
+export async function diffTreeFiles(
+  repoPath: string,
+  baseRef: string,
+  baseFiles: Map<string, string>,
+  files: Map<string, string>,
+  options: Pick<GitDiffOptions, 'detectRenames' | 'renameThreshold'> = {}
+): Promise<GitDiffResult> {
+  const dir = resolve(repoPath);
+  const result: GitDiffResult = {
+    fileStatus: new Map(),
+    renames: new Map(),
+    baseBranch: baseRef,
+    currentBranch: null,
+    hasUncommittedChanges: false,
+  };
+
+  for (const [path, oid] of files) {
+    const baseOid = baseFiles.get(path);
+    if (baseOid === undefined) {
+      result.fileStatus.set(path, 'ADDED');
+    } else if (baseOid !== oid) {
+      result.fileStatus.set(path, 'MODIFIED');
+    }
+  }
+  for (const path of baseFiles.keys()) {
+    if (!files.has(path)) {
+      result.fileStatus.set(path, 'DELETED');
+    }
+  }
+
+  if (options.detectRenames !== false) {
+    const readBlob = async (oid: string | undefined): Promise<string | null> => {
+      try {
+        return oid ? await readBlobContent(dir, oid) : null;
+      } catch {
+        return null;
+      }
+    };
+    await markRenames(
+      result,
+      options.renameThreshold ?? DEFAULT_RENAME_THRESHOLD,
+      (path) => readBlob(baseFiles.get(path)),
+      (path) => readBlob(files.get(path))
+    );
+  }
+
+  return result;
+}
+
 /**
  * Get the content of a file at a specific git ref
  */
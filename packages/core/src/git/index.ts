@@ -5,8 +5,26 @@
 
 export {
   getGitDiff,
+  diffTreeFiles,
   getFileAtRef,
   getCurrentCommitInfo,
   type GitDiffResult,
+  type GitDiffOptions,
   type CommitInfo,
 } from './diff.js';
+
+export {
+  detectRenames,
+  computeContentSimilarity,
+  DEFAULT_RENAME_THRESHOLD,
+} from './renames.js';
+
+export {
+  listCommits,
+  resolveCommit,
+  readTreeFiles,
+  readBlobContent,
+  type HistoryCommit,
+  type ListCommitsOptions,
+  type TreeFileFilter,
+} from './commits.js';
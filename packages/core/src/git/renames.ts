@@ -0,0 +1,125 @@
+/**
+ * Rename detection - pairs deleted and added files by content similarity (like git's -M)
+ */
+
+/** Minimum similarity for a deleted + added pair to count as a rename (git's default of 50%) */
+export const DEFAULT_RENAME_THRESHOLD = 0.5;
+
+/** Above this many deleted or added files only identical contents are paired (git's diff.renameLimit) */
+const INEXACT_RENAME_LIMIT = 1000;
+
+/** Line counts and total size of a file's content */
+interface LineProfile {
+  lines: Map<string, number>;
+  size: number;
+}
+
+/**
+ * Count each line of a file's content (line endings are ignored)
+ */
+function profileLines(content: string): LineProfile {
+  const lines = new Map<string, number>();
+  for (const line of content.split(/\r?\n/)) {
+    lines.set(line, (lines.get(line) ?? 0) + 1);
+  }
+  return { lines, size: content.length };
+}
+
+/**
+ * Share of content two profiles have in common: bytes of matching lines over the larger file's size
+ * @param minScore - Skip the line comparison when the sizes alone rule this score out
+ */
+function compareProfiles(a: LineProfile, b: LineProfile, minScore = 0): number {
+  const maxSize = Math.max(a.size, b.size);
+  if (maxSize === 0) {
+    return 1;
+  }
+
+  // Files cannot share more than the smaller file's size
+  const upperBound = Math.min(a.size, b.size) / maxSize;
+  if (upperBound < minScore) {
+    return upperBound;
+  }
+
+  let shared = 0;
+  for (const [line, count] of b.lines) {
+    const matches = Math.min(count, a.lines.get(line) ?? 0);
+    shared += matches * (line.length + 1);
+  }
+  return Math.min(1, shared / maxSize);
+}
+
+/**
+ * Compute how similar two file contents are (0 = nothing in common, 1 = identical)
+ */
+export function computeContentSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  return compareProfiles(profileLines(a), profileLines(b));
+}
+
+/**
+ * Get the file name of a path
+ */
+function getFileName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+/**
+ * Pair deleted files with added files whose content is similar enough
+ * Each file is used at most once; the most similar pairs win, then pairs that keep the file name
+ * @param deleted - Deleted file paths with their content on the base side
+ * @param added - Added file paths with their current content
+ * @param threshold - Minimum similarity (0-1)
+ * @returns Map of added (new) path to deleted (previous) path
+ */
+export function detectRenames(
+  deleted: Map<string, string>,
+  added: Map<string, string>,
+  threshold: number = DEFAULT_RENAME_THRESHOLD
+): Map<string, string> {
+  const candidates: { from: string; to: string; score: number; sameName: boolean }[] = [];
+
+  if (deleted.size > INEXACT_RENAME_LIMIT || added.size > INEXACT_RENAME_LIMIT) {
+    // Too many files to compare pairwise: identical contents only
+    const byContent = new Map<string, string[]>();
+    for (const [path, content] of deleted) {
+      if (!byContent.has(content)) byContent.set(content, []);
+      byContent.get(content)!.push(path);
+    }
+    for (const [to, content] of added) {
+      for (const from of byContent.get(content) ?? []) {
+        candidates.push({ from, to, score: 1, sameName: getFileName(from) === getFileName(to) });
+      }
+    }
+  } else {
+    const deletedProfiles = Array.from(deleted, ([path, content]) => ({ path, content, profile: profileLines(content) }));
+    for (const [to, content] of added) {
+      const profile = profileLines(content);
+      for (const source of deletedProfiles) {
+        const score = source.content === content ? 1 : compareProfiles(source.profile, profile, threshold);
+        if (score >= threshold) {
+          candidates.push({ from: source.path, to, score, sameName: getFileName(source.path) === getFileName(to) });
+        }
+      }
+    }
+  }
+
+  candidates.sort(
+    (a, b) =>
+      b.score - a.score ||
+      Number(b.sameName) - Number(a.sameName) ||
+      a.to.localeCompare(b.to) ||
+      a.from.localeCompare(b.from)
+  );
+
+  const renames = new Map<string, string>();
+  const usedSources = new Set<string>();
+  for (const { from, to } of candidates) {
+    if (renames.has(to) || usedSources.has(from)) continue;
+    renames.set(to, from);
+    usedSources.add(from);
+  }
+  return renames;
+}
@@ -11,9 +11,26 @@ import type {
   DiffStatus,
   Language,
 } from '@topology/protocol';
-import type { ParsedFile } from '../parser/index.js';
-import { parseContentForExports } from '../parser/index.js';
+import type { ParsedFile, ParsedImport } from '../parser/index.js';
+import { pluginRegistry } from '../plugins/index.js';
 import { getFileAtRef, type GitDiffResult } from '../git/index.js';
+import { TsconfigPathResolver } from './tsconfigPaths.js';
+import { WorkspaceResolver } from './workspaces.js';
+import { PythonPathResolver } from './pythonPaths.js';
+import { findCycles, getFileDependencies, type FileDependency } from './cycles.js';
+import { groupParsedFiles, mergeParsedFiles } from './nodeGroups.js';
+import { simpleHash } from '../cache/contentHash.js';
+import { computeNodeMetrics } from '../metrics/index.js';
+
+export interface BuildGraphOptions {
+  /** Emit CLASS/FUNCTION/INTERFACE nodes for exported symbols and point named imports at them */
+  symbols?: boolean;
+  /** Python source roots for absolute imports, relative to the project root (default: detected) */
+  pythonSourceRoots?: string[];
+}
+
+/** Languages whose bare import specifiers are resolved like JS/TS modules (path aliases, workspace packages) */
+const JS_MODULE_LANGUAGES = new Set<Language>(['typescript', 'javascript', 'vue', 'svelte', 'astro']);
 
 /**
  * Normalize path (resolve . and ..)
@@ -42,10 +59,18 @@ function inferNodeType(filePath: string, language: Language): NodeType {
   const name = basename(filePath).toLowerCase();
   const dir = dirname(filePath).toLowerCase();
 
-  // Components (React - TSX/JSX)
+  // Stylesheets, data and images
+  if (pluginRegistry.isAssetFile(filePath)) {
+    return 'ASSET';
+  }
+
+  // Components (React - TSX/JSX, Vue/Svelte/Astro single-file components)
   if (name.endsWith('.tsx') || name.endsWith('.jsx')) {
     return 'COMPONENT';
   }
+  if (language === 'vue' || language === 'svelte' || language === 'astro') {
+    return 'COMPONENT';
+  }
   if (dir.includes('component') || dir.includes('components')) {
     return 'COMPONENT';
   }
@@ -71,63 +96,32 @@ function inferNodeType(filePath: string, language: Language): NodeType {
 }
 
 /**
- * Resolve Python import path
- * Handles relative imports like '.module' or '..package.module'
+ * Find the file a JS/TS module path refers to, probing extensions and index files
  */
-function resolvePythonImportPath(
-  fromFile: string,
-  importSource: string,
+function probeJsModulePath(
+  modulePath: string,
   nodeMap: Map<string, TopologyNode>
 ): string | null {
-  const fromDir = dirname(fromFile).replace(/\\/g, '/');
-
-  // Count leading dots for relative imports
-  let dotCount = 0;
-  for (const char of importSource) {
-    if (char === '.') {
-      dotCount++;
-    } else {
-      break;
-    }
-  }
-
-  if (dotCount === 0) {
-    // Absolute import - try to find in node map directly
-    const modulePath = importSource.replace(/\./g, '/');
-    const candidates = [
-      `${modulePath}.py`,
-      `${modulePath}/__init__.py`,
-    ];
-    for (const candidate of candidates) {
-      if (nodeMap.has(candidate)) {
-        return candidate;
-      }
-    }
-    return null;
+  // Handle ESM .js extension (maps to .ts in source)
+  let source = modulePath;
+  if (source.endsWith('.js')) {
+    source = source.slice(0, -3); // Remove .js
   }
 
-  // Relative import
-  const relativePart = importSource.slice(dotCount);
-  let basePath = fromDir;
+  // Normalize the path
+  const resolved = normalizePath(source);
 
-  // Go up directories based on dot count (. = current, .. = parent, etc.)
-  for (let i = 1; i < dotCount; i++) {
-    basePath = dirname(basePath);
+  // Try exact match first
+  if (nodeMap.has(resolved)) {
+    return resolved;
   }
 
-  // Convert module path to file path
-  const modulePath = relativePart.replace(/\./g, '/');
-  const resolved = modulePath ? normalizePath(`${basePath}/${modulePath}`) : basePath;
-
-  // Try possible file paths
-  const candidates = [
-    `${resolved}.py`,
-    `${resolved}/__init__.py`,
-  ];
-
-  for (const candidate of candidates) {
-    if (nodeMap.has(candidate)) {
-      return candidate;
+  // Try with extensions
+  const extensions = ['.ts', '.tsx', '.js', '.jsx', '/index.ts', '/index.tsx', '/index.js', '/index.jsx'];
+  for (const ext of extensions) {
+    const withExt = resolved + ext;
+    if (nodeMap.has(withExt)) {
+      return withExt;
     }
   }
 
@@ -135,164 +129,527 @@ function resolvePythonImportPath(
 }
 
 /**
- * Resolve relative import path to actual file path
+ * Resolve relative JS/TS import path to actual file path
  */
 function resolveImportPath(
   fromFile: string,
   importSource: string,
-  nodeMap: Map<string, TopologyNode>,
-  language: Language
+  nodeMap: Map<string, TopologyNode>
 ): string | null {
   const fromDir = dirname(fromFile).replace(/\\/g, '/');
+  return probeJsModulePath(`${fromDir}/${importSource}`, nodeMap);
+}
 
-  if (language === 'python') {
-    return resolvePythonImportPath(fromFile, importSource, nodeMap);
+/**
+ * Resolve a bare JS/TS import through tsconfig/jsconfig paths and baseUrl,
+ * then through workspace package names
+ */
+function resolveBareImportPath(
+  fromFile: string,
+  importSource: string,
+  nodeMap: Map<string, TopologyNode>,
+  aliasResolver: TsconfigPathResolver,
+  workspaceResolver: WorkspaceResolver
+): string | null {
+  const candidates = [
+    ...aliasResolver.getCandidates(fromFile, importSource),
+    ...workspaceResolver.getCandidates(importSource),
+  ];
+  for (const candidate of candidates) {
+    const resolved = probeJsModulePath(candidate, nodeMap);
+    if (resolved) {
+      return resolved;
+    }
   }
+  return null;
+}
 
-  // JavaScript/TypeScript import resolution
-  // Handle ESM .js extension (maps to .ts in source)
-  let source = importSource;
-  if (source.endsWith('.js')) {
-    source = source.slice(0, -3); // Remove .js
+/** How a modified file's exports changed compared to the base branch */
+interface ExportChange {
+  /**
+   * Base-branch export names that are missing now (removed/renamed) or whose shape changed;
+   * null when the plugin reports no names
+   */
+  changedSymbols: string[] | null;
+}
+
+/**
+ * Parse the base-branch versions of a merged node's member files and merge them
+ * @returns null when none of the members existed on the base branch
+ */
+async function getMergedBaseFile(
+  repoPath: string,
+  nodeId: string,
+  basePaths: string[],
+  baseBranch: string
+): Promise<ParsedFile | null> {
+  const baseFiles: ParsedFile[] = [];
+  for (const path of basePaths) {
+    const baseContent = await getFileAtRef(repoPath, path, baseBranch);
+    const plugin = pluginRegistry.getPluginForFile(path);
+    const parsed = baseContent && plugin ? plugin.parse(baseContent, path, repoPath) : null;
+    if (parsed) {
+      baseFiles.push({ ...parsed, filePath: path });
+    }
   }
+  return baseFiles.length > 0 ? mergeParsedFiles(nodeId, baseFiles) : null;
+}
 
-  // Normalize the path
-  const resolved = normalizePath(`${fromDir}/${source}`);
+/**
+ * Check if a file's exports changed compared to base branch
+ * @param basePaths - Member files on the base branch, for nodes merged from several files
+ * @param previousPath - Path on the base branch, for renamed files
+ * @returns null when the export signature is unchanged (or the file is new)
+ */
+async function getExportChange(
+  repoPath: string,
+  file: ParsedFile,
+  baseBranch: string,
+  basePaths?: string[],
+  previousPath: string = file.filePath
+): Promise<ExportChange | null> {
+  try {
+    let base: Pick<ParsedFile, 'exportedNames' | 'exportShapes'> | null;
+    if (basePaths) {
+      // Merged node: compare against the merged exports of its base members
+      const baseFile = await getMergedBaseFile(repoPath, file.filePath, basePaths, baseBranch);
+      if (!baseFile || baseFile.exportSignature === file.exportSignature) {
+        return null;
+      }
+      base = baseFile;
+    } else {
+      // Get file content at base branch
+      const baseContent = await getFileAtRef(repoPath, previousPath, baseBranch);
+      if (!baseContent) {
+        // File didn't exist in base branch = new file, exports are "new" not "changed"
+        return null;
+      }
 
-  // Try exact match first
-  if (nodeMap.has(resolved)) {
-    return resolved;
-  }
+      // Parse exports from base version via the file's language plugin
+      const baseSignature = pluginRegistry.extractExportSignature(baseContent, previousPath, repoPath);
+      if (baseSignature === file.exportSignature) {
+        return null;
+      }
 
-  // Try with extensions
-  const extensions = ['.ts', '.tsx', '.js', '.jsx', '/index.ts', '/index.tsx', '/index.js', '/index.jsx'];
-  for (const ext of extensions) {
-    const withExt = resolved + ext;
-    if (nodeMap.has(withExt)) {
-      return withExt;
+      base = pluginRegistry.extractExportDetails(baseContent, previousPath, repoPath);
     }
+
+    // Diff export names and shapes when the plugin reports them; additions alone break nothing
+    if (!base?.exportedNames || !file.exportedNames) {
+      return { changedSymbols: null };
+    }
+    const currentNames = new Set(file.exportedNames);
+    const baseShapes = base.exportShapes ?? {};
+    const currentShapes = file.exportShapes ?? {};
+    return {
+      changedSymbols: base.exportedNames.filter((name) => {
+        if (name === '*') return false;
+        if (!currentNames.has(name)) return true;
+        const baseShape = baseShapes[name];
+        const currentShape = currentShapes[name];
+        return baseShape !== undefined && currentShape !== undefined && baseShape !== currentShape;
+      }),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find which changed symbols an import actually uses
+ * Namespace-style imports (import * as ns, export * from, require(), Python module imports) use all of them;
+ * members such as Go methods ("Type.Method") count as used when their type is
+ */
+function findBrokenImportedSymbols(
+  imp: ParsedImport,
+  changedSymbols: string[],
+  language: Language
+): string[] {
+  const { defaultImport } = imp;
+  const usesWholeModule =
+    defaultImport !== null &&
+    (defaultImport.startsWith('*') || language === 'python' || (imp.kind ?? 'static') !== 'static');
+  if (usesWholeModule) {
+    return changedSymbols;
+  }
+
+  const used = new Set(imp.namedImports);
+  if (defaultImport !== null) {
+    used.add('default');
   }
+  // Only dotted members ("Type.Method") fall back to their type, so "useStates" never matches "useState"
+  return changedSymbols.filter((name) => {
+    const dot = name.indexOf('.');
+    return used.has(name) || (dot > 0 && used.has(name.slice(0, dot)));
+  });
+}
 
+/**
+ * Resolve an import to a file node ID (null for node_modules and unresolvable imports)
+ * Plugins with a custom resolver decide for themselves
+ */
+function resolveImportTarget(
+  file: ParsedFile,
+  imp: ParsedImport,
+  nodeMap: Map<string, TopologyNode>,
+  basePath: string,
+  aliasResolver: TsconfigPathResolver,
+  workspaceResolver: WorkspaceResolver
+): string | null {
+  // Merged nodes have no extension: fall back to the plugin named after the language
+  const plugin = pluginRegistry.getPluginForFile(file.filePath) ?? pluginRegistry.getPlugin(file.language);
+  if (plugin?.resolveImport) {
+    return plugin.resolveImport(file.filePath, imp.source, (filePath) => nodeMap.has(filePath), basePath);
+  }
+  if (imp.isRelative) {
+    return resolveImportPath(file.filePath, imp.source, nodeMap);
+  }
+  if (JS_MODULE_LANGUAGES.has(file.language)) {
+    // Bare specifier: path alias or workspace package, otherwise node_modules
+    return resolveBareImportPath(file.filePath, imp.source, nodeMap, aliasResolver, workspaceResolver);
+  }
+  // Skip non-relative imports (node_modules)
   return null;
 }
 
 /**
- * Check if a file's export signature changed compared to base branch
+ * Resolve an import to the file node IDs it uses, each with the import narrowed to the names used from it
+ * (a Python package import can split across submodules and the modules its __init__.py re-exports from)
  */
-async function checkExportSignatureChange(
-  repoPath: string,
-  filePath: string,
-  currentSignature: string,
-  baseBranch: string
-): Promise<boolean> {
-  try {
-    // Get file content at base branch
-    const baseContent = await getFileAtRef(repoPath, filePath, baseBranch);
-    if (!baseContent) {
-      // File didn't exist in base branch = new file, exports are "new" not "changed"
-      return false;
+function resolveImportTargets(
+  file: ParsedFile,
+  imp: ParsedImport,
+  nodeMap: Map<string, TopologyNode>,
+  fileMap: Map<string, ParsedFile>,
+  basePath: string,
+  aliasResolver: TsconfigPathResolver,
+  workspaceResolver: WorkspaceResolver,
+  pythonResolver: PythonPathResolver
+): Array<{ target: string; imp: ParsedImport }> {
+  if (file.language === 'python') {
+    return pythonResolver.resolveImport(file.filePath, imp, nodeMap, fileMap);
+  }
+  const target = resolveImportTarget(file, imp, nodeMap, basePath, aliasResolver, workspaceResolver);
+  return target ? [{ target, imp }] : [];
+}
+
+/**
+ * Get file-level dependencies as of the base branch
+ * Unchanged files keep their current edges, modified and renamed files are re-parsed at the base ref
+ * (resolved against the current file set), and added files contribute none
+ */
+async function getBaseFileDependencies(
+  parsedFiles: ParsedFile[],
+  edges: TopologyEdge[],
+  nodeMap: Map<string, TopologyNode>,
+  fileMap: Map<string, ParsedFile>,
+  basePath: string,
+  baseBranch: string,
+  baseMembers: Map<string, string[]>,
+  aliasResolver: TsconfigPathResolver,
+  workspaceResolver: WorkspaceResolver,
+  pythonResolver: PythonPathResolver
+): Promise<FileDependency[]> {
+  const dependencies = getFileDependencies(Array.from(nodeMap.values()), edges)
+    .filter((dep) => nodeMap.get(dep.source)?.status === 'UNCHANGED');
+
+  for (const file of parsedFiles) {
+    const node = nodeMap.get(file.filePath);
+    if (node?.status !== 'MODIFIED' && node?.status !== 'RENAMED') continue;
+
+    try {
+      const basePaths = baseMembers.get(file.filePath);
+      let baseFile: ParsedFile | null;
+      if (basePaths) {
+        baseFile = await getMergedBaseFile(basePath, file.filePath, basePaths, baseBranch);
+      } else {
+        // Renamed files are parsed at their old path but resolved from the new one
+        const previousPath = node.previousId ?? file.filePath;
+        const baseContent = await getFileAtRef(basePath, previousPath, baseBranch);
+        const plugin = pluginRegistry.getPluginForFile(previousPath);
+        const parsed = baseContent && plugin ? plugin.parse(baseContent, previousPath, basePath) : null;
+        baseFile = parsed ? { ...parsed, filePath: file.filePath } : null;
+      }
+
+      for (const imp of baseFile?.imports ?? []) {
+        if (imp.kind === 'mock') continue;
+        const targets = resolveImportTargets(
+          file, imp, nodeMap, fileMap, basePath, aliasResolver, workspaceResolver, pythonResolver
+        );
+        for (const { target } of targets) {
+          if (target !== file.filePath && nodeMap.has(target)) {
+            dependencies.push({ source: file.filePath, target });
+          }
+        }
+      }
+    } catch {
+      // Unreadable base version: treat the file as having no base imports
     }
+  }
 
-    // Parse exports from base version
-    const baseSignature = parseContentForExports(baseContent, filePath);
+  return dependencies;
+}
 
-    // Compare signatures
-    return baseSignature !== currentSignature;
-  } catch {
-    return false;
+/**
+ * Get the diff status of a merged node from its member files
+ * Members renamed within the node count as modified, members moved in from another node as added
+ * @param deletedPaths - Former member files deleted (or moved away) since the base branch
+ */
+function getMergedNodeStatus(
+  nodeId: string,
+  memberPaths: string[],
+  deletedPaths: string[],
+  gitDiff: GitDiffResult
+): DiffStatus {
+  const statuses = memberPaths.map((path): DiffStatus => {
+    const status = gitDiff.fileStatus.get(path) || 'UNCHANGED';
+    if (status !== 'RENAMED') return status;
+    return pluginRegistry.getNodeId(gitDiff.renames.get(path)!) === nodeId ? 'MODIFIED' : 'ADDED';
+  });
+  if (deletedPaths.length === 0 && statuses.every((status) => status === 'ADDED')) {
+    return 'ADDED';
+  }
+  if (deletedPaths.length > 0 || statuses.some((status) => status !== 'UNCHANGED')) {
+    return 'MODIFIED';
   }
+  return 'UNCHANGED';
+}
+
+/**
+ * Get the node ID of an exported symbol (e.g. "src/auth.ts#login")
+ */
+function getSymbolNodeId(filePath: string, name: string): string {
+  return `${filePath}#${name}`;
 }
 
 /**
  * Build topology graph from parsed files
  */
 export async function buildGraph(
-  parsedFiles: ParsedFile[],
+  sourceFiles: ParsedFile[],
   basePath: string,
-  gitDiff: GitDiffResult | null
+  gitDiff: GitDiffResult | null,
+  options: BuildGraphOptions = {}
 ): Promise<TopologyGraph> {
+  // Files a plugin maps to one node (e.g. Go packages) are merged first
+  const { files: parsedFiles, members } = groupParsedFiles(sourceFiles);
+
+  // Former members of merged nodes deleted (or moved to another node) since the base branch
+  const deletedMembers = new Map<string, string[]>();
+  for (const [path, status] of gitDiff?.fileStatus ?? []) {
+    const previousPath = status === 'RENAMED' ? gitDiff!.renames.get(path)! : path;
+    const nodeId = pluginRegistry.getNodeId(previousPath);
+    const removed = status === 'DELETED' || (status === 'RENAMED' && pluginRegistry.getNodeId(path) !== nodeId);
+    if (removed && nodeId !== previousPath) {
+      if (!deletedMembers.has(nodeId)) deletedMembers.set(nodeId, []);
+      deletedMembers.get(nodeId)!.push(previousPath);
+    }
+  }
+
+  // Member files of merged nodes as of the base branch (renamed members by their old path)
+  const baseMembers = new Map<string, string[]>();
+  for (const [nodeId, memberPaths] of members) {
+    const basePaths: string[] = [];
+    for (const path of memberPaths) {
+      const status = gitDiff?.fileStatus.get(path);
+      const previousPath = status === 'RENAMED' ? gitDiff!.renames.get(path)! : path;
+      if (status !== 'ADDED' && pluginRegistry.getNodeId(previousPath) === nodeId) {
+        basePaths.push(previousPath);
+      }
+    }
+    baseMembers.set(nodeId, [...basePaths, ...(deletedMembers.get(nodeId) ?? [])]);
+  }
+
   const nodes: TopologyNode[] = [];
   const edges: TopologyEdge[] = [];
   const nodeMap = new Map<string, TopologyNode>();
   const fileMap = new Map<string, ParsedFile>();
 
   // Track files with changed export signatures
-  const changedExportFiles = new Set<string>();
+  const changedExportFiles = new Map<string, ExportChange>();
+
+  // Workspace packages (pnpm/npm/yarn) for package attribution and cross-package edges
+  const workspaceResolver = await WorkspaceResolver.load(basePath);
+
+  // Python source roots (src/ layouts, pyproject.toml/setup.cfg package roots)
+  const pythonResolver = await PythonPathResolver.load(basePath, options.pythonSourceRoots);
 
   // Create nodes for each file
   for (const file of parsedFiles) {
+    const memberPaths = members.get(file.filePath);
+
     // Determine diff status
     let status: DiffStatus = 'UNCHANGED';
     if (gitDiff) {
-      status = gitDiff.fileStatus.get(file.filePath) || 'UNCHANGED';
+      status = memberPaths
+        ? getMergedNodeStatus(file.filePath, memberPaths, deletedMembers.get(file.filePath) ?? [], gitDiff)
+        : gitDiff.fileStatus.get(file.filePath) || 'UNCHANGED';
     }
+    const previousId = status === 'RENAMED' ? gitDiff?.renames.get(file.filePath) : undefined;
 
     const node: TopologyNode = {
       id: file.filePath,
-      label: basename(file.filePath),
+      label: basename(file.filePath === '.' ? basePath : file.filePath),
       type: inferNodeType(file.filePath, file.language),
       status,
       astSignature: file.exportSignature, // Use export signature instead of content hash
       language: file.language,
     };
+    const packageName = workspaceResolver.getPackageForFile(memberPaths?.[0] ?? file.filePath);
+    if (packageName) {
+      node.package = packageName;
+    }
+    if (memberPaths) {
+      node.kind = 'MODULE';
+      node.members = memberPaths;
+    }
+    if (previousId) {
+      node.previousId = previousId;
+    }
     nodes.push(node);
     nodeMap.set(file.filePath, node);
     fileMap.set(file.filePath, file);
 
-    // If file is modified, check if exports changed
-    if (status === 'MODIFIED' && gitDiff?.baseBranch) {
-      const hasExportChange = await checkExportSignatureChange(
-        basePath,
-        file.filePath,
-        file.exportSignature,
-        gitDiff.baseBranch
+    // If file is modified or renamed, check if exports changed
+    if ((status === 'MODIFIED' || status === 'RENAMED') && gitDiff?.baseBranch) {
+      const exportChange = await getExportChange(
+        basePath, file, gitDiff.baseBranch, baseMembers.get(file.filePath), previousId
       );
-      if (hasExportChange) {
-        changedExportFiles.add(file.filePath);
+      if (exportChange) {
+        changedExportFiles.set(file.filePath, exportChange);
+      }
+    }
+  }
+
+  // Symbol-level mode: one node per exported symbol, contained in its file node
+  const symbolNodeIds = new Map<string, Map<string, string>>();
+  if (options.symbols) {
+    for (const file of parsedFiles) {
+      const fileNode = nodeMap.get(file.filePath)!;
+      const ids = new Map<string, string>();
+
+      for (const symbol of file.symbols ?? []) {
+        const id = getSymbolNodeId(file.filePath, symbol.name);
+        nodes.push({
+          id,
+          label: symbol.name,
+          type: fileNode.type,
+          status: fileNode.status,
+          astSignature: simpleHash(`${symbol.kind}:${symbol.name}`),
+          language: fileNode.language,
+          ...(fileNode.package ? { package: fileNode.package } : {}),
+          kind: symbol.kind,
+          parentId: file.filePath,
+          ...(fileNode.previousId ? { previousId: getSymbolNodeId(fileNode.previousId, symbol.name) } : {}),
+        });
+        ids.set(symbol.name, id);
+      }
+
+      if (ids.size > 0) {
+        symbolNodeIds.set(file.filePath, ids);
       }
     }
   }
 
   // Create edges for import relationships
+  const aliasResolver = new TsconfigPathResolver(basePath);
+  const sourceFileMap = new Map(sourceFiles.map((f) => [f.filePath, f]));
   let edgeId = 0;
   for (const file of parsedFiles) {
-    for (const imp of file.imports) {
-      // Only process relative imports (skip node_modules)
-      if (!imp.isRelative) {
-        continue;
-      }
-
-      // Resolve the import path
-      const targetPath = resolveImportPath(file.filePath, imp.source, nodeMap, file.language);
-      if (targetPath && nodeMap.has(targetPath)) {
-        // Check if this edge is broken:
-        // - Target file's exports changed
-        // - But source file didn't change (may have stale imports)
-        const targetNode = nodeMap.get(targetPath)!;
-        const sourceNode = nodeMap.get(file.filePath)!;
-
-        const isBroken =
-          changedExportFiles.has(targetPath) &&
-          sourceNode.status === 'UNCHANGED';
-
-        // Also mark as broken if target is deleted
-        const isTargetDeleted = targetNode.status === 'DELETED';
-
-        const edge: TopologyEdge = {
-          id: `e${edgeId++}`,
-          source: file.filePath,
-          target: targetPath,
-          isBroken: isBroken || isTargetDeleted,
-          linkType: 'dependency',
-        };
-        edges.push(edge);
+    const memberFiles = (members.get(file.filePath) ?? []).map((path) => sourceFileMap.get(path)!);
+    for (const parsedImport of file.imports) {
+      const targets = resolveImportTargets(
+        file, parsedImport, nodeMap, fileMap, basePath, aliasResolver, workspaceResolver, pythonResolver
+      );
+      // Merged nodes: the member files declaring this import, so findings can point at a file
+      const importFiles = memberFiles
+        .filter((member) => member.imports.some((i) => i.source === parsedImport.source))
+        .map((member) => member.filePath);
+      for (const { target: targetPath, imp } of targets) {
+        // Skip self-imports (e.g. external test packages importing the package they test)
+        if (targetPath !== file.filePath && nodeMap.has(targetPath)) {
+          // Check if this edge is broken:
+          // - Target file removed, renamed or reshaped a symbol this import uses
+          //   (any export change when the plugin reports no export names)
+          // - But source file didn't change (may have stale imports)
+          const targetNode = nodeMap.get(targetPath)!;
+          const sourceNode = nodeMap.get(file.filePath)!;
+
+          const exportChange = changedExportFiles.get(targetPath);
+          const brokenSymbols =
+            exportChange?.changedSymbols && sourceNode.status === 'UNCHANGED'
+              ? findBrokenImportedSymbols(imp, exportChange.changedSymbols, file.language)
+              : [];
+          const isBroken =
+            !!exportChange &&
+            sourceNode.status === 'UNCHANGED' &&
+            (exportChange.changedSymbols === null || brokenSymbols.length > 0);
+
+          // Also mark as broken if target is deleted
+          const isTargetDeleted = targetNode.status === 'DELETED';
+
+          // In symbol mode, named imports of known symbols target the symbol nodes;
+          // default/namespace imports and unknown names still target the file
+          const targetSymbols = symbolNodeIds.get(targetPath);
+          const symbolTargets = targetSymbols
+            ? imp.namedImports
+                .map((name) => targetSymbols.get(name))
+                .filter((id): id is string => id !== undefined)
+            : [];
+          const needsFileEdge =
+            imp.defaultImport !== null || symbolTargets.length < imp.namedImports.length || symbolTargets.length === 0;
+
+          for (const target of needsFileEdge ? [targetPath, ...symbolTargets] : symbolTargets) {
+            const edge: TopologyEdge = {
+              id: `e${edgeId++}`,
+              source: file.filePath,
+              target,
+              isBroken: isBroken || isTargetDeleted,
+              linkType: 'dependency',
+              kind: imp.kind ?? 'static',
+            };
+            if (isBroken && brokenSymbols.length > 0) {
+              edge.brokenSymbols = brokenSymbols;
+            }
+            if (importFiles.length > 0) {
+              edge.sourceFiles = importFiles;
+            }
+            edges.push(edge);
+          }
+        }
       }
     }
   }
 
+  // Import cycles; when comparing against a base branch, flag the ones it didn't have
+  let cycles = findCycles(nodes, edges);
+  if (cycles.length > 0 && gitDiff?.baseBranch) {
+    const baseDependencies = await getBaseFileDependencies(
+      parsedFiles,
+      edges,
+      nodeMap,
+      fileMap,
+      basePath,
+      gitDiff.baseBranch,
+      baseMembers,
+      aliasResolver,
+      workspaceResolver,
+      pythonResolver
+    );
+    cycles = findCycles(nodes, edges, baseDependencies);
+  }
+
+  // Coupling and depth per file (centrality is computed on demand by getNodeMetrics)
+  const nodeMetrics = computeNodeMetrics(nodes, edges);
+  for (const node of nodes) {
+    const metrics = nodeMetrics.get(node.id);
+    if (metrics) node.metrics = metrics;
+  }
+
   return {
     nodes,
     edges,
+    cycles,
     timestamp: Date.now(),
   };
 }
@@ -0,0 +1,150 @@
+/**
+ * Import cycle detection
+ * Finds strongly connected components (Tarjan) of the file-level dependency graph
+ */
+
+import type { DependencyCycle, TopologyEdge, TopologyNode } from '@topology/protocol';
+
+/** A file-level dependency: source imports target */
+export interface FileDependency {
+  source: string;
+  target: string;
+}
+
+/**
+ * Collapse dependency edges to file level
+ * Symbol nodes map to their containing file; semantic edges, mock edges and self-imports are skipped
+ */
+export function getFileDependencies(nodes: TopologyNode[], edges: TopologyEdge[]): FileDependency[] {
+  const fileOf = new Map<string, string>();
+  for (const node of nodes) {
+    fileOf.set(node.id, node.parentId ?? node.id);
+  }
+
+  const seen = new Set<string>();
+  const dependencies: FileDependency[] = [];
+  for (const edge of edges) {
+    if (edge.linkType === 'semantic' || edge.kind === 'mock') continue;
+
+    const source = fileOf.get(edge.source) ?? edge.source;
+    const target = fileOf.get(edge.target) ?? edge.target;
+    const key = `${source}\n${target}`;
+    if (source !== target && !seen.has(key)) {
+      seen.add(key);
+      dependencies.push({ source, target });
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Find strongly connected components with more than one file
+ * Iterative Tarjan, so deep import chains cannot overflow the call stack
+ * @returns Components with sorted files, ordered by their first file
+ */
+export function findStronglyConnectedComponents(dependencies: FileDependency[]): string[][] {
+  const adjacency = new Map<string, string[]>();
+  for (const { source, target } of dependencies) {
+    if (!adjacency.has(source)) adjacency.set(source, []);
+    if (!adjacency.has(target)) adjacency.set(target, []);
+    adjacency.get(source)!.push(target);
+  }
+
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let nextIndex = 0;
+
+  for (const root of adjacency.keys()) {
+    if (index.has(root)) continue;
+
+    // Each frame is a node and the position of the next neighbor to visit
+    const frames: Array<{ node: string; next: number }> = [{ node: root, next: 0 }];
+    index.set(root, nextIndex);
+    lowLink.set(root, nextIndex);
+    nextIndex++;
+    stack.push(root);
+    onStack.add(root);
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1]!;
+      const neighbors = adjacency.get(frame.node)!;
+
+      if (frame.next < neighbors.length) {
+        const neighbor = neighbors[frame.next++]!;
+        if (!index.has(neighbor)) {
+          index.set(neighbor, nextIndex);
+          lowLink.set(neighbor, nextIndex);
+          nextIndex++;
+          stack.push(neighbor);
+          onStack.add(neighbor);
+          frames.push({ node: neighbor, next: 0 });
+        } else if (onStack.has(neighbor)) {
+          lowLink.set(frame.node, Math.min(lowLink.get(frame.node)!, index.get(neighbor)!));
+        }
+        continue;
+      }
+
+      // All neighbors visited: pop the component if this node is its root
+      frames.pop();
+      const parent = frames[frames.length - 1];
+      if (parent) {
+        lowLink.set(parent.node, Math.min(lowLink.get(parent.node)!, lowLink.get(frame.node)!));
+      }
+
+      if (lowLink.get(frame.node) === index.get(frame.node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.node);
+
+        if (component.length > 1) {
+          components.push(component.sort());
+        }
+      }
+    }
+  }
+
+  return components.sort((a, b) => a[0]!.localeCompare(b[0]!));
+}
+
+/**
+ * Find import cycles in a graph
+ * @param baseDependencies - File dependencies on the base branch; when given, cycles whose
+ *   files were not all in one base cycle are flagged as new
+ */
+export function findCycles(
+  nodes: TopologyNode[],
+  edges: TopologyEdge[],
+  baseDependencies?: FileDependency[]
+): DependencyCycle[] {
+  const components = findStronglyConnectedComponents(getFileDependencies(nodes, edges));
+  if (components.length === 0) {
+    return [];
+  }
+
+  // File → index of its base cycle
+  const baseCycleOf = new Map<string, number>();
+  if (baseDependencies) {
+    findStronglyConnectedComponents(baseDependencies).forEach((component, i) => {
+      for (const file of component) {
+        baseCycleOf.set(file, i);
+      }
+    });
+  }
+
+  return components.map((files) => {
+    const baseCycle = baseCycleOf.get(files[0]!);
+    const existedOnBase = baseCycle !== undefined && files.every((file) => baseCycleOf.get(file) === baseCycle);
+    return {
+      files,
+      isNew: !!baseDependencies && !existedOnBase,
+    };
+  });
+}
@@ -5,11 +5,30 @@
 
 export {
   buildGraph,
+  type BuildGraphOptions,
 } from './builder.js';
 
+export {
+  findCycles,
+  findStronglyConnectedComponents,
+  getFileDependencies,
+  type FileDependency,
+} from './cycles.js';
+
+export {
+  groupParsedFiles,
+  mergeParsedFiles,
+  type GroupedFiles,
+} from './nodeGroups.js';
+
 export {
   createSnapshot,
   loadExistingData,
   saveTopologyData,
+  storeSnapshots,
+  listStoredSnapshots,
+  getStoredSnapshot,
   type HistoryOptions,
+  type StoreSnapshotsOptions,
+  type SaveTopologyResult,
 } from './snapshot.js';
@@ -0,0 +1,94 @@
+/**
+ * Multi-file nodes
+ * Merges parsed files that their language plugin maps to one node (e.g. the files of a Go package)
+ */
+
+import type { ParsedFile, ParsedImport } from '../parser/index.js';
+import { pluginRegistry } from '../plugins/index.js';
+import { simpleHash } from '../cache/contentHash.js';
+
+/** Parsed files grouped into graph nodes */
+export interface GroupedFiles {
+  /** One entry per node; merged entries use the node ID as filePath */
+  files: ParsedFile[];
+  /** Member file paths of each merged node */
+  members: Map<string, string[]>;
+}
+
+/**
+ * Merge the parsed files of one node
+ * Imports of the same module are combined and exports are the union of the members' exports,
+ * so the export signature does not depend on which file declares a symbol
+ */
+export function mergeParsedFiles(nodeId: string, files: ParsedFile[]): ParsedFile {
+  const sorted = [...files].sort((a, b) => a.filePath.localeCompare(b.filePath));
+
+  const importsByKey = new Map<string, ParsedImport>();
+  for (const file of sorted) {
+    for (const imp of file.imports) {
+      const key = `${imp.source}\n${imp.kind ?? 'static'}`;
+      const existing = importsByKey.get(key);
+      if (!existing) {
+        importsByKey.set(key, { ...imp, namedImports: [...imp.namedImports] });
+        continue;
+      }
+      for (const name of imp.namedImports) {
+        if (!existing.namedImports.includes(name)) {
+          existing.namedImports.push(name);
+        }
+      }
+      existing.defaultImport ??= imp.defaultImport;
+    }
+  }
+
+  const exportShapes: Record<string, string> = Object.assign({}, ...sorted.map((f) => f.exportShapes ?? {}));
+  const hasNames = sorted.every((f) => f.exportedNames);
+  const exportedNames = hasNames ? Array.from(new Set(sorted.flatMap((f) => f.exportedNames!))) : undefined;
+  const exportSignature = exportedNames
+    ? simpleHash([
+        ...[...exportedNames].sort(),
+        ...Object.keys(exportShapes).sort().map((name) => `shape:${name}=${exportShapes[name]}`),
+      ].join(','))
+    : simpleHash(sorted.map((f) => f.exportSignature).join(','));
+
+  const symbols = sorted
+    .flatMap((f) => f.symbols ?? [])
+    .filter((symbol, i, all) => all.findIndex((s) => s.name === symbol.name) === i);
+
+  return {
+    filePath: nodeId,
+    imports: Array.from(importsByKey.values()),
+    contentHash: simpleHash(sorted.map((f) => f.contentHash).join(',')),
+    exportSignature,
+    language: sorted[0]!.language,
+    symbols,
+    ...(exportedNames ? { exportedNames } : {}),
+    exportShapes,
+  };
+}
+
+/**
+ * Group parsed files into graph nodes via their plugins' getNodeId
+ */
+export function groupParsedFiles(parsedFiles: ParsedFile[]): GroupedFiles {
+  const files: ParsedFile[] = [];
+  const groups = new Map<string, ParsedFile[]>();
+
+  for (const file of parsedFiles) {
+    const nodeId = pluginRegistry.getNodeId(file.filePath);
+    if (nodeId === file.filePath) {
+      files.push(file);
+      continue;
+    }
+    if (!groups.has(nodeId)) groups.set(nodeId, []);
+    groups.get(nodeId)!.push(file);
+  }
+
+  const members = new Map<string, string[]>();
+  for (const [nodeId, groupFiles] of groups) {
+    files.push(mergeParsedFiles(nodeId, groupFiles));
+    members.set(nodeId, groupFiles.map((f) => f.filePath).sort());
+  }
+
+  return { files, members };
+}
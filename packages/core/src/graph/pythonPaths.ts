@@ -0,0 +1,268 @@
+/**
+ * Python import resolution
+ * Resolves absolute imports against the project's source roots (configured, or detected from
+ * pyproject.toml/setup.cfg and src/ layouts) and follows package imports through
+ * __init__.py re-exports to the submodule that defines each name
+ */
+
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, posix } from 'path';
+import { glob } from 'glob';
+import type { TopologyNode } from '@topology/protocol';
+import type { ParsedFile, ParsedImport } from '../parser/index.js';
+
+/** Project files that can declare package roots */
+const PROJECT_FILE_PATTERNS = ['**/pyproject.toml', '**/setup.cfg'];
+
+/** Directories never searched for project files */
+const IGNORED_DIRS = ['**/node_modules/**', '**/.venv/**', '**/venv/**', '**/site-packages/**', '**/.git/**'];
+
+/** Maximum number of __init__.py re-export hops followed for one name */
+const MAX_REEXPORT_DEPTH = 5;
+
+/** An import resolved to one file, narrowed to the names it uses from that file */
+export interface ResolvedPythonImport {
+  target: string;
+  imp: ParsedImport;
+}
+
+/**
+ * Read the package root directories declared in pyproject.toml or setup.cfg content
+ * (setuptools `where`/`package-dir`, Poetry `from`, Hatch `packages`, PDM `package-dir`)
+ * @returns Directories relative to the project file's directory
+ */
+export function parsePythonPackageRoots(fileName: string, content: string): string[] {
+  const roots: string[] = [];
+  const quoted = (text: string) => Array.from(text.matchAll(/["']([^"']+)["']/g), (m) => m[1]!);
+
+  if (fileName.endsWith('setup.cfg')) {
+    // [options] package_dir = =src (possibly on the next line) / [options.packages.find] where = src
+    const packageDir = /^\s*package_dir\s*=\s*(?:\n\s*)?=\s*(\S+)/m.exec(content);
+    if (packageDir) roots.push(packageDir[1]!);
+    const where = /^\s*where\s*=\s*(\S+)/m.exec(content);
+    if (where) roots.push(where[1]!);
+  } else {
+    // [tool.setuptools.packages.find] where = ["src"]
+    const where = /^\s*where\s*=\s*(\[[^\]]*\]|"[^"]*")/m.exec(content);
+    if (where) roots.push(...quoted(where[1]!));
+    // [tool.setuptools] package-dir = {"" = "src"}
+    const setuptoolsDir = /^\s*package-dir\s*=\s*\{[^}]*""\s*=\s*"([^"]+)"/m.exec(content);
+    if (setuptoolsDir) roots.push(setuptoolsDir[1]!);
+    // [tool.pdm.build] package-dir = "src"
+    const pdmDir = /^\s*package-dir\s*=\s*"([^"]+)"/m.exec(content);
+    if (pdmDir) roots.push(pdmDir[1]!);
+    // [tool.poetry] packages = [{ include = "pkg", from = "src" }]
+    roots.push(...Array.from(content.matchAll(/\bfrom\s*=\s*"([^"]+)"/g), (m) => m[1]!));
+    // [tool.hatch.build.targets.wheel] packages = ["src/pkg"]
+    const packages = /^\s*packages\s*=\s*(\[[^\]]*\])/m.exec(content);
+    if (packages) roots.push(...quoted(packages[1]!).filter((p) => p.includes('/')).map((p) => posix.dirname(p)));
+  }
+
+  return Array.from(new Set(roots.map((root) => posix.normalize(root.replace(/\/$/, '')))));
+}
+
+/**
+ * Resolves Python imports to module files
+ */
+export class PythonPathResolver {
+  /** Source roots relative to the project root, in lookup order */
+  private readonly sourceRoots: string[];
+
+  private constructor(sourceRoots: string[]) {
+    this.sourceRoots = sourceRoots;
+  }
+
+  /**
+   * Create a resolver for a project root
+   * @param sourceRoots - Configured source roots (default: package roots declared in pyproject.toml/setup.cfg,
+   *   the directories of those files, src/ and the project root)
+   */
+  static async load(rootDir: string, sourceRoots?: string[]): Promise<PythonPathResolver> {
+    if (sourceRoots && sourceRoots.length > 0) {
+      return new PythonPathResolver(sourceRoots.map((root) => posix.normalize(root.replace(/\\/g, '/'))));
+    }
+
+    const roots: string[] = [];
+    let projectFiles: string[] = [];
+    try {
+      projectFiles = await glob(PROJECT_FILE_PATTERNS, { cwd: rootDir, ignore: IGNORED_DIRS, posix: true });
+    } catch {
+      // Unreadable tree: fall back to the conventional roots
+    }
+
+    for (const projectFile of projectFiles.sort()) {
+      const dir = posix.dirname(projectFile);
+      try {
+        const content = await readFile(join(rootDir, projectFile), 'utf-8');
+        roots.push(...parsePythonPackageRoots(projectFile, content).map((root) => posix.join(dir, root)));
+      } catch {
+        // Unreadable project file: its directory is still a root
+      }
+      roots.push(dir);
+    }
+
+    if (existsSync(join(rootDir, 'src'))) {
+      roots.push('src');
+    }
+    roots.push('.');
+
+    return new PythonPathResolver(Array.from(new Set(roots)));
+  }
+
+  /**
+   * Get the source roots absolute imports are resolved against
+   */
+  getSourceRoots(): string[] {
+    return [...this.sourceRoots];
+  }
+
+  /**
+   * Get the module paths (without extension) an import source may refer to, in lookup order
+   */
+  private getModuleBases(fromFile: string, source: string): string[] {
+    const dots = /^\.*/.exec(source)![0].length;
+    const modulePath = source.slice(dots).replace(/\./g, '/');
+
+    if (dots > 0) {
+      // Relative import: "." is the importing file's package, each extra dot goes up one level
+      let dir = posix.dirname(fromFile);
+      for (let i = 1; i < dots; i++) {
+        dir = posix.dirname(dir);
+      }
+      return [modulePath ? posix.join(dir, modulePath) : dir];
+    }
+
+    // Absolute import: source roots, then the importing script's own directory
+    return [...this.sourceRoots, posix.dirname(fromFile)].map((root) => posix.join(root, modulePath));
+  }
+
+  /**
+   * Find the file of a module path (module.py or package/__init__.py)
+   */
+  private findModuleFile(base: string, nodeMap: Map<string, TopologyNode>): string | null {
+    for (const candidate of [`${base}.py`, posix.join(base, '__init__.py')]) {
+      if (nodeMap.has(candidate)) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Resolve an import source to a module file
+   */
+  resolve(fromFile: string, source: string, nodeMap: Map<string, TopologyNode>): string | null {
+    for (const base of this.getModuleBases(fromFile, source)) {
+      const file = this.findModuleFile(base, nodeMap);
+      if (file) {
+        return file;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Resolve an import to the files it uses
+   * `from package import name` targets the submodule `name` when there is one, and otherwise
+   * follows the package's __init__.py re-exports to the module that defines the name
+   * (namespace packages without __init__.py only provide submodules)
+   */
+  resolveImport(
+    fromFile: string,
+    imp: ParsedImport,
+    nodeMap: Map<string, TopologyNode>,
+    fileMap: Map<string, ParsedFile>
+  ): ResolvedPythonImport[] {
+    return this.resolveImportAt(fromFile, imp, nodeMap, fileMap, 0);
+  }
+
+  private resolveImportAt(
+    fromFile: string,
+    imp: ParsedImport,
+    nodeMap: Map<string, TopologyNode>,
+    fileMap: Map<string, ParsedFile>,
+    depth: number
+  ): ResolvedPythonImport[] {
+    const bases = this.getModuleBases(fromFile, imp.source);
+    let target: string | null = null;
+    let packageDir: string | null = null;
+
+    for (const base of bases) {
+      target = this.findModuleFile(base, nodeMap);
+      if (target) {
+        packageDir = posix.basename(target) === '__init__.py' ? base : null;
+        break;
+      }
+    }
+    if (!target) {
+      packageDir =
+        bases.find((base) => imp.namedImports.some((name) => this.findModuleFile(posix.join(base, name), nodeMap))) ??
+        null;
+    }
+
+    if (packageDir === null || imp.namedImports.length === 0) {
+      return target ? [{ target, imp }] : [];
+    }
+
+    const resolved: ResolvedPythonImport[] = [];
+    const namesByTarget = new Map<string, string[]>();
+    for (const name of imp.namedImports) {
+      // Submodule import: uses the whole module
+      const submodule = this.findModuleFile(posix.join(packageDir, name), nodeMap);
+      if (submodule) {
+        resolved.push({ target: submodule, imp: { ...imp, namedImports: [], defaultImport: name } });
+        continue;
+      }
+      if (!target) continue;
+
+      const definingFile = this.findDefiningFile(target, name, nodeMap, fileMap, depth);
+      if (!namesByTarget.has(definingFile)) namesByTarget.set(definingFile, []);
+      namesByTarget.get(definingFile)!.push(name);
+    }
+
+    for (const [file, names] of namesByTarget) {
+      resolved.push({ target: file, imp: { ...imp, namedImports: names } });
+    }
+    return resolved;
+  }
+
+  /**
+   * Follow a package's __init__.py re-exports (`from .models import User`, `from .models import *`)
+   * to the module that defines a name
+   * @returns The defining module, or the package's __init__.py if it defines the name itself
+   */
+  private findDefiningFile(
+    initFile: string,
+    name: string,
+    nodeMap: Map<string, TopologyNode>,
+    fileMap: Map<string, ParsedFile>,
+    depth: number
+  ): string {
+    const parsed = fileMap.get(initFile);
+    if (!parsed || depth >= MAX_REEXPORT_DEPTH) {
+      return initFile;
+    }
+
+    for (const reexport of parsed.imports) {
+      if (reexport.namedImports.includes(name)) {
+        const [resolved] = this.resolveImportAt(
+          initFile,
+          { ...reexport, namedImports: [name] },
+          nodeMap,
+          fileMap,
+          depth + 1
+        );
+        if (resolved) return resolved.target;
+      } else if (reexport.defaultImport === '*') {
+        const source = this.resolve(initFile, reexport.source, nodeMap);
+        if (source && source !== initFile && fileMap.get(source)?.exportedNames?.includes(name)) {
+          return posix.basename(source) === '__init__.py'
+            ? this.findDefiningFile(source, name, nodeMap, fileMap, depth + 1)
+            : source;
+        }
+      }
+    }
+    return initFile;
+  }
+}
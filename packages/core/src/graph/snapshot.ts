@@ -1,5 +1,7 @@
 /**
  * Snapshot management - handle topology data persistence and history
+ * The data file holds the latest snapshot; history mode keeps every snapshot in the
+ * cache DB's snapshot store
  */
 
 import { readFile, writeFile } from 'fs/promises';
@@ -8,16 +10,38 @@ import type {
   TopologySnapshot,
   TopologyDataFile,
   SnapshotMetadata,
+  StoredSnapshotMetadata,
 } from '@topology/protocol';
-import { getCurrentCommitInfo } from '../git/index.js';
+import { getCurrentCommitInfo, type CommitInfo } from '../git/index.js';
+import { CacheDb } from '../cache/db.js';
+import { SnapshotStore } from '../cache/snapshotStore.js';
+import { getNodeMetrics, summarizeMetrics } from '../metrics/index.js';
 
 export interface HistoryOptions {
-  /** Enable history mode (append to existing snapshots) */
+  /** Enable history mode (add the snapshot to the snapshot store) */
   history?: boolean;
   /** Maximum number of snapshots to keep */
   maxSnapshots?: number;
   /** Custom label for this snapshot */
   label?: string;
+  /** Directory of the cache DB holding the snapshot store (default: <repo>/.topology/) */
+  cacheDir?: string;
+}
+
+export interface StoreSnapshotsOptions {
+  /** Maximum number of snapshots to keep (default: 50) */
+  maxSnapshots?: number;
+  /** Directory of the cache DB (default: <repo>/.topology/) */
+  cacheDir?: string;
+  /** Data file whose snapshots are imported when the store is still empty (history used to live there) */
+  legacyDataPath?: string;
+}
+
+export interface SaveTopologyResult {
+  /** Contents written to the data file */
+  dataFile: TopologyDataFile;
+  /** Number of snapshots in the history (1 outside history mode) */
+  snapshotCount: number;
 }
 
 /**
@@ -78,14 +102,16 @@ function migrateToV2(data: unknown): TopologyDataFile {
 
 /**
  * Create a snapshot from a graph with metadata
+ * @param commit - Commit the graph was built from (default: the current HEAD)
  */
 export async function createSnapshot(
   graph: TopologyGraph,
   repoPath: string,
-  label?: string
+  label?: string,
+  commit?: CommitInfo
 ): Promise<TopologySnapshot> {
   // Get git commit info
-  const commitInfo = await getCurrentCommitInfo(repoPath);
+  const commitInfo = commit ?? await getCurrentCommitInfo(repoPath);
 
   const metadata: SnapshotMetadata = {
     timestamp: graph.timestamp,
@@ -97,6 +123,7 @@ export async function createSnapshot(
     edgeCount: graph.edges.length,
     changedCount: graph.nodes.filter((n) => n.status !== 'UNCHANGED').length,
     brokenCount: graph.edges.filter((e) => e.isBroken).length,
+    metrics: summarizeMetrics(Array.from(getNodeMetrics(graph).values())),
   };
 
   return {
@@ -105,58 +132,104 @@ export async function createSnapshot(
   };
 }
 
+/**
+ * Add snapshots to the snapshot store and drop the oldest ones beyond maxSnapshots
+ * @returns Number of stored snapshots
+ */
+export async function storeSnapshots(
+  repoPath: string,
+  snapshots: TopologySnapshot[],
+  options: StoreSnapshotsOptions = {}
+): Promise<number> {
+  const cacheDb = new CacheDb(repoPath, options.cacheDir);
+  cacheDb.open();
+
+  try {
+    const store = new SnapshotStore(cacheDb);
+
+    if (options.legacyDataPath && store.count() === 0) {
+      const legacy = await loadExistingData(options.legacyDataPath);
+      // A single snapshot is the output of a run without history
+      if (legacy && legacy.snapshots.length > 1) {
+        store.addBatch(legacy.snapshots);
+        console.log(`📦 Imported ${legacy.snapshots.length} snapshots from ${options.legacyDataPath}`);
+      }
+    }
+
+    store.addBatch(snapshots);
+    store.prune(options.maxSnapshots ?? 50);
+    return store.count();
+  } finally {
+    cacheDb.close();
+  }
+}
+
+/**
+ * List the snapshots in the snapshot store, oldest first
+ */
+export function listStoredSnapshots(repoPath: string, cacheDir?: string): StoredSnapshotMetadata[] {
+  const cacheDb = new CacheDb(repoPath, cacheDir);
+  cacheDb.open();
+
+  try {
+    return new SnapshotStore(cacheDb).list();
+  } finally {
+    cacheDb.close();
+  }
+}
+
+/**
+ * Get a stored snapshot by ID, label or commit hash ("latest" for the newest snapshot)
+ * When several snapshots match, the newest one wins
+ */
+export function getStoredSnapshot(repoPath: string, ref: string, cacheDir?: string): TopologySnapshot | null {
+  const cacheDb = new CacheDb(repoPath, cacheDir);
+  cacheDb.open();
+
+  try {
+    const store = new SnapshotStore(cacheDb);
+    const matches = (meta: StoredSnapshotMetadata) =>
+      ref === 'latest' ||
+      String(meta.id) === ref ||
+      meta.label === ref ||
+      // Stored hashes are abbreviated: accept longer and shorter forms
+      (meta.commitHash !== null && ref.length >= 4 && (ref.startsWith(meta.commitHash) || meta.commitHash.startsWith(ref)));
+
+    const found = store.list().reverse().find(matches);
+    return found ? store.get(found.id) : null;
+  } finally {
+    cacheDb.close();
+  }
+}
+
 /**
  * Save topology data with optional history management
+ * The data file always holds just the new snapshot; in history mode it is also added to
+ * the snapshot store (importing the data file's earlier snapshots on first use)
  */
 export async function saveTopologyData(
   outputPath: string,
   graph: TopologyGraph,
   repoPath: string,
   options: HistoryOptions = {}
-): Promise<TopologyDataFile> {
-  const { history = false, maxSnapshots = 50, label } = options;
+): Promise<SaveTopologyResult> {
+  const { history = false, maxSnapshots = 50, label, cacheDir } = options;
 
   // Create new snapshot
   const snapshot = await createSnapshot(graph, repoPath, label);
 
-  let dataFile: TopologyDataFile;
+  const snapshotCount = history
+    ? await storeSnapshots(repoPath, [snapshot], { maxSnapshots, cacheDir, legacyDataPath: outputPath })
+    : 1;
 
-  if (history) {
-    // Load existing data or create new
-    const existing = await loadExistingData(outputPath);
-
-    if (existing) {
-      // Append to existing snapshots
-      existing.snapshots.push(snapshot);
-      existing.currentIndex = existing.snapshots.length - 1;
-
-      // Trim to max snapshots (keep most recent)
-      if (existing.snapshots.length > maxSnapshots) {
-        const excess = existing.snapshots.length - maxSnapshots;
-        existing.snapshots.splice(0, excess);
-        existing.currentIndex = existing.snapshots.length - 1;
-      }
-
-      dataFile = existing;
-    } else {
-      // Create new file with single snapshot
-      dataFile = {
-        version: 2,
-        currentIndex: 0,
-        snapshots: [snapshot],
-      };
-    }
-  } else {
-    // Non-history mode: single snapshot (overwrite)
-    dataFile = {
-      version: 2,
-      currentIndex: 0,
-      snapshots: [snapshot],
-    };
-  }
+  const dataFile: TopologyDataFile = {
+    version: 2,
+    currentIndex: 0,
+    snapshots: [snapshot],
+  };
 
   // Write to file
   await writeFile(outputPath, JSON.stringify(dataFile, null, 2), 'utf-8');
 
-  return dataFile;
+  return { dataFile, snapshotCount };
 }
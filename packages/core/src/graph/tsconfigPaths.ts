@@ -0,0 +1,277 @@
+/**
+ * tsconfig.json / jsconfig.json path alias resolution
+ * Honors compilerOptions.baseUrl, compilerOptions.paths and "extends" chains,
+ * using the nearest config file for each importing file (per package)
+ */
+
+import { existsSync, readFileSync, statSync } from 'fs';
+import { createRequire } from 'module';
+import { dirname, resolve, relative, isAbsolute } from 'path';
+
+/** Config file names checked in each directory, in priority order */
+const CONFIG_FILE_NAMES = ['tsconfig.json', 'jsconfig.json'];
+
+/** Effective alias settings after following the extends chain */
+interface ResolvedTsconfig {
+  /** Absolute baseUrl directory (if configured anywhere in the chain) */
+  baseUrl: string | null;
+  /** compilerOptions.paths mapping */
+  paths: Record<string, string[]> | null;
+  /** Directory of the config that defined `paths` (used when there is no baseUrl) */
+  pathsConfigDir: string | null;
+}
+
+interface RawTsconfig {
+  extends?: string | string[];
+  compilerOptions?: {
+    baseUrl?: string;
+    paths?: Record<string, string[]>;
+  };
+}
+
+/**
+ * Parse JSON with comments and trailing commas (tsconfig flavour)
+ */
+export function parseJsonc(text: string): unknown {
+  let out = '';
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charAt(i);
+    const next = text.charAt(i + 1);
+
+    if (inString) {
+      out += ch;
+      if (ch === '\\') {
+        out += next;
+        i++;
+      } else if (ch === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+      out += ch;
+    } else if (ch === '/' && next === '/') {
+      // Line comment: skip to end of line
+      while (i < text.length && text.charAt(i) !== '\n') i++;
+      out += '\n';
+    } else if (ch === '/' && next === '*') {
+      // Block comment: skip to closing */
+      i += 2;
+      while (i < text.length && !(text.charAt(i) === '*' && text.charAt(i + 1) === '/')) i++;
+      i++;
+    } else {
+      out += ch;
+    }
+  }
+
+  // Remove trailing commas before } or ]
+  return JSON.parse(out.replace(/,(\s*[}\]])/g, '$1'));
+}
+
+/**
+ * Check that a path exists and is a regular file
+ */
+function isFile(path: string): boolean {
+  try {
+    return existsSync(path) && statSync(path).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Match a specifier against tsconfig `paths` patterns
+ * Exact patterns win; otherwise the wildcard pattern with the longest prefix is used
+ */
+function matchPathPattern(
+  paths: Record<string, string[]>,
+  specifier: string
+): { targets: string[]; wildcard: string } | null {
+  const exact = paths[specifier];
+  if (exact) {
+    return { targets: exact, wildcard: '' };
+  }
+
+  let best: { targets: string[]; wildcard: string; prefixLength: number } | null = null;
+
+  for (const [pattern, targets] of Object.entries(paths)) {
+    const starIndex = pattern.indexOf('*');
+    if (starIndex === -1) continue;
+
+    const prefix = pattern.slice(0, starIndex);
+    const suffix = pattern.slice(starIndex + 1);
+    if (
+      specifier.length >= prefix.length + suffix.length &&
+      specifier.startsWith(prefix) &&
+      specifier.endsWith(suffix) &&
+      (!best || prefix.length > best.prefixLength)
+    ) {
+      best = {
+        targets,
+        wildcard: specifier.slice(prefix.length, specifier.length - suffix.length),
+        prefixLength: prefix.length,
+      };
+    }
+  }
+
+  return best ? { targets: best.targets, wildcard: best.wildcard } : null;
+}
+
+/**
+ * Resolves bare import specifiers through tsconfig/jsconfig path aliases
+ */
+export class TsconfigPathResolver {
+  private readonly rootDir: string;
+  /** Directory → effective config (null when no config applies) */
+  private readonly dirCache = new Map<string, ResolvedTsconfig | null>();
+  /** Config file path → effective config */
+  private readonly configCache = new Map<string, ResolvedTsconfig>();
+
+  constructor(rootDir: string) {
+    this.rootDir = resolve(rootDir);
+  }
+
+  /**
+   * Get candidate module paths (relative to rootDir, extension not probed) for a bare specifier
+   * @param fromFile - Importing file, relative to rootDir
+   * @param specifier - Import specifier (e.g. "@/components/Foo")
+   */
+  getCandidates(fromFile: string, specifier: string): string[] {
+    const config = this.findConfigForDir(dirname(resolve(this.rootDir, fromFile)));
+    if (!config) {
+      return [];
+    }
+
+    const absoluteCandidates: string[] = [];
+
+    if (config.paths) {
+      const pathsBase = config.baseUrl ?? config.pathsConfigDir;
+      const match = matchPathPattern(config.paths, specifier);
+      if (match && pathsBase) {
+        for (const target of match.targets) {
+          absoluteCandidates.push(resolve(pathsBase, target.replace('*', match.wildcard)));
+        }
+      }
+    }
+
+    if (config.baseUrl) {
+      absoluteCandidates.push(resolve(config.baseUrl, specifier));
+    }
+
+    // Only keep candidates inside the analyzed directory
+    const candidates: string[] = [];
+    for (const candidate of absoluteCandidates) {
+      const rel = relative(this.rootDir, candidate).replace(/\\/g, '/');
+      if (rel && !rel.startsWith('..') && !isAbsolute(rel)) {
+        candidates.push(rel);
+      }
+    }
+    return candidates;
+  }
+
+  /**
+   * Find the effective config for a directory by walking up to rootDir
+   */
+  private findConfigForDir(dir: string): ResolvedTsconfig | null {
+    const cached = this.dirCache.get(dir);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    let config: ResolvedTsconfig | null = null;
+    const configFile = CONFIG_FILE_NAMES.map((name) => resolve(dir, name)).find(isFile);
+
+    if (configFile) {
+      config = this.loadConfig(configFile, new Set());
+    } else {
+      const parent = dirname(dir);
+      const relToRoot = relative(this.rootDir, dir);
+      // Stop at rootDir (or filesystem root)
+      if (parent !== dir && relToRoot !== '' && !relToRoot.startsWith('..')) {
+        config = this.findConfigForDir(parent);
+      }
+    }
+
+    this.dirCache.set(dir, config);
+    return config;
+  }
+
+  /**
+   * Load a config file and merge its extends chain
+   * @param seen - Config files already on the chain (cycle guard)
+   */
+  private loadConfig(configPath: string, seen: Set<string>): ResolvedTsconfig {
+    const cached = this.configCache.get(configPath);
+    if (cached) {
+      return cached;
+    }
+
+    let result: ResolvedTsconfig = { baseUrl: null, paths: null, pathsConfigDir: null };
+    seen.add(configPath);
+
+    let raw: RawTsconfig;
+    try {
+      raw = parseJsonc(readFileSync(configPath, 'utf-8')) as RawTsconfig;
+    } catch {
+      // Unreadable or malformed config: behave as if no aliases are configured
+      this.configCache.set(configPath, result);
+      return result;
+    }
+
+    // Later entries in an extends array override earlier ones
+    const extendsList = raw.extends === undefined
+      ? []
+      : Array.isArray(raw.extends) ? raw.extends : [raw.extends];
+
+    for (const spec of extendsList) {
+      const parentPath = resolveExtends(configPath, spec);
+      if (!parentPath || seen.has(parentPath)) continue;
+
+      const parent = this.loadConfig(parentPath, seen);
+      result = {
+        baseUrl: parent.baseUrl ?? result.baseUrl,
+        paths: parent.paths ?? result.paths,
+        pathsConfigDir: parent.paths ? parent.pathsConfigDir : result.pathsConfigDir,
+      };
+    }
+
+    // Own compilerOptions override inherited ones (relative to this config's directory)
+    const configDir = dirname(configPath);
+    const options = raw.compilerOptions ?? {};
+    if (typeof options.baseUrl === 'string') {
+      result = { ...result, baseUrl: resolve(configDir, options.baseUrl) };
+    }
+    if (options.paths && typeof options.paths === 'object') {
+      result = { ...result, paths: options.paths, pathsConfigDir: configDir };
+    }
+
+    this.configCache.set(configPath, result);
+    return result;
+  }
+}
+
+/**
+ * Resolve an "extends" specifier (relative path or package) to a config file path
+ */
+function resolveExtends(fromConfig: string, spec: string): string | null {
+  if (spec.startsWith('.') || isAbsolute(spec)) {
+    const base = resolve(dirname(fromConfig), spec);
+    const candidates = [base, `${base}.json`, resolve(base, 'tsconfig.json')];
+    return candidates.find(isFile) ?? null;
+  }
+
+  // Package config, e.g. "@tsconfig/node20/tsconfig.json" or "@repo/tsconfig/base"
+  const require = createRequire(fromConfig);
+  for (const candidate of [spec, `${spec}.json`, `${spec}/tsconfig.json`]) {
+    try {
+      return require.resolve(candidate);
+    } catch {
+      // Try next form
+    }
+  }
+  return null;
+}
@@ -0,0 +1,303 @@
+/**
+ * Monorepo workspace package resolution
+ * Reads pnpm-workspace.yaml and package.json "workspaces" (npm/yarn), then each
+ * package's name, exports and main fields so that bare imports of workspace
+ * packages resolve to source files inside the analyzed directory
+ */
+
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, posix } from 'path';
+import { glob } from 'glob';
+
+/** Subset of package.json fields used for resolution */
+interface PackageManifest {
+  name?: string;
+  main?: string;
+  module?: string;
+  types?: string;
+  typings?: string;
+  source?: string;
+  exports?: unknown;
+  workspaces?: string[] | { packages?: string[] };
+}
+
+/** A package discovered in the workspace */
+export interface WorkspacePackage {
+  /** Package name from package.json */
+  name: string;
+  /** Package directory relative to the analyzed root ('' for the root package) */
+  dir: string;
+  manifest: PackageManifest;
+}
+
+/** Export conditions in preference order (source-like entries first) */
+const CONDITION_ORDER = ['source', 'types', 'typings', 'import', 'module', 'default', 'require', 'node'];
+
+/** Build output directories mapped back to src/ when looking for source files */
+const OUTPUT_DIRS = new Set(['dist', 'build', 'out', 'lib', 'esm', 'cjs']);
+
+/** Compiled/declaration extensions stripped before probing source extensions */
+const OUTPUT_EXTENSION_PATTERN = /\.(d\.[mc]?ts|[mc]?js)$/;
+
+/**
+ * Read the "packages" list from pnpm-workspace.yaml
+ * Supports block sequences and inline [a, b] lists
+ */
+export function parsePnpmWorkspacePackages(text: string): string[] {
+  const lines = text.split(/\r?\n/);
+  const packages: string[] = [];
+  const unquote = (value: string) => value.trim().replace(/^['"]|['"]$/g, '');
+
+  const start = lines.findIndex((line) => /^packages\s*:/.test(line));
+  if (start === -1) {
+    return packages;
+  }
+
+  const inline = lines[start]!.replace(/^packages\s*:/, '').replace(/#.*$/, '').trim();
+  if (inline.startsWith('[')) {
+    return inline
+      .replace(/^\[|\]$/g, '')
+      .split(',')
+      .map(unquote)
+      .filter(Boolean);
+  }
+
+  for (const line of lines.slice(start + 1)) {
+    const withoutComment = line.replace(/\s#.*$/, '');
+    if (withoutComment.trim() === '') continue;
+
+    const item = withoutComment.match(/^\s*-\s*(.+)$/);
+    if (!item) break; // Next top-level key
+    packages.push(unquote(item[1]!));
+  }
+
+  return packages;
+}
+
+/**
+ * Read and parse a package.json, returning null when missing or malformed
+ */
+async function readManifest(path: string): Promise<PackageManifest | null> {
+  try {
+    return JSON.parse(await readFile(path, 'utf-8')) as PackageManifest;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Split a bare specifier into package name and subpath ("." or "./sub/path")
+ */
+function splitSpecifier(specifier: string): { name: string; subpath: string } {
+  const parts = specifier.split('/');
+  const nameLength = specifier.startsWith('@') ? 2 : 1;
+  const rest = parts.slice(nameLength).join('/');
+  return {
+    name: parts.slice(0, nameLength).join('/'),
+    subpath: rest ? `./${rest}` : '.',
+  };
+}
+
+/**
+ * Collect target strings from a conditional exports value, in condition preference order
+ */
+function collectConditionTargets(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(collectConditionTargets);
+  }
+  if (!value || typeof value !== 'object') {
+    return [];
+  }
+
+  const conditions = value as Record<string, unknown>;
+  const keys = [
+    ...CONDITION_ORDER.filter((key) => key in conditions),
+    ...Object.keys(conditions).filter((key) => !CONDITION_ORDER.includes(key)),
+  ];
+  return keys.flatMap((key) => collectConditionTargets(conditions[key]));
+}
+
+/**
+ * Resolve a subpath through a package.json "exports" field
+ * Handles string/array shorthand, condition objects, subpath maps and "*" patterns
+ */
+function resolveExportsTargets(exports: unknown, subpath: string): string[] {
+  const isSubpathMap =
+    !!exports &&
+    typeof exports === 'object' &&
+    !Array.isArray(exports) &&
+    Object.keys(exports).some((key) => key.startsWith('.'));
+
+  if (!isSubpathMap) {
+    // Shorthand: the whole value is the "." export
+    return subpath === '.' ? collectConditionTargets(exports) : [];
+  }
+
+  const map = exports as Record<string, unknown>;
+  if (subpath in map) {
+    return collectConditionTargets(map[subpath]);
+  }
+
+  // Pattern exports: pick the key with the longest matching prefix
+  let best: { key: string; wildcard: string } | null = null;
+  for (const key of Object.keys(map)) {
+    const starIndex = key.indexOf('*');
+    if (starIndex === -1) continue;
+
+    const prefix = key.slice(0, starIndex);
+    const suffix = key.slice(starIndex + 1);
+    if (
+      subpath.length >= prefix.length + suffix.length &&
+      subpath.startsWith(prefix) &&
+      subpath.endsWith(suffix) &&
+      (!best || prefix.length > best.key.indexOf('*'))
+    ) {
+      best = { key, wildcard: subpath.slice(prefix.length, subpath.length - suffix.length) };
+    }
+  }
+
+  if (!best) {
+    return [];
+  }
+  const { key, wildcard } = best;
+  return collectConditionTargets(map[key]).map((target) => target.split('*').join(wildcard));
+}
+
+/**
+ * Resolves bare imports of workspace packages to candidate source paths
+ */
+export class WorkspaceResolver {
+  private readonly packages: Map<string, WorkspacePackage>;
+  /** Packages sorted by directory depth (deepest first) for file ownership lookups */
+  private readonly packagesByDepth: WorkspacePackage[];
+
+  private constructor(packages: WorkspacePackage[]) {
+    this.packages = new Map(packages.map((pkg) => [pkg.name, pkg]));
+    this.packagesByDepth = [...packages].sort((a, b) => b.dir.length - a.dir.length);
+  }
+
+  /**
+   * Discover workspace packages under a root directory
+   * Uses pnpm-workspace.yaml and the root package.json "workspaces" field (npm/yarn)
+   */
+  static async load(rootDir: string): Promise<WorkspaceResolver> {
+    const patterns: string[] = [];
+
+    const pnpmWorkspacePath = join(rootDir, 'pnpm-workspace.yaml');
+    if (existsSync(pnpmWorkspacePath)) {
+      try {
+        patterns.push(...parsePnpmWorkspacePackages(await readFile(pnpmWorkspacePath, 'utf-8')));
+      } catch {
+        // Unreadable manifest: fall back to package.json workspaces
+      }
+    }
+
+    const rootManifest = await readManifest(join(rootDir, 'package.json'));
+    const workspaces = rootManifest?.workspaces;
+    if (Array.isArray(workspaces)) {
+      patterns.push(...workspaces);
+    } else if (workspaces && Array.isArray(workspaces.packages)) {
+      // Yarn classic: { packages: [...], nohoist: [...] }
+      patterns.push(...workspaces.packages);
+    }
+
+    const packages: WorkspacePackage[] = [];
+    if (rootManifest?.name) {
+      packages.push({ name: rootManifest.name, dir: '', manifest: rootManifest });
+    }
+
+    const include = patterns
+      .filter((pattern) => typeof pattern === 'string' && !pattern.startsWith('!'))
+      .map((pattern) => `${pattern.replace(/\/+$/, '')}/package.json`);
+    const exclude = patterns
+      .filter((pattern) => typeof pattern === 'string' && pattern.startsWith('!'))
+      .map((pattern) => `${pattern.slice(1).replace(/\/+$/, '')}/package.json`);
+
+    if (include.length > 0) {
+      const manifestPaths = await glob(include, {
+        cwd: rootDir,
+        ignore: ['**/node_modules/**', ...exclude],
+        posix: true,
+      });
+
+      for (const manifestPath of manifestPaths.sort()) {
+        const manifest = await readManifest(join(rootDir, manifestPath));
+        const dir = posix.dirname(manifestPath);
+        if (manifest?.name && dir !== '.' && !packages.some((pkg) => pkg.name === manifest.name)) {
+          packages.push({ name: manifest.name, dir, manifest });
+        }
+      }
+    }
+
+    return new WorkspaceResolver(packages);
+  }
+
+  /**
+   * Get all discovered workspace packages
+   */
+  getPackages(): WorkspacePackage[] {
+    return Array.from(this.packages.values());
+  }
+
+  /**
+   * Find the workspace package that owns a file (deepest package directory wins)
+   * @param filePath - File path relative to the analyzed root
+   */
+  getPackageForFile(filePath: string): string | undefined {
+    for (const pkg of this.packagesByDepth) {
+      if (pkg.dir === '' || filePath.startsWith(`${pkg.dir}/`)) {
+        return pkg.name;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Get candidate module paths (relative to root, extension not probed) for a bare specifier
+   * Entry points pointing into build output (e.g. ./dist/index.js) are mapped back to src/
+   */
+  getCandidates(specifier: string): string[] {
+    const { name, subpath } = splitSpecifier(specifier);
+    const pkg = this.packages.get(name);
+    if (!pkg) {
+      return [];
+    }
+
+    const { manifest } = pkg;
+    let targets = manifest.exports !== undefined
+      ? resolveExportsTargets(manifest.exports, subpath)
+      : [];
+
+    if (targets.length === 0) {
+      targets = subpath === '.'
+        ? [manifest.source, manifest.types, manifest.typings, manifest.module, manifest.main, './index']
+            .filter((target): target is string => typeof target === 'string')
+        : [subpath];
+    }
+
+    const candidates: string[] = [];
+    for (const target of targets) {
+      const normalized = posix.normalize(target.replace(/\\/g, '/')).replace(/^\.\//, '');
+      const stripped = normalized.replace(OUTPUT_EXTENSION_PATTERN, '');
+      const [firstSegment, ...rest] = stripped.split('/');
+
+      const forms = [normalized, stripped];
+      if (firstSegment && OUTPUT_DIRS.has(firstSegment) && rest.length > 0) {
+        forms.push(['src', ...rest].join('/'), rest.join('/'));
+      }
+
+      for (const form of forms) {
+        const candidate = posix.join(pkg.dir, form);
+        if (!candidate.startsWith('..') && !candidates.includes(candidate)) {
+          candidates.push(candidate);
+        }
+      }
+    }
+
+    return candidates;
+  }
+}
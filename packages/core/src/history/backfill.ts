@@ -0,0 +1,167 @@
+/**
+ * History backfill - builds snapshots for past commits straight from the git object
+ * database (the working tree is never checked out or modified)
+ */
+
+import { resolve } from 'path';
+import type { TopologySnapshot } from '@topology/protocol';
+import type { ParsedFile } from '../parser/index.js';
+import type { AnalyzeOptions } from '../analyze.js';
+import { pluginRegistry } from '../plugins/index.js';
+import { ScanFilter } from '../scan/index.js';
+import { buildGraph, createSnapshot } from '../graph/index.js';
+import {
+  listCommits,
+  readTreeFiles,
+  readBlobContent,
+  diffTreeFiles,
+  getCurrentCommitInfo,
+  type HistoryCommit,
+  type ListCommitsOptions,
+  type TreeFileFilter,
+} from '../git/index.js';
+import { CacheDb } from '../cache/db.js';
+import { BlobParseCache } from '../cache/blobParseCache.js';
+
+export interface BackfillOptions
+  extends ListCommitsOptions,
+    Pick<AnalyzeOptions, 'noCache' | 'cacheDir' | 'symbols' | 'pythonSourceRoots' | 'assets' | 'include' | 'exclude'> {
+  /** Short hashes (7 chars) of commits that already have a snapshot; they are not analyzed again */
+  skipCommits?: Set<string>;
+  /** Called after each snapshot is built */
+  onSnapshot?: (snapshot: TopologySnapshot, commit: HistoryCommit, index: number, total: number) => void;
+}
+
+/**
+ * Parse the files of one commit, reading blobs only on cache misses
+ */
+async function parseTreeFiles(
+  repoPath: string,
+  files: Map<string, string>,
+  cache: BlobParseCache | null
+): Promise<ParsedFile[]> {
+  const parsedFiles: ParsedFile[] = [];
+  const newlyParsed: { blobOid: string; parsed: ParsedFile }[] = [];
+
+  for (const [filePath, blobOid] of files) {
+    const cached = cache?.get(filePath, blobOid);
+    if (cached) {
+      parsedFiles.push(cached);
+      continue;
+    }
+
+    const plugin = pluginRegistry.getPluginForFile(filePath);
+    if (!plugin) continue;
+
+    let parsed: ParsedFile | null;
+    try {
+      parsed = plugin.parse(await readBlobContent(repoPath, blobOid), filePath, repoPath);
+    } catch (err) {
+      console.warn(`⚠️  Plugin "${plugin.name}" failed to parse ${filePath}@${blobOid.substring(0, 7)}: ${(err as Error).message}`);
+      continue;
+    }
+
+    if (parsed) {
+      parsed.filePath = filePath;
+      parsedFiles.push(parsed);
+      newlyParsed.push({ blobOid, parsed });
+    }
+  }
+
+  if (cache && newlyParsed.length > 0) {
+    try {
+      cache.setBatch(newlyParsed);
+    } catch (err) {
+      console.warn(`⚠️  Failed to write cache: ${(err as Error).message}`);
+    }
+  }
+
+  return parsedFiles;
+}
+
+/**
+ * Build one snapshot per commit between two refs (oldest first)
+ * Each snapshot's statuses compare the commit with the previously analyzed commit (the
+ * first commit is compared with its parent), so the timeline shows what changed in between.
+ * Path aliases, workspace packages and Python source roots come from the working tree.
+ * @returns Snapshots of the analyzed commits, oldest first (skipped commits are left out)
+ */
+export async function backfillHistory(
+  repoPath: string,
+  options: BackfillOptions = {}
+): Promise<TopologySnapshot[]> {
+  const absolutePath = resolve(repoPath);
+  const commits = await listCommits(absolutePath, options);
+
+  // Only tracked files are read, so .gitignore rules do not apply
+  const scanFilter = await ScanFilter.load(absolutePath, {
+    include: options.include,
+    exclude: options.exclude,
+    gitignore: false,
+  });
+  const filter: TreeFileFilter = {
+    accepts: (filePath) => {
+      const plugin = pluginRegistry.getPluginForFile(filePath);
+      return plugin !== null && (options.assets || !plugin.asset) && scanFilter.accepts(filePath);
+    },
+    isIgnoredDirectory: (dirPath) => scanFilter.isIgnoredDirectory(dirPath),
+  };
+
+  // Snapshots record the branch being walked
+  const branch = options.to && options.to !== 'HEAD'
+    ? options.to
+    : (await getCurrentCommitInfo(absolutePath))?.branch ?? 'HEAD';
+
+  let cacheDb: CacheDb | null = null;
+  let cache: BlobParseCache | null = null;
+  if (!options.noCache) {
+    try {
+      cacheDb = new CacheDb(absolutePath, options.cacheDir);
+      cacheDb.open();
+      cache = new BlobParseCache(cacheDb);
+    } catch (err) {
+      console.warn(`⚠️  Failed to initialize cache, proceeding without: ${(err as Error).message}`);
+      cacheDb = null;
+      cache = null;
+    }
+  }
+
+  const snapshots: TopologySnapshot[] = [];
+  try {
+    let baseRef = commits[0]?.parent ?? null;
+    let baseFiles = baseRef ? await readTreeFiles(absolutePath, baseRef, filter) : null;
+
+    for (const [index, commit] of commits.entries()) {
+      const files = await readTreeFiles(absolutePath, commit.oid, filter);
+      const hash = commit.oid.substring(0, 7);
+
+      if (!options.skipCommits?.has(hash)) {
+        const parsedFiles = await parseTreeFiles(absolutePath, files, cache);
+        const gitDiff = baseRef && baseFiles
+          ? await diffTreeFiles(absolutePath, baseRef, baseFiles, files)
+          : null;
+
+        const graph = await buildGraph(parsedFiles, absolutePath, gitDiff, {
+          symbols: options.symbols,
+          pythonSourceRoots: options.pythonSourceRoots,
+        });
+        graph.timestamp = commit.timestamp;
+
+        const snapshot = await createSnapshot(graph, absolutePath, undefined, {
+          hash,
+          message: commit.message,
+          branch,
+        });
+        snapshots.push(snapshot);
+        options.onSnapshot?.(snapshot, commit, index, commits.length);
+      }
+
+      baseRef = commit.oid;
+      baseFiles = files;
+    }
+  } finally {
+    cacheDb?.close();
+  }
+
+  return snapshots;
+}
@@ -0,0 +1,9 @@
+/**
+ * History module - snapshots of past commits
+ * @module @topology/core/history
+ */
+
+export {
+  backfillHistory,
+  type BackfillOptions,
+} from './backfill.js';
@@ -0,0 +1,172 @@
+/**
+ * Change impact analysis - the transitive set of files that depend on changed files
+ * ("blast radius"), ranked by distance, with the test files among them
+ */
+
+import { minimatch } from 'minimatch';
+import type { TopologyGraph } from '@topology/protocol';
+import { getFileDependencies } from '../graph/cycles.js';
+
+/** Test file patterns used when none are configured (patterns without a slash match the file name) */
+export const DEFAULT_TEST_PATTERNS = [
+  '*.test.*',
+  '*.spec.*',
+  '*_test.*',
+  'test_*.py',
+  '**/__tests__/**',
+];
+
+/** A file that depends on a changed file */
+export interface ImpactedFile {
+  file: string;
+  /** Import hops to the nearest changed file (1 = imports it directly) */
+  distance: number;
+  /** Changed files this file depends on, directly or transitively */
+  changedDependencies: string[];
+  /** Number of files importing this one */
+  fanIn: number;
+  /** True if the file is a test file (for merged nodes such as Go packages: if a member file is) */
+  isTest: boolean;
+}
+
+export interface ChangeImpact {
+  /** Changed files the analysis started from */
+  changedFiles: string[];
+  /** Dependents ranked closest first, then by changed dependencies, then by fan-in */
+  impactedFiles: ImpactedFile[];
+  /** Test files among the changed and impacted files (member files of merged nodes), sorted by path */
+  testFiles: string[];
+}
+
+export interface ImpactOptions {
+  /** Stop following dependents after this many import hops (default: unlimited) */
+  maxDepth?: number;
+  /** Globs marking test files (default: DEFAULT_TEST_PATTERNS) */
+  testPatterns?: string[];
+}
+
+/**
+ * Build a predicate for test files
+ * Patterns without a slash match the file name in any directory
+ */
+export function createTestFileMatcher(patterns: string[] = DEFAULT_TEST_PATTERNS): (filePath: string) => boolean {
+  return (filePath) => patterns.some((pattern) => minimatch(filePath, pattern, { dot: true, matchBase: true }));
+}
+
+/**
+ * Get the files whose diff status is not UNCHANGED (symbol nodes are left out)
+ */
+export function getChangedFiles(graph: TopologyGraph): string[] {
+  return graph.nodes
+    .filter((n) => !n.parentId && n.status !== 'UNCHANGED')
+    .map((n) => n.id)
+    .sort();
+}
+
+/**
+ * Build a lookup from file paths to the graph node holding them: symbol IDs map to their file,
+ * member files of merged nodes (e.g. "pkg/store/store.go") to the node ("pkg/store").
+ * Kept free of the plugin registry so the web app can use it.
+ * @param getNodeId - Node ID of paths not in the graph (e.g. pluginRegistry.getNodeId for deleted files)
+ */
+export function createNodeIdResolver(
+  graph: TopologyGraph,
+  getNodeId: (filePath: string) => string = (filePath) => filePath
+): (filePath: string) => string {
+  const nodeIds = new Map<string, string>();
+  for (const node of graph.nodes) {
+    nodeIds.set(node.id, node.parentId ?? node.id);
+    for (const member of node.members ?? []) {
+      nodeIds.set(member, node.id);
+    }
+  }
+  return (filePath) => nodeIds.get(filePath) ?? getNodeId(filePath);
+}
+
+/**
+ * Find every file that depends on the changed files, following imports in reverse
+ * Symbol IDs and member files of merged nodes count as their node; changed files are not listed as impacted.
+ * @param changedFiles - Files to start from (default: the graph's changed files)
+ */
+export function analyzeImpact(
+  graph: TopologyGraph,
+  changedFiles: string[] = getChangedFiles(graph),
+  options: ImpactOptions = {}
+): ChangeImpact {
+  const maxDepth = options.maxDepth ?? Infinity;
+  const isTest = createTestFileMatcher(options.testPatterns);
+
+  const toNodeId = createNodeIdResolver(graph);
+  const changed = Array.from(new Set(changedFiles.map(toNodeId))).sort();
+  const changedSet = new Set(changed);
+
+  const importers = new Map<string, string[]>();
+  for (const { source, target } of getFileDependencies(graph.nodes, graph.edges)) {
+    const list = importers.get(target) ?? [];
+    list.push(source);
+    importers.set(target, list);
+  }
+
+  // One BFS per changed file, so each dependent knows which changes reach it
+  const distances = new Map<string, number>();
+  const reachedFrom = new Map<string, Set<string>>();
+  for (const start of changed) {
+    const visited = new Set([start]);
+    let frontier = [start];
+    for (let distance = 1; frontier.length > 0 && distance <= maxDepth; distance++) {
+      const next: string[] = [];
+      for (const file of frontier) {
+        for (const importer of importers.get(file) ?? []) {
+          if (visited.has(importer)) continue;
+          visited.add(importer);
+          next.push(importer);
+
+          if (changedSet.has(importer)) continue;
+          distances.set(importer, Math.min(distances.get(importer) ?? Infinity, distance));
+          const sources = reachedFrom.get(importer) ?? new Set<string>();
+          sources.add(start);
+          reachedFrom.set(importer, sources);
+        }
+      }
+      frontier = next;
+    }
+  }
+
+  // Merged nodes (e.g. Go packages) hold their test files as members, so patterns are matched per member
+  const members = new Map(graph.nodes.filter((n) => n.members).map((n) => [n.id, n.members!]));
+  const getTestFiles = (file: string) => (members.get(file) ?? [file]).filter((path) => isTest(path));
+
+  const impactedFiles: ImpactedFile[] = Array.from(distances, ([file, distance]) => ({
+    file,
+    distance,
+    changedDependencies: Array.from(reachedFrom.get(file) ?? []).sort(),
+    fanIn: importers.get(file)?.length ?? 0,
+    isTest: getTestFiles(file).length > 0,
+  })).sort(
+    (a, b) =>
+      a.distance - b.distance ||
+      b.changedDependencies.length - a.changedDependencies.length ||
+      b.fanIn - a.fanIn ||
+      a.file.localeCompare(b.file)
+  );
+
+  const testFiles = Array.from(
+    new Set([...changed, ...impactedFiles.map((f) => f.file)].flatMap(getTestFiles))
+  ).sort();
+
+  return { changedFiles: changed, impactedFiles, testFiles };
+}
+
+/**
+ * Select the test files to run for a change: changed test files and the tests that
+ * transitively import a changed file (deleted test files are left out)
+ * @param changedFiles - Files to start from (default: the graph's changed files)
+ */
+export function selectAffectedTests(
+  graph: TopologyGraph,
+  changedFiles?: string[],
+  options: ImpactOptions = {}
+): string[] {
+  const deleted = new Set(graph.nodes.filter((n) => n.status === 'DELETED').map((n) => n.id));
+  return analyzeImpact(graph, changedFiles, options).testFiles.filter((file) => !deleted.has(file));
+}
@@ -0,0 +1,16 @@
+/**
+ * Impact module - transitive dependents of changed files and the tests that cover them
+ * @module @topology/core/impact
+ */
+
+export {
+  analyzeImpact,
+  selectAffectedTests,
+  getChangedFiles,
+  createTestFileMatcher,
+  createNodeIdResolver,
+  DEFAULT_TEST_PATTERNS,
+  type ChangeImpact,
+  type ImpactedFile,
+  type ImpactOptions,
+} from './changeImpact.js';
@@ -21,49 +21,122 @@ export {
   parseFile,
   parseContentForExports,
   detectLanguage,
+  getSupportedExtensions,
   SUPPORTED_EXTENSIONS,
   type ParsedFile,
   type ParsedImport,
+  type ParsedSymbol,
 } from './parser/index.js';
 
 // Git module
 export {
   getGitDiff,
+  diffTreeFiles,
   getFileAtRef,
   getCurrentCommitInfo,
+  detectRenames,
+  computeContentSimilarity,
+  DEFAULT_RENAME_THRESHOLD,
   type GitDiffResult,
+  type GitDiffOptions,
   type CommitInfo,
+  listCommits,
+  resolveCommit,
+  readTreeFiles,
+  readBlobContent,
+  type HistoryCommit,
+  type ListCommitsOptions,
+  type TreeFileFilter,
 } from './git/index.js';
 
+// History module
+export {
+  backfillHistory,
+  type BackfillOptions,
+} from './history/index.js';
+
+// Compare module
+export {
+  diffSnapshots,
+  type SnapshotDiff,
+  type NodeRename,
+  type FanInChange,
+} from './compare/index.js';
+
+// Metrics module
+export {
+  computeNodeMetrics,
+  getNodeMetrics,
+  computeDirectoryMetrics,
+  summarizeMetrics,
+  type NodeMetricsOptions,
+} from './metrics/index.js';
+
+// Impact module
+export {
+  analyzeImpact,
+  selectAffectedTests,
+  getChangedFiles,
+  createTestFileMatcher,
+  createNodeIdResolver,
+  DEFAULT_TEST_PATTERNS,
+  type ChangeImpact,
+  type ImpactedFile,
+  type ImpactOptions,
+} from './impact/index.js';
+
 // Graph module
 export {
   buildGraph,
+  type BuildGraphOptions,
+  findCycles,
+  findStronglyConnectedComponents,
+  getFileDependencies,
+  type FileDependency,
   createSnapshot,
   loadExistingData,
   saveTopologyData,
+  storeSnapshots,
+  listStoredSnapshots,
+  getStoredSnapshot,
   type HistoryOptions,
+  type StoreSnapshotsOptions,
+  type SaveTopologyResult,
 } from './graph/index.js';
 
 // Reporter module
 export {
   generateReport,
+  generateSnapshotDiffReport,
+  REPORT_FORMATS,
   type ReportFormat,
   type ReportOptions,
   type ReportSummary,
   type BrokenDependencyInfo,
   type JsonReport,
+  type ReportMetrics,
+  type FileMetricsInfo,
 } from './reporter/index.js';
 
 // Plugin system
 export {
   pluginRegistry,
+  loadPlugins,
+  validateLanguagePlugin,
+  isLanguagePlugin,
   type LanguagePlugin,
+  type RegisteredPluginInfo,
+  type LoadPluginsOptions,
+  type PluginLoadResult,
+  type PluginLoadError,
 } from './plugins/index.js';
 
 // Cache module
 export {
   CacheDb,
   ParseCache,
+  BlobParseCache,
+  SnapshotStore,
   simpleHash,
   type CacheStats,
 } from './cache/index.js';
@@ -83,6 +156,9 @@ export {
   type VectorRecordMetadata,
   createVectorStore,
   resolveVectorConfig,
+  readVectorEnv,
+  mergeVectorConfig,
+  toVectorStoreConfig,
   type VectorConfigOverrides,
   syncToCloud,
   type CloudSyncResult,
@@ -98,6 +174,37 @@ export {
   type DetectConflictsOptions,
 } from './conflict/index.js';
 
+// Rules module
+export {
+  evaluateRules,
+  createFileMatcher,
+  loadRules,
+  DEFAULT_RULES_PATH,
+  type LoadRulesResult,
+} from './rules/index.js';
+
+// Scan module
+export {
+  ScanFilter,
+  DEFAULT_IGNORE_PATTERNS,
+  TOPOLOGY_IGNORE_FILE,
+  type ScanFilterOptions,
+} from './scan/index.js';
+
+// Config module
+export {
+  loadProjectConfig,
+  resolveProjectConfig,
+  mergeProjectConfig,
+  readEnvProjectConfig,
+  toAnalyzeOptions,
+  defineConfig,
+  PROJECT_CONFIG_FILES,
+  DEFAULT_PROJECT_CONFIG,
+  type LoadedProjectConfig,
+  type ResolveProjectConfigOptions,
+} from './config/index.js';
+
 // Auth module
 export {
   AuthDb,
@@ -128,6 +235,9 @@ export type {
   TopologyNode,
   TopologyEdge,
   TopologyGraph,
+  DependencyCycle,
+  ArchitectureRule,
+  RuleViolation,
   SnapshotMetadata,
   TopologySnapshot,
   TopologyDataFile,
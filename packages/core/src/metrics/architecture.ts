@@ -0,0 +1,284 @@
+/**
+ * Architecture metrics - coupling, instability, depth and betweenness centrality
+ * Computed on the file-level dependency graph; deleted files are left out
+ */
+
+import type {
+  DirectoryMetrics,
+  MetricsSummary,
+  NodeMetrics,
+  TopologyEdge,
+  TopologyGraph,
+  TopologyNode,
+} from '@topology/protocol';
+import { findStronglyConnectedComponents, getFileDependencies, type FileDependency } from '../graph/cycles.js';
+
+/** Minimum fan-in + fan-out of a god module */
+const GOD_MODULE_MIN_COUPLING = 10;
+
+/** Standard deviations above the mean coupling a god module must reach */
+const GOD_MODULE_DEVIATIONS = 2;
+
+/** Above this many files, centrality is estimated from a sample of source files */
+const MAX_CENTRALITY_SOURCES = 2000;
+
+export interface NodeMetricsOptions {
+  /** Also compute betweenness centrality, one BFS per file (default: false) */
+  centrality?: boolean;
+}
+
+/** Metric values are rounded to keep stored graphs small */
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function getInstability(fanIn: number, fanOut: number): number {
+  return fanIn + fanOut === 0 ? 0 : round(fanOut / (fanIn + fanOut));
+}
+
+/**
+ * Build the file-level import adjacency (source -> imported files)
+ */
+function getImportGraph(
+  nodes: TopologyNode[],
+  edges: TopologyEdge[]
+): { files: string[]; dependencies: FileDependency[]; imports: Map<string, string[]> } {
+  const liveNodes = nodes.filter((n) => n.status !== 'DELETED');
+  const files = liveNodes.filter((n) => !n.parentId).map((n) => n.id);
+  const imports = new Map<string, string[]>(files.map((file) => [file, []]));
+
+  // Edges to deleted or unknown nodes keep their raw target: skip them
+  const dependencies = getFileDependencies(liveNodes, edges).filter(
+    ({ source, target }) => imports.has(source) && imports.has(target)
+  );
+  for (const { source, target } of dependencies) {
+    imports.get(source)!.push(target);
+  }
+
+  return { files, dependencies, imports };
+}
+
+/**
+ * Longest import chain below each file
+ * Import cycles are condensed first, so every file in a cycle gets the same depth
+ */
+function computeDepths(
+  files: string[],
+  dependencies: FileDependency[],
+  imports: Map<string, string[]>
+): Map<string, number> {
+  const componentOf = new Map<string, string>();
+  for (const component of findStronglyConnectedComponents(dependencies)) {
+    for (const file of component) {
+      componentOf.set(file, component[0]!);
+    }
+  }
+  const componentId = (file: string) => componentOf.get(file) ?? file;
+
+  const condensed = new Map<string, Set<string>>();
+  for (const file of files) {
+    const from = componentId(file);
+    const targets = condensed.get(from) ?? new Set<string>();
+    for (const target of imports.get(file) ?? []) {
+      const to = componentId(target);
+      if (to !== from) targets.add(to);
+    }
+    condensed.set(from, targets);
+  }
+
+  // Iterative post-order DFS over the condensed DAG
+  const depth = new Map<string, number>();
+  for (const start of condensed.keys()) {
+    const stack: [string, boolean][] = [[start, false]];
+    while (stack.length > 0) {
+      const [component, expanded] = stack.pop()!;
+      if (depth.has(component)) continue;
+
+      const targets = condensed.get(component) ?? new Set<string>();
+      if (expanded) {
+        let longest = 0;
+        for (const target of targets) {
+          longest = Math.max(longest, (depth.get(target) ?? 0) + 1);
+        }
+        depth.set(component, longest);
+      } else {
+        stack.push([component, true]);
+        for (const target of targets) {
+          if (!depth.has(target)) stack.push([target, false]);
+        }
+      }
+    }
+  }
+
+  return new Map(files.map((file) => [file, depth.get(componentId(file)) ?? 0]));
+}
+
+/**
+ * Normalized betweenness centrality (Brandes) over directed import paths
+ * Large graphs use an evenly spaced sample of source files, scaled up
+ */
+function computeCentrality(files: string[], imports: Map<string, string[]>): Map<string, number> {
+  const centrality = new Map<string, number>(files.map((file) => [file, 0]));
+  const step = Math.max(1, Math.ceil(files.length / MAX_CENTRALITY_SOURCES));
+  const sources = files.filter((_, i) => i % step === 0);
+
+  for (const source of sources) {
+    const order: string[] = [];
+    const predecessors = new Map<string, string[]>();
+    const pathCount = new Map<string, number>([[source, 1]]);
+    const distance = new Map<string, number>([[source, 0]]);
+
+    const queue = [source];
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head]!;
+      order.push(current);
+      for (const next of imports.get(current) ?? []) {
+        if (!distance.has(next)) {
+          distance.set(next, distance.get(current)! + 1);
+          queue.push(next);
+        }
+        if (distance.get(next) === distance.get(current)! + 1) {
+          pathCount.set(next, (pathCount.get(next) ?? 0) + pathCount.get(current)!);
+          const preds = predecessors.get(next) ?? [];
+          preds.push(current);
+          predecessors.set(next, preds);
+        }
+      }
+    }
+
+    const dependency = new Map<string, number>();
+    for (let i = order.length - 1; i >= 0; i--) {
+      const file = order[i]!;
+      const share = (1 + (dependency.get(file) ?? 0)) / pathCount.get(file)!;
+      for (const pred of predecessors.get(file) ?? []) {
+        dependency.set(pred, (dependency.get(pred) ?? 0) + pathCount.get(pred)! * share);
+      }
+      if (file !== source) {
+        centrality.set(file, centrality.get(file)! + (dependency.get(file) ?? 0));
+      }
+    }
+  }
+
+  const n = files.length;
+  const scale = n > 2 ? step / ((n - 1) * (n - 2)) : 0;
+  return new Map(Array.from(centrality, ([file, value]) => [file, round(Math.min(1, value * scale))]));
+}
+
+/**
+ * Compute metrics for every file node
+ * Centrality is opt-in: it costs O(files · imports), the other metrics are linear
+ * @returns Map of file node ID to its metrics (symbol and deleted nodes have none)
+ */
+export function computeNodeMetrics(
+  nodes: TopologyNode[],
+  edges: TopologyEdge[],
+  options: NodeMetricsOptions = {}
+): Map<string, NodeMetrics> {
+  const { files, dependencies, imports } = getImportGraph(nodes, edges);
+
+  const fanIn = new Map<string, number>();
+  for (const { target } of dependencies) {
+    fanIn.set(target, (fanIn.get(target) ?? 0) + 1);
+  }
+
+  const depths = computeDepths(files, dependencies, imports);
+  const centrality = options.centrality ? computeCentrality(files, imports) : null;
+
+  // God modules: coupling an outlier in both directions
+  const coupling = files.map((file) => (fanIn.get(file) ?? 0) + imports.get(file)!.length);
+  const mean = coupling.reduce((sum, c) => sum + c, 0) / Math.max(1, coupling.length);
+  const deviation = Math.sqrt(coupling.reduce((sum, c) => sum + (c - mean) ** 2, 0) / Math.max(1, coupling.length));
+  const godThreshold = Math.max(GOD_MODULE_MIN_COUPLING, mean + GOD_MODULE_DEVIATIONS * deviation);
+
+  const metrics = new Map<string, NodeMetrics>();
+  for (const file of files) {
+    const afferent = fanIn.get(file) ?? 0;
+    const efferent = imports.get(file)!.length;
+    metrics.set(file, {
+      fanIn: afferent,
+      fanOut: efferent,
+      instability: getInstability(afferent, efferent),
+      depth: depths.get(file) ?? 0,
+      ...(centrality && { centrality: centrality.get(file) ?? 0 }),
+      isGodModule: afferent > 0 && efferent > 0 && afferent + efferent >= godThreshold,
+    });
+  }
+  return metrics;
+}
+
+/**
+ * Get the metrics of every file node: the ones stored on the nodes, or computed for
+ * graphs saved before metrics existed
+ * Centrality is computed on demand when requested and not stored.
+ */
+export function getNodeMetrics(graph: TopologyGraph, options: NodeMetricsOptions = {}): Map<string, NodeMetrics> {
+  if (!graph.nodes.some((n) => n.metrics)) {
+    return computeNodeMetrics(graph.nodes, graph.edges, options);
+  }
+
+  const metrics = new Map(graph.nodes.flatMap((n) => (n.metrics ? [[n.id, n.metrics] as const] : [])));
+  if (options.centrality && Array.from(metrics.values()).some((m) => m.centrality === undefined)) {
+    const { files, imports } = getImportGraph(graph.nodes, graph.edges);
+    const centrality = computeCentrality(files, imports);
+    for (const [file, m] of metrics) {
+      metrics.set(file, { ...m, centrality: centrality.get(file) ?? 0 });
+    }
+  }
+  return metrics;
+}
+
+/**
+ * Compute coupling between each directory and the rest of the graph
+ * @returns Directories sorted by path
+ */
+export function computeDirectoryMetrics(nodes: TopologyNode[], edges: TopologyEdge[]): DirectoryMetrics[] {
+  const { files, dependencies } = getImportGraph(nodes, edges);
+  const directoryOf = (file: string) => {
+    const slash = file.lastIndexOf('/');
+    return slash === -1 ? '.' : file.slice(0, slash);
+  };
+
+  const directories = new Map<string, { files: number; importers: Set<string>; imported: Set<string> }>();
+  const entry = (directory: string) => {
+    let value = directories.get(directory);
+    if (!value) {
+      value = { files: 0, importers: new Set(), imported: new Set() };
+      directories.set(directory, value);
+    }
+    return value;
+  };
+
+  for (const file of files) {
+    entry(directoryOf(file)).files++;
+  }
+  for (const { source, target } of dependencies) {
+    const from = directoryOf(source);
+    const to = directoryOf(target);
+    if (from === to) continue;
+    entry(from).imported.add(target);
+    entry(to).importers.add(source);
+  }
+
+  return Array.from(directories, ([directory, value]) => ({
+    directory,
+    files: value.files,
+    fanIn: value.importers.size,
+    fanOut: value.imported.size,
+    instability: getInstability(value.importers.size, value.imported.size),
+  })).sort((a, b) => a.directory.localeCompare(b.directory));
+}
+
+/**
+ * Summarize node metrics over the whole graph (maxCentrality only when every file has centrality)
+ */
+export function summarizeMetrics(metrics: NodeMetrics[]): MetricsSummary {
+  const count = Math.max(1, metrics.length);
+  const hasCentrality = metrics.every((m) => m.centrality !== undefined);
+  return {
+    averageFanOut: round(metrics.reduce((sum, m) => sum + m.fanOut, 0) / count),
+    averageInstability: round(metrics.reduce((sum, m) => sum + m.instability, 0) / count),
+    maxDepth: metrics.reduce((max, m) => Math.max(max, m.depth), 0),
+    ...(hasCentrality && { maxCentrality: metrics.reduce((max, m) => Math.max(max, m.centrality!), 0) }),
+    godModuleCount: metrics.filter((m) => m.isGodModule).length,
+  };
+}
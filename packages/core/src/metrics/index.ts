@@ -0,0 +1,12 @@
+/**
+ * Metrics module - coupling, instability, depth and centrality of files and directories
+ * @module @topology/core/metrics
+ */
+
+export {
+  computeNodeMetrics,
+  getNodeMetrics,
+  computeDirectoryMetrics,
+  summarizeMetrics,
+  type NodeMetricsOptions,
+} from './architecture.js';
@@ -3,12 +3,17 @@
  * @module @topology/core/parser
  */
 
+// Ensure built-in language plugins are registered before dispatching through the registry
+import '../plugins/index.js';
+
 export {
   parseFile,
   parseFileContent,
   parseContentForExports,
   detectLanguage,
+  getSupportedExtensions,
   SUPPORTED_EXTENSIONS,
   type ParsedFile,
   type ParsedImport,
+  type ParsedSymbol,
 } from './parser.js';
@@ -1,6 +1,7 @@
 /**
  * Multi-language parser module
- * Uses Tree-sitter to parse TypeScript, JavaScript, and Python files
+ * Uses Tree-sitter to parse TypeScript, JavaScript, Python, Go, Rust, Java and C# files,
+ * and the script blocks of Vue, Svelte and Astro components
  * Extracts import statements and export signatures
  */
 
@@ -11,10 +12,19 @@ import TypeScript from 'tree-sitter-typescript';
 import JavaScript from 'tree-sitter-javascript';
 // @ts-ignore - tree-sitter-python has no type declarations
 import Python from 'tree-sitter-python';
+// @ts-ignore - tree-sitter-go has no type declarations
+import Go from 'tree-sitter-go';
+// @ts-ignore - tree-sitter-rust has no type declarations
+import Rust from 'tree-sitter-rust';
+// @ts-ignore - tree-sitter-java has no type declarations
+import Java from 'tree-sitter-java';
+// @ts-ignore - tree-sitter-c-sharp has no type declarations
+import CSharp from 'tree-sitter-c-sharp';
 import { readFile } from 'fs/promises';
 import { extname } from 'path';
-import type { Language } from '@topology/protocol';
+import type { Language, BuiltinLanguage, EdgeKind, SymbolKind } from '@topology/protocol';
 import { simpleHash } from '../cache/contentHash.js';
+import { pluginRegistry } from '../plugins/registry.js';
 
 /** Represents a parsed import statement */
 export interface ParsedImport {
@@ -26,6 +36,16 @@ export interface ParsedImport {
   defaultImport: string | null;
   /** Whether it's a relative import */
   isRelative: boolean;
+  /** Import kind: static import/re-export, dynamic import(), require() or mock call (default: 'static') */
+  kind?: EdgeKind;
+}
+
+/** An exported symbol (class, function or interface/type alias) */
+export interface ParsedSymbol {
+  /** Exported name */
+  name: string;
+  /** Symbol kind */
+  kind: SymbolKind;
 }
 
 /** Result of parsing a single file */
@@ -40,6 +60,12 @@ export interface ParsedFile {
   exportSignature: string;
   /** Programming language of the file */
   language: Language;
+  /** Exported classes, functions and interfaces (used for symbol-level graphs) */
+  symbols?: ParsedSymbol[];
+  /** Names importers can bind ('default' for a default export, '*' for export * from) */
+  exportedNames?: string[];
+  /** Hash of each exported declaration's shape (parameters, types, public members) by exported name */
+  exportShapes?: Record<string, string>;
 }
 
 // Initialize Tree-sitter parser
@@ -49,8 +75,8 @@ const parser = new Parser();
 // Language Detection
 // ============================================
 
-/** File extension to language mapping */
-const EXTENSION_TO_LANGUAGE: Record<string, Language> = {
+/** File extension to built-in (Tree-sitter) language mapping */
+const EXTENSION_TO_LANGUAGE: Record<string, BuiltinLanguage> = {
   '.ts': 'typescript',
   '.tsx': 'typescript',
   '.js': 'javascript',
@@ -58,15 +84,39 @@ const EXTENSION_TO_LANGUAGE: Record<string, Language> = {
   '.mjs': 'javascript',
   '.cjs': 'javascript',
   '.py': 'python',
+  '.go': 'go',
+  '.rs': 'rust',
+  '.java': 'java',
+  '.cs': 'csharp',
+  '.vue': 'vue',
+  '.svelte': 'svelte',
+  '.astro': 'astro',
 };
 
-/** Supported file extensions for scanning */
+/**
+ * File extensions handled by the built-in Tree-sitter grammars.
+ * Use getSupportedExtensions() for everything the plugin registry can scan.
+ */
 export const SUPPORTED_EXTENSIONS = Object.keys(EXTENSION_TO_LANGUAGE);
 
 /**
- * Detect language from file extension
+ * Get all file extensions supported by registered language plugins
+ */
+export function getSupportedExtensions(): string[] {
+  return pluginRegistry.getSupportedExtensions();
+}
+
+/**
+ * Detect language from file extension (dispatches through the plugin registry)
  */
 export function detectLanguage(filePath: string): Language | null {
+  return pluginRegistry.detectLanguage(filePath);
+}
+
+/**
+ * Detect built-in Tree-sitter language from file extension
+ */
+function detectBuiltinLanguage(filePath: string): BuiltinLanguage | null {
   const ext = extname(filePath).toLowerCase();
   return EXTENSION_TO_LANGUAGE[ext] || null;
 }
@@ -74,9 +124,9 @@ export function detectLanguage(filePath: string): Language | null {
 /**
  * Set the Tree-sitter language based on file extension
  */
-function setParserLanguage(filePath: string): Language | null {
+function setParserLanguage(filePath: string): BuiltinLanguage | null {
   const ext = extname(filePath).toLowerCase();
-  const language = detectLanguage(filePath);
+  const language = detectBuiltinLanguage(filePath);
 
   if (!language) {
     return null;
@@ -96,6 +146,24 @@ function setParserLanguage(filePath: string): Language | null {
     case 'python':
       parser.setLanguage(Python);
       break;
+    case 'go':
+      parser.setLanguage(Go);
+      break;
+    case 'rust':
+      parser.setLanguage(Rust);
+      break;
+    case 'java':
+      parser.setLanguage(Java);
+      break;
+    case 'csharp':
+      parser.setLanguage(CSharp);
+      break;
+    case 'vue':
+    case 'svelte':
+    case 'astro':
+      // Script blocks are parsed as TypeScript (see parseComponentScripts)
+      parser.setLanguage(TypeScript.typescript);
+      break;
   }
 
   return language;
@@ -107,56 +175,22 @@ function setParserLanguage(filePath: string): Language | null {
 
 /**
  * Parse a source file and extract imports/exports
+ * Dispatches to the language plugin registered for the file extension
  * @param filePath - Path to the file
  * @param basePath - Base directory for resolving relative paths
  */
 export async function parseFile(filePath: string, basePath: string): Promise<ParsedFile | null> {
   const fullPath = `${basePath}/${filePath}`;
 
-  try {
-    // Set language based on file extension
-    const language = setParserLanguage(filePath);
-    if (!language) {
-      console.warn(`⚠️  Unsupported file type: ${filePath}`);
-      return null;
-    }
+  const plugin = pluginRegistry.getPluginForFile(filePath);
+  if (!plugin) {
+    console.warn(`⚠️  Unsupported file type: ${filePath}`);
+    return null;
+  }
 
-    // Read and parse file
+  try {
     const content = await readFile(fullPath, 'utf-8');
-    const tree = parser.parse(content);
-
-    // Extract imports and exports based on language
-    let imports: ParsedImport[];
-    let exports: string[];
-
-    switch (language) {
-      case 'typescript':
-      case 'javascript':
-        imports = extractJsImports(tree.rootNode);
-        exports = extractJsExports(tree.rootNode);
-        break;
-      case 'python':
-        imports = extractPythonImports(tree.rootNode);
-        exports = extractPythonExports(tree.rootNode);
-        break;
-      default:
-        imports = [];
-        exports = [];
-    }
-
-    // Generate simple content hash
-    const contentHash = simpleHash(content);
-
-    // Generate export signature (sorted list of exports)
-    const exportSignature = simpleHash(exports.sort().join(','));
-
-    return {
-      filePath,
-      imports,
-      contentHash,
-      exportSignature,
-      language,
-    };
+    return plugin.parse(content, filePath, basePath);
   } catch (error) {
     // Fail gracefully - log warning and skip file
     console.warn(`⚠️  Failed to parse ${filePath}:`, error instanceof Error ? error.message : error);
@@ -191,15 +225,133 @@ function extractJsImports(rootNode: Parser.SyntaxNode): ParsedImport[] {
     }
   }
 
+  // Dynamic import(), require() and test-framework mocks anywhere in the file
+  collectJsCallImports(rootNode, imports);
+
   return imports;
 }
 
+/**
+ * jest/vitest module helpers that reference a module path, mapped to their import kind
+ * (requireActual/importActual load the real module, the others only replace it)
+ */
+const MOCK_CALL_KINDS: Record<string, EdgeKind> = {
+  mock: 'mock',
+  doMock: 'mock',
+  unmock: 'mock',
+  requireMock: 'mock',
+  importMock: 'mock',
+  requireActual: 'require',
+  importActual: 'dynamic',
+};
+
+/**
+ * Get the module specifier from a call's first argument (string or plain template literal)
+ */
+function getCallSpecifier(callNode: Parser.SyntaxNode): string | null {
+  const args = callNode.childForFieldName('arguments');
+  const first = args?.namedChildren[0];
+  if (!first) return null;
+
+  if (first.type === 'string') {
+    return first.text.slice(1, -1);
+  }
+  if (first.type === 'template_string' && !first.namedChildren.some(c => c.type === 'template_substitution')) {
+    return first.text.slice(1, -1);
+  }
+  return null;
+}
+
+/**
+ * Determine whether a call_expression references a module, and how
+ */
+function getCallImportKind(callNode: Parser.SyntaxNode): EdgeKind | null {
+  const fn = callNode.childForFieldName('function');
+  if (!fn) return null;
+
+  // import('./x')
+  if (fn.type === 'import') {
+    return 'dynamic';
+  }
+  // require('./x')
+  if (fn.type === 'identifier' && fn.text === 'require') {
+    return 'require';
+  }
+  // jest.mock('./x'), vi.importActual('./x'), ...
+  if (fn.type === 'member_expression') {
+    const object = fn.childForFieldName('object');
+    const property = fn.childForFieldName('property');
+    if (object && property && (object.text === 'jest' || object.text === 'vi')) {
+      return MOCK_CALL_KINDS[property.text] ?? null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Get names bound from a require/import() call result
+ * const x = require('./x') -> default; const { a, b: c } = await import('./x') -> named a, b
+ */
+function getCallBindings(callNode: Parser.SyntaxNode): { defaultImport: string | null; namedImports: string[] } {
+  let parent = callNode.parent;
+  if (parent?.type === 'await_expression') {
+    parent = parent.parent;
+  }
+
+  const namedImports: string[] = [];
+  if (parent?.type !== 'variable_declarator') {
+    return { defaultImport: null, namedImports };
+  }
+
+  const nameNode = parent.childForFieldName('name');
+  if (nameNode?.type === 'identifier') {
+    return { defaultImport: nameNode.text, namedImports };
+  }
+  if (nameNode?.type === 'object_pattern') {
+    for (const prop of nameNode.namedChildren) {
+      if (prop.type === 'shorthand_property_identifier_pattern') {
+        namedImports.push(prop.text);
+      } else if (prop.type === 'pair_pattern') {
+        const key = prop.childForFieldName('key');
+        if (key) {
+          namedImports.push(key.text);
+        }
+      }
+    }
+  }
+  return { defaultImport: null, namedImports };
+}
+
+/**
+ * Walk the whole tree for import()/require()/mock calls with a literal specifier
+ */
+function collectJsCallImports(node: Parser.SyntaxNode, imports: ParsedImport[]): void {
+  for (const child of node.namedChildren) {
+    if (child.type === 'call_expression') {
+      const kind = getCallImportKind(child);
+      const source = kind ? getCallSpecifier(child) : null;
+      if (kind && source) {
+        const { defaultImport, namedImports } = getCallBindings(child);
+        imports.push({
+          source,
+          namedImports,
+          defaultImport,
+          isRelative: source.startsWith('.') || source.startsWith('/'),
+          kind,
+        });
+      }
+    }
+    collectJsCallImports(child, imports);
+  }
+}
+
 /**
  * Parse a single import_statement node (JS/TS)
  */
 function parseJsImportStatement(node: Parser.SyntaxNode): ParsedImport | null {
   let source = '';
   let defaultImport: string | null = null;
+  let kind: EdgeKind = 'static';
   const namedImports: string[] = [];
 
   for (const child of node.children) {
@@ -209,6 +361,20 @@ function parseJsImportStatement(node: Parser.SyntaxNode): ParsedImport | null {
         source = child.text.slice(1, -1);
         break;
 
+      case 'import_require_clause': {
+        // TypeScript: import x = require('./x')
+        const nameNode = child.children.find(c => c.type === 'identifier');
+        const sourceNode = child.childForFieldName('source');
+        if (nameNode) {
+          defaultImport = nameNode.text;
+        }
+        if (sourceNode) {
+          source = sourceNode.text.slice(1, -1);
+        }
+        kind = 'require';
+        break;
+      }
+
       case 'import_clause':
         // Process import clause (default and named imports)
         for (const clauseChild of child.children) {
@@ -246,6 +412,7 @@ function parseJsImportStatement(node: Parser.SyntaxNode): ParsedImport | null {
     namedImports,
     defaultImport,
     isRelative: source.startsWith('.') || source.startsWith('/'),
+    kind,
   };
 }
 
@@ -254,6 +421,7 @@ function parseJsImportStatement(node: Parser.SyntaxNode): ParsedImport | null {
  */
 function parseJsReExportStatement(node: Parser.SyntaxNode): ParsedImport | null {
   let source = '';
+  let defaultImport: string | null = null;
   const namedImports: string[] = [];
 
   // Look for the source string in the export statement
@@ -270,6 +438,15 @@ function parseJsReExportStatement(node: Parser.SyntaxNode): ParsedImport | null
           }
         }
       }
+    } else if (child.type === '*') {
+      // Star re-export: export * from './y' (forwards every export)
+      defaultImport = '*';
+    } else if (child.type === 'namespace_export') {
+      // Namespace re-export: export * as ns from './y'
+      const nameNode = child.children.find(c => c.type === 'identifier' || c.type === 'string');
+      if (nameNode) {
+        defaultImport = `* as ${nameNode.text}`;
+      }
     }
   }
 
@@ -281,8 +458,9 @@ function parseJsReExportStatement(node: Parser.SyntaxNode): ParsedImport | null
   return {
     source,
     namedImports,
-    defaultImport: null,
+    defaultImport,
     isRelative: source.startsWith('.') || source.startsWith('/'),
+    kind: 'static',
   };
 }
 
@@ -290,11 +468,271 @@ function parseJsReExportStatement(node: Parser.SyntaxNode): ParsedImport | null
 // JavaScript/TypeScript Export Extraction
 // ============================================
 
+/**
+ * Get the symbol kind of a JS/TS declaration (null for plain values such as constants)
+ */
+function getJsDeclarationSymbolKind(node: Parser.SyntaxNode): SymbolKind | null {
+  switch (node.type) {
+    case 'function_declaration':
+    case 'function_signature':
+    case 'generator_function_declaration':
+      return 'FUNCTION';
+    case 'class_declaration':
+    case 'abstract_class_declaration':
+      return 'CLASS';
+    case 'interface_declaration':
+    case 'type_alias_declaration':
+      return 'INTERFACE';
+    case 'variable_declarator': {
+      // const fn = () => {} / const Cls = class {}
+      const value = node.childForFieldName('value');
+      if (value?.type === 'arrow_function' || value?.type === 'function_expression' || value?.type === 'function') {
+        return 'FUNCTION';
+      }
+      if (value?.type === 'class') {
+        return 'CLASS';
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Add a symbol unless one with the same name was already recorded (e.g. overloads)
+ */
+function addSymbol(symbols: ParsedSymbol[], name: string, kind: SymbolKind | null): void {
+  if (kind && !symbols.some(s => s.name === name)) {
+    symbols.push({ name, kind });
+  }
+}
+
+/**
+ * Collect top-level declarations by name, for resolving `export { a, b }` to symbol kinds and shapes
+ */
+function collectJsLocalDeclarations(rootNode: Parser.SyntaxNode): Map<string, Parser.SyntaxNode> {
+  const declarations = new Map<string, Parser.SyntaxNode>();
+
+  for (const child of rootNode.children) {
+    const declarators = child.type === 'lexical_declaration' || child.type === 'variable_declaration'
+      ? child.children.filter(c => c.type === 'variable_declarator')
+      : [child];
+
+    for (const decl of declarators) {
+      const nameNode = decl.childForFieldName('name');
+      if (nameNode && (decl.type === 'variable_declarator' || JS_NAMED_DECLARATIONS.has(decl.type))) {
+        declarations.set(nameNode.text, decl);
+      }
+    }
+  }
+
+  return declarations;
+}
+
+// ============================================
+// Export Shapes (signature-level change detection)
+// ============================================
+
+/** Separators dropped from shapes so `a; b`, `a, b` and newline-separated members compare equal */
+const SHAPE_SEPARATORS = new Set([',', ';']);
+
+/** JS/TS function-like nodes whose body is not part of their shape */
+const JS_FUNCTION_LIKE = new Set([
+  'function_declaration',
+  'generator_function_declaration',
+  'function_expression',
+  'function',
+  'generator_function',
+  'arrow_function',
+  'method_definition',
+]);
+
+/** Value node types that are part of a variable's shape (`const fn = (a: A) => ...`) */
+const JS_SHAPED_VALUES = new Set(['arrow_function', 'function_expression', 'function', 'class']);
+
+/** Class members that can appear in a class shape */
+const JS_CLASS_MEMBERS = new Set([
+  'method_definition',
+  'method_signature',
+  'abstract_method_signature',
+  'public_field_definition',
+  'index_signature',
+]);
+
+/**
+ * Check whether two nodes are the same syntax node
+ */
+function isSameNode(a: Parser.SyntaxNode, b: Parser.SyntaxNode): boolean {
+  return a.type === b.type && a.startIndex === b.startIndex && a.endIndex === b.endIndex;
+}
+
+/**
+ * Append a leaf token to a shape (whitespace-insensitive; comments and separators dropped)
+ */
+function appendShapeLeaf(node: Parser.SyntaxNode, tokens: string[]): boolean {
+  // Comments are extras (checked via isExtra: `type` can misreport extra nodes)
+  if (node.isExtra) {
+    return true;
+  }
+  if (node.childCount === 0) {
+    if (!SHAPE_SEPARATORS.has(node.type)) {
+      tokens.push(node.text);
+    }
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Check whether a class member is part of the public API (no private/protected, no #private)
+ */
+function isJsPublicMember(member: Parser.SyntaxNode): boolean {
+  if (!JS_CLASS_MEMBERS.has(member.type)) {
+    return false;
+  }
+  const accessibility = member.children.find(c => c.type === 'accessibility_modifier');
+  if (accessibility && accessibility.text !== 'public') {
+    return false;
+  }
+  return member.childForFieldName('name')?.type !== 'private_property_identifier';
+}
+
+/**
+ * Append the shape tokens of a JS/TS declaration: parameters, return/type annotations,
+ * type bodies and public class members, without function bodies or plain values
+ */
+function appendJsShapeTokens(node: Parser.SyntaxNode, tokens: string[]): void {
+  if (appendShapeLeaf(node, tokens)) {
+    return;
+  }
+
+  if (node.type === 'class_body') {
+    for (const member of node.children) {
+      if (isJsPublicMember(member)) {
+        appendJsShapeTokens(member, tokens);
+      }
+    }
+    return;
+  }
+
+  let omitted: Parser.SyntaxNode | null = null;
+  if (JS_FUNCTION_LIKE.has(node.type)) {
+    omitted = node.childForFieldName('body');
+  } else if (node.type === 'variable_declarator' || node.type === 'public_field_definition') {
+    const value = node.childForFieldName('value');
+    if (value && !JS_SHAPED_VALUES.has(value.type)) {
+      omitted = value;
+    }
+  }
+
+  for (const child of node.children) {
+    if (omitted && (isSameNode(child, omitted) || (child.type === '=' && !JS_FUNCTION_LIKE.has(node.type)))) {
+      continue;
+    }
+    appendJsShapeTokens(child, tokens);
+  }
+}
+
+/**
+ * Get the normalized shape hash of a JS/TS declaration
+ */
+function getJsShape(node: Parser.SyntaxNode): string {
+  const tokens: string[] = [];
+  appendJsShapeTokens(node, tokens);
+  return simpleHash(tokens.join(' '));
+}
+
+/**
+ * Check whether a Python name is public (dunder methods such as __init__ are)
+ */
+function isPythonPublicName(name: string): boolean {
+  return !name.startsWith('_') || (name.startsWith('__') && name.endsWith('__'));
+}
+
+/**
+ * Check whether a class-level Python statement is part of the class's public API
+ */
+function isPythonPublicMember(member: Parser.SyntaxNode): boolean {
+  if (member.type === 'decorated_definition') {
+    const definition = member.childForFieldName('definition');
+    return !!definition && isPythonPublicMember(definition);
+  }
+  if (member.type === 'function_definition' || member.type === 'class_definition') {
+    const nameNode = member.childForFieldName('name');
+    return !!nameNode && isPythonPublicName(nameNode.text);
+  }
+  if (member.type === 'expression_statement') {
+    const left = member.children.find(c => c.type === 'assignment')?.childForFieldName('left');
+    return left?.type === 'identifier' && isPythonPublicName(left.text);
+  }
+  return false;
+}
+
+/**
+ * Append the shape tokens of a Python definition: parameters, type hints, base classes
+ * and public class members, without function bodies or assigned values
+ */
+function appendPythonShapeTokens(node: Parser.SyntaxNode, tokens: string[]): void {
+  if (appendShapeLeaf(node, tokens)) {
+    return;
+  }
+
+  if (node.type === 'class_definition') {
+    const body = node.childForFieldName('body');
+    for (const child of node.children) {
+      if (body && isSameNode(child, body)) {
+        for (const member of body.children) {
+          if (isPythonPublicMember(member)) {
+            appendPythonShapeTokens(member, tokens);
+          }
+        }
+      } else {
+        appendPythonShapeTokens(child, tokens);
+      }
+    }
+    return;
+  }
+
+  let omitted: Parser.SyntaxNode | null = null;
+  if (node.type === 'function_definition') {
+    omitted = node.childForFieldName('body');
+  } else if (node.type === 'assignment') {
+    omitted = node.childForFieldName('right');
+  }
+
+  for (const child of node.children) {
+    if (omitted && (isSameNode(child, omitted) || (child.type === '=' && node.type === 'assignment'))) {
+      continue;
+    }
+    appendPythonShapeTokens(child, tokens);
+  }
+}
+
+/**
+ * Get the normalized shape hash of a Python definition
+ */
+function getPythonShape(node: Parser.SyntaxNode): string {
+  const tokens: string[] = [];
+  appendPythonShapeTokens(node, tokens);
+  return simpleHash(tokens.join(' '));
+}
+
+/**
+ * Combine export entries and per-name shapes into the export signature hash
+ */
+function computeExportSignature(exports: string[], shapes: Record<string, string>): string {
+  const shapeEntries = Object.keys(shapes).sort().map(name => `shape:${name}=${shapes[name]}`);
+  return simpleHash([...[...exports].sort(), ...shapeEntries].join(','));
+}
+
 /**
  * Extract all exports from JS/TS AST (function names, variable names, types, etc.)
+ * @param symbols - Optional accumulator for exported classes, functions and interfaces
  */
-function extractJsExports(rootNode: Parser.SyntaxNode): string[] {
+function extractJsExports(rootNode: Parser.SyntaxNode, symbols: ParsedSymbol[] = []): string[] {
   const exports: string[] = [];
+  let localDeclarations: Map<string, Parser.SyntaxNode> | null = null;
 
   for (const child of rootNode.children) {
     if (child.type === 'export_statement') {
@@ -305,6 +743,7 @@ function extractJsExports(rootNode: Parser.SyntaxNode): string[] {
           const nameNode = exportChild.childForFieldName('name');
           if (nameNode) {
             exports.push(`fn:${nameNode.text}`);
+            addSymbol(symbols, nameNode.text, 'FUNCTION');
           }
         }
         // export class Name {}
@@ -312,6 +751,7 @@ function extractJsExports(rootNode: Parser.SyntaxNode): string[] {
           const nameNode = exportChild.childForFieldName('name');
           if (nameNode) {
             exports.push(`class:${nameNode.text}`);
+            addSymbol(symbols, nameNode.text, 'CLASS');
           }
         }
         // export const/let/var name = ...
@@ -321,6 +761,7 @@ function extractJsExports(rootNode: Parser.SyntaxNode): string[] {
               const nameNode = decl.childForFieldName('name');
               if (nameNode) {
                 exports.push(`var:${nameNode.text}`);
+                addSymbol(symbols, nameNode.text, getJsDeclarationSymbolKind(decl));
               }
             }
           }
@@ -330,6 +771,7 @@ function extractJsExports(rootNode: Parser.SyntaxNode): string[] {
           const nameNode = exportChild.childForFieldName('name');
           if (nameNode) {
             exports.push(`type:${nameNode.text}`);
+            addSymbol(symbols, nameNode.text, 'INTERFACE');
           }
         }
         // export interface Name {} (TypeScript only)
@@ -337,6 +779,7 @@ function extractJsExports(rootNode: Parser.SyntaxNode): string[] {
           const nameNode = exportChild.childForFieldName('name');
           if (nameNode) {
             exports.push(`interface:${nameNode.text}`);
+            addSymbol(symbols, nameNode.text, 'INTERFACE');
           }
         }
         // export { a, b, c }
@@ -346,6 +789,14 @@ function extractJsExports(rootNode: Parser.SyntaxNode): string[] {
               const nameNode = specChild.childForFieldName('name');
               if (nameNode) {
                 exports.push(`named:${nameNode.text}`);
+
+                // Local re-exports only (export { a } from './x' belongs to the source module)
+                if (!child.childForFieldName('source')) {
+                  localDeclarations ??= collectJsLocalDeclarations(rootNode);
+                  const exportedName = specChild.childForFieldName('alias')?.text ?? nameNode.text;
+                  const declaration = localDeclarations.get(nameNode.text);
+                  addSymbol(symbols, exportedName, declaration ? getJsDeclarationSymbolKind(declaration) : null);
+                }
               }
             }
           }
@@ -361,6 +812,93 @@ function extractJsExports(rootNode: Parser.SyntaxNode): string[] {
   return exports;
 }
 
+/** Declarations whose "name" field is the exported binding */
+const JS_NAMED_DECLARATIONS = new Set([
+  'function_declaration',
+  'function_signature',
+  'generator_function_declaration',
+  'class_declaration',
+  'abstract_class_declaration',
+  'interface_declaration',
+  'type_alias_declaration',
+  'enum_declaration',
+  'internal_module',
+]);
+
+/**
+ * Extract the names importers can bind from a JS/TS module
+ * Uses 'default' for the default export and '*' for `export * from` (forwarded names are unknown)
+ * @param shapes - Optional accumulator for the shape hash of each locally declared export
+ */
+function extractJsExportedNames(rootNode: Parser.SyntaxNode, shapes: Record<string, string> = {}): string[] {
+  const names = new Set<string>();
+  let localDeclarations: Map<string, Parser.SyntaxNode> | null = null;
+
+  const getLocalDeclaration = (name: string) => {
+    localDeclarations ??= collectJsLocalDeclarations(rootNode);
+    return localDeclarations.get(name);
+  };
+
+  for (const child of rootNode.children) {
+    if (child.type !== 'export_statement') continue;
+
+    // export default ...
+    if (child.children.some(c => c.type === 'default')) {
+      names.add('default');
+      const value = child.childForFieldName('declaration') ?? child.childForFieldName('value');
+      const declaration = value?.type === 'identifier' ? getLocalDeclaration(value.text) : value;
+      if (declaration) {
+        shapes['default'] = getJsShape(declaration);
+      }
+      continue;
+    }
+
+    for (const exportChild of child.children) {
+      if (JS_NAMED_DECLARATIONS.has(exportChild.type)) {
+        const nameNode = exportChild.childForFieldName('name');
+        if (nameNode) {
+          names.add(nameNode.text);
+          shapes[nameNode.text] = getJsShape(exportChild);
+        }
+      } else if (exportChild.type === 'lexical_declaration' || exportChild.type === 'variable_declaration') {
+        for (const decl of exportChild.children) {
+          const nameNode = decl.type === 'variable_declarator' ? decl.childForFieldName('name') : null;
+          if (nameNode?.type === 'identifier') {
+            names.add(nameNode.text);
+            shapes[nameNode.text] = getJsShape(decl);
+          }
+        }
+      } else if (exportChild.type === 'export_clause') {
+        // export { a, b as c } (optionally from './y')
+        const isLocal = !child.childForFieldName('source');
+        for (const specChild of exportChild.children) {
+          if (specChild.type === 'export_specifier') {
+            const nameNode = specChild.childForFieldName('name');
+            const exported = specChild.childForFieldName('alias') ?? nameNode;
+            if (exported) {
+              names.add(exported.text);
+              const declaration = isLocal && nameNode ? getLocalDeclaration(nameNode.text) : undefined;
+              if (declaration) {
+                shapes[exported.text] = getJsShape(declaration);
+              }
+            }
+          }
+        }
+      } else if (exportChild.type === 'namespace_export') {
+        // export * as ns from './y'
+        const nameNode = exportChild.children.find(c => c.type === 'identifier' || c.type === 'string');
+        if (nameNode) {
+          names.add(nameNode.text);
+        }
+      } else if (exportChild.type === '*') {
+        names.add('*');
+      }
+    }
+  }
+
+  return Array.from(names);
+}
+
 // ============================================
 // Python Import Extraction
 // ============================================
@@ -430,70 +968,27 @@ function parsePythonImportStatement(node: Parser.SyntaxNode): ParsedImport[] {
 }
 
 /**
- * Parse Python from...import statement: from x import y, from .x import y
+ * Parse Python from...import statement: from x import y, from .x import y, from . import y as z
+ * Named imports are the names as defined in the source module (aliases are local)
  */
 function parsePythonFromImportStatement(node: Parser.SyntaxNode): ParsedImport | null {
-  let source = '';
-  let isRelative = false;
-  const namedImports: string[] = [];
-  let defaultImport: string | null = null;
+  const moduleNode = node.childForFieldName('module_name');
+  if (!moduleNode) {
+    return null;
+  }
 
-  for (const child of node.children) {
-    // Module name
-    if (child.type === 'dotted_name') {
-      source = child.text;
-    }
-    // Relative import prefix
-    else if (child.type === 'relative_import') {
-      isRelative = true;
-      // Get the dotted_name within relative_import if present
-      const dottedName = child.children.find(c => c.type === 'dotted_name');
-      if (dottedName) {
-        source = dottedName.text;
-      }
-      // Count the dots for relative depth
-      const dots = child.children.filter(c => c.type === 'import_prefix');
-      if (dots.length > 0 && dots[0]) {
-        const dotCount = dots[0].text.length;
-        const prefix = '.'.repeat(dotCount);
-        source = source ? `${prefix}${source}` : prefix;
-      }
-    }
-    // Imported names
-    else if (child.type === 'import_prefix') {
-      // Leading dots for relative import
-      isRelative = true;
-      const dotCount = child.text.length;
-      source = '.'.repeat(dotCount) + source;
-    }
-    else if (child.type === 'identifier') {
-      namedImports.push(child.text);
-    }
-    else if (child.type === 'aliased_import') {
-      const nameNode = child.children.find(c => c.type === 'identifier');
-      if (nameNode) {
-        namedImports.push(nameNode.text);
-      }
-    }
-    else if (child.type === 'wildcard_import') {
-      defaultImport = '*';
-    }
-  }
-
-  if (!source && !isRelative) {
-    return null;
-  }
-
-  // Ensure relative imports start with .
-  if (isRelative && !source.startsWith('.')) {
-    source = '.' + source;
-  }
+  // relative_import text is the leading dots plus the optional module ("..models", ".")
+  const source = moduleNode.text.replace(/\s/g, '');
+  const namedImports = node.childrenForFieldName('name')
+    .map(name => name.type === 'aliased_import' ? name.childForFieldName('name')?.text ?? '' : name.text)
+    .filter(Boolean);
+  const defaultImport = node.children.some(c => c.type === 'wildcard_import') ? '*' : null;
 
   return {
     source,
     namedImports,
     defaultImport,
-    isRelative,
+    isRelative: moduleNode.type === 'relative_import',
   };
 }
 
@@ -503,37 +998,52 @@ function parsePythonFromImportStatement(node: Parser.SyntaxNode): ParsedImport |
 
 /**
  * Extract all exports from Python AST
- * In Python, exports are typically module-level definitions not prefixed with _
+ * Exports are the names listed in __all__ when the module defines it,
+ * otherwise the module-level definitions not prefixed with _
+ * @param symbols - Optional accumulator for exported classes and functions
+ * @param shapes - Optional accumulator for the shape hash of each exported definition
  */
-function extractPythonExports(rootNode: Parser.SyntaxNode): string[] {
+function extractPythonExports(
+  rootNode: Parser.SyntaxNode,
+  symbols: ParsedSymbol[] = [],
+  shapes: Record<string, string> = {}
+): string[] {
   const exports: string[] = [];
+  const moduleSymbols: ParsedSymbol[] = [];
+  const moduleShapes: Record<string, string> = {};
 
   for (const child of rootNode.children) {
     // Function definition
     if (child.type === 'function_definition') {
       const nameNode = child.childForFieldName('name');
-      if (nameNode && !nameNode.text.startsWith('_')) {
+      if (nameNode) {
         exports.push(`fn:${nameNode.text}`);
+        addSymbol(moduleSymbols, nameNode.text, 'FUNCTION');
+        moduleShapes[nameNode.text] = getPythonShape(child);
       }
     }
-    // Async function definition
+    // Decorated function or class definition
     else if (child.type === 'decorated_definition') {
       const funcDef = child.children.find(c =>
         c.type === 'function_definition' || c.type === 'class_definition'
       );
       if (funcDef) {
         const nameNode = funcDef.childForFieldName('name');
-        if (nameNode && !nameNode.text.startsWith('_')) {
+        if (nameNode) {
           const prefix = funcDef.type === 'function_definition' ? 'fn' : 'class';
           exports.push(`${prefix}:${nameNode.text}`);
+          addSymbol(moduleSymbols, nameNode.text, prefix === 'fn' ? 'FUNCTION' : 'CLASS');
+          moduleShapes[nameNode.text] = getPythonShape(child);
         }
       }
     }
     // Class definition
     else if (child.type === 'class_definition') {
       const nameNode = child.childForFieldName('name');
-      if (nameNode && !nameNode.text.startsWith('_')) {
+      if (nameNode) {
         exports.push(`class:${nameNode.text}`);
+        addSymbol(moduleSymbols, nameNode.text, 'CLASS');
+        moduleShapes[nameNode.text] = getPythonShape(child);
       }
     }
     // Variable assignment (module-level)
@@ -541,8 +1051,9 @@ function extractPythonExports(rootNode: Parser.SyntaxNode): string[] {
       const assignment = child.children.find(c => c.type === 'assignment');
       if (assignment) {
         const leftNode = assignment.children[0];
-        if (leftNode?.type === 'identifier' && !leftNode.text.startsWith('_')) {
+        if (leftNode?.type === 'identifier' && leftNode.text !== '__all__') {
           exports.push(`var:${leftNode.text}`);
+          moduleShapes[leftNode.text] = getPythonShape(assignment);
         }
       }
     }
@@ -551,45 +1062,308 @@ function extractPythonExports(rootNode: Parser.SyntaxNode): string[] {
       const nameNode = child.children.find(c => c.type === 'type');
       if (nameNode) {
         const identifier = nameNode.children.find(c => c.type === 'identifier');
-        if (identifier && !identifier.text.startsWith('_')) {
+        if (identifier) {
           exports.push(`type:${identifier.text}`);
+          moduleShapes[identifier.text] = getPythonShape(child);
         }
       }
     }
   }
 
-  // Check for __all__ definition (explicit exports)
+  // Check for __all__ definition (explicit exports, which may include _private names)
   const allExports = findPythonAllExports(rootNode);
-  if (allExports.length > 0) {
-    // If __all__ is defined, use it as the primary export list
+  if (allExports) {
+    // If __all__ is defined, use it as the export list
+    symbols.push(...moduleSymbols.filter(s => allExports.includes(s.name)));
+    for (const name of allExports) {
+      if (moduleShapes[name] !== undefined) {
+        shapes[name] = moduleShapes[name];
+      }
+    }
     return allExports.map(name => `all:${name}`);
   }
 
-  return exports;
+  const isPublic = (name: string) => !name.startsWith('_');
+  symbols.push(...moduleSymbols.filter(s => isPublic(s.name)));
+  for (const name of Object.keys(moduleShapes).filter(isPublic)) {
+    shapes[name] = moduleShapes[name]!;
+  }
+  return exports.filter(entry => isPublic(entry.slice(entry.indexOf(':') + 1)));
+}
+
+/**
+ * Extract the names importers can bind from a Python module (__all__ when defined)
+ */
+function extractPythonExportedNames(rootNode: Parser.SyntaxNode): string[] {
+  return extractPythonExports(rootNode).map(entry => entry.slice(entry.indexOf(':') + 1));
+}
+
+/**
+ * Get the value of a Python string literal without quotes and prefixes
+ */
+function getPythonStringValue(node: Parser.SyntaxNode): string {
+  return node.children.filter(c => c.type === 'string_content').map(c => c.text).join('');
+}
+
+/**
+ * Get the string items of a Python list or tuple literal
+ */
+function getPythonStringItems(node: Parser.SyntaxNode | null | undefined): string[] {
+  if (!node || (node.type !== 'list' && node.type !== 'tuple')) {
+    return [];
+  }
+  return node.children.filter(item => item.type === 'string').map(getPythonStringValue);
+}
+
+/**
+ * Find the names listed in a module's __all__
+ * Handles `__all__ = [...]` (or a tuple), `__all__ += [...]`, `__all__.extend([...])` and `__all__.append("x")`
+ * @returns The names, or null if the module does not define __all__
+ */
+function findPythonAllExports(rootNode: Parser.SyntaxNode): string[] | null {
+  let exports: string[] | null = null;
+
+  for (const child of rootNode.children) {
+    if (child.type !== 'expression_statement') continue;
+    const statement = child.namedChildren[0];
+    if (!statement) continue;
+
+    if (statement.type === 'assignment' || statement.type === 'augmented_assignment') {
+      if (statement.childForFieldName('left')?.text !== '__all__') continue;
+      const items = getPythonStringItems(statement.childForFieldName('right'));
+      exports = statement.type === 'assignment' ? items : [...(exports ?? []), ...items];
+    } else if (statement.type === 'call') {
+      // __all__.extend([...]) / __all__.append("x")
+      const func = statement.childForFieldName('function');
+      const method = func?.type === 'attribute' && func.childForFieldName('object')?.text === '__all__'
+        ? func.childForFieldName('attribute')?.text
+        : null;
+      const argument = statement.childForFieldName('arguments')?.namedChildren[0];
+      if (method === 'extend') {
+        exports = [...(exports ?? []), ...getPythonStringItems(argument)];
+      } else if (method === 'append' && argument?.type === 'string') {
+        exports = [...(exports ?? []), getPythonStringValue(argument)];
+      }
+    }
+  }
+
+  return exports ? Array.from(new Set(exports)) : null;
+}
+
+// ============================================
+// Go Import Extraction
+// ============================================
+
+/**
+ * Guess the name a package is referenced by from its import path
+ * (last element without a major version suffix, e.g. "example.com/mod/v2" → "mod", "gopkg.in/yaml.v3" → "yaml")
+ */
+function getGoPackageName(importPath: string): string {
+  const elements = importPath.split('/').filter(Boolean);
+  let name = elements[elements.length - 1] ?? importPath;
+  if (/^v\d+$/.test(name) && elements.length > 1) {
+    name = elements[elements.length - 2]!;
+  }
+  return name.replace(/\.v\d+$/, '').replace(/^go-/, '').replace(/-go$/, '');
+}
+
+/**
+ * Collect the names each package qualifier is used with (pkg.Func, pkg.Type)
+ */
+function collectGoQualifiedNames(rootNode: Parser.SyntaxNode): Map<string, Set<string>> {
+  const qualified = new Map<string, Set<string>>();
+
+  function add(qualifier: string, name: string) {
+    if (!qualified.has(qualifier)) qualified.set(qualifier, new Set());
+    qualified.get(qualifier)!.add(name);
+  }
+
+  function traverse(node: Parser.SyntaxNode) {
+    if (node.type === 'selector_expression') {
+      const operand = node.childForFieldName('operand');
+      const field = node.childForFieldName('field');
+      if (operand?.type === 'identifier' && field) {
+        add(operand.text, field.text);
+      }
+    } else if (node.type === 'qualified_type') {
+      const pkg = node.childForFieldName('package');
+      const name = node.childForFieldName('name');
+      if (pkg && name) {
+        add(pkg.text, name.text);
+      }
+    }
+
+    for (const child of node.children) {
+      traverse(child);
+    }
+  }
+
+  traverse(rootNode);
+  return qualified;
+}
+
+/**
+ * Extract all import specs from Go AST
+ * Named imports are the exported names used through the package qualifier;
+ * dot imports (and packages whose qualifier cannot be matched) use the whole package
+ */
+function extractGoImports(rootNode: Parser.SyntaxNode): ParsedImport[] {
+  const imports: ParsedImport[] = [];
+  let qualifiedNames: Map<string, Set<string>> | null = null;
+
+  const specs = rootNode.children
+    .filter(c => c.type === 'import_declaration')
+    .flatMap(decl => decl.children.flatMap(c =>
+      c.type === 'import_spec_list' ? c.children.filter(s => s.type === 'import_spec') : c.type === 'import_spec' ? [c] : []
+    ));
+
+  for (const spec of specs) {
+    const pathNode = spec.childForFieldName('path');
+    if (!pathNode) continue;
+    const source = pathNode.text.slice(1, -1);
+    const nameNode = spec.childForFieldName('name');
+    const isRelative = source.startsWith('.');
+
+    // Blank import: side effects only, no names used
+    if (nameNode?.type === 'blank_identifier') {
+      imports.push({ source, namedImports: [], defaultImport: null, isRelative });
+      continue;
+    }
+
+    const qualifier = nameNode?.type === 'dot' ? null : nameNode?.text ?? getGoPackageName(source);
+    qualifiedNames ??= collectGoQualifiedNames(rootNode);
+    const used = qualifier ? qualifiedNames.get(qualifier) : undefined;
+
+    if (used && used.size > 0) {
+      imports.push({ source, namedImports: Array.from(used), defaultImport: null, isRelative });
+    } else {
+      imports.push({ source, namedImports: [], defaultImport: `*${qualifier ?? '.'}`, isRelative });
+    }
+  }
+
+  return imports;
+}
+
+// ============================================
+// Go Export Extraction
+// ============================================
+
+/**
+ * Check whether a Go identifier is exported (starts with an upper-case letter)
+ */
+function isGoExported(name: string): boolean {
+  return /^\p{Lu}/u.test(name);
+}
+
+/**
+ * Check whether a struct field is part of the public API (exported name or exported embedded type)
+ */
+function isGoPublicField(field: Parser.SyntaxNode): boolean {
+  const names = field.children.filter(c => c.type === 'field_identifier');
+  if (names.length > 0) {
+    return names.some(name => isGoExported(name.text));
+  }
+  const typeName = field.childForFieldName('type')?.text.replace(/^\*/, '').split('.').pop() ?? '';
+  return isGoExported(typeName);
 }
 
 /**
- * Find __all__ list definition in Python module
+ * Append the shape tokens of a Go declaration: parameters, results, type definitions and
+ * exported struct fields, without function bodies or assigned values
  */
-function findPythonAllExports(rootNode: Parser.SyntaxNode): string[] {
+function appendGoShapeTokens(node: Parser.SyntaxNode, tokens: string[]): void {
+  if (appendShapeLeaf(node, tokens)) {
+    return;
+  }
+
+  if (node.type === 'block') {
+    return;
+  }
+
+  if (node.type === 'field_declaration_list') {
+    for (const child of node.children) {
+      if (child.type !== 'field_declaration' || isGoPublicField(child)) {
+        appendGoShapeTokens(child, tokens);
+      }
+    }
+    return;
+  }
+
+  const omitted = node.type === 'const_spec' || node.type === 'var_spec' ? node.childForFieldName('value') : null;
+  for (const child of node.children) {
+    if (omitted && (isSameNode(child, omitted) || child.type === '=')) {
+      continue;
+    }
+    appendGoShapeTokens(child, tokens);
+  }
+}
+
+/**
+ * Get the normalized shape hash of a Go declaration
+ */
+function getGoShape(node: Parser.SyntaxNode): string {
+  const tokens: string[] = [];
+  appendGoShapeTokens(node, tokens);
+  return simpleHash(tokens.join(' '));
+}
+
+/**
+ * Get the type name of a method receiver (`(s *Server[T])` → "Server")
+ */
+function getGoReceiverType(method: Parser.SyntaxNode): string | null {
+  const receiver = method.childForFieldName('receiver');
+  const param = receiver?.children.find(c => c.type === 'parameter_declaration');
+  const typeText = param?.childForFieldName('type')?.text;
+  return typeText ? typeText.replace(/^\*/, '').replace(/\[.*$/, '') : null;
+}
+
+/**
+ * Extract all exports from Go AST (capitalized top-level functions, types, constants and variables)
+ * Methods of exported types are exported as "Type.Method"
+ * @param symbols - Optional accumulator for exported functions and types
+ * @param shapes - Optional accumulator for the shape hash of each exported declaration
+ */
+function extractGoExports(
+  rootNode: Parser.SyntaxNode,
+  symbols: ParsedSymbol[] = [],
+  shapes: Record<string, string> = {}
+): string[] {
   const exports: string[] = [];
 
   for (const child of rootNode.children) {
-    if (child.type === 'expression_statement') {
-      const assignment = child.children.find(c => c.type === 'assignment');
-      if (assignment) {
-        const leftNode = assignment.children[0];
-        if (leftNode?.type === 'identifier' && leftNode.text === '__all__') {
-          // Found __all__ = [...]
-          const rightNode = assignment.children.find(c => c.type === 'list');
-          if (rightNode) {
-            for (const item of rightNode.children) {
-              if (item.type === 'string') {
-                // Remove quotes
-                const name = item.text.slice(1, -1);
-                exports.push(name);
-              }
-            }
+    if (child.type === 'function_declaration') {
+      const name = child.childForFieldName('name')?.text;
+      if (name && isGoExported(name)) {
+        exports.push(`fn:${name}`);
+        addSymbol(symbols, name, 'FUNCTION');
+        shapes[name] = getGoShape(child);
+      }
+    } else if (child.type === 'method_declaration') {
+      const name = child.childForFieldName('name')?.text;
+      const receiverType = getGoReceiverType(child);
+      if (name && receiverType && isGoExported(name) && isGoExported(receiverType)) {
+        exports.push(`method:${receiverType}.${name}`);
+        shapes[`${receiverType}.${name}`] = getGoShape(child);
+      }
+    } else if (child.type === 'type_declaration') {
+      for (const spec of child.children) {
+        if (spec.type !== 'type_spec' && spec.type !== 'type_alias') continue;
+        const name = spec.childForFieldName('name')?.text;
+        if (name && isGoExported(name)) {
+          exports.push(`type:${name}`);
+          addSymbol(symbols, name, spec.childForFieldName('type')?.type === 'struct_type' ? 'CLASS' : 'INTERFACE');
+          shapes[name] = getGoShape(spec);
+        }
+      }
+    } else if (child.type === 'const_declaration' || child.type === 'var_declaration') {
+      const prefix = child.type === 'const_declaration' ? 'const' : 'var';
+      const specs = child.children.flatMap(c => c.type === 'var_spec_list' ? c.children : [c])
+        .filter(c => c.type === 'const_spec' || c.type === 'var_spec');
+      for (const spec of specs) {
+        for (const nameNode of spec.children.filter(c => c.type === 'identifier')) {
+          if (isGoExported(nameNode.text)) {
+            exports.push(`${prefix}:${nameNode.text}`);
+            shapes[nameNode.text] = getGoShape(spec);
           }
         }
       }
@@ -599,6 +1373,831 @@ function findPythonAllExports(rootNode: Parser.SyntaxNode): string[] {
   return exports;
 }
 
+// ============================================
+// Rust Import Extraction
+// ============================================
+
+/** A `use` tree flattened into one path (e.g. ["crate", "model", "User"]) */
+interface RustUsePath {
+  segments: string[];
+  /** Name the path is bound to with `as` */
+  alias: string | null;
+  isGlob: boolean;
+}
+
+/**
+ * Flatten a `use` tree into full paths (`a::{b, c::*}` → a::b, a::c::*)
+ */
+function flattenRustUseTree(node: Parser.SyntaxNode, prefix: string[], paths: RustUsePath[]): void {
+  const split = (path: Parser.SyntaxNode) => path.text.split('::').map(s => s.trim()).filter(Boolean);
+
+  switch (node.type) {
+    case 'scoped_use_list': {
+      const path = node.childForFieldName('path');
+      const list = node.childForFieldName('list');
+      if (list) {
+        flattenRustUseTree(list, path ? [...prefix, ...split(path)] : prefix, paths);
+      }
+      break;
+    }
+    case 'use_list':
+      for (const child of node.namedChildren) {
+        if (!child.isExtra) {
+          flattenRustUseTree(child, prefix, paths);
+        }
+      }
+      break;
+    case 'use_as_clause': {
+      const path = node.childForFieldName('path');
+      if (path) {
+        const first = paths.length;
+        flattenRustUseTree(path, prefix, paths);
+        for (const flattened of paths.slice(first)) {
+          flattened.alias = node.childForFieldName('alias')?.text ?? null;
+        }
+      }
+      break;
+    }
+    case 'use_wildcard': {
+      const path = node.namedChildren.find(c => !c.isExtra);
+      paths.push({ segments: path ? [...prefix, ...split(path)] : prefix, alias: null, isGlob: true });
+      break;
+    }
+    case 'self':
+      // `a::{self, b}` names module a itself
+      paths.push({ segments: prefix, alias: null, isGlob: false });
+      break;
+    default:
+      paths.push({ segments: [...prefix, ...split(node)], alias: null, isGlob: false });
+  }
+}
+
+/**
+ * Check whether a path segment names an item rather than a module or function
+ * (types and traits are CamelCase, constants and statics SCREAMING_CASE)
+ */
+function isRustItemName(segment: string): boolean {
+  return /^\p{Lu}/u.test(segment);
+}
+
+/**
+ * Extract `use`, `mod name;` and `extern crate` declarations from Rust AST
+ * Items are grouped by their module path (`crate::model::{User, Role}` → "crate::model" with both names);
+ * other paths keep the full path, which resolves to the deepest module file that exists
+ */
+function extractRustImports(rootNode: Parser.SyntaxNode): ParsedImport[] {
+  const importsBySource = new Map<string, ParsedImport>();
+
+  function add(segments: string[], name: string | null, defaultImport: string | null) {
+    const source = segments.join('::');
+    if (!source) return;
+    let imp = importsBySource.get(source);
+    if (!imp) {
+      const isRelative = segments[0] === 'crate' || segments[0] === 'self' || segments[0] === 'super';
+      imp = { source, namedImports: [], defaultImport: null, isRelative };
+      importsBySource.set(source, imp);
+    }
+    if (name && !imp.namedImports.includes(name)) {
+      imp.namedImports.push(name);
+    }
+    imp.defaultImport ??= defaultImport;
+  }
+
+  function traverse(node: Parser.SyntaxNode) {
+    if (node.type === 'use_declaration') {
+      const argument = node.childForFieldName('argument');
+      const paths: RustUsePath[] = [];
+      if (argument) {
+        flattenRustUseTree(argument, [], paths);
+      }
+      for (const { segments, isGlob } of paths) {
+        const name = segments[segments.length - 1] ?? '';
+        if (isGlob) {
+          add(segments, null, '*');
+        } else if (segments.length > 1 && isRustItemName(name)) {
+          add(segments.slice(0, -1), name, null);
+        } else {
+          add(segments, name, null);
+        }
+      }
+      return;
+    }
+
+    if (node.type === 'mod_item' && !node.childForFieldName('body')) {
+      // `mod name;` loads the module's file without using any of its items
+      const name = node.childForFieldName('name')?.text;
+      if (name) add(['self', name], null, null);
+    } else if (node.type === 'extern_crate_declaration') {
+      const name = node.childForFieldName('name')?.text;
+      if (name) add([name], null, `*${name}`);
+    }
+
+    for (const child of node.children) {
+      traverse(child);
+    }
+  }
+
+  traverse(rootNode);
+  return Array.from(importsBySource.values());
+}
+
+// ============================================
+// Rust Export Extraction
+// ============================================
+
+/** Exported Rust items: export entry prefix and symbol kind by node type */
+const RUST_EXPORTED_ITEMS: Record<string, { prefix: string; kind: SymbolKind | null }> = {
+  function_item: { prefix: 'fn', kind: 'FUNCTION' },
+  struct_item: { prefix: 'struct', kind: 'CLASS' },
+  enum_item: { prefix: 'enum', kind: 'CLASS' },
+  union_item: { prefix: 'union', kind: 'CLASS' },
+  trait_item: { prefix: 'trait', kind: 'INTERFACE' },
+  type_item: { prefix: 'type', kind: 'INTERFACE' },
+  const_item: { prefix: 'const', kind: null },
+  static_item: { prefix: 'static', kind: null },
+  mod_item: { prefix: 'mod', kind: null },
+};
+
+/**
+ * Check whether a Rust item or field has a visibility modifier (pub, pub(crate), ...)
+ */
+function isRustPublic(node: Parser.SyntaxNode): boolean {
+  return node.children.some(c => c.type === 'visibility_modifier');
+}
+
+/**
+ * Append the shape tokens of a Rust item: signatures, type definitions and public struct fields,
+ * without function bodies or constant values
+ */
+function appendRustShapeTokens(node: Parser.SyntaxNode, tokens: string[]): void {
+  if (appendShapeLeaf(node, tokens)) {
+    return;
+  }
+
+  if (node.type === 'block') {
+    return;
+  }
+
+  if (node.type === 'field_declaration_list') {
+    for (const child of node.children) {
+      if (child.type !== 'field_declaration' || isRustPublic(child)) {
+        appendRustShapeTokens(child, tokens);
+      }
+    }
+    return;
+  }
+
+  const omitted = node.type === 'const_item' || node.type === 'static_item' ? node.childForFieldName('value') : null;
+  for (const child of node.children) {
+    if (omitted && (isSameNode(child, omitted) || child.type === '=')) {
+      continue;
+    }
+    appendRustShapeTokens(child, tokens);
+  }
+}
+
+/**
+ * Get the normalized shape hash of a Rust item
+ */
+function getRustShape(node: Parser.SyntaxNode): string {
+  const tokens: string[] = [];
+  appendRustShapeTokens(node, tokens);
+  return simpleHash(tokens.join(' '));
+}
+
+/**
+ * Extract all exports from Rust AST (top-level items with a visibility modifier and `pub use` re-exports)
+ * Public methods of inherent impl blocks are exported as "Type.method"
+ * @param symbols - Optional accumulator for exported functions and types
+ * @param shapes - Optional accumulator for the shape hash of each exported item
+ */
+function extractRustExports(
+  rootNode: Parser.SyntaxNode,
+  symbols: ParsedSymbol[] = [],
+  shapes: Record<string, string> = {}
+): string[] {
+  const exports: string[] = [];
+
+  for (const child of rootNode.children) {
+    const item = RUST_EXPORTED_ITEMS[child.type];
+    if (item) {
+      const name = child.childForFieldName('name')?.text;
+      if (name && isRustPublic(child)) {
+        exports.push(`${item.prefix}:${name}`);
+        addSymbol(symbols, name, item.kind);
+        shapes[name] = getRustShape(child);
+      }
+    } else if (child.type === 'use_declaration' && isRustPublic(child)) {
+      const argument = child.childForFieldName('argument');
+      const paths: RustUsePath[] = [];
+      if (argument) {
+        flattenRustUseTree(argument, [], paths);
+      }
+      for (const { segments, alias, isGlob } of paths) {
+        const name = isGlob ? '*' : alias ?? segments[segments.length - 1];
+        if (name) exports.push(`use:${name}`);
+      }
+    } else if (child.type === 'impl_item' && !child.childForFieldName('trait')) {
+      // Inherent impl: `impl<T> Point<T>` → "Point"
+      const typeName = child.childForFieldName('type')?.text.replace(/<.*$/s, '').split('::').pop()?.trim();
+      const body = child.childForFieldName('body');
+      if (!typeName || !body) continue;
+      for (const method of body.children) {
+        const name = method.type === 'function_item' ? method.childForFieldName('name')?.text : null;
+        if (name && isRustPublic(method)) {
+          exports.push(`method:${typeName}.${name}`);
+          shapes[`${typeName}.${name}`] = getRustShape(method);
+        }
+      }
+    }
+  }
+
+  return exports;
+}
+
+// ============================================
+// Java Import Extraction
+// ============================================
+
+/** Java type declarations and their symbol kinds */
+const JAVA_TYPE_DECLARATIONS: Record<string, SymbolKind> = {
+  class_declaration: 'CLASS',
+  record_declaration: 'CLASS',
+  enum_declaration: 'CLASS',
+  interface_declaration: 'INTERFACE',
+  annotation_type_declaration: 'INTERFACE',
+};
+
+/**
+ * Collect the simple type names a Java file references (types, annotations and owners of static members)
+ */
+function collectJavaTypeReferences(rootNode: Parser.SyntaxNode): Set<string> {
+  const names = new Set<string>();
+
+  function traverse(node: Parser.SyntaxNode) {
+    if (node.type === 'type_identifier') {
+      names.add(node.text);
+    } else if (node.type === 'marker_annotation' || node.type === 'annotation') {
+      const name = node.childForFieldName('name');
+      if (name?.type === 'identifier') names.add(name.text);
+    } else if (node.type === 'method_invocation' || node.type === 'field_access') {
+      const object = node.childForFieldName('object');
+      if (object?.type === 'identifier' && /^\p{Lu}/u.test(object.text)) names.add(object.text);
+    }
+
+    for (const child of node.children) {
+      traverse(child);
+    }
+  }
+
+  traverse(rootNode);
+  return names;
+}
+
+/**
+ * Collect the type and type parameter names a Java file declares
+ */
+function collectJavaDeclaredNames(rootNode: Parser.SyntaxNode): Set<string> {
+  const names = new Set<string>();
+
+  function traverse(node: Parser.SyntaxNode) {
+    if (node.type in JAVA_TYPE_DECLARATIONS) {
+      const name = node.childForFieldName('name');
+      if (name) names.add(name.text);
+    } else if (node.type === 'type_parameter') {
+      const name = node.namedChildren.find(c => c.type === 'type_identifier' || c.type === 'identifier');
+      if (name) names.add(name.text);
+    }
+
+    for (const child of node.children) {
+      traverse(child);
+    }
+  }
+
+  traverse(rootNode);
+  return names;
+}
+
+/**
+ * Extract all imports from Java AST as fully qualified type names ("com.acme.model.User")
+ * Single-type and static imports name their type; types used from the file's own package
+ * or from on-demand (`.*`) imports become one candidate per package, and candidates
+ * that don't exist in the project are dropped during resolution
+ */
+function extractJavaImports(rootNode: Parser.SyntaxNode): ParsedImport[] {
+  const imports: ParsedImport[] = [];
+  let packageName = '';
+  const onDemandPackages: string[] = [];
+  const importedNames = new Set<string>();
+
+  for (const child of rootNode.children) {
+    if (child.type === 'package_declaration') {
+      packageName = child.namedChildren.find(c => c.type === 'scoped_identifier' || c.type === 'identifier')?.text ?? '';
+      continue;
+    }
+    if (child.type !== 'import_declaration') continue;
+
+    const path = child.namedChildren.find(c => c.type === 'scoped_identifier' || c.type === 'identifier');
+    if (!path) continue;
+    const isStatic = child.children.some(c => c.type === 'static');
+    const isOnDemand = child.children.some(c => c.type === 'asterisk');
+    const segments = path.text.split('.').map(s => s.trim());
+
+    if (isOnDemand && !isStatic) {
+      onDemandPackages.push(segments.join('.'));
+      continue;
+    }
+
+    // `import static a.B.member` names a member of type B; `import static a.B.*` all of them
+    const typeSegments = isStatic && !isOnDemand ? segments.slice(0, -1) : segments;
+    const typeName = typeSegments[typeSegments.length - 1];
+    if (!typeName) continue;
+    importedNames.add(segments[segments.length - 1]!);
+    imports.push({ source: typeSegments.join('.'), namedImports: [typeName], defaultImport: null, isRelative: false });
+  }
+
+  const declaredNames = collectJavaDeclaredNames(rootNode);
+  const packages = [packageName, ...onDemandPackages];
+  for (const name of collectJavaTypeReferences(rootNode)) {
+    if (declaredNames.has(name) || importedNames.has(name)) continue;
+    for (const pkg of packages) {
+      imports.push({ source: pkg ? `${pkg}.${name}` : name, namedImports: [name], defaultImport: null, isRelative: false });
+    }
+  }
+
+  return imports;
+}
+
+// ============================================
+// Java Export Extraction
+// ============================================
+
+/** Java type bodies whose members are filtered by visibility */
+const JAVA_TYPE_BODIES = new Set(['class_body', 'interface_body', 'enum_body_declarations', 'annotation_type_body']);
+
+/**
+ * Check whether a Java type member is part of the API (public or protected; interface members unless private)
+ */
+function isJavaPublicMember(member: Parser.SyntaxNode, inInterface: boolean): boolean {
+  const modifiers = member.children.find(c => c.type === 'modifiers')?.children.map(c => c.type) ?? [];
+  if (modifiers.includes('private')) {
+    return false;
+  }
+  return inInterface || modifiers.includes('public') || modifiers.includes('protected');
+}
+
+/**
+ * Append the shape tokens of a Java type: its header and public/protected members,
+ * without method bodies, field initializers or annotations
+ */
+function appendJavaShapeTokens(node: Parser.SyntaxNode, tokens: string[]): void {
+  if (appendShapeLeaf(node, tokens)) {
+    return;
+  }
+
+  if (
+    node.type === 'block' ||
+    node.type === 'constructor_body' ||
+    node.type === 'marker_annotation' ||
+    node.type === 'annotation'
+  ) {
+    return;
+  }
+
+  if (JAVA_TYPE_BODIES.has(node.type)) {
+    const inInterface = node.type === 'interface_body' || node.type === 'annotation_type_body';
+    for (const child of node.children) {
+      if (!child.isNamed || isJavaPublicMember(child, inInterface)) {
+        appendJavaShapeTokens(child, tokens);
+      }
+    }
+    return;
+  }
+
+  const omitted = node.type === 'variable_declarator' ? node.childForFieldName('value') : null;
+  for (const child of node.children) {
+    if (omitted && (isSameNode(child, omitted) || child.type === '=')) {
+      continue;
+    }
+    appendJavaShapeTokens(child, tokens);
+  }
+}
+
+/**
+ * Get the normalized shape hash of a Java type declaration
+ */
+function getJavaShape(node: Parser.SyntaxNode): string {
+  const tokens: string[] = [];
+  appendJavaShapeTokens(node, tokens);
+  return simpleHash(tokens.join(' '));
+}
+
+/**
+ * Extract all exports from Java AST (top-level types, importable from other packages when public
+ * and from the same package otherwise)
+ * @param symbols - Optional accumulator for exported types
+ * @param shapes - Optional accumulator for the shape hash of each exported type
+ */
+function extractJavaExports(
+  rootNode: Parser.SyntaxNode,
+  symbols: ParsedSymbol[] = [],
+  shapes: Record<string, string> = {}
+): string[] {
+  const exports: string[] = [];
+
+  for (const child of rootNode.children) {
+    const kind = JAVA_TYPE_DECLARATIONS[child.type];
+    const name = kind ? child.childForFieldName('name')?.text : null;
+    if (kind && name) {
+      exports.push(`type:${name}`);
+      addSymbol(symbols, name, kind);
+      shapes[name] = getJavaShape(child);
+    }
+  }
+
+  return exports;
+}
+
+// ============================================
+// C# Import Extraction
+// ============================================
+
+/** C# type declarations and their symbol kinds */
+const CSHARP_TYPE_DECLARATIONS: Record<string, SymbolKind> = {
+  class_declaration: 'CLASS',
+  struct_declaration: 'CLASS',
+  record_declaration: 'CLASS',
+  enum_declaration: 'CLASS',
+  interface_declaration: 'INTERFACE',
+  delegate_declaration: 'INTERFACE',
+};
+
+/** Nodes whose identifier children name types */
+const CSHARP_TYPE_CONTEXTS = new Set(['base_list', 'type_argument_list', 'generic_name', 'nullable_type', 'array_type']);
+
+/** Fields whose identifier value names a type */
+const CSHARP_TYPE_FIELDS = new Set(['type', 'returns']);
+
+/**
+ * Collect the type names a C# file references (types, attributes and owners of static members),
+ * as written: simple or namespace-qualified
+ */
+function collectCSharpTypeReferences(rootNode: Parser.SyntaxNode): Set<string> {
+  const names = new Set<string>();
+
+  function traverse(node: Parser.SyntaxNode) {
+    for (let i = 0; i < node.childCount; i++) {
+      const child = node.child(i)!;
+      const field = node.fieldNameForChild(i) ?? '';
+      if (child.type === 'qualified_name' && (CSHARP_TYPE_FIELDS.has(field) || CSHARP_TYPE_CONTEXTS.has(node.type))) {
+        // Namespace-qualified type (Models.User)
+        names.add(child.text.replace(/\s/g, ''));
+        continue;
+      }
+      if (child.type !== 'identifier') {
+        traverse(child);
+        continue;
+      }
+
+      if (node.type === 'attribute' && field === 'name') {
+        // [ApiController] is declared as ApiControllerAttribute
+        names.add(child.text);
+        names.add(`${child.text}Attribute`);
+      } else if (
+        CSHARP_TYPE_FIELDS.has(field) ||
+        CSHARP_TYPE_CONTEXTS.has(node.type) ||
+        (node.type === 'member_access_expression' && field === 'expression' && /^\p{Lu}/u.test(child.text))
+      ) {
+        names.add(child.text);
+      }
+    }
+  }
+
+  traverse(rootNode);
+  return names;
+}
+
+/**
+ * Collect the type and type parameter names a C# file declares
+ */
+function collectCSharpDeclaredNames(rootNode: Parser.SyntaxNode): Set<string> {
+  const names = new Set<string>();
+
+  function traverse(node: Parser.SyntaxNode) {
+    if (node.type in CSHARP_TYPE_DECLARATIONS || node.type === 'type_parameter') {
+      const name = node.childForFieldName('name') ?? node.namedChildren.find(c => c.type === 'identifier');
+      if (name) names.add(name.text);
+    }
+
+    for (const child of node.children) {
+      traverse(child);
+    }
+  }
+
+  traverse(rootNode);
+  return names;
+}
+
+/**
+ * Extract all imports from C# AST as fully qualified type names ("Acme.Model.User")
+ * `using static` and alias directives name their type; types used from the file's namespaces
+ * (and their parents) or from `using` namespaces become one candidate per namespace, and
+ * candidates that don't exist in the project are dropped during resolution
+ */
+function extractCSharpImports(rootNode: Parser.SyntaxNode): ParsedImport[] {
+  const imports: ParsedImport[] = [];
+  const namespaces = new Set<string>();
+  const importedNames = new Set<string>();
+  let hasNamespace = false;
+
+  function addNamespace(name: string) {
+    // Code in namespace A.B.C sees the types of A.B.C, A.B and A
+    const parts = name.split('.');
+    for (let length = parts.length; length > 0; length--) {
+      namespaces.add(parts.slice(0, length).join('.'));
+    }
+  }
+
+  function traverse(node: Parser.SyntaxNode, enclosing: string) {
+    for (const child of node.children) {
+      if (child.type === 'using_directive') {
+        const alias = child.childForFieldName('name');
+        const target = child.namedChildren
+          .filter(c => (c.type === 'identifier' || c.type === 'qualified_name') && !(alias && isSameNode(c, alias)))
+          .pop();
+        if (!target) continue;
+        const name = target.text.replace(/\s/g, '');
+
+        if (alias || child.children.some(c => c.type === 'static')) {
+          const typeName = name.split('.').pop()!;
+          importedNames.add(alias?.text ?? typeName);
+          imports.push({ source: name, namedImports: [typeName], defaultImport: null, isRelative: false });
+        } else if (name !== 'System' && !name.startsWith('System.')) {
+          namespaces.add(name);
+        }
+      } else if (child.type === 'namespace_declaration' || child.type === 'file_scoped_namespace_declaration') {
+        const name = child.childForFieldName('name')?.text.replace(/\s/g, '');
+        if (!name) continue;
+        const fullName = enclosing ? `${enclosing}.${name}` : name;
+        hasNamespace = true;
+        addNamespace(fullName);
+        const body = child.childForFieldName('body');
+        if (body) traverse(body, fullName);
+      }
+    }
+  }
+
+  traverse(rootNode, '');
+  if (!hasNamespace) {
+    namespaces.add('');
+  }
+
+  const declaredNames = collectCSharpDeclaredNames(rootNode);
+  for (const name of collectCSharpTypeReferences(rootNode)) {
+    if (declaredNames.has(name) || importedNames.has(name)) continue;
+    const typeName = name.slice(name.lastIndexOf('.') + 1);
+    for (const namespace of namespaces) {
+      imports.push({
+        source: namespace ? `${namespace}.${name}` : name,
+        namedImports: [typeName],
+        defaultImport: null,
+        isRelative: false,
+      });
+    }
+  }
+
+  return imports;
+}
+
+// ============================================
+// C# Export Extraction
+// ============================================
+
+/**
+ * Check whether a C# type member is part of the API (public, protected or internal; interface members unless private)
+ */
+function isCSharpPublicMember(member: Parser.SyntaxNode, inInterface: boolean): boolean {
+  const modifiers = member.children.filter(c => c.type === 'modifier').map(c => c.text);
+  if (modifiers.includes('private') && !modifiers.includes('protected')) {
+    return false;
+  }
+  return inInterface || modifiers.some(m => m === 'public' || m === 'protected' || m === 'internal');
+}
+
+/**
+ * Append the shape tokens of a C# type: its header and public/protected/internal members,
+ * without method bodies, initializers or attributes
+ */
+function appendCSharpShapeTokens(node: Parser.SyntaxNode, tokens: string[]): void {
+  if (appendShapeLeaf(node, tokens)) {
+    return;
+  }
+
+  if (node.type === 'block' || node.type === 'arrow_expression_clause' || node.type === 'attribute_list') {
+    return;
+  }
+
+  if (node.type === 'declaration_list') {
+    const inInterface = node.parent?.type === 'interface_declaration';
+    for (const child of node.children) {
+      if (!child.isNamed || isCSharpPublicMember(child, inInterface)) {
+        appendCSharpShapeTokens(child, tokens);
+      }
+    }
+    return;
+  }
+
+  for (const child of node.children) {
+    // Field and property initializers (`= value`) are not part of the shape
+    if (child.type === '=' && (node.type === 'variable_declarator' || node.type === 'property_declaration')) {
+      break;
+    }
+    appendCSharpShapeTokens(child, tokens);
+  }
+}
+
+/**
+ * Get the normalized shape hash of a C# type declaration
+ */
+function getCSharpShape(node: Parser.SyntaxNode): string {
+  const tokens: string[] = [];
+  appendCSharpShapeTokens(node, tokens);
+  return simpleHash(tokens.join(' '));
+}
+
+/**
+ * Extract all exports from C# AST (types declared at the top level or in namespaces;
+ * top-level types are at least internal, so all of them are visible within the project)
+ * @param symbols - Optional accumulator for exported types
+ * @param shapes - Optional accumulator for the shape hash of each exported type
+ */
+function extractCSharpExports(
+  rootNode: Parser.SyntaxNode,
+  symbols: ParsedSymbol[] = [],
+  shapes: Record<string, string> = {}
+): string[] {
+  const exports: string[] = [];
+
+  function traverse(node: Parser.SyntaxNode) {
+    for (const child of node.children) {
+      if (child.type === 'namespace_declaration') {
+        const body = child.childForFieldName('body');
+        if (body) traverse(body);
+        continue;
+      }
+
+      const kind = CSHARP_TYPE_DECLARATIONS[child.type];
+      const name = kind ? child.childForFieldName('name')?.text : null;
+      if (kind && name) {
+        exports.push(`type:${name}`);
+        addSymbol(symbols, name, kind);
+        shapes[name] = getCSharpShape(child);
+      }
+    }
+  }
+
+  traverse(rootNode);
+  return exports;
+}
+
+// ============================================
+// Single-File Components (Vue, Svelte, Astro)
+// ============================================
+
+/** Compiler macros and runes that declare a component's props, events and slots */
+const COMPONENT_API_CALLS = new Set(['defineProps', 'defineEmits', 'defineModel', 'defineSlots', '$props']);
+
+/** Conventional names of the props/events types of a component */
+const COMPONENT_API_TYPES = new Set(['Props', 'Emits', 'Slots']);
+
+/** Script code of a component, split by what its exports mean */
+interface ComponentScripts {
+  /** Code whose exports importers can bind (Vue `<script>`, Svelte module script) */
+  module: string;
+  /** Per-instance code (Svelte instance script, Astro frontmatter and client scripts) */
+  instance: string;
+  /** Whether any block declares lang="tsx"/"jsx" */
+  jsx: boolean;
+}
+
+/** Parsed script code of a component */
+interface ParsedComponent {
+  imports: ParsedImport[];
+  exports: string[];
+  exportedNames: string[];
+}
+
+/**
+ * Extract the script blocks of a single-file component
+ * Vue: `<script>` and `<script setup>`; Svelte: instance and `context="module"` scripts;
+ * Astro: the `---` frontmatter and `<script>` tags
+ */
+function extractComponentScripts(content: string, language: BuiltinLanguage): ComponentScripts {
+  const scripts: ComponentScripts = { module: '', instance: '', jsx: false };
+  let markup = content;
+
+  if (language === 'astro') {
+    const frontmatter = /^\s*---\r?\n([\s\S]*?)\r?\n---/.exec(content);
+    if (frontmatter) {
+      scripts.instance += `${frontmatter[1]}\n`;
+      markup = content.slice(frontmatter[0].length);
+    }
+  }
+
+  markup = markup.replace(/<!--[\s\S]*?-->/g, '');
+  for (const match of markup.matchAll(/<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi)) {
+    const attributes = match[1]!;
+    const code = match[2]!;
+
+    // Skip data blocks such as JSON-LD
+    const type = /\btype\s*=\s*["']([^"']*)["']/i.exec(attributes)?.[1];
+    if (type && !/^(module|(text|application)\/(java|type)script)$/i.test(type)) continue;
+
+    const lang = /\blang\s*=\s*["']?(\w+)/i.exec(attributes)?.[1]?.toLowerCase();
+    if (lang === 'tsx' || lang === 'jsx') {
+      scripts.jsx = true;
+    }
+
+    const isModule =
+      language === 'vue' ||
+      (language === 'svelte' && /(^|\s)(context\s*=\s*["']module["']|module)(\s|=|\/|$)/i.test(attributes));
+    if (isModule) {
+      scripts.module += `${code}\n`;
+    } else {
+      scripts.instance += `${code}\n`;
+    }
+  }
+
+  return scripts;
+}
+
+/**
+ * Collect the shape tokens of a component's API: props/emits macros and runes,
+ * Props/Emits/Slots types and Svelte `export let` props
+ */
+function appendComponentApiTokens(rootNode: Parser.SyntaxNode, isInstance: boolean, tokens: string[]): void {
+  for (const call of rootNode.descendantsOfType('call_expression')) {
+    const name = call.childForFieldName('function')?.text;
+    if (!name || !COMPONENT_API_CALLS.has(name)) continue;
+
+    // `let { a, b }: Props = $props()` declares the props in the binding pattern
+    const declarator = call.parent?.type === 'variable_declarator' ? call.parent : null;
+    appendJsShapeTokens(name === '$props' && declarator ? declarator : call, tokens);
+  }
+
+  for (const child of rootNode.children) {
+    const declaration = child.type === 'export_statement' ? child.childForFieldName('declaration') : child;
+    if (!declaration) continue;
+
+    const typeName =
+      declaration.type === 'interface_declaration' || declaration.type === 'type_alias_declaration'
+        ? declaration.childForFieldName('name')?.text
+        : null;
+    if (typeName && COMPONENT_API_TYPES.has(typeName)) {
+      appendJsShapeTokens(declaration, tokens);
+    } else if (isInstance && child.type === 'export_statement') {
+      // Svelte instance script: `export let name` declares a prop
+      appendJsShapeTokens(declaration, tokens);
+    }
+  }
+}
+
+/**
+ * Parse the script blocks of a single-file component with the TypeScript grammar
+ * The component is the default export; its shape covers the declared props, events and slots
+ * @param shapes - Optional accumulator for the shape hash of each export
+ */
+function parseComponentScripts(
+  content: string,
+  language: BuiltinLanguage,
+  symbols: ParsedSymbol[] = [],
+  shapes: Record<string, string> = {}
+): ParsedComponent {
+  const scripts = extractComponentScripts(content, language);
+  parser.setLanguage(scripts.jsx ? TypeScript.tsx : TypeScript.typescript);
+
+  const moduleTree = parser.parse(scripts.module);
+  const instanceTree = parser.parse(scripts.instance);
+
+  const imports = [...extractJsImports(moduleTree.rootNode), ...extractJsImports(instanceTree.rootNode)];
+  const exports = extractJsExports(moduleTree.rootNode, symbols);
+  const exportedNames = extractJsExportedNames(moduleTree.rootNode, shapes);
+
+  const tokens: string[] = [];
+  appendComponentApiTokens(moduleTree.rootNode, false, tokens);
+  appendComponentApiTokens(instanceTree.rootNode, true, tokens);
+  if (tokens.length > 0) {
+    shapes['default'] = simpleHash([shapes['default'] ?? '', ...tokens].join(' '));
+  }
+
+  if (!exportedNames.includes('default')) {
+    exportedNames.push('default');
+    exports.push('default:component');
+  }
+
+  return { imports, exports, exportedNames };
+}
+
 // ============================================
 // Content Parsing (for plugin system)
 // ============================================
@@ -608,12 +2207,13 @@ function findPythonAllExports(rootNode: Parser.SyntaxNode): string[] {
  * Used by language plugins to delegate to the Tree-sitter parser
  * @param content - File content string
  * @param filePath - File path (used for language detection and as identifier)
- * @param mode - 'js' for TypeScript/JavaScript, 'python' for Python
+ * @param mode - 'js' for TypeScript/JavaScript, 'component' for Vue/Svelte/Astro single-file components,
+ *   otherwise the language ('python', 'go', 'rust', 'java', 'csharp')
  */
 export function parseFileContent(
   content: string,
   filePath: string,
-  mode: 'js' | 'python'
+  mode: 'js' | 'component' | 'python' | 'go' | 'rust' | 'java' | 'csharp'
 ): ParsedFile | null {
   try {
     const language = setParserLanguage(filePath);
@@ -621,21 +2221,47 @@ export function parseFileContent(
       return null;
     }
 
-    const tree = parser.parse(content);
-
     let imports: ParsedImport[];
     let exports: string[];
+    let exportedNames: string[];
+    const symbols: ParsedSymbol[] = [];
+    const exportShapes: Record<string, string> = {};
 
-    if (mode === 'python') {
-      imports = extractPythonImports(tree.rootNode);
-      exports = extractPythonExports(tree.rootNode);
+    if (mode === 'component') {
+      // Components parse their extracted script blocks instead of the whole file
+      ({ imports, exports, exportedNames } = parseComponentScripts(content, language, symbols, exportShapes));
     } else {
-      imports = extractJsImports(tree.rootNode);
-      exports = extractJsExports(tree.rootNode);
+      const tree = parser.parse(content);
+
+      if (mode === 'python') {
+        imports = extractPythonImports(tree.rootNode);
+        exports = extractPythonExports(tree.rootNode, symbols, exportShapes);
+        exportedNames = extractPythonExportedNames(tree.rootNode);
+      } else if (mode === 'go') {
+        imports = extractGoImports(tree.rootNode);
+        exports = extractGoExports(tree.rootNode, symbols, exportShapes);
+        exportedNames = exports.map(entry => entry.slice(entry.indexOf(':') + 1));
+      } else if (mode === 'rust') {
+        imports = extractRustImports(tree.rootNode);
+        exports = extractRustExports(tree.rootNode, symbols, exportShapes);
+        exportedNames = exports.map(entry => entry.slice(entry.indexOf(':') + 1));
+      } else if (mode === 'java') {
+        imports = extractJavaImports(tree.rootNode);
+        exports = extractJavaExports(tree.rootNode, symbols, exportShapes);
+        exportedNames = exports.map(entry => entry.slice(entry.indexOf(':') + 1));
+      } else if (mode === 'csharp') {
+        imports = extractCSharpImports(tree.rootNode);
+        exports = extractCSharpExports(tree.rootNode, symbols, exportShapes);
+        exportedNames = exports.map(entry => entry.slice(entry.indexOf(':') + 1));
+      } else {
+        imports = extractJsImports(tree.rootNode);
+        exports = extractJsExports(tree.rootNode, symbols);
+        exportedNames = extractJsExportedNames(tree.rootNode, exportShapes);
+      }
     }
 
     const contentHash = simpleHash(content);
-    const exportSignature = simpleHash(exports.sort().join(','));
+    const exportSignature = computeExportSignature(exports, exportShapes);
 
     return {
       filePath,
@@ -643,6 +2269,9 @@ export function parseFileContent(
       contentHash,
       exportSignature,
       language,
+      symbols,
+      exportedNames,
+      exportShapes,
     };
   } catch (error) {
     console.warn(`⚠️  Failed to parse ${filePath}:`, error instanceof Error ? error.message : error);
@@ -668,19 +2297,38 @@ export function parseContentForExports(content: string, filePath: string): strin
     const tree = parser.parse(content);
 
     let exports: string[];
+    const shapes: Record<string, string> = {};
     switch (language) {
       case 'typescript':
       case 'javascript':
         exports = extractJsExports(tree.rootNode);
+        extractJsExportedNames(tree.rootNode, shapes);
         break;
       case 'python':
-        exports = extractPythonExports(tree.rootNode);
+        exports = extractPythonExports(tree.rootNode, [], shapes);
+        break;
+      case 'go':
+        exports = extractGoExports(tree.rootNode, [], shapes);
+        break;
+      case 'rust':
+        exports = extractRustExports(tree.rootNode, [], shapes);
+        break;
+      case 'java':
+        exports = extractJavaExports(tree.rootNode, [], shapes);
+        break;
+      case 'csharp':
+        exports = extractCSharpExports(tree.rootNode, [], shapes);
+        break;
+      case 'vue':
+      case 'svelte':
+      case 'astro':
+        exports = parseComponentScripts(content, language, [], shapes).exports;
         break;
       default:
         exports = [];
     }
 
-    return simpleHash(exports.sort().join(','));
+    return computeExportSignature(exports, shapes);
   } catch {
     return '';
   }
@@ -0,0 +1,65 @@
+/**
+ * Shared helpers for the built-in asset plugins (stylesheets, JSON, GraphQL, images)
+ * Assets are parsed without Tree-sitter: their references become imports and the names
+ * other files can use from them (selectors, keys, definitions) make up their export signature
+ */
+
+import type { Language } from '@topology/protocol';
+import type { ParsedFile, ParsedImport } from '../types.js';
+import { simpleHash } from '../../cache/contentHash.js';
+
+/** What an asset references and provides */
+export interface AssetContents {
+  imports: ParsedImport[];
+  exportedNames: string[];
+  exportShapes: Record<string, string>;
+}
+
+/**
+ * Create the parse result of an asset file
+ */
+export function createAssetFile(
+  filePath: string,
+  content: string,
+  language: Language,
+  { imports, exportedNames, exportShapes }: AssetContents
+): ParsedFile {
+  const shapeEntries = Object.keys(exportShapes).sort().map((name) => `shape:${name}=${exportShapes[name]}`);
+  return {
+    filePath,
+    imports,
+    contentHash: simpleHash(content),
+    exportSignature: simpleHash([...[...exportedNames].sort(), ...shapeEntries].join(',')),
+    language,
+    exportedNames,
+    exportShapes,
+  };
+}
+
+/**
+ * Create the import of a file referenced by path (`@import "base.css"`, `url(logo.png)`, `#import "./f.graphql"`)
+ * Bare paths are relative to the referencing file, as in CSS
+ * @returns null for URLs, data: URIs, fragments and built-in modules such as `sass:math`
+ */
+export function createAssetImport(reference: string, defaultImport: string | null): ParsedImport | null {
+  const source = reference.trim().replace(/[?#].*$/, '');
+  if (!source || /^([a-z][\w+.-]*:|\/\/)/i.test(source)) {
+    return null;
+  }
+
+  // Root-relative (`/img/a.png`) and webpack module (`~pkg/a.css`) paths are not file-relative
+  const isRelative = !source.startsWith('/') && !source.startsWith('~');
+  return {
+    source: isRelative && !source.startsWith('.') ? `./${source}` : source,
+    namedImports: [],
+    defaultImport,
+    isRelative,
+  };
+}
+
+/**
+ * Get the hash of a sorted, de-duplicated list of names
+ */
+export function hashNames(names: Iterable<string>): string {
+  return simpleHash(Array.from(new Set(names)).sort().join(','));
+}
@@ -0,0 +1,23 @@
+/**
+ * Built-in Astro language plugin
+ * Parses the frontmatter and `<script>` tags of single-file components with the TypeScript grammar
+ */
+
+import type { LanguagePlugin, ParsedFile } from '../types.js';
+import {
+  parseFileContent,
+  parseContentForExports,
+} from '../../parser/parser.js';
+
+export const astroPlugin: LanguagePlugin = {
+  name: 'astro',
+  extensions: ['.astro'],
+
+  parse(content: string, filePath: string, _basePath: string): ParsedFile | null {
+    return parseFileContent(content, filePath, 'component');
+  },
+
+  extractExportsFromContent(content: string, filePath: string): string {
+    return parseContentForExports(content, filePath);
+  },
+};
@@ -0,0 +1,274 @@
+/**
+ * Cargo crate resolution for the built-in Rust plugin
+ * Maps `use` paths to module files: crate/self/super paths within the importing crate,
+ * and other crates of the Cargo workspace (members and local path dependencies) by name
+ */
+
+import { existsSync, readFileSync, statSync } from 'fs';
+import { join, posix } from 'path';
+import { globSync } from 'glob';
+
+/** Parsed Cargo.toml contents */
+export interface CargoManifest {
+  /** `[package] name` (null for virtual workspace manifests) */
+  packageName: string | null;
+  /** True if the manifest has a `[workspace]` section */
+  isWorkspace: boolean;
+  /** `[workspace] members` globs (relative to the manifest directory) */
+  workspaceMembers: string[];
+  /** Dependencies with a local `path` (relative to the manifest directory) */
+  pathDependencies: Array<{ name: string; path: string }>;
+}
+
+/** A crate: its name as used in paths and its directory relative to the project root */
+interface CrateInfo {
+  name: string;
+  dir: string;
+}
+
+/** Crates that are never part of the analyzed tree */
+const STANDARD_CRATES = new Set(['std', 'core', 'alloc', 'proc_macro', 'test']);
+
+/**
+ * Get the name a crate is referred to by in paths (hyphens become underscores)
+ */
+function toCrateName(name: string): string {
+  return name.replace(/-/g, '_');
+}
+
+/**
+ * Parse the package name, workspace members and local path dependencies from Cargo.toml content
+ */
+export function parseCargoToml(content: string): CargoManifest {
+  const manifest: CargoManifest = {
+    packageName: null,
+    isWorkspace: false,
+    workspaceMembers: [],
+    pathDependencies: [],
+  };
+  const isDependencySection = (section: string) => /(^|\.)(dev-|build-)?dependencies$/.test(section);
+
+  let section = '';
+  let pendingMembers: string | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Drop comments that are not inside a string
+    const line = rawLine.replace(/#[^"]*$/, '').trim();
+
+    if (pendingMembers !== null) {
+      pendingMembers += ` ${line}`;
+      if (line.includes(']')) {
+        manifest.workspaceMembers = Array.from(pendingMembers.matchAll(/"([^"]+)"/g), (m) => m[1]!);
+        pendingMembers = null;
+      }
+      continue;
+    }
+
+    const header = /^\[\[?([^\]]+)\]\]?$/.exec(line);
+    if (header) {
+      section = header[1]!.trim();
+      if (section === 'workspace') {
+        manifest.isWorkspace = true;
+      }
+      continue;
+    }
+
+    if (section === 'package') {
+      const name = /^name\s*=\s*"([^"]+)"/.exec(line);
+      if (name) manifest.packageName = name[1]!;
+    } else if (section === 'workspace' && /^members\s*=/.test(line)) {
+      pendingMembers = line;
+      if (line.includes(']')) {
+        manifest.workspaceMembers = Array.from(line.matchAll(/"([^"]+)"/g), (m) => m[1]!);
+        pendingMembers = null;
+      }
+    } else if (isDependencySection(section)) {
+      // name = { path = "../foo", ... }
+      const inline = /^([\w-]+)\s*=\s*\{.*\bpath\s*=\s*"([^"]+)"/.exec(line);
+      if (inline) manifest.pathDependencies.push({ name: inline[1]!, path: inline[2]! });
+    } else {
+      // [dependencies.foo] with path = "../foo"
+      const table = /^(?:.*\.)?(?:dev-|build-)?dependencies\.([\w-]+)$/.exec(section);
+      const path = table ? /^path\s*=\s*"([^"]+)"/.exec(line) : null;
+      if (table && path) manifest.pathDependencies.push({ name: table[1]!, path: path[1]! });
+    }
+  }
+
+  return manifest;
+}
+
+/**
+ * Resolves Rust `use` paths to module files
+ */
+export class CargoCrateResolver {
+  /** Parsed Cargo.toml files by absolute path, invalidated when the file changes */
+  private manifestCache = new Map<string, { mtimeMs: number; manifest: CargoManifest }>();
+
+  /**
+   * Read and parse a Cargo.toml file (cached by modification time)
+   */
+  private readManifest(path: string): CargoManifest | null {
+    try {
+      const { mtimeMs } = statSync(path);
+      const cached = this.manifestCache.get(path);
+      if (cached && cached.mtimeMs === mtimeMs) {
+        return cached.manifest;
+      }
+      const manifest = parseCargoToml(readFileSync(path, 'utf-8'));
+      this.manifestCache.set(path, { mtimeMs, manifest });
+      return manifest;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Find the nearest manifest at or above a directory that satisfies a predicate
+   */
+  private findManifest(
+    basePath: string,
+    startDir: string,
+    predicate: (manifest: CargoManifest) => boolean
+  ): { dir: string; manifest: CargoManifest } | null {
+    let dir = posix.normalize(startDir);
+    for (;;) {
+      const manifestPath = join(basePath, dir, 'Cargo.toml');
+      if (existsSync(manifestPath)) {
+        const manifest = this.readManifest(manifestPath);
+        if (manifest && predicate(manifest)) {
+          return { dir, manifest };
+        }
+      }
+      if (dir === '.' || dir.startsWith('..')) return null;
+      dir = posix.dirname(dir);
+    }
+  }
+
+  /**
+   * Get the crates reachable by name from a crate: itself, its local path dependencies
+   * and the members of its workspace
+   */
+  private getNamedCrates(basePath: string, crate: CrateInfo, manifest: CargoManifest): CrateInfo[] {
+    const crates: CrateInfo[] = [crate];
+
+    const addCrate = (dir: string) => {
+      const member = this.readManifest(join(basePath, dir, 'Cargo.toml'));
+      if (member?.packageName) {
+        crates.push({ name: toCrateName(member.packageName), dir });
+      }
+    };
+
+    for (const dep of manifest.pathDependencies) {
+      addCrate(posix.normalize(posix.join(crate.dir, dep.path)));
+    }
+
+    const workspace = this.findManifest(basePath, crate.dir, (m) => m.isWorkspace);
+    if (workspace) {
+      for (const pattern of workspace.manifest.workspaceMembers) {
+        const memberDirs = globSync(pattern, { cwd: join(basePath, workspace.dir), posix: true });
+        for (const memberDir of memberDirs) {
+          addCrate(posix.normalize(posix.join(workspace.dir, memberDir)));
+        }
+      }
+    }
+
+    return crates;
+  }
+
+  /**
+   * Get the module path of a file inside its crate's src/ directory
+   * (src/lib.rs and src/main.rs are the crate root, src/a/mod.rs and src/a.rs are module `a`)
+   * @returns The module segments, or null for files outside src/ (tests, examples, build scripts)
+   */
+  private getModulePath(crateDir: string, filePath: string): string[] | null {
+    const relative = posix.relative(crateDir, filePath);
+    if (!relative.startsWith('src/')) {
+      return null;
+    }
+    const segments = relative.slice('src/'.length).replace(/\.rs$/, '').split('/');
+    if (segments.length === 1 && (segments[0] === 'lib' || segments[0] === 'main')) {
+      return [];
+    }
+    if (segments[0] === 'bin') {
+      return null;
+    }
+    if (segments[segments.length - 1] === 'mod') {
+      segments.pop();
+    }
+    return segments;
+  }
+
+  /**
+   * Get the files that can define a module of a crate
+   */
+  private getModuleFiles(crateDir: string, modulePath: string[]): string[] {
+    const srcDir = posix.join(crateDir, 'src');
+    if (modulePath.length === 0) {
+      return [posix.join(srcDir, 'lib.rs'), posix.join(srcDir, 'main.rs')];
+    }
+    const modulePrefix = posix.join(srcDir, ...modulePath);
+    return [`${modulePrefix}.rs`, posix.join(modulePrefix, 'mod.rs')];
+  }
+
+  /**
+   * Resolve a `use` path (e.g. "crate::model::User") to the file of the deepest module it names
+   * Items inside a module resolve to the module's file; inline modules resolve to their parent
+   * @returns The file, or null for standard library, external crates and unknown paths
+   */
+  resolve(
+    basePath: string,
+    fromFile: string,
+    usePath: string,
+    fileExists: (filePath: string) => boolean
+  ): string | null {
+    const segments = usePath.split('::').filter(Boolean);
+    const first = segments[0];
+    if (!first || STANDARD_CRATES.has(first)) {
+      return null;
+    }
+
+    const crateManifest = this.findManifest(basePath, posix.dirname(fromFile), (m) => m.packageName !== null);
+    if (!crateManifest) {
+      return null;
+    }
+    const crate: CrateInfo = { name: toCrateName(crateManifest.manifest.packageName!), dir: crateManifest.dir };
+    const currentModule = this.getModulePath(crate.dir, fromFile);
+
+    // Module path to search, and how many of its segments must match a file
+    let targetCrate = crate;
+    let modulePath: string[];
+    let minLength: number;
+    if (first === 'crate') {
+      modulePath = segments.slice(1);
+      minLength = 0;
+    } else if (first === 'self' || first === 'super') {
+      if (!currentModule) return null;
+      let supers = 0;
+      while (segments[supers] === 'super') supers++;
+      const base = currentModule.slice(0, Math.max(0, currentModule.length - supers));
+      modulePath = [...base, ...segments.slice(first === 'self' ? 1 : supers)];
+      minLength = base.length;
+    } else {
+      const named = this.getNamedCrates(basePath, crate, crateManifest.manifest).find((c) => c.name === first);
+      if (named) {
+        targetCrate = named;
+        modulePath = segments.slice(1);
+        minLength = 0;
+      } else if (currentModule) {
+        // 2018-style path relative to the current module (`mod a; use a::Item;`)
+        modulePath = [...currentModule, ...segments];
+        minLength = currentModule.length + 1;
+      } else {
+        return null;
+      }
+    }
+
+    for (let length = modulePath.length; length >= minLength; length--) {
+      const target = this.getModuleFiles(targetCrate.dir, modulePath.slice(0, length)).find(fileExists);
+      if (target) {
+        return target;
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Built-in C# language plugin
+ * Wraps the Tree-sitter based parser; types used through `using` directives and enclosing
+ * namespaces are resolved to their files within the .csproj and its referenced projects
+ */
+
+import type { LanguagePlugin, ParsedFile } from '../types.js';
+import {
+  parseFileContent,
+  parseContentForExports,
+} from '../../parser/parser.js';
+import { CSharpProjectResolver } from './csharpProjects.js';
+
+const projectResolver = new CSharpProjectResolver();
+
+export const csharpPlugin: LanguagePlugin = {
+  name: 'csharp',
+  extensions: ['.cs'],
+
+  parse(content: string, filePath: string, _basePath: string): ParsedFile | null {
+    return parseFileContent(content, filePath, 'csharp');
+  },
+
+  extractExportsFromContent(content: string, filePath: string): string {
+    return parseContentForExports(content, filePath);
+  },
+
+  resolveImport(
+    fromFile: string,
+    importSource: string,
+    fileExists: (filePath: string) => boolean,
+    basePath: string
+  ): string | null {
+    return projectResolver.resolve(basePath, fromFile, importSource, fileExists);
+  },
+};
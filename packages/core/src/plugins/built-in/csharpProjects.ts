@@ -0,0 +1,143 @@
+/**
+ * .csproj resolution for the built-in C# plugin
+ * Maps fully qualified type names to files using the nearest project's root namespace
+ * (folders mirror the namespace below it) and the projects it references
+ */
+
+import { readdirSync, readFileSync, statSync } from 'fs';
+import { join, posix } from 'path';
+
+/** Parsed .csproj contents */
+export interface CSharpProjectFile {
+  /** `<RootNamespace>`, defaulting to the project file name */
+  rootNamespace: string;
+  /** `<ProjectReference Include="...">` paths (relative to the project directory) */
+  projectReferences: string[];
+}
+
+/** A project: its root namespace and directory relative to the project root */
+interface CSharpProject {
+  rootNamespace: string;
+  dir: string;
+}
+
+/**
+ * Parse the root namespace and project references from .csproj content
+ * @param fileName - Project file name (the default root namespace)
+ */
+export function parseCsproj(content: string, fileName: string): CSharpProjectFile {
+  const rootNamespace = /<RootNamespace>\s*([^<]*?)\s*<\/RootNamespace>/.exec(content)?.[1];
+  const projectReferences = Array.from(
+    content.matchAll(/<ProjectReference\s+Include\s*=\s*"([^"]+)"/g),
+    (m) => m[1]!.replace(/\\/g, '/')
+  );
+  return {
+    rootNamespace: rootNamespace ?? posix.basename(fileName, '.csproj'),
+    projectReferences,
+  };
+}
+
+/**
+ * Resolves C# type names to source files
+ */
+export class CSharpProjectResolver {
+  /** Parsed project files by absolute path, invalidated when the file changes */
+  private projectCache = new Map<string, { mtimeMs: number; project: CSharpProjectFile }>();
+  /** Project file of each scanned directory (null if it has none) */
+  private projectFiles = new Map<string, string | null>();
+
+  /**
+   * Read and parse a .csproj file (cached by modification time)
+   */
+  private readProject(path: string): CSharpProjectFile | null {
+    try {
+      const { mtimeMs } = statSync(path);
+      const cached = this.projectCache.get(path);
+      if (cached && cached.mtimeMs === mtimeMs) {
+        return cached.project;
+      }
+      const project = parseCsproj(readFileSync(path, 'utf-8'), posix.basename(path));
+      this.projectCache.set(path, { mtimeMs, project });
+      return project;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Find the project file in a directory (relative to the project root)
+   */
+  private findProjectFile(basePath: string, dir: string): string | null {
+    const key = join(basePath, dir);
+    if (!this.projectFiles.has(key)) {
+      let projectFile: string | null = null;
+      try {
+        const name = readdirSync(key).find((entry) => entry.endsWith('.csproj'));
+        projectFile = name ? posix.join(dir, name) : null;
+      } catch {
+        // Unreadable directory: no project file
+      }
+      this.projectFiles.set(key, projectFile);
+    }
+    return this.projectFiles.get(key)!;
+  }
+
+  /**
+   * Get the nearest project at or above a directory, followed by the projects it references
+   * Without a project file the project root is used with the global namespace
+   */
+  private getProjects(basePath: string, startDir: string): CSharpProject[] {
+    let dir = posix.normalize(startDir);
+    for (;;) {
+      const projectPath = this.findProjectFile(basePath, dir);
+      const project = projectPath ? this.readProject(join(basePath, projectPath)) : null;
+      if (project) {
+        const projects = [{ rootNamespace: project.rootNamespace, dir }];
+        for (const reference of project.projectReferences) {
+          const referencePath = posix.normalize(posix.join(dir, reference));
+          const referenced = this.readProject(join(basePath, referencePath));
+          if (referenced) {
+            projects.push({ rootNamespace: referenced.rootNamespace, dir: posix.dirname(referencePath) });
+          }
+        }
+        return projects;
+      }
+      if (dir === '.' || dir.startsWith('..')) return [{ rootNamespace: '', dir: '.' }];
+      dir = posix.dirname(dir);
+    }
+  }
+
+  /**
+   * Resolve a fully qualified type name (e.g. "Acme.Model.User") to its source file
+   * @returns The file, or null for framework, package and unknown types
+   */
+  resolve(
+    basePath: string,
+    fromFile: string,
+    typeName: string,
+    fileExists: (filePath: string) => boolean
+  ): string | null {
+    const separator = typeName.lastIndexOf('.');
+    const namespace = separator === -1 ? '' : typeName.slice(0, separator);
+    const name = typeName.slice(separator + 1);
+
+    for (const project of this.getProjects(basePath, posix.dirname(fromFile))) {
+      let relativeDir: string;
+      if (namespace === project.rootNamespace) {
+        relativeDir = '';
+      } else if (!project.rootNamespace) {
+        relativeDir = namespace.replace(/\./g, '/');
+      } else if (namespace.startsWith(`${project.rootNamespace}.`)) {
+        relativeDir = namespace.slice(project.rootNamespace.length + 1).replace(/\./g, '/');
+      } else {
+        continue;
+      }
+
+      const candidate = posix.join(project.dir, relativeDir, `${name}.cs`);
+      if (fileExists(candidate)) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+}
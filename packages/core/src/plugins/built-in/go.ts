@@ -0,0 +1,43 @@
+/**
+ * Built-in Go language plugin
+ * Wraps the Tree-sitter based parser; each package (directory) is one node,
+ * and import paths are resolved through go.mod
+ */
+
+import { posix } from 'path';
+import type { LanguagePlugin, ParsedFile } from '../types.js';
+import {
+  parseFileContent,
+  parseContentForExports,
+} from '../../parser/parser.js';
+import { GoModuleResolver } from './goModules.js';
+
+const moduleResolver = new GoModuleResolver();
+
+export const goPlugin: LanguagePlugin = {
+  name: 'go',
+  extensions: ['.go'],
+
+  getNodeId(filePath: string): string {
+    return posix.dirname(filePath);
+  },
+
+  parse(content: string, filePath: string, _basePath: string): ParsedFile | null {
+    return parseFileContent(content, filePath, 'go');
+  },
+
+  extractExportsFromContent(content: string, filePath: string): string {
+    return parseContentForExports(content, filePath);
+  },
+
+  resolveImport(
+    fromFile: string,
+    importSource: string,
+    fileExists: (filePath: string) => boolean,
+    basePath: string
+  ): string | null {
+    const packageDir = fromFile.endsWith('.go') ? posix.dirname(fromFile) : fromFile;
+    const target = moduleResolver.resolve(basePath, packageDir, importSource);
+    return target && fileExists(target) ? target : null;
+  },
+};
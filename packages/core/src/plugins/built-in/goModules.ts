@@ -0,0 +1,125 @@
+/**
+ * go.mod module resolution for the built-in Go plugin
+ * Maps import paths to package directories using the nearest go.mod
+ * (module path plus local `replace` directives)
+ */
+
+import { existsSync, readFileSync, statSync } from 'fs';
+import { join, posix } from 'path';
+
+/** A module path mapped to a directory relative to the project root ('.' for the root) */
+interface ModuleMapping {
+  path: string;
+  dir: string;
+}
+
+/** Parsed go.mod contents */
+export interface GoModFile {
+  /** Module path from the `module` directive (null if missing) */
+  module: string | null;
+  /** `replace` directives pointing at local directories (relative to the go.mod directory) */
+  replaces: ModuleMapping[];
+}
+
+/**
+ * Parse the module path and local replace directives from go.mod content
+ */
+export function parseGoMod(content: string): GoModFile {
+  const lines = content.split('\n').map((line) => line.replace(/\/\/.*$/, '').trim());
+  const unquote = (value: string) => value.replace(/^["`]|["`]$/g, '');
+
+  let module: string | null = null;
+  const replaces: ModuleMapping[] = [];
+  let inReplaceBlock = false;
+
+  for (const line of lines) {
+    if (inReplaceBlock) {
+      if (line === ')') {
+        inReplaceBlock = false;
+        continue;
+      }
+    } else if (line.startsWith('module ')) {
+      module = unquote(line.slice('module '.length).trim());
+      continue;
+    } else if (/^replace\s*\($/.test(line)) {
+      inReplaceBlock = true;
+      continue;
+    } else if (!line.startsWith('replace ')) {
+      continue;
+    }
+
+    // [replace] old [version] => new [version]; only local directories are resolvable
+    const match = /^(?:replace\s+)?(\S+)(?:\s+\S+)?\s*=>\s*(\S+)/.exec(line);
+    const target = match?.[2] ? unquote(match[2]) : '';
+    if (match?.[1] && (target.startsWith('./') || target.startsWith('../'))) {
+      replaces.push({ path: unquote(match[1]), dir: target });
+    }
+  }
+
+  return { module, replaces };
+}
+
+/**
+ * Resolves Go import paths to package directories
+ */
+export class GoModuleResolver {
+  /** Parsed go.mod files by absolute path, invalidated when the file changes */
+  private goModCache = new Map<string, { mtimeMs: number; goMod: GoModFile }>();
+
+  /**
+   * Read and parse a go.mod file (cached by modification time)
+   */
+  private readGoMod(path: string): GoModFile | null {
+    try {
+      const { mtimeMs } = statSync(path);
+      const cached = this.goModCache.get(path);
+      if (cached && cached.mtimeMs === mtimeMs) {
+        return cached.goMod;
+      }
+      const goMod = parseGoMod(readFileSync(path, 'utf-8'));
+      this.goModCache.set(path, { mtimeMs, goMod });
+      return goMod;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get the module mappings of the nearest go.mod at or above a package directory
+   */
+  private getModuleMappings(basePath: string, packageDir: string): ModuleMapping[] {
+    let dir = posix.normalize(packageDir);
+    for (;;) {
+      const goModPath = join(basePath, dir, 'go.mod');
+      if (existsSync(goModPath)) {
+        const goMod = this.readGoMod(goModPath);
+        if (!goMod) return [];
+        const mappings = goMod.replaces.map((r) => ({ path: r.path, dir: posix.join(dir, r.dir) }));
+        return goMod.module ? [{ path: goMod.module, dir }, ...mappings] : mappings;
+      }
+      if (dir === '.' || dir.startsWith('..')) return [];
+      dir = posix.dirname(dir);
+    }
+  }
+
+  /**
+   * Resolve an import path to a package directory relative to the project root
+   * @param packageDir - Directory of the importing package ('.' for the root)
+   * @returns The directory, or null for standard library and external modules
+   */
+  resolve(basePath: string, packageDir: string, importPath: string): string | null {
+    if (importPath.startsWith('.')) {
+      return posix.normalize(posix.join(packageDir, importPath));
+    }
+
+    for (const { path, dir } of this.getModuleMappings(basePath, packageDir)) {
+      if (importPath === path) {
+        return posix.normalize(dir);
+      }
+      if (importPath.startsWith(`${path}/`)) {
+        return posix.normalize(posix.join(dir, importPath.slice(path.length + 1)));
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Built-in GraphQL asset plugin
+ * Schema and operation documents: `#import` comments reference fragment files; each named
+ * operation, fragment and type definition is a name importers can use
+ */
+
+import type { LanguagePlugin, ParsedFile, ParsedImport } from '../types.js';
+import { simpleHash } from '../../cache/contentHash.js';
+import { createAssetFile, createAssetImport, hashNames } from './assetFiles.js';
+
+/** Top-level definitions with a name */
+const DEFINITION_PATTERN =
+  /^[ \t]*(?:extend[ \t]+)?(?:query|mutation|subscription|fragment|type|interface|input|enum|union|scalar|directive)[ \t]+@?(\w+)/gm;
+
+export const graphqlPlugin: LanguagePlugin = {
+  name: 'graphql',
+  extensions: ['.graphql', '.gql'],
+  asset: true,
+
+  parse(content: string, filePath: string, _basePath: string): ParsedFile | null {
+    // `#import "./fragment.graphql"` (graphql-tag loader) or `# import * from "schema.graphql"` (graphql-import)
+    const imports: ParsedImport[] = [];
+    for (const [, , reference] of content.matchAll(/^[ \t]*#[ \t]*import[ \t]+(?:.*?[ \t]+from[ \t]+)?(["'])(.*?)\1/gm)) {
+      const imp = createAssetImport(reference!, '*');
+      if (imp) imports.push(imp);
+    }
+
+    // Each definition runs until the next one; its shape ignores comments and whitespace
+    const code = content.replace(/#.*$/gm, '');
+    const definitions = Array.from(code.matchAll(DEFINITION_PATTERN));
+    const exportShapes: Record<string, string> = {};
+    definitions.forEach((match, i) => {
+      const text = code.slice(match.index, definitions[i + 1]?.index ?? code.length);
+      exportShapes[match[1]!] = simpleHash(text.replace(/[\s,]+/g, ' ').trim());
+    });
+
+    const names = Object.keys(exportShapes);
+    return createAssetFile(filePath, content, 'graphql', {
+      imports,
+      exportedNames: ['default', ...names],
+      exportShapes: names.length > 0 ? { ...exportShapes, default: hashNames(names) } : exportShapes,
+    });
+  },
+};
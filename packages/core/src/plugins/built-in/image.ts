@@ -0,0 +1,22 @@
+/**
+ * Built-in image asset plugin
+ * Images imported by code or referenced by stylesheets; an image provides only its default
+ * export (its URL), so content changes never break importers
+ */
+
+import type { LanguagePlugin, ParsedFile } from '../types.js';
+import { createAssetFile } from './assetFiles.js';
+
+export const imagePlugin: LanguagePlugin = {
+  name: 'image',
+  extensions: ['.png', '.jpg', '.jpeg', '.gif', '.svg', '.webp', '.avif', '.ico'],
+  asset: true,
+
+  parse(content: string, filePath: string, _basePath: string): ParsedFile | null {
+    return createAssetFile(filePath, content, 'image', {
+      imports: [],
+      exportedNames: ['default'],
+      exportShapes: {},
+    });
+  },
+};
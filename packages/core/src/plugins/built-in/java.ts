@@ -0,0 +1,36 @@
+/**
+ * Built-in Java language plugin
+ * Wraps the Tree-sitter based parser; imported and same-package types are resolved
+ * to their files below the project's source roots
+ */
+
+import type { LanguagePlugin, ParsedFile } from '../types.js';
+import {
+  parseFileContent,
+  parseContentForExports,
+} from '../../parser/parser.js';
+import { JavaSourceResolver } from './javaSources.js';
+
+const sourceResolver = new JavaSourceResolver();
+
+export const javaPlugin: LanguagePlugin = {
+  name: 'java',
+  extensions: ['.java'],
+
+  parse(content: string, filePath: string, _basePath: string): ParsedFile | null {
+    return parseFileContent(content, filePath, 'java');
+  },
+
+  extractExportsFromContent(content: string, filePath: string): string {
+    return parseContentForExports(content, filePath);
+  },
+
+  resolveImport(
+    fromFile: string,
+    importSource: string,
+    fileExists: (filePath: string) => boolean,
+    basePath: string
+  ): string | null {
+    return sourceResolver.resolve(basePath, fromFile, importSource, fileExists);
+  },
+};
@@ -0,0 +1,71 @@
+/**
+ * Source root resolution for the built-in Java plugin
+ * Maps fully qualified type names to files below a source root: the importing file's
+ * own root first, then the conventional Maven/Gradle roots of the project
+ */
+
+import { posix } from 'path';
+import { globSync } from 'glob';
+
+/** Conventional source roots (Maven/Gradle layouts) */
+const SOURCE_ROOT_PATTERNS = ['**/src/main/java', '**/src/test/java', '**/src'];
+
+/** Directories that never contain project sources */
+const IGNORED_DIRS = ['**/node_modules/**', '**/.git/**', '**/build/**', '**/target/**', '**/out/**'];
+
+/**
+ * Resolves Java type names to source files
+ */
+export class JavaSourceResolver {
+  /** Conventional source roots by project root */
+  private sourceRoots = new Map<string, string[]>();
+
+  /**
+   * Find the conventional source roots of a project (relative to the project root)
+   */
+  private getSourceRoots(basePath: string): string[] {
+    let roots = this.sourceRoots.get(basePath);
+    if (!roots) {
+      try {
+        roots = globSync(SOURCE_ROOT_PATTERNS, { cwd: basePath, ignore: IGNORED_DIRS, posix: true }).sort();
+      } catch {
+        roots = [];
+      }
+      this.sourceRoots.set(basePath, roots);
+    }
+    return roots;
+  }
+
+  /**
+   * Resolve a fully qualified type name (e.g. "com.acme.model.User") to its source file
+   * Nested types ("com.acme.Outer.Inner") resolve to the file of their outermost type
+   * @returns The file, or null for JDK, library and unknown types
+   */
+  resolve(
+    basePath: string,
+    fromFile: string,
+    typeName: string,
+    fileExists: (filePath: string) => boolean
+  ): string | null {
+    const segments = typeName.split('.');
+
+    // The importing file's own source root is one of its ancestor directories
+    const roots: string[] = [];
+    for (let dir = posix.dirname(fromFile); ; dir = posix.dirname(dir)) {
+      roots.push(dir);
+      if (dir === '.' || dir === '/') break;
+    }
+    roots.push(...this.getSourceRoots(basePath));
+
+    for (let length = segments.length; length >= Math.min(2, segments.length); length--) {
+      const relativePath = `${segments.slice(0, length).join('/')}.java`;
+      for (const root of roots) {
+        const candidate = posix.join(root, relativePath);
+        if (fileExists(candidate)) {
+          return candidate;
+        }
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Built-in JSON asset plugin
+ * Data and config files imported by code; top-level keys are the names importers can use
+ * (`import { version } from './package.json'`)
+ */
+
+import type { LanguagePlugin, ParsedFile } from '../types.js';
+import { createAssetFile, hashNames } from './assetFiles.js';
+
+/**
+ * Get the top-level keys of a JSON object (empty for arrays, scalars and invalid JSON)
+ */
+function getTopLevelKeys(content: string): string[] {
+  try {
+    const value: unknown = JSON.parse(content);
+    return value && typeof value === 'object' && !Array.isArray(value) ? Object.keys(value) : [];
+  } catch {
+    return [];
+  }
+}
+
+export const jsonPlugin: LanguagePlugin = {
+  name: 'json',
+  extensions: ['.json'],
+  asset: true,
+
+  parse(content: string, filePath: string, _basePath: string): ParsedFile | null {
+    const keys = getTopLevelKeys(content);
+    return createAssetFile(filePath, content, 'json', {
+      imports: [],
+      exportedNames: ['default', ...keys.filter((key) => key !== 'default')],
+      exportShapes: keys.length > 0 ? { default: hashNames(keys) } : {},
+    });
+  },
+};
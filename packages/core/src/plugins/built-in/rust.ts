@@ -0,0 +1,36 @@
+/**
+ * Built-in Rust language plugin
+ * Wraps the Tree-sitter based parser; `use` and `mod` paths are resolved to module files
+ * within the crate and across the Cargo workspace
+ */
+
+import type { LanguagePlugin, ParsedFile } from '../types.js';
+import {
+  parseFileContent,
+  parseContentForExports,
+} from '../../parser/parser.js';
+import { CargoCrateResolver } from './cargoCrates.js';
+
+const crateResolver = new CargoCrateResolver();
+
+export const rustPlugin: LanguagePlugin = {
+  name: 'rust',
+  extensions: ['.rs'],
+
+  parse(content: string, filePath: string, _basePath: string): ParsedFile | null {
+    return parseFileContent(content, filePath, 'rust');
+  },
+
+  extractExportsFromContent(content: string, filePath: string): string {
+    return parseContentForExports(content, filePath);
+  },
+
+  resolveImport(
+    fromFile: string,
+    importSource: string,
+    fileExists: (filePath: string) => boolean,
+    basePath: string
+  ): string | null {
+    return crateResolver.resolve(basePath, fromFile, importSource, fileExists);
+  },
+};
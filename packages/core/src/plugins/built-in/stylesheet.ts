@@ -0,0 +1,109 @@
+/**
+ * Built-in stylesheet asset plugin
+ * CSS, Sass/SCSS and Less files: `@import`/`@use`/`@forward` and `url()` references are resolved
+ * to files (including Sass partials); the signature covers the class names, variables, mixins,
+ * functions and custom properties the stylesheet defines
+ */
+
+import { extname, posix } from 'path';
+import type { Language } from '@topology/protocol';
+import type { LanguagePlugin, ParsedFile, ParsedImport } from '../types.js';
+import { createAssetFile, createAssetImport, hashNames } from './assetFiles.js';
+
+/** Stylesheet extensions, in partial/index lookup order */
+const STYLESHEET_EXTENSIONS = ['.scss', '.sass', '.css', '.less'];
+
+/**
+ * Get the language of a stylesheet from its extension ('css', 'scss', 'sass' or 'less')
+ */
+function getStylesheetLanguage(filePath: string): Language {
+  return extname(filePath).slice(1).toLowerCase();
+}
+
+/**
+ * Extract the imports and provided names of a stylesheet
+ */
+function parseStylesheet(content: string): { imports: ParsedImport[]; names: string[] } {
+  const code = content
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    // Line comments (Sass/Less), but not the `//` of URLs
+    .replace(/(^|[^:])\/\/.*$/gm, '$1');
+
+  const imports = new Map<string, ParsedImport>();
+  const addImport = (reference: string, defaultImport: string | null) => {
+    const imp = createAssetImport(reference, defaultImport);
+    if (imp && !imports.has(imp.source)) {
+      imports.set(imp.source, imp);
+    }
+  };
+
+  // @import/@use/@forward pull in the whole stylesheet
+  for (const [, params] of code.matchAll(/@(?:import|use|forward)\b([^;{]*)/g)) {
+    for (const [, , reference] of params!.matchAll(/(["'])(.*?)\1/g)) {
+      addImport(reference!, '*');
+    }
+    const url = /url\(\s*["']?([^"')]+)["']?\s*\)/.exec(params!);
+    if (url) addImport(url[1]!, '*');
+  }
+
+  // url() references to images and fonts
+  for (const [, reference] of code.matchAll(/url\(\s*["']?([^"')]+)["']?\s*\)/g)) {
+    addImport(reference!, null);
+  }
+
+  // Names other stylesheets and CSS module importers use; strings and URLs are not selectors
+  const declarations = code.replace(/url\([^)]*\)/g, '').replace(/(["'])(?:\\.|(?!\1).)*\1/g, '');
+  const names = [
+    ...Array.from(declarations.matchAll(/\.(-?[_a-zA-Z][\w-]*)/g), (m) => `.${m[1]}`),
+    ...Array.from(declarations.matchAll(/(?:^|[;{\s])([$@][\w-]+)\s*:/g), (m) => m[1]!),
+    ...Array.from(declarations.matchAll(/@(mixin|function)\s+([\w-]+)/g), (m) => `@${m[1]} ${m[2]}`),
+    ...Array.from(declarations.matchAll(/(--[\w-]+)\s*:/g), (m) => m[1]!),
+  ];
+
+  return { imports: Array.from(imports.values()), names };
+}
+
+export const stylesheetPlugin: LanguagePlugin = {
+  name: 'css',
+  extensions: STYLESHEET_EXTENSIONS,
+  asset: true,
+
+  detectLanguage(filePath: string): Language {
+    return getStylesheetLanguage(filePath);
+  },
+
+  parse(content: string, filePath: string, _basePath: string): ParsedFile | null {
+    const { imports, names } = parseStylesheet(content);
+    return createAssetFile(filePath, content, getStylesheetLanguage(filePath), {
+      imports,
+      exportedNames: ['default'],
+      exportShapes: { default: hashNames(names) },
+    });
+  },
+
+  resolveImport(
+    fromFile: string,
+    importSource: string,
+    fileExists: (filePath: string) => boolean,
+    _basePath: string
+  ): string | null {
+    if (!importSource.startsWith('.')) {
+      return null;
+    }
+
+    // Exact file, then Sass/Less lookups: extension, `_partial` and `dir/_index`
+    const base = posix.join(posix.dirname(fromFile), importSource);
+    const dir = posix.dirname(base);
+    const name = posix.basename(base);
+    const candidates = [base];
+    for (const ext of STYLESHEET_EXTENSIONS) {
+      candidates.push(
+        `${base}${ext}`,
+        posix.join(dir, `_${name}${ext}`),
+        posix.join(base, `_index${ext}`),
+        posix.join(base, `index${ext}`)
+      );
+    }
+    return candidates.find(fileExists) ?? null;
+  },
+};
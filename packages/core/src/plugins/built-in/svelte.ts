@@ -0,0 +1,23 @@
+/**
+ * Built-in Svelte language plugin
+ * Parses the instance and module `<script>` blocks of single-file components with the TypeScript grammar
+ */
+
+import type { LanguagePlugin, ParsedFile } from '../types.js';
+import {
+  parseFileContent,
+  parseContentForExports,
+} from '../../parser/parser.js';
+
+export const sveltePlugin: LanguagePlugin = {
+  name: 'svelte',
+  extensions: ['.svelte'],
+
+  parse(content: string, filePath: string, _basePath: string): ParsedFile | null {
+    return parseFileContent(content, filePath, 'component');
+  },
+
+  extractExportsFromContent(content: string, filePath: string): string {
+    return parseContentForExports(content, filePath);
+  },
+};
@@ -3,6 +3,8 @@
  * Wraps the existing Tree-sitter based parser
  */
 
+import { extname } from 'path';
+import type { Language } from '@topology/protocol';
 import type { LanguagePlugin, ParsedFile } from '../types.js';
 import {
   parseFileContent,
@@ -13,6 +15,11 @@ export const typescriptPlugin: LanguagePlugin = {
   name: 'typescript',
   extensions: ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'],
 
+  detectLanguage(filePath: string): Language {
+    const ext = extname(filePath).toLowerCase();
+    return ext === '.ts' || ext === '.tsx' ? 'typescript' : 'javascript';
+  },
+
   parse(content: string, filePath: string, _basePath: string): ParsedFile | null {
     return parseFileContent(content, filePath, 'js');
   },
@@ -0,0 +1,23 @@
+/**
+ * Built-in Vue language plugin
+ * Parses the `<script>` and `<script setup>` blocks of single-file components with the TypeScript grammar
+ */
+
+import type { LanguagePlugin, ParsedFile } from '../types.js';
+import {
+  parseFileContent,
+  parseContentForExports,
+} from '../../parser/parser.js';
+
+export const vuePlugin: LanguagePlugin = {
+  name: 'vue',
+  extensions: ['.vue'],
+
+  parse(content: string, filePath: string, _basePath: string): ParsedFile | null {
+    return parseFileContent(content, filePath, 'component');
+  },
+
+  extractExportsFromContent(content: string, filePath: string): string {
+    return parseContentForExports(content, filePath);
+  },
+};
@@ -2,15 +2,58 @@
  * Plugin system for language extensions
  */
 
-export { pluginRegistry } from './registry.js';
-export { type LanguagePlugin, type ParsedFile, type ParsedImport } from './types.js';
+export { pluginRegistry, type RegisteredPluginInfo } from './registry.js';
+export {
+  loadPlugins,
+  validateLanguagePlugin,
+  isLanguagePlugin,
+  type LoadPluginsOptions,
+  type PluginLoadResult,
+  type PluginLoadError,
+} from './loader.js';
+export { type LanguagePlugin, type ParsedFile, type ParsedImport, type ParsedSymbol } from './types.js';
 export { typescriptPlugin } from './built-in/typescript.js';
 export { pythonPlugin } from './built-in/python.js';
+export { goPlugin } from './built-in/go.js';
+export { rustPlugin } from './built-in/rust.js';
+export { javaPlugin } from './built-in/java.js';
+export { csharpPlugin } from './built-in/csharp.js';
+export { vuePlugin } from './built-in/vue.js';
+export { sveltePlugin } from './built-in/svelte.js';
+export { astroPlugin } from './built-in/astro.js';
+export { stylesheetPlugin } from './built-in/stylesheet.js';
+export { jsonPlugin } from './built-in/json.js';
+export { graphqlPlugin } from './built-in/graphql.js';
+export { imagePlugin } from './built-in/image.js';
 
 // Auto-register built-in plugins
 import { pluginRegistry } from './registry.js';
 import { typescriptPlugin } from './built-in/typescript.js';
 import { pythonPlugin } from './built-in/python.js';
+import { goPlugin } from './built-in/go.js';
+import { rustPlugin } from './built-in/rust.js';
+import { javaPlugin } from './built-in/java.js';
+import { csharpPlugin } from './built-in/csharp.js';
+import { vuePlugin } from './built-in/vue.js';
+import { sveltePlugin } from './built-in/svelte.js';
+import { astroPlugin } from './built-in/astro.js';
+import { stylesheetPlugin } from './built-in/stylesheet.js';
+import { jsonPlugin } from './built-in/json.js';
+import { graphqlPlugin } from './built-in/graphql.js';
+import { imagePlugin } from './built-in/image.js';
 
 pluginRegistry.register(typescriptPlugin);
 pluginRegistry.register(pythonPlugin);
+pluginRegistry.register(goPlugin);
+pluginRegistry.register(rustPlugin);
+pluginRegistry.register(javaPlugin);
+pluginRegistry.register(csharpPlugin);
+pluginRegistry.register(vuePlugin);
+pluginRegistry.register(sveltePlugin);
+pluginRegistry.register(astroPlugin);
+
+// Asset plugins: only scanned when asset analysis is enabled
+pluginRegistry.register(stylesheetPlugin);
+pluginRegistry.register(jsonPlugin);
+pluginRegistry.register(graphqlPlugin);
+pluginRegistry.register(imagePlugin);
@@ -0,0 +1,226 @@
+/**
+ * External plugin loader
+ * Discovers LanguagePlugin modules from the project plugins/ directory
+ * and the configured plugin paths and npm package names
+ */
+
+import { readdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { createRequire } from 'module';
+import { join, resolve, extname, relative } from 'path';
+import { pathToFileURL } from 'url';
+import type { LanguagePlugin } from './types.js';
+import { pluginRegistry, type RegisteredPluginInfo } from './registry.js';
+
+export interface LoadPluginsOptions {
+  /** Directory scanned for plugin modules (default: <rootDir>/plugins) */
+  pluginDir?: string;
+  /** Extra plugin module paths or npm package names (the project config "plugins" list and CLI flags) */
+  plugins?: string[];
+}
+
+export interface PluginLoadError {
+  /** Plugin path or package name that failed */
+  source: string;
+  message: string;
+}
+
+export interface PluginLoadResult {
+  /** Plugins registered by this call */
+  loaded: RegisteredPluginInfo[];
+  /** Modules that could not be imported or did not export a valid plugin */
+  errors: PluginLoadError[];
+}
+
+/** File extensions Node can import without a loader */
+const MODULE_EXTENSIONS = new Set(['.js', '.mjs', '.cjs']);
+
+/**
+ * Validate that a value implements LanguagePlugin
+ * @returns null when valid, otherwise a description of the problem
+ */
+export function validateLanguagePlugin(value: unknown): string | null {
+  if (!value || typeof value !== 'object') {
+    return 'plugin must be an object';
+  }
+
+  const candidate = value as Record<string, unknown>;
+
+  if (typeof candidate.name !== 'string' || candidate.name.length === 0) {
+    return '"name" must be a non-empty string';
+  }
+  if (
+    !Array.isArray(candidate.extensions) ||
+    candidate.extensions.length === 0 ||
+    !candidate.extensions.every((ext) => typeof ext === 'string' && ext.startsWith('.'))
+  ) {
+    return '"extensions" must be a non-empty array of strings starting with "."';
+  }
+  if (typeof candidate.parse !== 'function') {
+    return '"parse" must be a function';
+  }
+  for (const optional of ['extractExportsFromContent', 'detectLanguage', 'getNodeId', 'resolveImport']) {
+    if (candidate[optional] !== undefined && typeof candidate[optional] !== 'function') {
+      return `"${optional}" must be a function when provided`;
+    }
+  }
+  if (candidate.asset !== undefined && typeof candidate.asset !== 'boolean') {
+    return '"asset" must be a boolean when provided';
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a value implements LanguagePlugin
+ */
+export function isLanguagePlugin(value: unknown): value is LanguagePlugin {
+  return validateLanguagePlugin(value) === null;
+}
+
+/**
+ * Collect plugin candidates from a module namespace
+ * Accepts a default export (plugin or array of plugins) and named plugin exports
+ */
+function collectPluginExports(mod: Record<string, unknown>): unknown[] {
+  const candidates: unknown[] = [];
+  const looksLikePlugin = (value: unknown) =>
+    !!value && typeof value === 'object' && ('parse' in value || 'extensions' in value);
+
+  for (const value of Object.values(mod)) {
+    if (Array.isArray(value)) {
+      candidates.push(...value.filter(looksLikePlugin));
+    } else if (looksLikePlugin(value)) {
+      candidates.push(value);
+    }
+  }
+
+  return Array.from(new Set(candidates));
+}
+
+/**
+ * List importable plugin modules in a directory
+ * Picks up .js/.mjs/.cjs files and sub-directories with a package.json or index.js
+ */
+async function discoverPluginModules(pluginDir: string): Promise<string[]> {
+  if (!existsSync(pluginDir)) {
+    return [];
+  }
+
+  const modules: string[] = [];
+  const entries = await readdir(pluginDir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const fullPath = join(pluginDir, entry.name);
+    if (entry.isFile() && MODULE_EXTENSIONS.has(extname(entry.name))) {
+      modules.push(fullPath);
+    } else if (
+      entry.isDirectory() &&
+      (existsSync(join(fullPath, 'package.json')) || existsSync(join(fullPath, 'index.js')))
+    ) {
+      modules.push(fullPath);
+    }
+  }
+
+  return modules.sort();
+}
+
+/**
+ * Check whether a specifier is a file path (vs. an npm package name)
+ */
+function isPathSpecifier(specifier: string): boolean {
+  return specifier.startsWith('.') || specifier.startsWith('/') || /^[a-zA-Z]:[\\/]/.test(specifier);
+}
+
+/**
+ * Resolve a plugin specifier to an importable URL
+ * Paths are resolved against rootDir; bare names are resolved as npm packages from rootDir
+ */
+function resolvePluginSpecifier(specifier: string, rootDir: string): string {
+  const require = createRequire(join(rootDir, 'package.json'));
+
+  if (isPathSpecifier(specifier)) {
+    return pathToFileURL(require.resolve(resolve(rootDir, specifier))).href;
+  }
+
+  try {
+    return pathToFileURL(require.resolve(specifier)).href;
+  } catch {
+    // ESM-only packages may not resolve through require; let import() try
+    return specifier;
+  }
+}
+
+/**
+ * Import a plugin module and register every valid LanguagePlugin it exports
+ */
+async function loadPluginModule(
+  specifier: string,
+  source: string,
+  rootDir: string,
+  result: PluginLoadResult
+): Promise<void> {
+  let mod: Record<string, unknown>;
+  try {
+    mod = (await import(resolvePluginSpecifier(specifier, rootDir))) as Record<string, unknown>;
+  } catch (err) {
+    result.errors.push({ source, message: `failed to import: ${(err as Error).message}` });
+    return;
+  }
+
+  const candidates = collectPluginExports(mod);
+  if (candidates.length === 0) {
+    result.errors.push({ source, message: 'no LanguagePlugin export found' });
+    return;
+  }
+
+  for (const candidate of candidates) {
+    const problem = validateLanguagePlugin(candidate);
+    if (problem) {
+      result.errors.push({ source, message: `invalid LanguagePlugin: ${problem}` });
+      continue;
+    }
+
+    const plugin = candidate as LanguagePlugin;
+    pluginRegistry.register(plugin, source);
+    result.loaded.push({ name: plugin.name, extensions: [...plugin.extensions], source });
+  }
+}
+
+/**
+ * Discover external plugins and register them into pluginRegistry
+ * Sources, in load order: <rootDir>/plugins, options.plugins
+ * @param rootDir - Project root used to locate plugins and resolve packages
+ */
+export async function loadPlugins(
+  rootDir: string,
+  options: LoadPluginsOptions = {}
+): Promise<PluginLoadResult> {
+  const root = resolve(rootDir);
+  const result: PluginLoadResult = { loaded: [], errors: [] };
+  const seen = new Set<string>();
+
+  const specifiers: string[] = [];
+
+  // 1. Plugin modules dropped into the plugins/ directory
+  const pluginDir = resolve(root, options.pluginDir ?? 'plugins');
+  for (const modulePath of await discoverPluginModules(pluginDir)) {
+    specifiers.push(modulePath);
+  }
+
+  // 2. Configured plugins (project config, CLI flags, API callers)
+  specifiers.push(...(options.plugins ?? []));
+
+  for (const specifier of specifiers) {
+    const isPath = isPathSpecifier(specifier);
+    const key = isPath ? resolve(root, specifier) : specifier;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    // Report paths relative to the project root for readability
+    const source = isPath ? relative(root, key).replace(/\\/g, '/') || key : specifier;
+    await loadPluginModule(specifier, source, root, result);
+  }
+
+  return result;
+}
@@ -2,21 +2,41 @@
  * Plugin registry - manages language plugins
  */
 
-import type { LanguagePlugin } from './types.js';
+import { extname } from 'path';
+import type { Language } from '@topology/protocol';
+import type { LanguagePlugin, ParsedFile } from './types.js';
+
+/** Summary of a registered plugin and where it came from */
+export interface RegisteredPluginInfo {
+  name: string;
+  extensions: string[];
+  /** 'built-in', a plugin file path, or an npm package name */
+  source: string;
+}
 
 class PluginRegistry {
   private plugins: Map<string, LanguagePlugin> = new Map();
   private extensionMap: Map<string, LanguagePlugin> = new Map();
+  private sources: Map<string, string> = new Map();
 
   /**
    * Register a language plugin
+   * @param source - Where the plugin was loaded from (default: 'built-in')
    */
-  register(plugin: LanguagePlugin): void {
-    if (this.plugins.has(plugin.name)) {
+  register(plugin: LanguagePlugin, source = 'built-in'): void {
+    const existing = this.plugins.get(plugin.name);
+    if (existing) {
       console.warn(`Plugin "${plugin.name}" is already registered, overwriting.`);
+      // Drop extension mappings still pointing at the replaced plugin
+      for (const ext of existing.extensions) {
+        if (this.extensionMap.get(ext.toLowerCase()) === existing) {
+          this.extensionMap.delete(ext.toLowerCase());
+        }
+      }
     }
 
     this.plugins.set(plugin.name, plugin);
+    this.sources.set(plugin.name, source);
 
     for (const ext of plugin.extensions) {
       this.extensionMap.set(ext.toLowerCase(), plugin);
@@ -30,6 +50,71 @@ class PluginRegistry {
     return this.extensionMap.get(ext.toLowerCase()) ?? null;
   }
 
+  /**
+   * Get the plugin responsible for a file path (by extension)
+   */
+  getPluginForFile(filePath: string): LanguagePlugin | null {
+    const ext = extname(filePath);
+    if (!ext) return null;
+    return this.getPluginForExtension(ext);
+  }
+
+  /**
+   * Detect the language of a file via its plugin
+   */
+  detectLanguage(filePath: string): Language | null {
+    const plugin = this.getPluginForFile(filePath);
+    if (!plugin) return null;
+    return plugin.detectLanguage?.(filePath) ?? plugin.name;
+  }
+
+  /**
+   * Get the graph node ID of a file (the file path unless its plugin merges files into one node)
+   */
+  getNodeId(filePath: string): string {
+    return this.getPluginForFile(filePath)?.getNodeId?.(filePath) ?? filePath;
+  }
+
+  /**
+   * Compute a file's export signature via its plugin (used for git diff comparison).
+   * Falls back to a full parse when the plugin has no dedicated extractor.
+   */
+  extractExportSignature(content: string, filePath: string, basePath: string): string {
+    const plugin = this.getPluginForFile(filePath);
+    if (!plugin) return '';
+
+    try {
+      if (plugin.extractExportsFromContent) {
+        return plugin.extractExportsFromContent(content, filePath);
+      }
+      return plugin.parse(content, filePath, basePath)?.exportSignature ?? '';
+    } catch {
+      return '';
+    }
+  }
+
+  /**
+   * Get the names (and shape hashes) a file's content exports via its plugin
+   * (used to find removed, renamed or reshaped symbols).
+   * Returns null when the plugin does not report exported names.
+   */
+  extractExportDetails(
+    content: string,
+    filePath: string,
+    basePath: string
+  ): Pick<ParsedFile, 'exportedNames' | 'exportShapes'> | null {
+    const plugin = this.getPluginForFile(filePath);
+    if (!plugin) return null;
+
+    try {
+      const parsed = plugin.parse(content, filePath, basePath);
+      if (!parsed?.exportedNames) return null;
+      return { exportedNames: parsed.exportedNames, exportShapes: parsed.exportShapes };
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Get a plugin by name
    */
@@ -44,11 +129,32 @@ class PluginRegistry {
     return Array.from(this.plugins.values());
   }
 
+  /**
+   * Describe all registered plugins with their load source
+   */
+  listPlugins(): RegisteredPluginInfo[] {
+    return this.getAllPlugins().map((plugin) => ({
+      name: plugin.name,
+      extensions: [...plugin.extensions],
+      source: this.sources.get(plugin.name) ?? 'built-in',
+    }));
+  }
+
   /**
    * Get all supported file extensions
+   * @param options.assets - Include the extensions of asset plugins (default: false)
+   */
+  getSupportedExtensions(options: { assets?: boolean } = {}): string[] {
+    return Array.from(this.extensionMap)
+      .filter(([, plugin]) => options.assets || !plugin.asset)
+      .map(([ext]) => ext);
+  }
+
+  /**
+   * Check whether a file is handled by an asset plugin
    */
-  getSupportedExtensions(): string[] {
-    return Array.from(this.extensionMap.keys());
+  isAssetFile(filePath: string): boolean {
+    return this.getPluginForFile(filePath)?.asset === true;
   }
 }
 
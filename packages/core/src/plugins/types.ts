@@ -2,7 +2,7 @@
  * Plugin type definitions for language extensions
  */
 
-import type { Language } from '@topology/protocol';
+import type { EdgeKind, Language, SymbolKind } from '@topology/protocol';
 
 /** Result of parsing a single import statement */
 export interface ParsedImport {
@@ -10,6 +10,14 @@ export interface ParsedImport {
   namedImports: string[];
   defaultImport: string | null;
   isRelative: boolean;
+  /** Import kind (default: 'static') */
+  kind?: EdgeKind;
+}
+
+/** An exported class, function or interface/type */
+export interface ParsedSymbol {
+  name: string;
+  kind: SymbolKind;
 }
 
 /** Result of parsing a single file */
@@ -19,6 +27,12 @@ export interface ParsedFile {
   contentHash: string;
   exportSignature: string;
   language: Language;
+  /** Exported symbols (used for symbol-level graphs) */
+  symbols?: ParsedSymbol[];
+  /** Names importers can bind ('default' for a default export, '*' for export * from); enables precise broken-edge detection */
+  exportedNames?: string[];
+  /** Shape hash (parameters, types, public members) of each exported name; flags signature changes of imported symbols */
+  exportShapes?: Record<string, string>;
 }
 
 /**
@@ -30,8 +44,36 @@ export interface LanguagePlugin {
   name: string;
   /** File extensions this plugin handles (e.g., ['.ts', '.tsx']) */
   extensions: string[];
+  /**
+   * Files are non-code assets (stylesheets, data, images): ASSET nodes that are only
+   * scanned when asset analysis is enabled
+   */
+  asset?: boolean;
+  /**
+   * Language reported for a file handled by this plugin.
+   * Defaults to the plugin name when omitted.
+   */
+  detectLanguage?(filePath: string): Language;
+  /**
+   * Node ID for a file when several files form one graph node (e.g. the directory of a Go package).
+   * Files with the same node ID are merged; when omitted, every file is its own node.
+   */
+  getNodeId?(filePath: string): string;
   /** Parse a file and extract imports/exports */
   parse(content: string, filePath: string, basePath: string): ParsedFile | null;
   /** Extract exports from content string (for git diff comparison) */
   extractExportsFromContent?(content: string, filePath: string): string;
+  /**
+   * Resolve an import specifier to a scanned file path.
+   * When omitted, the built-in relative-path resolution is used.
+   * @param fromFile - Importing file, or node ID for files merged via getNodeId
+   * @param fileExists - Returns true if the path is a node in the graph
+   * @param basePath - Absolute project root
+   */
+  resolveImport?(
+    fromFile: string,
+    importSource: string,
+    fileExists: (filePath: string) => boolean,
+    basePath: string
+  ): string | null;
 }
@@ -5,9 +5,13 @@
 
 export {
   generateReport,
+  generateSnapshotDiffReport,
+  REPORT_FORMATS,
   type ReportFormat,
   type ReportOptions,
   type ReportSummary,
   type BrokenDependencyInfo,
   type JsonReport,
+  type ReportMetrics,
+  type FileMetricsInfo,
 } from './reporter.js';
@@ -0,0 +1,113 @@
+/**
+ * JUnit XML output - each broken dependency and error-severity rule violation is a failing
+ * test case, so CI dashboards show them next to the test results
+ */
+
+import type { RuleViolation } from '@topology/protocol';
+import type { BrokenDependencyInfo } from './reporter.js';
+
+interface TestCase {
+  classname: string;
+  name: string;
+  failure?: { message: string; type: string; details: string };
+}
+
+interface TestSuite {
+  name: string;
+  cases: TestCase[];
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Build a suite; an empty suite gets one passing case so dashboards show the check ran
+ */
+function createSuite(name: string, failures: TestCase[], passedName: string): TestSuite {
+  return {
+    name,
+    cases: failures.length > 0 ? failures : [{ classname: 'topology', name: passedName }],
+  };
+}
+
+function formatSuite(suite: TestSuite, timestamp: string): string[] {
+  const failureCount = suite.cases.filter((c) => c.failure).length;
+  const lines: string[] = [];
+
+  lines.push(
+    `  <testsuite name="${escapeXml(suite.name)}" tests="${suite.cases.length}" failures="${failureCount}" errors="0" skipped="0" timestamp="${timestamp}">`
+  );
+  for (const testCase of suite.cases) {
+    const attributes = `classname="${escapeXml(testCase.classname)}" name="${escapeXml(testCase.name)}"`;
+    if (!testCase.failure) {
+      lines.push(`    <testcase ${attributes}/>`);
+      continue;
+    }
+    const { message, type, details } = testCase.failure;
+    lines.push(`    <testcase ${attributes}>`);
+    lines.push(`      <failure message="${escapeXml(message)}" type="${escapeXml(type)}">${escapeXml(details)}</failure>`);
+    lines.push('    </testcase>');
+  }
+  lines.push('  </testsuite>');
+
+  return lines;
+}
+
+/**
+ * Generate a JUnit XML report with one suite for broken dependencies and one for
+ * architecture rules (warnings are not failures and are left out)
+ */
+export function generateJUnitReport(
+  brokenDeps: BrokenDependencyInfo[],
+  violations: RuleViolation[],
+  timestamp: number
+): string {
+  const suites = [
+    createSuite(
+      'Broken dependencies',
+      brokenDeps.map((dep) => ({
+        classname: dep.source,
+        name: `imports ${dep.target}`,
+        failure: {
+          message: dep.reason.replace(/`/g, ''),
+          type: 'BrokenDependency',
+          details: `${dep.source} (${dep.sourceStatus}) → ${dep.target} (${dep.targetStatus})` +
+            (dep.brokenSymbols ? `\nChanged symbols: ${dep.brokenSymbols.join(', ')}` : ''),
+        },
+      })),
+      'no broken dependencies'
+    ),
+    createSuite(
+      'Architecture rules',
+      violations
+        .filter((v) => v.severity === 'error')
+        .map((v) => ({
+          classname: v.source ?? v.file ?? 'topology',
+          name: `[${v.rule}] ${v.target ? `imports ${v.target}` : v.ruleType}`,
+          failure: { message: v.message, type: 'RuleViolation', details: v.message },
+        })),
+      'no architecture rule errors'
+    ),
+  ];
+
+  const isoTimestamp = new Date(timestamp).toISOString();
+  const tests = suites.reduce((sum, suite) => sum + suite.cases.length, 0);
+  const failures = suites.reduce((sum, suite) => sum + suite.cases.filter((c) => c.failure).length, 0);
+
+  const lines: string[] = [];
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push(`<testsuites name="code-topology" tests="${tests}" failures="${failures}" errors="0">`);
+  for (const suite of suites) {
+    lines.push(...formatSuite(suite, isoTimestamp));
+  }
+  lines.push('</testsuites>');
+  lines.push('');
+
+  return lines.join('\n');
+}
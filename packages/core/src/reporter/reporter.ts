@@ -3,9 +3,35 @@
  * Supports Markdown and JSON output formats for CI/CD integration
  */
 
-import type { TopologyGraph, TopologyNode } from '@topology/protocol';
-
-export type ReportFormat = 'markdown' | 'json';
+import type {
+  ConflictWarning,
+  DependencyCycle,
+  DirectoryMetrics,
+  MetricsSummary,
+  NodeMetrics,
+  RuleViolation,
+  SnapshotMetadata,
+  TopologyEdge,
+  TopologyGraph,
+  TopologyNode,
+} from '@topology/protocol';
+import { findCycles } from '../graph/cycles.js';
+import type { SnapshotDiff } from '../compare/index.js';
+import { getNodeMetrics, computeDirectoryMetrics, summarizeMetrics } from '../metrics/index.js';
+import { analyzeImpact, type ChangeImpact } from '../impact/index.js';
+import { generateSarifReport } from './sarif.js';
+import { generateJUnitReport } from './junit.js';
+
+export type ReportFormat = 'markdown' | 'json' | 'sarif' | 'junit';
+
+/** Every supported report format, for validating user input */
+export const REPORT_FORMATS: readonly ReportFormat[] = ['markdown', 'json', 'sarif', 'junit'];
+
+/** Rows shown in the Markdown report's metric tables */
+const TOP_METRICS_ROWS = 10;
+
+/** Impacted files listed in the Markdown report's blast radius table */
+const TOP_IMPACT_ROWS = 20;
 
 export interface ReportOptions {
   /** The topology graph to report on */
@@ -14,6 +40,10 @@ export interface ReportOptions {
   format: ReportFormat;
   /** Base branch being compared against (for display) */
   baseBranch?: string;
+  /** Globs marking test files in the blast radius (default: DEFAULT_TEST_PATTERNS) */
+  testPatterns?: string[];
+  /** Cross-branch conflict warnings (reported in SARIF output) */
+  conflicts?: ConflictWarning[];
 }
 
 export interface ReportSummary {
@@ -22,8 +52,14 @@ export interface ReportSummary {
   addedFiles: number;
   modifiedFiles: number;
   deletedFiles: number;
+  /** Files moved or renamed since the base branch */
+  renamedFiles: number;
   unchangedFiles: number;
   brokenDependencies: number;
+  cycles: number;
+  /** Cycles not present on the base branch */
+  newCycles: number;
+  ruleViolations: number;
   timestamp: number;
 }
 
@@ -33,11 +69,30 @@ export interface BrokenDependencyInfo {
   sourceStatus: string;
   targetStatus: string;
   reason: string;
+  /** Imported symbols removed, renamed or changed in the target */
+  brokenSymbols?: string[];
+}
+
+export interface FileMetricsInfo extends NodeMetrics {
+  file: string;
+}
+
+export interface ReportMetrics {
+  summary: MetricsSummary;
+  /** Per-file metrics, most central first */
+  files: FileMetricsInfo[];
+  /** Per-directory coupling, sorted by path */
+  directories: DirectoryMetrics[];
 }
 
 export interface JsonReport {
   summary: ReportSummary;
   brokenDependencies: BrokenDependencyInfo[];
+  cycles: DependencyCycle[];
+  violations: RuleViolation[];
+  metrics: ReportMetrics;
+  /** Files that transitively depend on the changed files */
+  blastRadius: ChangeImpact;
   baseBranch?: string;
 }
 
@@ -45,23 +100,43 @@ export interface JsonReport {
  * Generate a report from topology analysis results
  */
 export function generateReport(options: ReportOptions): string {
-  const { graph, format, baseBranch } = options;
+  const { graph, format, baseBranch, testPatterns } = options;
 
-  const summary = calculateSummary(graph);
+  // Graphs saved before cycle detection have no cycles field
+  const cycles = graph.cycles ?? findCycles(graph.nodes, graph.edges);
+  const violations = graph.violations ?? [];
+  const summary = calculateSummary(graph, cycles);
   const brokenDeps = getBrokenDependencies(graph);
 
+  if (format === 'sarif') {
+    return generateSarifReport(graph, {
+      brokenDependencies: brokenDeps,
+      cycles,
+      violations,
+      conflicts: options.conflicts ?? [],
+    });
+  }
+
+  if (format === 'junit') {
+    return generateJUnitReport(brokenDeps, violations, summary.timestamp);
+  }
+
+  const metrics = calculateMetrics(graph);
+  const blastRadius = analyzeImpact(graph, undefined, { testPatterns });
+
   if (format === 'json') {
-    return generateJsonReport(summary, brokenDeps, baseBranch);
+    return generateJsonReport(summary, brokenDeps, cycles, violations, metrics, blastRadius, baseBranch);
   }
 
-  return generateMarkdownReport(summary, brokenDeps, baseBranch);
+  return generateMarkdownReport(summary, brokenDeps, cycles, violations, metrics, blastRadius, baseBranch);
 }
 
 /**
  * Calculate summary statistics from the graph
  */
-function calculateSummary(graph: TopologyGraph): ReportSummary {
-  const nodes = graph.nodes;
+function calculateSummary(graph: TopologyGraph, cycles: DependencyCycle[]): ReportSummary {
+  // Symbol nodes (symbol-level graphs) are not files
+  const nodes = graph.nodes.filter((n) => !n.parentId);
   const edges = graph.edges;
 
   return {
@@ -70,12 +145,33 @@ function calculateSummary(graph: TopologyGraph): ReportSummary {
     addedFiles: nodes.filter((n) => n.status === 'ADDED').length,
     modifiedFiles: nodes.filter((n) => n.status === 'MODIFIED').length,
     deletedFiles: nodes.filter((n) => n.status === 'DELETED').length,
+    renamedFiles: nodes.filter((n) => n.status === 'RENAMED').length,
     unchangedFiles: nodes.filter((n) => n.status === 'UNCHANGED').length,
     brokenDependencies: edges.filter((e) => e.isBroken).length,
+    cycles: cycles.length,
+    newCycles: cycles.filter((c) => c.isNew).length,
+    ruleViolations: graph.violations?.length ?? 0,
     timestamp: graph.timestamp,
   };
 }
 
+/**
+ * Collect file and directory metrics (graphs saved without metrics get them computed,
+ * centrality is computed here since graph builds leave it out)
+ */
+function calculateMetrics(graph: TopologyGraph): ReportMetrics {
+  const nodeMetrics = getNodeMetrics(graph, { centrality: true });
+  const files = Array.from(nodeMetrics, ([file, metrics]) => ({ file, ...metrics })).sort(
+    (a, b) => (b.centrality ?? 0) - (a.centrality ?? 0) || b.fanIn + b.fanOut - (a.fanIn + a.fanOut) || a.file.localeCompare(b.file)
+  );
+
+  return {
+    summary: summarizeMetrics(Array.from(nodeMetrics.values())),
+    files,
+    directories: computeDirectoryMetrics(graph.nodes, graph.edges),
+  };
+}
+
 /**
  * Get details about broken dependencies
  */
@@ -97,9 +193,12 @@ function getBrokenDependencies(graph: TopologyGraph): BrokenDependencyInfo[] {
     let reason = 'Unknown issue';
     if (targetStatus === 'DELETED') {
       reason = 'Target file was deleted';
-    } else if (targetStatus === 'MODIFIED' && sourceStatus === 'UNCHANGED') {
+    } else if (edge.brokenSymbols && edge.brokenSymbols.length > 0) {
+      const symbols = edge.brokenSymbols.map((name) => `\`${name}\``).join(', ');
+      reason = `Imported symbols removed, renamed or changed in target: ${symbols}`;
+    } else if ((targetStatus === 'MODIFIED' || targetStatus === 'RENAMED') && sourceStatus === 'UNCHANGED') {
       reason = 'Target exports changed but source was not updated';
-    } else if (targetStatus === 'MODIFIED') {
+    } else if (targetStatus === 'MODIFIED' || targetStatus === 'RENAMED') {
       reason = 'Target exports changed';
     }
 
@@ -109,6 +208,7 @@ function getBrokenDependencies(graph: TopologyGraph): BrokenDependencyInfo[] {
       sourceStatus,
       targetStatus,
       reason,
+      ...(edge.brokenSymbols && { brokenSymbols: edge.brokenSymbols }),
     };
   });
 }
@@ -119,11 +219,19 @@ function getBrokenDependencies(graph: TopologyGraph): BrokenDependencyInfo[] {
 function generateJsonReport(
   summary: ReportSummary,
   brokenDeps: BrokenDependencyInfo[],
+  cycles: DependencyCycle[],
+  violations: RuleViolation[],
+  metrics: ReportMetrics,
+  blastRadius: ChangeImpact,
   baseBranch?: string
 ): string {
   const report: JsonReport = {
     summary,
     brokenDependencies: brokenDeps,
+    cycles,
+    violations,
+    metrics,
+    blastRadius,
     baseBranch,
   };
 
@@ -136,6 +244,10 @@ function generateJsonReport(
 function generateMarkdownReport(
   summary: ReportSummary,
   brokenDeps: BrokenDependencyInfo[],
+  cycles: DependencyCycle[],
+  violations: RuleViolation[],
+  metrics: ReportMetrics,
+  blastRadius: ChangeImpact,
   baseBranch?: string
 ): string {
   const lines: string[] = [];
@@ -159,7 +271,17 @@ function generateMarkdownReport(
   lines.push(`| Added files | ${summary.addedFiles} |`);
   lines.push(`| Modified files | ${summary.modifiedFiles} |`);
   lines.push(`| Deleted files | ${summary.deletedFiles} |`);
+  if (summary.renamedFiles > 0) {
+    lines.push(`| Renamed files | ${summary.renamedFiles} |`);
+  }
   lines.push(`| Broken dependencies | ${summary.brokenDependencies} |`);
+  lines.push(`| Import cycles | ${summary.cycles} |`);
+  if (summary.newCycles > 0) {
+    lines.push(`| New import cycles | ${summary.newCycles} |`);
+  }
+  if (summary.ruleViolations > 0) {
+    lines.push(`| Rule violations | ${summary.ruleViolations} |`);
+  }
   lines.push('');
 
   // Broken dependencies
@@ -186,6 +308,46 @@ function generateMarkdownReport(
     lines.push('');
   }
 
+  // Import cycles (new ones first, called out separately)
+  const newCycles = cycles.filter((c) => c.isNew);
+  const existingCycles = cycles.filter((c) => !c.isNew);
+
+  if (newCycles.length > 0) {
+    lines.push('### New Circular Dependencies');
+    lines.push('');
+    lines.push(`The following import cycles were introduced${baseBranch ? ` relative to \`${baseBranch}\`` : ''}:`);
+    lines.push('');
+    lines.push(...formatCycles(newCycles));
+    lines.push('');
+  }
+
+  if (existingCycles.length > 0) {
+    lines.push(newCycles.length > 0 ? '### Existing Circular Dependencies' : '### Circular Dependencies');
+    lines.push('');
+    lines.push(...formatCycles(existingCycles));
+    lines.push('');
+  }
+
+  // Architecture rule violations (errors first)
+  if (violations.length > 0) {
+    lines.push('### Architecture Rule Violations');
+    lines.push('');
+    lines.push('| Rule | Severity | Violation |');
+    lines.push('|------|----------|-----------|');
+
+    const sorted = [...violations].sort((a, b) =>
+      a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1
+    );
+    for (const violation of sorted) {
+      lines.push(`| \`${violation.rule}\` | ${violation.severity} | ${violation.message} |`);
+    }
+
+    lines.push('');
+  }
+
+  lines.push(...formatBlastRadius(blastRadius));
+  lines.push(...formatMetrics(metrics));
+
   // Footer
   lines.push('---');
   lines.push(`Generated at: ${new Date(summary.timestamp).toISOString()}`);
@@ -194,6 +356,218 @@ function generateMarkdownReport(
   return lines.join('\n');
 }
 
+/**
+ * Generate a report of the architectural changes between two snapshots
+ */
+export function generateSnapshotDiffReport(diff: SnapshotDiff, format: Extract<ReportFormat, 'markdown' | 'json'>): string {
+  if (format === 'json') {
+    return JSON.stringify(diff, null, 2);
+  }
+
+  const lines: string[] = [];
+
+  lines.push('## Code Topology Snapshot Diff');
+  lines.push('');
+  lines.push(`Comparing ${describeSnapshot(diff.base)} → ${describeSnapshot(diff.head)}`);
+  lines.push('');
+
+  lines.push('### Summary');
+  lines.push('');
+  lines.push('| Change | Count |');
+  lines.push('|--------|-------|');
+  lines.push(`| Added nodes | ${diff.addedNodes.length} |`);
+  lines.push(`| Removed nodes | ${diff.removedNodes.length} |`);
+  if (diff.renamedNodes.length > 0) {
+    lines.push(`| Renamed nodes | ${diff.renamedNodes.length} |`);
+  }
+  lines.push(`| Added dependencies | ${diff.addedEdges.length} |`);
+  lines.push(`| Removed dependencies | ${diff.removedEdges.length} |`);
+  lines.push(`| New broken dependencies | ${diff.newBrokenEdges.length} |`);
+  lines.push(`| Fan-in changes | ${diff.fanInChanges.length} |`);
+  lines.push('');
+
+  const nodeSections: [string, TopologyNode[]][] = [
+    ['Added Nodes', diff.addedNodes],
+    ['Removed Nodes', diff.removedNodes],
+  ];
+  for (const [title, nodes] of nodeSections) {
+    if (nodes.length === 0) continue;
+    lines.push(`### ${title}`);
+    lines.push('');
+    for (const node of nodes) {
+      lines.push(`- \`${node.id}\``);
+    }
+    lines.push('');
+  }
+
+  if (diff.renamedNodes.length > 0) {
+    lines.push('### Renamed Nodes');
+    lines.push('');
+    for (const { from, to } of diff.renamedNodes) {
+      lines.push(`- \`${from}\` → \`${to}\``);
+    }
+    lines.push('');
+  }
+
+  const edgeSections: [string, TopologyEdge[]][] = [
+    ['New Broken Dependencies', diff.newBrokenEdges],
+    ['Added Dependencies', diff.addedEdges],
+    ['Removed Dependencies', diff.removedEdges],
+  ];
+  for (const [title, edges] of edgeSections) {
+    if (edges.length === 0) continue;
+    lines.push(`### ${title}`);
+    lines.push('');
+    lines.push('| Source | Target |');
+    lines.push('|--------|--------|');
+    for (const edge of edges) {
+      lines.push(`| \`${truncatePath(edge.source, 40)}\` | \`${truncatePath(edge.target, 40)}\` |`);
+    }
+    lines.push('');
+  }
+
+  if (diff.fanInChanges.length > 0) {
+    lines.push('### Fan-in Changes');
+    lines.push('');
+    lines.push('| File | Before | After | Change |');
+    lines.push('|------|--------|-------|--------|');
+    for (const { nodeId, before, after } of diff.fanInChanges) {
+      const change = after - before;
+      lines.push(`| \`${truncatePath(nodeId, 40)}\` | ${before} | ${after} | ${change > 0 ? '+' : ''}${change} |`);
+    }
+    lines.push('');
+  }
+
+  if (
+    diff.addedNodes.length + diff.removedNodes.length + diff.renamedNodes.length + diff.addedEdges.length +
+      diff.removedEdges.length + diff.newBrokenEdges.length + diff.fanInChanges.length === 0
+  ) {
+    lines.push('No architectural changes between these snapshots.');
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Describe a snapshot for report headings: label or commit, branch and date
+ */
+function describeSnapshot(metadata: SnapshotMetadata): string {
+  const name = metadata.label ?? (metadata.commitHash ? `\`${metadata.commitHash}\`` : 'working tree');
+  const branch = metadata.branch ? ` on \`${metadata.branch}\`` : '';
+  return `${name}${branch} (${new Date(metadata.timestamp).toISOString()})`;
+}
+
+/**
+ * Format the files affected by the changed files as a Markdown section (empty without changes)
+ */
+function formatBlastRadius(impact: ChangeImpact): string[] {
+  if (impact.changedFiles.length === 0) return [];
+
+  const { impactedFiles, testFiles } = impact;
+  const lines: string[] = [];
+
+  lines.push('### Blast Radius');
+  lines.push('');
+  if (impactedFiles.length === 0) {
+    lines.push(`No other files depend on the ${impact.changedFiles.length} changed file(s).`);
+    lines.push('');
+    return lines;
+  }
+
+  lines.push(
+    `${impact.changedFiles.length} changed file(s) affect ${impactedFiles.length} dependent file(s)` +
+      `${testFiles.length > 0 ? `, covered by ${testFiles.length} test file(s)` : ''}:`
+  );
+  lines.push('');
+  lines.push('| File | Distance | Changed dependencies | Imported by |');
+  lines.push('|------|----------|----------------------|-------------|');
+  for (const f of impactedFiles.slice(0, TOP_IMPACT_ROWS)) {
+    const via = f.changedDependencies.map((file) => `\`${truncatePath(file, 30)}\``).join(', ');
+    lines.push(`| \`${truncatePath(f.file, 40)}\`${f.isTest ? ' (test)' : ''} | ${f.distance} | ${via} | ${f.fanIn} |`);
+  }
+  if (impactedFiles.length > TOP_IMPACT_ROWS) {
+    lines.push('');
+    lines.push(`_…and ${impactedFiles.length - TOP_IMPACT_ROWS} more_`);
+  }
+  lines.push('');
+
+  return lines;
+}
+
+/**
+ * Format architecture metrics as Markdown sections: summary, god modules, most central
+ * files and most coupled directories
+ */
+function formatMetrics(metrics: ReportMetrics): string[] {
+  const { summary } = metrics;
+  const lines: string[] = [];
+
+  lines.push('### Architecture Metrics');
+  lines.push('');
+  lines.push('| Metric | Value |');
+  lines.push('|--------|-------|');
+  lines.push(`| Average fan-out | ${summary.averageFanOut.toFixed(2)} |`);
+  lines.push(`| Average instability | ${summary.averageInstability.toFixed(2)} |`);
+  lines.push(`| Longest import chain | ${summary.maxDepth} |`);
+  lines.push(`| Highest centrality | ${(summary.maxCentrality ?? 0).toFixed(3)} |`);
+  lines.push(`| God modules | ${summary.godModuleCount} |`);
+  lines.push('');
+
+  const godModules = metrics.files.filter((f) => f.isGodModule);
+  if (godModules.length > 0) {
+    lines.push('#### God Modules');
+    lines.push('');
+    lines.push('Files coupled far above the rest of the codebase in both directions:');
+    lines.push('');
+    for (const { file, fanIn, fanOut } of godModules) {
+      lines.push(`- \`${truncatePath(file, 60)}\` (imported by ${fanIn}, imports ${fanOut})`);
+    }
+    lines.push('');
+  }
+
+  const central = metrics.files.filter((f) => (f.centrality ?? 0) > 0).slice(0, TOP_METRICS_ROWS);
+  if (central.length > 0) {
+    lines.push('#### Most Central Files');
+    lines.push('');
+    lines.push('| File | Fan-in | Fan-out | Instability | Depth | Centrality |');
+    lines.push('|------|--------|---------|-------------|-------|------------|');
+    for (const f of central) {
+      lines.push(
+        `| \`${truncatePath(f.file, 40)}\` | ${f.fanIn} | ${f.fanOut} | ${f.instability.toFixed(2)} | ${f.depth} | ${(f.centrality ?? 0).toFixed(3)} |`
+      );
+    }
+    lines.push('');
+  }
+
+  const coupled = [...metrics.directories]
+    .filter((d) => d.fanIn + d.fanOut > 0)
+    .sort((a, b) => b.fanIn + b.fanOut - (a.fanIn + a.fanOut))
+    .slice(0, TOP_METRICS_ROWS);
+  if (coupled.length > 0) {
+    lines.push('#### Most Coupled Directories');
+    lines.push('');
+    lines.push('| Directory | Files | Fan-in | Fan-out | Instability |');
+    lines.push('|-----------|-------|--------|---------|-------------|');
+    for (const d of coupled) {
+      lines.push(`| \`${truncatePath(d.directory, 40)}\` | ${d.files} | ${d.fanIn} | ${d.fanOut} | ${d.instability.toFixed(2)} |`);
+    }
+    lines.push('');
+  }
+
+  return lines;
+}
+
+/**
+ * Format import cycles as a numbered Markdown list
+ */
+function formatCycles(cycles: DependencyCycle[]): string[] {
+  return cycles.map((cycle, i) => {
+    const files = cycle.files.map((file) => `\`${truncatePath(file, 40)}\``).join(' ↔ ');
+    return `${i + 1}. ${files} (${cycle.files.length} files)`;
+  });
+}
+
 /**
  * Truncate a file path for display
  */
@@ -0,0 +1,212 @@
+/**
+ * SARIF 2.1.0 output - broken dependencies, import cycles, rule violations and cross-branch
+ * conflicts as code scanning results
+ */
+
+import type { ConflictWarning, DependencyCycle, RuleViolation, TopologyGraph } from '@topology/protocol';
+import type { BrokenDependencyInfo } from './reporter.js';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+type SarifLevel = 'error' | 'warning' | 'note';
+
+interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+}
+
+interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: { uri: string; uriBaseId: string };
+    region: { startLine: number };
+  };
+}
+
+interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: SarifLocation[];
+  relatedLocations?: (SarifLocation & { id: number; message: { text: string } })[];
+  partialFingerprints: Record<string, string>;
+}
+
+export interface SarifFindings {
+  brokenDependencies: BrokenDependencyInfo[];
+  cycles: DependencyCycle[];
+  violations: RuleViolation[];
+  conflicts: ConflictWarning[];
+}
+
+const RULES: SarifRule[] = [
+  {
+    id: 'broken-dependency',
+    name: 'BrokenDependency',
+    shortDescription: { text: 'Import of a deleted module or of symbols that were removed or changed' },
+    defaultConfiguration: { level: 'error' },
+  },
+  {
+    id: 'import-cycle',
+    name: 'ImportCycle',
+    shortDescription: { text: 'Files that import each other in a cycle' },
+    defaultConfiguration: { level: 'warning' },
+  },
+  {
+    id: 'architecture-rule',
+    name: 'ArchitectureRule',
+    shortDescription: { text: 'Dependency that violates a rule in .topology/rules.json' },
+    defaultConfiguration: { level: 'warning' },
+  },
+  {
+    id: 'branch-conflict',
+    name: 'BranchConflict',
+    shortDescription: { text: 'File also changed, or linked to a file changed, on another branch' },
+    defaultConfiguration: { level: 'warning' },
+  },
+];
+
+const RULE_INDEX = new Map(RULES.map((rule, index) => [rule.id, index]));
+
+/** Fingerprint key: results have no line numbers, so identity comes from the finding itself */
+const FINGERPRINT_KEY = 'topologyFinding/v1';
+
+/**
+ * Location of a file
+ * Dependencies carry no line numbers, so findings are placed on the first line
+ */
+function fileLocation(file: string): SarifLocation {
+  return {
+    physicalLocation: {
+      artifactLocation: { uri: file, uriBaseId: '%SRCROOT%' },
+      region: { startLine: 1 },
+    },
+  };
+}
+
+/**
+ * Build a lookup from node IDs to the file a result can be anchored to
+ * Symbol IDs point at their file. Merged nodes (e.g. Go packages) are directories, so they resolve
+ * to the member file declaring an import of one of `imported`, or to undefined.
+ */
+function createFileResolver(graph: TopologyGraph): (nodeId: string, imported?: string[]) => string | undefined {
+  const members = new Map(graph.nodes.filter((n) => n.members).map((n) => [n.id, n.members!]));
+
+  return (nodeId, imported = []) => {
+    const fileId = nodeId.split('#')[0]!;
+    if (!members.has(fileId)) return fileId;
+
+    const edge = graph.edges.find(
+      (e) => e.source === fileId && e.sourceFiles && imported.includes(e.target.split('#')[0]!)
+    );
+    return edge?.sourceFiles![0];
+  };
+}
+
+function createResult(
+  ruleId: string,
+  level: SarifLevel,
+  text: string,
+  file: string | undefined,
+  fingerprint: string,
+  related: { file: string | undefined; text: string }[] = []
+): SarifResult {
+  const relatedLocations = related
+    .filter((r): r is { file: string; text: string } => r.file !== undefined)
+    .map((r, id) => ({ id, ...fileLocation(r.file), message: { text: r.text } }));
+
+  return {
+    ruleId,
+    ruleIndex: RULE_INDEX.get(ruleId)!,
+    level,
+    message: { text },
+    locations: file ? [fileLocation(file)] : [],
+    ...(relatedLocations.length > 0 && { relatedLocations }),
+    partialFingerprints: { [FINGERPRINT_KEY]: fingerprint },
+  };
+}
+
+/**
+ * Generate a SARIF 2.1.0 log with one result per finding
+ * Findings on directory nodes without a member file to point at have no location.
+ */
+export function generateSarifReport(graph: TopologyGraph, findings: SarifFindings): string {
+  const results: SarifResult[] = [];
+  const resolveFile = createFileResolver(graph);
+
+  for (const dep of findings.brokenDependencies) {
+    results.push(
+      createResult(
+        'broken-dependency',
+        'error',
+        `Import of ${dep.target} may be broken: ${dep.reason.replace(/`/g, '')}`,
+        resolveFile(dep.source, [dep.target]),
+        `broken:${dep.source}\n${dep.target}`,
+        [{ file: resolveFile(dep.target), text: `Imported module (${dep.targetStatus.toLowerCase()})` }]
+      )
+    );
+  }
+
+  for (const cycle of findings.cycles) {
+    const [first, ...rest] = cycle.files;
+    if (!first) continue;
+    results.push(
+      createResult(
+        'import-cycle',
+        cycle.isNew ? 'error' : 'warning',
+        `${cycle.isNew ? 'New import cycle' : 'Import cycle'}: ${[...cycle.files, first].join(' → ')}`,
+        resolveFile(first, cycle.files),
+        `cycle:${[...cycle.files].sort().join('\n')}`,
+        rest.map((file) => ({ file: resolveFile(file, cycle.files), text: 'Part of the cycle' }))
+      )
+    );
+  }
+
+  for (const violation of findings.violations) {
+    const file = violation.source ?? violation.file;
+    if (!file) continue;
+    results.push(
+      createResult(
+        'architecture-rule',
+        violation.severity,
+        `[${violation.rule}] ${violation.message}`,
+        resolveFile(file, violation.target ? [violation.target] : []),
+        `rule:${violation.rule}\n${file}\n${violation.target ?? ''}`,
+        violation.target ? [{ file: resolveFile(violation.target), text: 'Imported file' }] : []
+      )
+    );
+  }
+
+  for (const conflict of findings.conflicts) {
+    results.push(
+      createResult(
+        'branch-conflict',
+        conflict.severity === 'low' ? 'note' : 'warning',
+        `${conflict.description} (branch ${conflict.otherBranch}: ${conflict.otherFile})`,
+        resolveFile(conflict.currentFile),
+        `conflict:${conflict.type}\n${conflict.otherBranch}\n${conflict.currentFile}\n${conflict.otherFile}`
+      )
+    );
+  }
+
+  const log = {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'code-topology',
+            informationUri: 'https://github.com/7Jerrybf/code-topology',
+            rules: RULES,
+          },
+        },
+        results,
+      },
+    ],
+  };
+
+  return JSON.stringify(log, null, 2);
+}
@@ -0,0 +1,172 @@
+/**
+ * Architecture rule engine
+ * Evaluates forbidden dependencies, layer orderings and fan-in/fan-out limits
+ * against the file-level dependency graph
+ */
+
+import { minimatch } from 'minimatch';
+import type {
+  ArchitectureRule,
+  FileSelector,
+  RuleViolation,
+  TopologyGraph,
+} from '@topology/protocol';
+import { getFileDependencies, type FileDependency } from '../graph/cycles.js';
+
+/** Characters that make a selector pattern a glob rather than a path prefix */
+const GLOB_CHARS = /[*?[\]{}!]/;
+
+/**
+ * Build a predicate for a file selector
+ * Plain paths match the path itself and everything below it
+ */
+export function createFileMatcher(selector: FileSelector): (filePath: string) => boolean {
+  const patterns = Array.isArray(selector) ? selector : [selector];
+  const matchers = patterns.map((pattern) => {
+    if (GLOB_CHARS.test(pattern)) {
+      return (filePath: string) => minimatch(filePath, pattern, { dot: true });
+    }
+    const prefix = pattern.replace(/^\.\//, '').replace(/\/+$/, '');
+    return (filePath: string) => filePath === prefix || filePath.startsWith(`${prefix}/`);
+  });
+  return (filePath) => matchers.some((matches) => matches(filePath));
+}
+
+/**
+ * Get the display name of a rule
+ */
+function getRuleName(rule: ArchitectureRule, index: number): string {
+  return rule.name ?? `${rule.type}#${index}`;
+}
+
+/**
+ * Check "from must not import to" rules
+ */
+function evaluateForbiddenRule(
+  rule: Extract<ArchitectureRule, { type: 'forbidden' }>,
+  name: string,
+  dependencies: FileDependency[]
+): RuleViolation[] {
+  const isFrom = createFileMatcher(rule.from);
+  const isTo = createFileMatcher(rule.to);
+  const isExcept = rule.except ? createFileMatcher(rule.except) : () => false;
+
+  return dependencies
+    .filter(({ source, target }) => isFrom(source) && isTo(target) && !isExcept(source))
+    .map(({ source, target }) => ({
+      rule: name,
+      ruleType: 'forbidden' as const,
+      severity: rule.severity,
+      message: `${source} must not import ${target}${rule.description ? ` (${rule.description})` : ''}`,
+      source,
+      target,
+    }));
+}
+
+/**
+ * Check that no layer imports a layer above it (layers are listed top first)
+ */
+function evaluateLayersRule(
+  rule: Extract<ArchitectureRule, { type: 'layers' }>,
+  name: string,
+  dependencies: FileDependency[]
+): RuleViolation[] {
+  const layerMatchers = rule.layers.map((layer) => createFileMatcher(layer.files));
+  const layerCache = new Map<string, number>();
+  const getLayer = (filePath: string) => {
+    let layer = layerCache.get(filePath);
+    if (layer === undefined) {
+      layer = layerMatchers.findIndex((matches) => matches(filePath));
+      layerCache.set(filePath, layer);
+    }
+    return layer;
+  };
+
+  const violations: RuleViolation[] = [];
+  for (const { source, target } of dependencies) {
+    const sourceLayer = getLayer(source);
+    const targetLayer = getLayer(target);
+    if (sourceLayer === -1 || targetLayer === -1 || targetLayer >= sourceLayer) continue;
+
+    violations.push({
+      rule: name,
+      ruleType: 'layers',
+      severity: rule.severity,
+      message: `Layer "${rule.layers[sourceLayer]!.name}" must not import layer "${rule.layers[targetLayer]!.name}": ${source} → ${target}`,
+      source,
+      target,
+    });
+  }
+  return violations;
+}
+
+/**
+ * Check fan-in (importers) and fan-out (imports) limits per file
+ */
+function evaluateFanRule(
+  rule: Extract<ArchitectureRule, { type: 'fan' }>,
+  name: string,
+  files: string[],
+  dependencies: FileDependency[]
+): RuleViolation[] {
+  const fanIn = new Map<string, number>();
+  const fanOut = new Map<string, number>();
+  for (const { source, target } of dependencies) {
+    fanOut.set(source, (fanOut.get(source) ?? 0) + 1);
+    fanIn.set(target, (fanIn.get(target) ?? 0) + 1);
+  }
+
+  const applies = rule.files ? createFileMatcher(rule.files) : () => true;
+  const violations: RuleViolation[] = [];
+  for (const file of files) {
+    if (!applies(file)) continue;
+
+    const importers = fanIn.get(file) ?? 0;
+    if (rule.maxFanIn !== undefined && importers > rule.maxFanIn) {
+      violations.push({
+        rule: name,
+        ruleType: 'fan',
+        severity: rule.severity,
+        message: `${file} is imported by ${importers} files (max ${rule.maxFanIn})`,
+        file,
+      });
+    }
+
+    const imports = fanOut.get(file) ?? 0;
+    if (rule.maxFanOut !== undefined && imports > rule.maxFanOut) {
+      violations.push({
+        rule: name,
+        ruleType: 'fan',
+        severity: rule.severity,
+        message: `${file} imports ${imports} files (max ${rule.maxFanOut})`,
+        file,
+      });
+    }
+  }
+  return violations;
+}
+
+/**
+ * Evaluate architecture rules against a topology graph
+ * Dependencies are checked at file level (symbol edges count for their files; semantic edges are ignored)
+ */
+export function evaluateRules(graph: TopologyGraph, rules: ArchitectureRule[]): RuleViolation[] {
+  if (rules.length === 0) {
+    return [];
+  }
+
+  const dependencies = getFileDependencies(graph.nodes, graph.edges);
+  const files = graph.nodes.filter((node) => !node.parentId).map((node) => node.id);
+
+  return rules.flatMap((rule, index) => {
+    const name = getRuleName(rule, index);
+    switch (rule.type) {
+      case 'forbidden':
+        return evaluateForbiddenRule(rule, name, dependencies);
+      case 'layers':
+        return evaluateLayersRule(rule, name, dependencies);
+      case 'fan':
+        return evaluateFanRule(rule, name, files, dependencies);
+    }
+  });
+}
@@ -0,0 +1,15 @@
+/**
+ * Rules module - declarative architecture rules (forbidden dependencies, layers, fan-in/fan-out)
+ * @module @topology/core/rules
+ */
+
+export {
+  evaluateRules,
+  createFileMatcher,
+} from './engine.js';
+
+export {
+  loadRules,
+  DEFAULT_RULES_PATH,
+  type LoadRulesResult,
+} from './loader.js';
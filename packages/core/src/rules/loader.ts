@@ -0,0 +1,48 @@
+/**
+ * Architecture rules loader
+ * Reads and validates .topology/rules.json
+ */
+
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, resolve } from 'path';
+import { RulesFileSchema, type ArchitectureRule } from '@topology/protocol';
+
+/** Default rules file location, relative to the project root */
+export const DEFAULT_RULES_PATH = join('.topology', 'rules.json');
+
+export interface LoadRulesResult {
+  /** Validated rules (empty when no rules file exists) */
+  rules: ArchitectureRule[];
+  /** Absolute path of the loaded rules file, or null when none was found */
+  path: string | null;
+}
+
+/**
+ * Load architecture rules for a project
+ * @param rulesPath - Explicit rules file (must exist); defaults to .topology/rules.json when present
+ * @throws Error when the file cannot be read, is not JSON, or fails schema validation
+ */
+export async function loadRules(rootDir: string, rulesPath?: string): Promise<LoadRulesResult> {
+  const path = resolve(rootDir, rulesPath ?? DEFAULT_RULES_PATH);
+  if (!rulesPath && !existsSync(path)) {
+    return { rules: [], path: null };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Cannot read rules file ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const parsed = RulesFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid rules file ${path}: ${issues}`);
+  }
+
+  return { rules: parsed.data.rules, path };
+}
@@ -0,0 +1,11 @@
+/**
+ * Scan module - which files are analyzed and watched (.gitignore, .topologyignore, include/exclude globs)
+ * @module @topology/core/scan
+ */
+
+export {
+  ScanFilter,
+  DEFAULT_IGNORE_PATTERNS,
+  TOPOLOGY_IGNORE_FILE,
+  type ScanFilterOptions,
+} from './scanFilter.js';
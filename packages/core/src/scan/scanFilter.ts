@@ -0,0 +1,253 @@
+/**
+ * Scan filter - decides which files the analyzer and the watcher look at
+ * Combines the built-in ignore list, .gitignore files, .topologyignore and
+ * include/exclude globs from the project config or the CLI
+ */
+
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, posix } from 'path';
+import { glob, type IgnoreLike } from 'glob';
+import { Minimatch } from 'minimatch';
+import { createFileMatcher } from '../rules/engine.js';
+
+/** Directories and files never scanned (build output, dependencies, virtualenvs) */
+export const DEFAULT_IGNORE_PATTERNS = [
+  '**/node_modules/**',
+  '**/.git/**',
+  '**/dist/**',
+  '**/coverage/**',
+  '**/.next/**',
+  '**/.nuxt/**',
+  '**/.svelte-kit/**',
+  '**/.astro/**',
+  '**/*.d.ts',
+  '**/__pycache__/**',
+  '**/venv/**',
+  '**/.venv/**',
+  '**/env/**',
+  '**/.env/**',
+  '**/vendor/**',
+  '**/target/**',
+  '**/obj/**',
+  '**/package-lock.json',
+];
+
+/** Project-specific ignore file (gitignore syntax) */
+export const TOPOLOGY_IGNORE_FILE = '.topologyignore';
+
+export interface ScanFilterOptions {
+  /** Only scan files matching one of these globs or path prefixes (default: all) */
+  include?: string[];
+  /** Also skip files matching these globs or path prefixes */
+  exclude?: string[];
+  /** Honor .gitignore files (default: true) */
+  gitignore?: boolean;
+}
+
+/** One line of a .gitignore/.topologyignore file */
+interface IgnoreRule {
+  /** Directory of the ignore file, relative to the root ('' for the root) */
+  baseDir: string;
+  /** Pattern as written */
+  pattern: string;
+  matcher: Minimatch;
+  /** `!pattern` re-includes */
+  negated: boolean;
+  /** `pattern/` only matches directories */
+  directoryOnly: boolean;
+}
+
+/** Rules read from one ignore file */
+interface IgnoreFile {
+  path: string;
+  rules: IgnoreRule[];
+}
+
+/**
+ * Parse gitignore-syntax content into rules
+ * @param baseDir - Directory of the ignore file relative to the root ('' for the root)
+ */
+function parseIgnoreRules(content: string, baseDir: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Trailing spaces are ignored unless escaped; `#` starts a comment
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+
+    const pattern = line;
+    const negated = line.startsWith('!');
+    if (negated) {
+      line = line.slice(1);
+    } else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+      line = line.slice(1);
+    }
+
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) {
+      line = line.slice(0, -1);
+    }
+    if (!line) continue;
+
+    // A slash anywhere but the end anchors the pattern to the ignore file's directory
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) {
+      line = line.slice(1);
+    }
+
+    rules.push({
+      baseDir,
+      pattern,
+      matcher: new Minimatch(anchored ? line : `**/${line}`, { dot: true }),
+      negated,
+      directoryOnly,
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Decides which files under a root are scanned
+ * Paths are relative to the root with forward slashes
+ */
+export class ScanFilter {
+  private readonly include: string[];
+  private readonly exclude: string[];
+  private readonly ignoreFiles: IgnoreFile[];
+  private readonly isIncludedPath: ((filePath: string) => boolean) | null;
+  private readonly isExcludedPath: (filePath: string) => boolean;
+  /** Matches directories whose whole contents are excluded (`dir/**` patterns and path prefixes) */
+  private readonly isExcludedDir: (dirPath: string) => boolean;
+  /** Ignore decisions for directories, which are checked once per file below them */
+  private dirCache = new Map<string, boolean>();
+
+  private constructor(include: string[], exclude: string[], ignoreFiles: IgnoreFile[]) {
+    this.include = include;
+    this.exclude = exclude;
+    this.ignoreFiles = ignoreFiles;
+    this.isIncludedPath = include.length > 0 ? createFileMatcher(include) : null;
+    this.isExcludedPath = createFileMatcher(exclude);
+    this.isExcludedDir = createFileMatcher(exclude.map((pattern) => pattern.replace(/\/\*\*$/, '')));
+  }
+
+  /**
+   * Create the filter for a root directory
+   * Reads .topologyignore and (unless disabled) every .gitignore below the root
+   */
+  static async load(rootDir: string, options: ScanFilterOptions = {}): Promise<ScanFilter> {
+    const include = options.include ?? [];
+    const exclude = [...DEFAULT_IGNORE_PATTERNS, ...(options.exclude ?? [])];
+    const useGitignore = options.gitignore ?? true;
+
+    const ignoreFilePaths: string[] = [];
+    if (useGitignore) {
+      try {
+        const gitignores = await glob('**/.gitignore', {
+          cwd: rootDir,
+          dot: true,
+          ignore: DEFAULT_IGNORE_PATTERNS,
+          posix: true,
+        });
+        // Parent directories first, so deeper files can override them
+        ignoreFilePaths.push(...gitignores.sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b)));
+      } catch {
+        // Unreadable tree: scan without .gitignore rules
+      }
+    }
+    if (existsSync(join(rootDir, TOPOLOGY_IGNORE_FILE))) {
+      ignoreFilePaths.push(TOPOLOGY_IGNORE_FILE);
+    }
+
+    const ignoreFiles: IgnoreFile[] = [];
+    for (const path of ignoreFilePaths) {
+      try {
+        const baseDir = posix.dirname(path) === '.' ? '' : posix.dirname(path);
+        const rules = parseIgnoreRules(await readFile(join(rootDir, path), 'utf-8'), baseDir);
+        if (rules.length > 0) {
+          ignoreFiles.push({ path, rules });
+        }
+      } catch {
+        // Unreadable ignore file: skip it
+      }
+    }
+
+    return new ScanFilter(include, exclude, ignoreFiles);
+  }
+
+  /**
+   * Check a path against the .gitignore/.topologyignore rules (the last matching rule wins)
+   */
+  private matchesIgnoreRules(path: string, isDirectory: boolean): boolean {
+    let ignored = false;
+    for (const { rules } of this.ignoreFiles) {
+      for (const rule of rules) {
+        if (rule.directoryOnly && !isDirectory) continue;
+        if (rule.baseDir && !path.startsWith(`${rule.baseDir}/`)) continue;
+        const relativePath = rule.baseDir ? path.slice(rule.baseDir.length + 1) : path;
+        if (rule.matcher.match(relativePath)) {
+          ignored = !rule.negated;
+        }
+      }
+    }
+    return ignored;
+  }
+
+  /**
+   * Check whether a directory and everything below it is skipped
+   */
+  isIgnoredDirectory(dirPath: string): boolean {
+    const cached = this.dirCache.get(dirPath);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    // Files below an ignored directory cannot be re-included (as in git)
+    const separator = dirPath.lastIndexOf('/');
+    const ignored =
+      (separator !== -1 && this.isIgnoredDirectory(dirPath.slice(0, separator))) ||
+      this.isExcludedDir(dirPath) ||
+      this.matchesIgnoreRules(dirPath, true);
+    this.dirCache.set(dirPath, ignored);
+    return ignored;
+  }
+
+  /**
+   * Check whether a file is scanned
+   */
+  accepts(filePath: string): boolean {
+    const separator = filePath.lastIndexOf('/');
+    if (separator !== -1 && this.isIgnoredDirectory(filePath.slice(0, separator))) {
+      return false;
+    }
+    if (this.isExcludedPath(filePath) || this.matchesIgnoreRules(filePath, false)) {
+      return false;
+    }
+    return this.isIncludedPath ? this.isIncludedPath(filePath) : true;
+  }
+
+  /**
+   * Get the filter as a glob `ignore` option (paths relative to the glob's cwd)
+   */
+  toGlobIgnore(): IgnoreLike {
+    return {
+      ignored: (p) => !p.isDirectory() && !this.accepts(p.relativePosix()),
+      childrenIgnored: (p) => p.relativePosix() !== '' && this.isIgnoredDirectory(p.relativePosix()),
+    };
+  }
+
+  /**
+   * Describe the effective rules, one line each (for verbose output)
+   */
+  describe(): string[] {
+    const lines = [
+      `include: ${this.include.length > 0 ? this.include.join(', ') : '(all files)'}`,
+      `exclude: ${this.exclude.join(', ')}`,
+    ];
+    for (const { path, rules } of this.ignoreFiles) {
+      lines.push(`${path}: ${rules.map((rule) => rule.pattern).join(', ')}`);
+    }
+    return lines;
+  }
+}
@@ -1,5 +1,5 @@
-import { analyzeDirectory, type AnalyzeOptions, CacheDb, AuthDb, resolveAuthContext, AuditLogger, resolveVectorConfig, createVectorStore, type VectorStore } from '@topology/core';
-import type { TopologyGraph, AuthContext, VectorStoreConfig } from '@topology/protocol';
+import { analyzeDirectory, loadPlugins, type AnalyzeOptions, CacheDb, AuthDb, resolveAuthContext, AuditLogger, resolveProjectConfig, toAnalyzeOptions, toVectorStoreConfig, createVectorStore, type VectorStore } from '@topology/core';
+import type { TopologyGraph, AuthContext, ProjectConfig } from '@topology/protocol';
 
 export class TopologyState {
   private graph: TopologyGraph | null = null;
@@ -9,8 +9,9 @@ export class TopologyState {
   private _authDb: AuthDb | null = null;
   private _authContext: AuthContext | null = null;
   private _auditLogger: AuditLogger | null = null;
-  private _vectorStoreConfig: VectorStoreConfig | null = null;
   private _cloudStore: VectorStore | null = null;
+  private configLoaded: Promise<ProjectConfig> | null = null;
+  private pluginsLoaded: Promise<void> | null = null;
 
   constructor(path?: string) {
     this.analyzePath = path ?? process.cwd();
@@ -39,9 +40,23 @@ export class TopologyState {
     }
 
     this._authContext = ctx;
+  }
 
-    // Resolve vector store config from env vars
-    this._vectorStoreConfig = resolveVectorConfig();
+  /**
+   * Resolve the project config once (topology.config.ts or .topology/config.json,
+   * overridden by env vars such as TOPOLOGY_PLUGINS and TOPOLOGY_VECTOR_PROVIDER).
+   */
+  ensureConfig(): Promise<ProjectConfig> {
+    if (!this.configLoaded) {
+      this.configLoaded = resolveProjectConfig(this.analyzePath)
+        .then(({ config }) => config)
+        .catch((err) => {
+          // Retry on the next call once the config file is fixed
+          this.configLoaded = null;
+          throw err;
+        });
+    }
+    return this.configLoaded;
   }
 
   /**
@@ -50,8 +65,8 @@ export class TopologyState {
   async getCloudStore(): Promise<VectorStore | null> {
     if (this._cloudStore) return this._cloudStore;
 
-    const cfg = this._vectorStoreConfig;
-    if (!cfg || cfg.provider === 'sqlite') return null;
+    const cfg = toVectorStoreConfig((await this.ensureConfig()).vector);
+    if (cfg.provider === 'sqlite') return null;
 
     try {
       this._cloudStore = await createVectorStore(cfg, this.cacheDb ?? undefined);
@@ -62,6 +77,28 @@ export class TopologyState {
     }
   }
 
+  /**
+   * Load external language plugins once (plugins/ dir, the project config "plugins"
+   * and comma-separated TOPOLOGY_PLUGINS package names/paths).
+   */
+  ensurePlugins(): Promise<void> {
+    if (!this.pluginsLoaded) {
+      this.pluginsLoaded = this.ensureConfig()
+        .then((config) => loadPlugins(this.analyzePath, { plugins: config.plugins }))
+        .then((result) => {
+          // stdout carries the MCP protocol, so diagnostics go to stderr
+          for (const err of result.errors) {
+            console.error(`Plugin ${err.source}: ${err.message}`);
+          }
+        })
+        .catch((err) => {
+          this.pluginsLoaded = null;
+          throw err;
+        });
+    }
+    return this.pluginsLoaded;
+  }
+
   get authContext(): AuthContext | null {
     return this._authContext;
   }
@@ -83,13 +120,14 @@ export class TopologyState {
       return this.analyzeInProgress;
     }
 
-    // Merge vector store config into options
-    const mergedOptions: AnalyzeOptions = {
-      ...options,
-      vectorStoreConfig: options?.vectorStoreConfig ?? this._vectorStoreConfig ?? undefined,
-    };
+    // Options set by the caller take precedence over the project config
+    const callerOptions = Object.fromEntries(
+      Object.entries(options ?? {}).filter(([, value]) => value !== undefined)
+    ) as AnalyzeOptions;
 
-    this.analyzeInProgress = analyzeDirectory(this.analyzePath, mergedOptions)
+    this.analyzeInProgress = this.ensurePlugins()
+      .then(() => this.ensureConfig())
+      .then((config) => analyzeDirectory(this.analyzePath, { ...toAnalyzeOptions(config), ...callerOptions }))
       .then((graph) => {
         this.graph = graph;
         this.analyzeInProgress = null;
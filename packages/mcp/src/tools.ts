@@ -1,6 +1,6 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { generateReport, detectConflicts, hasPermission } from '@topology/core';
+import { generateReport, detectConflicts, findCycles, analyzeImpact, createNodeIdResolver, pluginRegistry, hasPermission } from '@topology/core';
 import type { TopologyEdge } from '@topology/protocol';
 import type { Permission } from '@topology/protocol';
 import type { TopologyState } from './state.js';
@@ -28,8 +28,9 @@ export function registerTools(server: McpServer, state: TopologyState): void {
     {
       noEmbeddings: z.boolean().optional().describe('Skip semantic embedding analysis'),
       similarityThreshold: z.number().min(0).max(1).optional().describe('Cosine similarity threshold for semantic edges (default: 0.7)'),
+      symbols: z.boolean().optional().describe('Add exported classes/functions/interfaces as symbol nodes (IDs like "src/a.ts#fn")'),
     },
-    async ({ noEmbeddings, similarityThreshold }) => {
+    async ({ noEmbeddings, similarityThreshold, symbols }) => {
       if (ctx && !hasPermission(ctx, 'analysis:run')) return permDenied('analysis:run');
 
       const start = Date.now();
@@ -38,6 +39,7 @@ export function registerTools(server: McpServer, state: TopologyState): void {
       const graph = await state.refresh({
         noEmbeddings,
         similarityThreshold,
+        symbols,
       });
 
       const depEdges = graph.edges.filter((e) => e.linkType !== 'semantic');
@@ -234,7 +236,7 @@ export function registerTools(server: McpServer, state: TopologyState): void {
   // Tool 5: get_file_impact — Change impact analysis
   server.tool(
     'get_file_impact',
-    'Analyze the impact of changing a file. Shows all files that directly or indirectly depend on it (reverse dependency chain).',
+    'Analyze the impact of changing a file. Shows all files that directly or indirectly depend on it (reverse dependency chain) and the test files among them.',
     {
       filePath: z.string().describe('File path to analyze impact for'),
     },
@@ -244,21 +246,23 @@ export function registerTools(server: McpServer, state: TopologyState): void {
       audit?.log({ action: 'file_impact:read', userId: ctx?.userId, username: ctx?.username, source: 'mcp', details: filePath });
 
       const graph = await state.ensureGraph();
-      const impacted: Array<{ file: string; depth: number }> = [];
-
-      bfs(graph.edges, filePath, 'target', 'source', 10, impacted);
+      const { testPatterns } = await state.ensureConfig();
+      // Member files of merged nodes (e.g. Go packages) map to their node
+      const nodeId = createNodeIdResolver(graph, (file) => pluginRegistry.getNodeId(file))(filePath);
+      const { impactedFiles, testFiles } = analyzeImpact(graph, [nodeId], { maxDepth: 10, testPatterns });
 
       return {
         content: [
           {
             type: 'text' as const,
-            text: impacted.length === 0
+            text: impactedFiles.length === 0
               ? `No files depend on "${filePath}".`
               : JSON.stringify(
                   {
                     filePath,
-                    impactedFiles: impacted.length,
-                    files: impacted,
+                    impactedFiles: impactedFiles.length,
+                    files: impactedFiles.map(({ file, distance }) => ({ file, depth: distance })),
+                    testFiles,
                   },
                   null,
                   2,
@@ -272,9 +276,9 @@ export function registerTools(server: McpServer, state: TopologyState): void {
   // Tool 6: generate_report — Generate analysis report
   server.tool(
     'generate_report',
-    'Generate a topology analysis report in Markdown or JSON format.',
+    'Generate a topology analysis report in Markdown, JSON, SARIF 2.1.0 (code scanning) or JUnit XML format.',
     {
-      format: z.enum(['markdown', 'json']).optional().describe('Report format (default: "markdown")'),
+      format: z.enum(['markdown', 'json', 'sarif', 'junit']).optional().describe('Report format (default: "markdown")'),
     },
     async ({ format }) => {
       if (ctx && !hasPermission(ctx, 'report:read')) return permDenied('report:read');
@@ -282,11 +286,19 @@ export function registerTools(server: McpServer, state: TopologyState): void {
       audit?.log({ action: 'report:generated', userId: ctx?.userId, username: ctx?.username, source: 'mcp' });
 
       const graph = await state.ensureGraph();
+      const { testPatterns } = await state.ensureConfig();
       const reportFormat = format ?? 'markdown';
 
+      // SARIF also carries cross-branch conflicts; the report is still useful without them
+      const conflicts = reportFormat === 'sarif'
+        ? await detectConflicts({ repoPath: state.getAnalyzePath(), graph }).catch(() => undefined)
+        : undefined;
+
       const report = generateReport({
         graph,
         format: reportFormat,
+        testPatterns,
+        conflicts,
       });
 
       return {
@@ -353,6 +365,35 @@ export function registerTools(server: McpServer, state: TopologyState): void {
       };
     },
   );
+
+  // Tool 8: get_cycles — List import cycles
+  server.tool(
+    'get_cycles',
+    'List circular import dependencies (groups of files that import each other, directly or transitively). Cycles introduced relative to the base branch are marked isNew.',
+    {
+      newOnly: z.boolean().optional().describe('Only list cycles introduced relative to the base branch'),
+    },
+    async ({ newOnly }) => {
+      if (ctx && !hasPermission(ctx, 'graph:read')) return permDenied('graph:read');
+
+      audit?.log({ action: 'cycles:read', userId: ctx?.userId, username: ctx?.username, source: 'mcp' });
+
+      const graph = await state.ensureGraph();
+      const allCycles = graph.cycles ?? findCycles(graph.nodes, graph.edges);
+      const cycles = newOnly ? allCycles.filter((c) => c.isNew) : allCycles;
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: cycles.length === 0
+              ? (newOnly ? 'No new import cycles found.' : 'No import cycles found.')
+              : JSON.stringify(cycles, null, 2),
+          },
+        ],
+      };
+    },
+  );
 }
 
 /**
@@ -0,0 +1,95 @@
+/**
+ * Project configuration schema
+ * Declared in .topology/config.json or topology.config.ts and merged with environment
+ * variables and CLI flags (CLI > env > config file > defaults)
+ */
+
+import { z } from 'zod';
+import { VectorProviderSchema } from './vectorStore.js';
+
+/** Vector store settings; incomplete provider sections are ignored */
+export const ProjectVectorConfigSchema = z
+  .object({
+    provider: VectorProviderSchema.optional(),
+    pinecone: z
+      .object({
+        apiKey: z.string().min(1).optional(),
+        indexName: z.string().min(1).optional(),
+        namespace: z.string().optional(),
+      })
+      .strict()
+      .optional(),
+    pgvector: z
+      .object({
+        connectionString: z.string().min(1).optional(),
+        tableName: z.string().min(1).optional(),
+        namespace: z.string().optional(),
+      })
+      .strict()
+      .optional(),
+    sync: z
+      .object({
+        enabled: z.boolean().optional(),
+        batchSize: z.number().int().min(1).max(1000).optional(),
+        useCloudSearch: z.boolean().optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+export type ProjectVectorConfig = z.infer<typeof ProjectVectorConfigSchema>;
+
+/** Watch mode settings */
+export const ProjectWatchConfigSchema = z
+  .object({
+    /** WebSocket server port */
+    port: z.number().int().min(1).max(65535).optional(),
+    /** Debounce delay for file changes in milliseconds */
+    debounceMs: z.number().int().nonnegative().optional(),
+  })
+  .strict();
+export type ProjectWatchConfig = z.infer<typeof ProjectWatchConfigSchema>;
+
+export const ProjectConfigSchema = z
+  .object({
+    /** Base branch to compare against (default: auto-detect main/master) */
+    base: z.string().min(1).optional(),
+    /** Run git diff analysis */
+    git: z.boolean().optional(),
+    /** Topology data file written by analyze and watch */
+    output: z.string().min(1).optional(),
+    /** Language plugins (file paths or npm package names); CLI and env plugins are added to these */
+    plugins: z.array(z.string().min(1)).optional(),
+    /** Only scan files matching these globs or path prefixes */
+    include: z.array(z.string().min(1)).optional(),
+    /** Skip files matching these globs or path prefixes; CLI and env excludes are added to these */
+    exclude: z.array(z.string().min(1)).optional(),
+    /** Honor .gitignore files */
+    gitignore: z.boolean().optional(),
+    /** Add exported classes/functions/interfaces as symbol nodes */
+    symbols: z.boolean().optional(),
+    /** Add stylesheets, JSON, GraphQL and image files as asset nodes */
+    assets: z.boolean().optional(),
+    /** Python source roots for absolute imports */
+    pythonRoots: z.array(z.string().min(1)).optional(),
+    /** Architecture rules file (default: .topology/rules.json if present) */
+    rules: z.string().min(1).optional(),
+    /** Globs marking test files for impact analysis and affected-tests (patterns without a slash match the file name) */
+    testPatterns: z.array(z.string().min(1)).optional(),
+    /** Use the SQLite parse cache */
+    cache: z.boolean().optional(),
+    /** Cache directory (default: <repo>/.topology/) */
+    cacheDir: z.string().min(1).optional(),
+    /** Run semantic embedding analysis */
+    embeddings: z.boolean().optional(),
+    /** Cosine similarity threshold for semantic edges */
+    similarityThreshold: z.number().min(0).max(1).optional(),
+    /** Keep every snapshot in the cache DB's snapshot store (the data file holds only the latest) */
+    history: z.boolean().optional(),
+    /** Maximum number of snapshots kept in the snapshot store (oldest are pruned) */
+    maxSnapshots: z.number().int().min(1).optional(),
+    vector: ProjectVectorConfigSchema.optional(),
+    watch: ProjectWatchConfigSchema.optional(),
+  })
+  .strict();
+export type ProjectConfig = z.infer<typeof ProjectConfigSchema>;
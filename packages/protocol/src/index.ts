@@ -6,31 +6,43 @@
 // Topology types (core graph structures)
 export {
   // Schemas
+  BuiltinLanguageSchema,
   LanguageSchema,
   LinkTypeSchema,
+  EdgeKindSchema,
   NodeTypeSchema,
   DiffStatusSchema,
   NodeKindSchema,
+  SymbolKindSchema,
   NodeStatusSchema,
   TopologyNodeSchema,
   TopologyEdgeSchema,
+  DependencyCycleSchema,
   TopologyGraphSchema,
   SnapshotMetadataSchema,
   TopologySnapshotSchema,
   TopologyDataFileSchema,
+  StoredSnapshotMetadataSchema,
+  SnapshotPageSchema,
   // Types
+  type BuiltinLanguage,
   type Language,
   type LinkType,
+  type EdgeKind,
   type NodeType,
   type DiffStatus,
   type NodeKind,
+  type SymbolKind,
   type NodeStatus,
   type TopologyNode,
   type TopologyEdge,
+  type DependencyCycle,
   type TopologyGraph,
   type SnapshotMetadata,
   type TopologySnapshot,
   type TopologyDataFile,
+  type StoredSnapshotMetadata,
+  type SnapshotPage,
 } from './topology.js';
 
 // Explain types (AI feature)
@@ -75,6 +87,38 @@ export {
   type ConflictWarning,
 } from './conflict.js';
 
+// Architecture rule types (rule engine)
+export {
+  RuleTypeSchema,
+  RuleSeveritySchema,
+  FileSelectorSchema,
+  ForbiddenDependencyRuleSchema,
+  LayersRuleSchema,
+  FanLimitRuleSchema,
+  ArchitectureRuleSchema,
+  RulesFileSchema,
+  RuleViolationSchema,
+  type RuleType,
+  type RuleSeverity,
+  type FileSelector,
+  type ForbiddenDependencyRule,
+  type LayersRule,
+  type FanLimitRule,
+  type ArchitectureRule,
+  type RulesFile,
+  type RuleViolation,
+} from './rules.js';
+
+// Architecture metric types
+export {
+  NodeMetricsSchema,
+  DirectoryMetricsSchema,
+  MetricsSummarySchema,
+  type NodeMetrics,
+  type DirectoryMetrics,
+  type MetricsSummary,
+} from './metrics.js';
+
 // Auth types (Phase 4: RBAC)
 export {
   RoleSchema,
@@ -118,3 +162,13 @@ export {
   type VectorSyncConfig,
   type VectorStoreConfig,
 } from './vectorStore.js';
+
+// Project configuration (.topology/config.json, topology.config.ts)
+export {
+  ProjectVectorConfigSchema,
+  ProjectWatchConfigSchema,
+  ProjectConfigSchema,
+  type ProjectVectorConfig,
+  type ProjectWatchConfig,
+  type ProjectConfig,
+} from './config.js';
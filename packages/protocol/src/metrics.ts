@@ -0,0 +1,57 @@
+/**
+ * Architecture metric types (Zod schemas + inferred types)
+ * Computed on the file-level dependency graph: symbol nodes fold into their file,
+ * semantic edges are ignored
+ */
+
+import { z } from 'zod';
+
+/** Coupling, depth and centrality of one file */
+export const NodeMetricsSchema = z.object({
+  /** Afferent coupling: number of files importing this file */
+  fanIn: z.number().int(),
+  /** Efferent coupling: number of files this file imports */
+  fanOut: z.number().int(),
+  /** fanOut / (fanIn + fanOut): 0 = stable (only depended on), 1 = unstable (only depends on others) */
+  instability: z.number(),
+  /** Longest import chain below this file (an import cycle counts as one step) */
+  depth: z.number().int(),
+  /**
+   * Betweenness centrality, normalized to 0-1: share of shortest import paths through this file
+   * (missing when not computed: graph builds leave it out, reports compute it on demand)
+   */
+  centrality: z.number().optional(),
+  /** Coupled far above the rest of the graph in both directions */
+  isGodModule: z.boolean(),
+});
+export type NodeMetrics = z.infer<typeof NodeMetricsSchema>;
+
+/** Coupling of one directory to the rest of the graph */
+export const DirectoryMetricsSchema = z.object({
+  /** Directory path ("." for the repository root) */
+  directory: z.string(),
+  /** Number of files directly in the directory */
+  files: z.number().int(),
+  /** Afferent coupling: files outside the directory importing files in it */
+  fanIn: z.number().int(),
+  /** Efferent coupling: files outside the directory imported from it */
+  fanOut: z.number().int(),
+  /** fanOut / (fanIn + fanOut) */
+  instability: z.number(),
+});
+export type DirectoryMetrics = z.infer<typeof DirectoryMetricsSchema>;
+
+/** Graph-wide metric summary (stored with each snapshot for trends) */
+export const MetricsSummarySchema = z.object({
+  /** Average number of imported files per file */
+  averageFanOut: z.number(),
+  /** Average instability over all files */
+  averageInstability: z.number(),
+  /** Longest import chain in the graph */
+  maxDepth: z.number().int(),
+  /** Highest betweenness centrality (missing when centrality was not computed) */
+  maxCentrality: z.number().optional(),
+  /** Number of god modules */
+  godModuleCount: z.number().int(),
+});
+export type MetricsSummary = z.infer<typeof MetricsSummarySchema>;
@@ -0,0 +1,94 @@
+/**
+ * Architecture rule types (Zod schemas + inferred types)
+ * Rules are declared in .topology/rules.json and evaluated against the topology graph
+ */
+
+import { z } from 'zod';
+
+export const RuleTypeSchema = z.enum(['forbidden', 'layers', 'fan']);
+export type RuleType = z.infer<typeof RuleTypeSchema>;
+
+export const RuleSeveritySchema = z.enum(['error', 'warning']);
+export type RuleSeverity = z.infer<typeof RuleSeveritySchema>;
+
+/**
+ * File selector: a glob or list of globs matched against file paths relative to the project root.
+ * A pattern without glob characters also matches everything under it as a directory
+ * (e.g. "packages/web" matches "packages/web/src/app.ts").
+ */
+export const FileSelectorSchema = z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]);
+export type FileSelector = z.infer<typeof FileSelectorSchema>;
+
+const RuleBaseSchema = z.object({
+  /** Rule name shown in reports (default: "<type>#<index>") */
+  name: z.string().optional(),
+  /** Human-readable explanation of the rule */
+  description: z.string().optional(),
+  /** Errors fail the CLI; warnings are only reported */
+  severity: RuleSeveritySchema.default('error'),
+});
+
+/** Files matching "from" must not import files matching "to" */
+export const ForbiddenDependencyRuleSchema = RuleBaseSchema.extend({
+  type: z.literal('forbidden'),
+  from: FileSelectorSchema,
+  to: FileSelectorSchema,
+  /** Source files exempt from the rule */
+  except: FileSelectorSchema.optional(),
+});
+export type ForbiddenDependencyRule = z.infer<typeof ForbiddenDependencyRuleSchema>;
+
+/** Ordered layers (top first): a layer may only import itself and the layers below it */
+export const LayersRuleSchema = RuleBaseSchema.extend({
+  type: z.literal('layers'),
+  layers: z
+    .array(
+      z.object({
+        name: z.string(),
+        files: FileSelectorSchema,
+      })
+    )
+    .min(2),
+});
+export type LayersRule = z.infer<typeof LayersRuleSchema>;
+
+/** Maximum number of files importing (fan-in) or imported by (fan-out) each matching file */
+export const FanLimitRuleSchema = RuleBaseSchema.extend({
+  type: z.literal('fan'),
+  /** Files the limit applies to (default: all files) */
+  files: FileSelectorSchema.optional(),
+  maxFanIn: z.number().int().nonnegative().optional(),
+  maxFanOut: z.number().int().nonnegative().optional(),
+}).refine((rule) => rule.maxFanIn !== undefined || rule.maxFanOut !== undefined, {
+  message: 'fan rule needs maxFanIn and/or maxFanOut',
+});
+export type FanLimitRule = z.infer<typeof FanLimitRuleSchema>;
+
+export const ArchitectureRuleSchema = z.union([
+  ForbiddenDependencyRuleSchema,
+  LayersRuleSchema,
+  FanLimitRuleSchema,
+]);
+export type ArchitectureRule = z.infer<typeof ArchitectureRuleSchema>;
+
+export const RulesFileSchema = z.object({
+  rules: z.array(ArchitectureRuleSchema),
+});
+export type RulesFile = z.infer<typeof RulesFileSchema>;
+
+export const RuleViolationSchema = z.object({
+  /** Name of the violated rule */
+  rule: z.string(),
+  /** Type of the violated rule */
+  ruleType: RuleTypeSchema,
+  severity: RuleSeveritySchema,
+  /** Human-readable description of the violation */
+  message: z.string(),
+  /** Importing file (dependency violations) */
+  source: z.string().optional(),
+  /** Imported file (dependency violations) */
+  target: z.string().optional(),
+  /** Offending file (fan-in/fan-out violations) */
+  file: z.string().optional(),
+});
+export type RuleViolation = z.infer<typeof RuleViolationSchema>;
@@ -4,24 +4,47 @@
  */
 
 import { z } from 'zod';
+import { RuleViolationSchema } from './rules.js';
+import { NodeMetricsSchema, MetricsSummarySchema } from './metrics.js';
 
 // ============================================
 // Enums / Literals
 // ============================================
 
-export const LanguageSchema = z.enum(['typescript', 'javascript', 'python']);
+/** Languages with built-in Tree-sitter support */
+export const BuiltinLanguageSchema = z.enum([
+  'typescript',
+  'javascript',
+  'python',
+  'go',
+  'rust',
+  'java',
+  'csharp',
+  'vue',
+  'svelte',
+  'astro',
+]);
+export type BuiltinLanguage = z.infer<typeof BuiltinLanguageSchema>;
+
+/** Built-in language or any language contributed by a registered LanguagePlugin */
+export const LanguageSchema = z.union([BuiltinLanguageSchema, z.string().min(1)]);
 export type Language = z.infer<typeof LanguageSchema>;
 
-export const NodeTypeSchema = z.enum(['FILE', 'COMPONENT', 'UTILITY']);
+export const NodeTypeSchema = z.enum(['FILE', 'COMPONENT', 'UTILITY', 'ASSET']);
 export type NodeType = z.infer<typeof NodeTypeSchema>;
 
-export const DiffStatusSchema = z.enum(['UNCHANGED', 'ADDED', 'MODIFIED', 'DELETED']);
+/** RENAMED: moved or renamed since the base branch (possibly also modified), see previousId */
+export const DiffStatusSchema = z.enum(['UNCHANGED', 'ADDED', 'MODIFIED', 'DELETED', 'RENAMED']);
 export type DiffStatus = z.infer<typeof DiffStatusSchema>;
 
-/** Node kinds from CLAUDE.md spec (superset, for future use) */
+/** Node kinds from CLAUDE.md spec (superset; symbol kinds are used by symbol-level graphs) */
 export const NodeKindSchema = z.enum(['FILE', 'MODULE', 'CLASS', 'FUNCTION', 'INTERFACE']);
 export type NodeKind = z.infer<typeof NodeKindSchema>;
 
+/** Kinds of exported symbols emitted as nodes in symbol-granularity mode */
+export const SymbolKindSchema = NodeKindSchema.extract(['CLASS', 'FUNCTION', 'INTERFACE']);
+export type SymbolKind = z.infer<typeof SymbolKindSchema>;
+
 /** Node status from CLAUDE.md spec (for future use) */
 export const NodeStatusSchema = z.enum(['STABLE', 'DRAFT', 'CONFLICT', 'DEPRECATED']);
 export type NodeStatus = z.infer<typeof NodeStatusSchema>;
@@ -34,6 +57,13 @@ export type NodeStatus = z.infer<typeof NodeStatusSchema>;
 export const LinkTypeSchema = z.enum(['dependency', 'semantic']);
 export type LinkType = z.infer<typeof LinkTypeSchema>;
 
+/**
+ * How a dependency edge was imported: static import/export-from, dynamic import(), require(),
+ * or a jest/vitest mock call (mock edges are left out of cycles, rules, metrics and impact)
+ */
+export const EdgeKindSchema = z.enum(['static', 'dynamic', 'require', 'mock']);
+export type EdgeKind = z.infer<typeof EdgeKindSchema>;
+
 // ============================================
 // Core Graph Schemas
 // ============================================
@@ -51,6 +81,18 @@ export const TopologyNodeSchema = z.object({
   astSignature: z.string(),
   /** Programming language of the file */
   language: LanguageSchema.optional(),
+  /** Workspace package the file belongs to (e.g., "@topology/core") */
+  package: z.string().optional(),
+  /** Node granularity (missing means 'FILE') */
+  kind: NodeKindSchema.optional(),
+  /** Containing file node ID (only for symbol nodes, e.g. "src/auth.ts#login") */
+  parentId: z.string().optional(),
+  /** Node ID on the base branch (only for RENAMED nodes, e.g. "src/utils/auth.ts" moved to "src/auth/index.ts") */
+  previousId: z.string().optional(),
+  /** Member file paths, sorted (only for MODULE nodes that merge several files, e.g. the files of a Go package) */
+  members: z.array(z.string()).optional(),
+  /** Architecture metrics (file nodes only) */
+  metrics: NodeMetricsSchema.optional(),
 });
 export type TopologyNode = z.infer<typeof TopologyNodeSchema>;
 
@@ -65,16 +107,35 @@ export const TopologyEdgeSchema = z.object({
   isBroken: z.boolean(),
   /** Link type: 'dependency' (AST) or 'semantic' (vector similarity) */
   linkType: LinkTypeSchema.default('dependency'),
+  /** Import kind (only for dependency edges; missing means 'static') */
+  kind: EdgeKindSchema.optional(),
+  /** Imported symbols that were removed, renamed or changed signature in the target (only for broken edges) */
+  brokenSymbols: z.array(z.string()).optional(),
+  /** Member files of the source node that declare the import (only for edges from merged MODULE nodes) */
+  sourceFiles: z.array(z.string()).optional(),
   /** Cosine similarity score (only for semantic edges) */
   similarity: z.number().optional(),
 });
 export type TopologyEdge = z.infer<typeof TopologyEdgeSchema>;
 
+/** An import cycle: a strongly connected component of file-level dependency edges */
+export const DependencyCycleSchema = z.object({
+  /** Files in the cycle (sorted) */
+  files: z.array(z.string()),
+  /** True if the cycle does not exist on the base branch */
+  isNew: z.boolean(),
+});
+export type DependencyCycle = z.infer<typeof DependencyCycleSchema>;
+
 export const TopologyGraphSchema = z.object({
   /** All nodes in the graph */
   nodes: z.array(TopologyNodeSchema),
   /** All edges (dependencies) in the graph */
   edges: z.array(TopologyEdgeSchema),
+  /** Import cycles between files */
+  cycles: z.array(DependencyCycleSchema).optional(),
+  /** Architecture rule violations (when rules are configured) */
+  violations: z.array(RuleViolationSchema).optional(),
   /** Unix timestamp when the graph was generated */
   timestamp: z.number(),
 });
@@ -103,6 +164,8 @@ export const SnapshotMetadataSchema = z.object({
   changedCount: z.number(),
   /** Number of broken edges */
   brokenCount: z.number(),
+  /** Architecture metric summary (missing for snapshots taken before metrics existed) */
+  metrics: MetricsSummarySchema.optional(),
 });
 export type SnapshotMetadata = z.infer<typeof SnapshotMetadataSchema>;
 
@@ -123,3 +186,19 @@ export const TopologyDataFileSchema = z.object({
   snapshots: z.array(TopologySnapshotSchema),
 });
 export type TopologyDataFile = z.infer<typeof TopologyDataFileSchema>;
+
+export const StoredSnapshotMetadataSchema = SnapshotMetadataSchema.extend({
+  /** Snapshot ID in the history store */
+  id: z.number().int(),
+});
+export type StoredSnapshotMetadata = z.infer<typeof StoredSnapshotMetadataSchema>;
+
+export const SnapshotPageSchema = z.object({
+  /** Total number of stored snapshots */
+  total: z.number().int(),
+  /** Position of the first snapshot of this page in the timeline */
+  offset: z.number().int(),
+  /** Snapshot metadata, oldest first */
+  snapshots: z.array(StoredSnapshotMetadataSchema),
+});
+export type SnapshotPage = z.infer<typeof SnapshotPageSchema>;
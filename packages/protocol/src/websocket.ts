@@ -5,8 +5,16 @@
 import { z } from 'zod';
 import { TopologySnapshotSchema } from './topology.js';
 import { ConflictWarningSchema } from './conflict.js';
+import { RuleViolationSchema } from './rules.js';
 
-export const WsMessageTypeSchema = z.enum(['snapshot', 'error', 'connected', 'git_event', 'conflict_warning']);
+export const WsMessageTypeSchema = z.enum([
+  'snapshot',
+  'error',
+  'connected',
+  'git_event',
+  'conflict_warning',
+  'rule_violation',
+]);
 export type WsMessageType = z.infer<typeof WsMessageTypeSchema>;
 
 export const GitEventTypeSchema = z.enum([
@@ -35,6 +43,7 @@ export const WsMessageSchema = z.object({
   error: z.string().optional(),
   gitEvent: GitEventSchema.optional(),
   conflictWarnings: z.array(ConflictWarningSchema).optional(),
+  ruleViolations: z.array(RuleViolationSchema).optional(),
   timestamp: z.number(),
 });
 export type WsMessage = z.infer<typeof WsMessageSchema>;
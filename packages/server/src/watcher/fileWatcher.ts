@@ -5,25 +5,9 @@
 
 import chokidar, { type FSWatcher } from 'chokidar';
 import { EventEmitter } from 'events';
-import { resolve } from 'path';
-
-/** Supported file extensions to watch */
-const WATCH_PATTERN = '**/*.{ts,tsx,js,jsx,mjs,cjs,py}';
-
-/** Directories/patterns to ignore */
-const IGNORE_PATTERNS = [
-  '**/node_modules/**',
-  '**/dist/**',
-  '**/.next/**',
-  '**/__pycache__/**',
-  '**/venv/**',
-  '**/.venv/**',
-  '**/env/**',
-  '**/.env/**',
-  '**/.git/**',
-  '**/build/**',
-  '**/coverage/**',
-];
+import type { Stats } from 'fs';
+import { relative, resolve } from 'path';
+import { pluginRegistry, ScanFilter, type ScanFilterOptions } from '@topology/core';
 
 export interface FileWatcherOptions {
   /** Path to watch */
@@ -32,6 +16,12 @@ export interface FileWatcherOptions {
   debounceMs?: number;
   /** Additional patterns to ignore */
   ignorePatterns?: string[];
+  /** Scan rules shared with the analyzer (include/exclude globs, .gitignore); .topologyignore is always read */
+  scan?: ScanFilterOptions;
+  /** File extensions to watch (default: all extensions registered in pluginRegistry) */
+  extensions?: string[];
+  /** Also watch the extensions of asset plugins (stylesheets, data, images) when extensions are not given */
+  assets?: boolean;
 }
 
 export interface FileChangeEvent {
@@ -50,6 +40,10 @@ export class FileWatcher extends EventEmitter {
   private watcher: FSWatcher | null = null;
   private watchPath: string;
   private debounceMs: number;
+  private extensions: string[] | null;
+  private assets: boolean;
+  private scanOptions: ScanFilterOptions;
+  private scanFilter: ScanFilter | null = null;
   private debounceTimer: NodeJS.Timeout | null = null;
   private pendingChanges: Map<string, FileChangeEvent> = new Map();
   private isReady = false;
@@ -58,6 +52,27 @@ export class FileWatcher extends EventEmitter {
     super();
     this.watchPath = resolve(options.path);
     this.debounceMs = options.debounceMs ?? 300;
+    this.extensions = options.extensions ?? null;
+    this.assets = options.assets ?? false;
+    this.scanOptions = {
+      ...options.scan,
+      exclude: [...(options.scan?.exclude ?? []), ...(options.ignorePatterns ?? [])],
+    };
+  }
+
+  /**
+   * Check whether chokidar should skip a path
+   * Without stats the path may be a directory, so only directory-level rules apply
+   */
+  private isIgnored(scanFilter: ScanFilter, path: string, stats?: Stats): boolean {
+    const relativePath = relative(this.watchPath, resolve(this.watchPath, path)).replace(/\\/g, '/');
+    if (!relativePath || relativePath.startsWith('..')) {
+      return false;
+    }
+    if (stats && !stats.isDirectory()) {
+      return !scanFilter.accepts(relativePath);
+    }
+    return scanFilter.isIgnoredDirectory(relativePath);
   }
 
   /**
@@ -68,10 +83,16 @@ export class FileWatcher extends EventEmitter {
       return;
     }
 
+    // Resolve extensions at start time so plugins loaded after construction are included
+    const extensions = this.extensions ?? pluginRegistry.getSupportedExtensions({ assets: this.assets });
+    const watchPatterns = extensions.map((ext) => `**/*${ext}`);
+    const scanFilter = await ScanFilter.load(this.watchPath, this.scanOptions);
+    this.scanFilter = scanFilter;
+
     return new Promise((resolve, reject) => {
-      this.watcher = chokidar.watch(WATCH_PATTERN, {
+      this.watcher = chokidar.watch(watchPatterns, {
         cwd: this.watchPath,
-        ignored: IGNORE_PATTERNS,
+        ignored: (path: string, stats?: Stats) => this.isIgnored(scanFilter, path, stats),
         persistent: true,
         ignoreInitial: true, // Don't fire events for existing files
         awaitWriteFinish: {
@@ -104,6 +125,9 @@ export class FileWatcher extends EventEmitter {
   private handleChange(type: FileChangeEvent['type'], path: string): void {
     // Normalize path (forward slashes)
     const normalizedPath = path.replace(/\\/g, '/');
+    if (this.scanFilter && !this.scanFilter.accepts(normalizedPath)) {
+      return;
+    }
 
     const event: FileChangeEvent = {
       type,
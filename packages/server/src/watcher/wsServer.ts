@@ -4,7 +4,7 @@
  */
 
 import { WebSocketServer, WebSocket } from 'ws';
-import type { TopologySnapshot, WsMessage, GitEvent, ConflictWarning } from '@topology/protocol';
+import type { TopologySnapshot, WsMessage, GitEvent, ConflictWarning, RuleViolation } from '@topology/protocol';
 
 export interface TopologyWsServerOptions {
   /** Port to listen on (default: 8765) */
@@ -146,6 +146,20 @@ export class TopologyWsServer {
     console.log(`   Broadcast ${warnings.length} conflict warning(s) to ${this.clients.size} client(s)`);
   }
 
+  /**
+   * Broadcast architecture rule violations to all clients
+   * Sent even when empty so clients can clear violations that were fixed
+   */
+  broadcastRuleViolations(violations: RuleViolation[]): void {
+    const message: WsMessage = {
+      type: 'rule_violation',
+      ruleViolations: violations,
+      timestamp: Date.now(),
+    };
+    this.broadcast(message);
+    console.log(`   Broadcast ${violations.length} rule violation(s) to ${this.clients.size} client(s)`);
+  }
+
   /**
    * Broadcast an error to all clients
    */
@@ -7,6 +7,8 @@ const nextConfig: NextConfig = {
   ...(process.env.NEXT_OUTPUT_STANDALONE === '1' ? { output: 'standalone' as const } : {}),
   // Transpile workspace packages
   transpilePackages: ['@topology/protocol', '@topology/core'],
+  // Native SQLite bindings used by the snapshot history API routes
+  serverExternalPackages: ['better-sqlite3'],
 };
 
 export default nextConfig;
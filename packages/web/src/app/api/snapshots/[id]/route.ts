@@ -0,0 +1,31 @@
+/**
+ * API route for a single stored snapshot
+ * GET /api/snapshots/:id - snapshot metadata with its full graph
+ */
+
+import { NextResponse } from 'next/server';
+import type { TopologySnapshot } from '@/types/topology';
+import { withSnapshotStore } from '@/lib/snapshotHistory';
+
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const snapshotId = Number(id);
+  if (!Number.isInteger(snapshotId)) {
+    return NextResponse.json({ message: `Invalid snapshot ID: ${id}` }, { status: 400 });
+  }
+
+  try {
+    const snapshot = await withSnapshotStore((store) => store.get(snapshotId));
+    if (!snapshot) {
+      return NextResponse.json({ message: `Snapshot not found: ${id}` }, { status: 404 });
+    }
+
+    return NextResponse.json<TopologySnapshot>(snapshot);
+  } catch (error) {
+    console.error('Snapshot history error:', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to read snapshot' },
+      { status: 500 }
+    );
+  }
+}
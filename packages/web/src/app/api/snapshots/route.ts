@@ -0,0 +1,36 @@
+/**
+ * API route for the snapshot history timeline
+ * GET /api/snapshots?offset=0&limit=100 - snapshot metadata in timeline order (oldest first)
+ */
+
+import { NextResponse } from 'next/server';
+import type { SnapshotPage } from '@/types/topology';
+import { withSnapshotStore } from '@/lib/snapshotHistory';
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const offset = Math.max(0, parseInt(searchParams.get('offset') ?? '0', 10) || 0);
+  const limit = Math.min(
+    MAX_PAGE_SIZE,
+    Math.max(1, parseInt(searchParams.get('limit') ?? String(DEFAULT_PAGE_SIZE), 10) || DEFAULT_PAGE_SIZE)
+  );
+
+  try {
+    const page = await withSnapshotStore((store) => ({
+      total: store.count(),
+      offset,
+      snapshots: store.list(offset, limit),
+    }));
+
+    return NextResponse.json<SnapshotPage>(page ?? { total: 0, offset, snapshots: [] });
+  } catch (error) {
+    console.error('Snapshot history error:', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to read snapshot history' },
+      { status: 500 }
+    );
+  }
+}
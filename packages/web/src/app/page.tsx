@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useMemo } from 'react';
 import { TopologyGraph } from '@/components/TopologyGraph';
 import { ExplainModal } from '@/components/ExplainModal';
 import { TimelineSlider } from '@/components/TimelineSlider';
@@ -9,17 +9,35 @@ import { LiveIndicator } from '@/components/LiveIndicator';
 import { ConflictPanel } from '@/components/ConflictPanel';
 import { useTopologyStore } from '@/stores/topologyStore';
 import { useWebSocketUpdates } from '@/hooks/useWebSocketUpdates';
-import type { TopologyNode, TopologyEdge, TopologyGraph as TopologyGraphData, TopologySnapshot, ConflictWarning } from '@/types/topology';
+import type { TopologyNode, TopologyEdge, TopologyGraph as TopologyGraphData, TopologySnapshot, ConflictWarning, EdgeKind, RuleViolation, NodeMetrics, MetricsSummary } from '@/types/topology';
 import type { ExplainResult, ExplainError } from '@/types/explain';
-import { FileCode, Component, Wrench, GitBranch, Clock, History, AlertTriangle } from 'lucide-react';
+import { diffSnapshots } from '@topology/core/compare';
+import { getNodeMetrics } from '@topology/core/metrics';
+import { analyzeImpact, type ChangeImpact } from '@topology/core/impact';
+import { FileCode, Component, Wrench, FileImage, GitBranch, GitCompare, Clock, History, AlertTriangle, Package, Repeat, ShieldAlert, X, Crown, Zap } from 'lucide-react';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { getWebSocketUrl } from '@/lib/config';
+import { applySymbolExpansion, countSymbolsByFile, isContainmentEdge } from '@/lib/symbols';
+import { buildCompareGraph } from '@/lib/compare';
+import { METRIC_LABELS, getMetricColor, getMetricStyles, type MetricKey } from '@/lib/metrics';
+
+const EDGE_KINDS: EdgeKind[] = ['static', 'dynamic', 'require', 'mock'];
+
+/** Dot color per edge kind (matches TopologyGraph edge strokes) */
+const EDGE_KIND_DOT: Record<EdgeKind, string> = {
+  static: 'bg-slate-400',
+  dynamic: 'bg-sky-500',
+  require: 'bg-teal-500',
+  mock: 'bg-violet-400',
+};
 
 export default function Home() {
   // Use zustand store for topology data
   const {
     snapshots,
     currentIndex,
+    compareIndex,
+    setCompareIndex,
     isLoading: loading,
     error,
     loadData,
@@ -28,9 +46,23 @@ export default function Home() {
     selectNode,
     showSemanticEdges,
     toggleSemanticEdges,
+    showAssets,
+    toggleAssets,
+    groupByPackage,
+    toggleGroupByPackage,
+    sizeMetric,
+    setSizeMetric,
+    colorMetric,
+    setColorMetric,
+    hiddenEdgeKinds,
+    toggleEdgeKind,
+    expandedFileIds,
+    toggleFileExpanded,
     conflictWarnings,
     setConflictWarnings,
     clearConflictWarnings,
+    ruleViolations,
+    setRuleViolations,
     liveUpdatesEnabled,
     setWsConnectionStatus,
     addLiveSnapshot,
@@ -45,11 +77,16 @@ export default function Home() {
     setConflictWarnings(warnings);
   }, [setConflictWarnings]);
 
+  const handleRuleViolations = useCallback((violations: RuleViolation[]) => {
+    setRuleViolations(violations);
+  }, [setRuleViolations]);
+
   const { connectionStatus } = useWebSocketUpdates({
     url: getWebSocketUrl(),
     enabled: liveUpdatesEnabled,
     onSnapshot: handleLiveSnapshot,
     onConflictWarnings: handleConflictWarnings,
+    onRuleViolations: handleRuleViolations,
   });
 
   // Sync connection status to store
@@ -57,18 +94,74 @@ export default function Home() {
     setWsConnectionStatus(connectionStatus);
   }, [connectionStatus, setWsConnectionStatus]);
 
-  // Get current graph from store (filter semantic edges if toggled off)
+  // Get current graph from store (filter semantic edges and asset nodes if toggled off)
   const currentSnapshot = snapshots[currentIndex];
-  const rawGraphData = currentSnapshot?.graph || null;
-  const graphData = rawGraphData
+  // Compare mode: overlay the pinned base snapshot once both graphs are loaded
+  const compareSnapshot = compareIndex !== null && compareIndex !== currentIndex ? snapshots[compareIndex] : undefined;
+  const comparison = useMemo(() => {
+    if (!currentSnapshot?.graph || !compareSnapshot?.graph) return null;
+    const diff = diffSnapshots(
+      { metadata: compareSnapshot.metadata, graph: compareSnapshot.graph },
+      { metadata: currentSnapshot.metadata, graph: currentSnapshot.graph }
+    );
+    return { diff, ...buildCompareGraph(currentSnapshot.graph, diff) };
+  }, [currentSnapshot, compareSnapshot]);
+  const rawGraphData = comparison?.graph ?? currentSnapshot?.graph ?? null;
+  // Graphs saved before metrics existed get them computed; centrality only once a view uses it
+  const needsCentrality = sizeMetric === 'centrality' || colorMetric === 'centrality';
+  const nodeMetrics = useMemo(
+    () => (rawGraphData ? getNodeMetrics(rawGraphData, { centrality: needsCentrality }) : new Map<string, NodeMetrics>()),
+    [rawGraphData, needsCentrality]
+  );
+  // Blast radius of the selected node: every file that depends on it
+  const selectedImpact = useMemo(
+    () => (rawGraphData && selectedNodeId ? analyzeImpact(rawGraphData, [selectedNodeId]) : null),
+    [rawGraphData, selectedNodeId]
+  );
+  const impactDistances = useMemo(
+    () => (selectedImpact ? new Map(selectedImpact.impactedFiles.map((f) => [f.file, f.distance])) : undefined),
+    [selectedImpact]
+  );
+  const metricStyles = useMemo(
+    () => (rawGraphData ? getMetricStyles(rawGraphData, nodeMetrics, sizeMetric, colorMetric) : undefined),
+    [rawGraphData, nodeMetrics, sizeMetric, colorMetric]
+  );
+  // Snapshots carry their own violations; live-pushed ones cover graphs saved without them
+  const violations = rawGraphData?.violations ?? ruleViolations;
+  const assetIds = new Set(rawGraphData?.nodes.filter((n) => n.type === 'ASSET').map((n) => n.id) ?? []);
+  const isHiddenAsset = (id: string) => !showAssets && assetIds.has(id);
+  const filteredGraphData = rawGraphData
     ? {
         ...rawGraphData,
-        edges: showSemanticEdges
-          ? rawGraphData.edges
-          : rawGraphData.edges.filter(e => e.linkType !== 'semantic'),
+        violations,
+        nodes: rawGraphData.nodes.filter((n) => !isHiddenAsset(n.id)),
+        edges: rawGraphData.edges.filter((e) =>
+          !isHiddenAsset(e.source) && !isHiddenAsset(e.target) &&
+          (e.linkType === 'semantic'
+            ? showSemanticEdges
+            : !hiddenEdgeKinds.has(e.kind ?? 'static'))
+        ),
       }
     : null;
+  // Symbol nodes stay folded into their file until it is expanded
+  const graphData = filteredGraphData
+    ? applySymbolExpansion(filteredGraphData, expandedFileIds)
+    : null;
+  const symbolCounts = rawGraphData ? countSymbolsByFile(rawGraphData) : new Map<string, number>();
+  const edgeKindCounts = EDGE_KINDS.map((kind) => ({
+    kind,
+    count: rawGraphData?.edges.filter(
+      (e) => e.linkType !== 'semantic' && (e.kind ?? 'static') === kind
+    ).length ?? 0,
+  }));
+  const hasNonStaticEdges = edgeKindCounts.some(({ kind, count }) => kind !== 'static' && count > 0);
   const metadata = currentSnapshot?.metadata;
+  const packageCount = new Set(
+    graphData?.nodes.map((n) => n.package).filter(Boolean) ?? []
+  ).size;
+  const cycles = rawGraphData?.cycles ?? [];
+  const newCycleCount = cycles.filter((c) => c.isNew).length;
+  const violationErrorCount = violations.filter((v) => v.severity === 'error').length;
 
   // Local state for sidebar display (separate from search selection)
   const [sidebarNode, setSidebarNode] = useState<TopologyNode | null>(null);
@@ -91,6 +184,12 @@ export default function Home() {
     selectNode(nodeId);
   };
 
+  const handleNodeDoubleClick = (nodeId: string) => {
+    if (symbolCounts.has(nodeId)) {
+      toggleFileExpanded(nodeId);
+    }
+  };
+
   const fetchExplanation = useCallback(async (edge: TopologyEdge) => {
     setIsExplaining(true);
     setExplainResult(null);
@@ -163,8 +262,8 @@ export default function Home() {
         <div className="flex items-center gap-4">
           {graphData && (
             <div className="flex items-center gap-4 text-sm text-slate-500 dark:text-slate-400">
-              <span>{graphData.nodes.length} files</span>
-              <span>{graphData.edges.filter(e => e.linkType !== 'semantic').length} deps</span>
+              <span>{graphData.nodes.filter(n => !n.parentId && n.type !== 'ASSET').length} files</span>
+              <span>{graphData.edges.filter(e => e.linkType !== 'semantic' && !isContainmentEdge(e)).length} deps</span>
               {graphData.edges.some(e => e.linkType === 'semantic') && (
                 <button
                   onClick={toggleSemanticEdges}
@@ -179,6 +278,88 @@ export default function Home() {
                   {graphData.edges.filter(e => e.linkType === 'semantic').length} semantic
                 </button>
               )}
+              {assetIds.size > 0 && (
+                <button
+                  onClick={toggleAssets}
+                  className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium transition-colors ${
+                    showAssets
+                      ? 'bg-pink-100 dark:bg-pink-900/40 text-pink-700 dark:text-pink-300'
+                      : 'bg-slate-100 dark:bg-slate-700 text-slate-500 dark:text-slate-400'
+                  }`}
+                  title="Toggle asset nodes (stylesheets, data, images)"
+                >
+                  <FileImage className="w-3 h-3" />
+                  {assetIds.size} assets
+                </button>
+              )}
+              {hasNonStaticEdges && edgeKindCounts.filter(({ count }) => count > 0).map(({ kind, count }) => (
+                <button
+                  key={kind}
+                  onClick={() => toggleEdgeKind(kind)}
+                  className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium transition-colors ${
+                    hiddenEdgeKinds.has(kind)
+                      ? 'bg-slate-100 dark:bg-slate-700 text-slate-400 dark:text-slate-500 line-through'
+                      : 'bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200'
+                  }`}
+                  title={`Toggle ${kind} import edges`}
+                >
+                  <span className={`w-1.5 h-1.5 rounded-full ${EDGE_KIND_DOT[kind]}`} />
+                  {count} {kind}
+                </button>
+              ))}
+              {packageCount > 1 && (
+                <button
+                  onClick={toggleGroupByPackage}
+                  className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium transition-colors ${
+                    groupByPackage
+                      ? 'bg-sky-100 dark:bg-sky-900/40 text-sky-700 dark:text-sky-300'
+                      : 'bg-slate-100 dark:bg-slate-700 text-slate-500 dark:text-slate-400'
+                  }`}
+                  title="Group nodes by workspace package"
+                >
+                  <Package className="w-3 h-3" />
+                  {packageCount} packages
+                </button>
+              )}
+              {cycles.length > 0 && (
+                <span
+                  className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300"
+                  title={cycles.map((c) => `${c.isNew ? '[new] ' : ''}${c.files.join(' ↔ ')}`).join('\n')}
+                >
+                  <Repeat className="w-3 h-3" />
+                  {cycles.length} cycles{newCycleCount > 0 && ` (${newCycleCount} new)`}
+                </span>
+              )}
+              {violations.length > 0 && (
+                <span
+                  className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${
+                    violationErrorCount > 0
+                      ? 'bg-rose-100 dark:bg-rose-900/40 text-rose-700 dark:text-rose-300'
+                      : 'bg-pink-100 dark:bg-pink-900/40 text-pink-700 dark:text-pink-300'
+                  }`}
+                  title={violations.map((v) => `[${v.rule}] ${v.message}`).join('\n')}
+                >
+                  <ShieldAlert className="w-3 h-3" />
+                  {violations.length} violations
+                </span>
+              )}
+              {comparison && compareIndex !== null && (
+                <span
+                  className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300"
+                  title={comparison.diff.fanInChanges
+                    .map((c) => `${c.nodeId}: ${c.before} → ${c.after} importers`)
+                    .join('\n') || 'No fan-in changes'}
+                >
+                  <GitCompare className="w-3 h-3" />
+                  {compareIndex + 1} → {currentIndex + 1}:
+                  +{comparison.diff.addedNodes.length} −{comparison.diff.removedNodes.length} nodes,
+                  +{comparison.diff.addedEdges.length} −{comparison.diff.removedEdges.length} deps
+                  {comparison.diff.newBrokenEdges.length > 0 && `, ${comparison.diff.newBrokenEdges.length} newly broken`}
+                  <button onClick={() => setCompareIndex(null)} title="Stop comparing" className="ml-0.5">
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              )}
               {snapshots.length > 1 && (
                 <span className="flex items-center gap-1 text-slate-600 dark:text-slate-300">
                   <History className="w-4 h-4" />
@@ -220,9 +401,16 @@ export default function Home() {
               <TopologyGraph
                 data={graphData}
                 onNodeClick={handleNodeClick}
+                onNodeDoubleClick={handleNodeDoubleClick}
                 onBrokenEdgeClick={handleBrokenEdgeClick}
                 highlightedNodeIds={highlightedNodeIds}
                 selectedNodeId={selectedNodeId}
+                groupByPackage={groupByPackage}
+                symbolCounts={symbolCounts}
+                expandedFileIds={expandedFileIds}
+                edgeChanges={comparison?.edgeChanges}
+                metricStyles={metricStyles}
+                impactDistances={impactDistances}
               />
             )}
           </div>
@@ -235,7 +423,16 @@ export default function Home() {
         <aside className="w-80 bg-white dark:bg-slate-800 border-l border-slate-200 dark:border-slate-700 flex flex-col">
           <div className="flex-1 overflow-y-auto">
             {sidebarNode ? (
-              <NodeDetails node={sidebarNode} edges={graphData?.edges || []} />
+              <NodeDetails
+                node={sidebarNode}
+                edges={graphData?.edges.filter(e => !isContainmentEdge(e)) || []}
+                symbols={rawGraphData?.nodes.filter(n => n.parentId === sidebarNode.id) || []}
+                violations={violations.filter(v => [v.source, v.target, v.file].includes(sidebarNode.parentId ?? sidebarNode.id))}
+                metrics={nodeMetrics.get(sidebarNode.parentId ?? sidebarNode.id)}
+                impact={selectedNodeId === sidebarNode.id ? selectedImpact : null}
+                isExpanded={expandedFileIds.has(sidebarNode.id)}
+                onToggleExpand={() => toggleFileExpanded(sidebarNode.id)}
+              />
             ) : (
               <div className="p-4">
                 <h2 className="font-medium text-slate-700 dark:text-slate-200 mb-3">Legend</h2>
@@ -251,18 +448,67 @@ export default function Home() {
                     <div className="w-6 h-0.5 bg-slate-400" />
                     <span className="text-slate-600 dark:text-slate-300">Dependency</span>
                   </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-6 h-0.5 border-t-2 border-dashed border-sky-500" />
+                    <span className="text-slate-600 dark:text-slate-300">Dynamic import()</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-6 h-0.5 border-t-2 border-dotted border-teal-500" />
+                    <span className="text-slate-600 dark:text-slate-300">require()</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-6 h-0.5 border-t-2 border-dotted border-violet-400" />
+                    <span className="text-slate-600 dark:text-slate-300">Test mock</span>
+                  </div>
                   <div className="flex items-center gap-2">
                     <div className="w-6 h-0.5 border-t-2 border-dashed border-red-500" />
                     <span className="text-slate-600 dark:text-slate-300">Broken</span>
                   </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-6 h-0.5 bg-amber-500" />
+                    <span className="text-slate-600 dark:text-slate-300">Import cycle</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-6 h-0.5 bg-orange-600" />
+                    <span className="text-slate-600 dark:text-slate-300">New import cycle</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-6 h-0.5 bg-rose-600" />
+                    <span className="text-slate-600 dark:text-slate-300">Rule violation</span>
+                  </div>
                   <div className="flex items-center gap-2">
                     <div className="w-6 h-0.5 border-t-2 border-dashed border-violet-500" />
                     <span className="text-slate-600 dark:text-slate-300">Semantic</span>
                   </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-6 h-0.5 bg-orange-500" />
+                    <span className="text-slate-600 dark:text-slate-300">Blast radius of selection</span>
+                  </div>
+                  {comparison && (
+                    <>
+                      <div className="flex items-center gap-2">
+                        <div className="w-6 h-0.5 bg-green-500" />
+                        <span className="text-slate-600 dark:text-slate-300">Added since base</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <div className="w-6 h-0.5 border-t-2 border-dotted border-red-400" />
+                        <span className="text-slate-600 dark:text-slate-300">Removed since base</span>
+                      </div>
+                    </>
+                  )}
                 </div>
                 <hr className="my-4 border-slate-200 dark:border-slate-700" />
+                <MetricsLegend
+                  sizeMetric={sizeMetric}
+                  onSizeMetricChange={setSizeMetric}
+                  colorMetric={colorMetric}
+                  onColorMetricChange={setColorMetric}
+                  summary={metadata?.metrics}
+                />
+                <hr className="my-4 border-slate-200 dark:border-slate-700" />
                 <p className="text-xs text-slate-500 dark:text-slate-400">
                   Click on a node to see its details and dependencies.
+                  {symbolCounts.size > 0 && ' Double-click a file to expand its symbols.'}
                 </p>
               </div>
             )}
@@ -316,12 +562,113 @@ function LegendItem({
   );
 }
 
+function MetricSelect({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: MetricKey | null;
+  onChange: (metric: MetricKey | null) => void;
+}) {
+  return (
+    <label className="flex items-center justify-between gap-2">
+      <span className="text-slate-600 dark:text-slate-300">{label}</span>
+      <select
+        value={value ?? ''}
+        onChange={(e) => onChange((e.target.value || null) as MetricKey | null)}
+        className="text-xs rounded border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-700 dark:text-slate-200 px-1.5 py-1"
+      >
+        <option value="">None</option>
+        {(Object.keys(METRIC_LABELS) as MetricKey[]).map((key) => (
+          <option key={key} value={key}>{METRIC_LABELS[key]}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+function MetricsLegend({
+  sizeMetric,
+  onSizeMetricChange,
+  colorMetric,
+  onColorMetricChange,
+  summary,
+}: {
+  sizeMetric: MetricKey | null;
+  onSizeMetricChange: (metric: MetricKey | null) => void;
+  colorMetric: MetricKey | null;
+  onColorMetricChange: (metric: MetricKey | null) => void;
+  /** Metrics summary of the current snapshot */
+  summary?: MetricsSummary;
+}) {
+  return (
+    <>
+      <h2 className="font-medium text-slate-700 dark:text-slate-200 mb-3">Metrics</h2>
+      <div className="space-y-2 text-sm">
+        <MetricSelect label="Node size" value={sizeMetric} onChange={onSizeMetricChange} />
+        <MetricSelect label="Node color" value={colorMetric} onChange={onColorMetricChange} />
+        {colorMetric && (
+          <div className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+            <span>low</span>
+            <div
+              className="flex-1 h-2 rounded"
+              style={{ background: `linear-gradient(to right, ${getMetricColor(0)}, ${getMetricColor(0.5)}, ${getMetricColor(1)})` }}
+            />
+            <span>high</span>
+          </div>
+        )}
+        <div className="flex items-center gap-2">
+          <Crown className="w-4 h-4 text-rose-500" />
+          <span className="text-slate-600 dark:text-slate-300">God module</span>
+        </div>
+        {summary && (
+          <div className="pt-1 space-y-1 text-xs text-slate-500 dark:text-slate-400">
+            <div className="flex justify-between">
+              <span>Average fan-out</span>
+              <span>{summary.averageFanOut.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Average instability</span>
+              <span>{summary.averageInstability.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Longest import chain</span>
+              <span>{summary.maxDepth}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>God modules</span>
+              <span>{summary.godModuleCount}</span>
+            </div>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
+
 function NodeDetails({
   node,
   edges,
+  symbols,
+  violations,
+  metrics,
+  impact,
+  isExpanded,
+  onToggleExpand,
 }: {
   node: TopologyNode;
   edges: TopologyGraphData['edges'];
+  /** Symbol nodes contained in this file (symbol-level graphs) */
+  symbols: TopologyNode[];
+  /** Architecture rule violations involving this file */
+  violations: RuleViolation[];
+  /** Architecture metrics of this file */
+  metrics?: NodeMetrics;
+  /** Files depending on this node (when it is selected) */
+  impact: ChangeImpact | null;
+  isExpanded: boolean;
+  onToggleExpand: () => void;
 }) {
   const imports = edges.filter((e) => e.source === node.id && e.linkType !== 'semantic');
   const importedBy = edges.filter((e) => e.target === node.id && e.linkType !== 'semantic');
@@ -333,6 +680,7 @@ function NodeDetails({
     FILE: { icon: FileCode, label: 'File', color: 'text-slate-600 dark:text-slate-400' },
     COMPONENT: { icon: Component, label: 'Component', color: 'text-emerald-600 dark:text-emerald-400' },
     UTILITY: { icon: Wrench, label: 'Utility', color: 'text-amber-600 dark:text-amber-400' },
+    ASSET: { icon: FileImage, label: 'Asset', color: 'text-pink-600 dark:text-pink-400' },
   };
 
   const config = typeConfig[node.type];
@@ -359,12 +707,121 @@ function NodeDetails({
           <span className="text-slate-500 dark:text-slate-400">Status</span>
           <StatusBadge status={node.status} />
         </div>
+        {node.previousId && (
+          <div className="flex justify-between gap-2">
+            <span className="text-slate-500 dark:text-slate-400">Renamed from</span>
+            <span className="text-slate-700 dark:text-slate-200 truncate" title={node.previousId}>{node.previousId}</span>
+          </div>
+        )}
+        {node.package && (
+          <div className="flex justify-between gap-2">
+            <span className="text-slate-500 dark:text-slate-400">Package</span>
+            <span className="font-medium text-slate-700 dark:text-slate-200 truncate">{node.package}</span>
+          </div>
+        )}
+        {node.parentId && (
+          <>
+            <div className="flex justify-between">
+              <span className="text-slate-500 dark:text-slate-400">Symbol</span>
+              <span className="font-medium text-slate-700 dark:text-slate-200">{node.kind}</span>
+            </div>
+            <div className="flex justify-between gap-2">
+              <span className="text-slate-500 dark:text-slate-400">Defined in</span>
+              <span className="text-slate-700 dark:text-slate-200 truncate">{node.parentId}</span>
+            </div>
+          </>
+        )}
         <div className="flex justify-between">
           <span className="text-slate-500 dark:text-slate-400">Hash</span>
           <code className="text-xs bg-slate-100 dark:bg-slate-700 px-1.5 py-0.5 rounded">{node.astSignature}</code>
         </div>
       </div>
 
+      {/* Architecture metrics */}
+      {metrics && (
+        <>
+          <hr className="my-4 border-slate-200 dark:border-slate-700" />
+          <div>
+            <h3 className="text-sm font-medium text-slate-700 dark:text-slate-200 mb-2 flex items-center gap-1.5">
+              Metrics
+              {metrics.isGodModule && (
+                <span className="flex items-center gap-1 text-xs font-medium text-rose-600 dark:text-rose-400">
+                  <Crown className="w-3 h-3" />
+                  god module
+                </span>
+              )}
+            </h3>
+            <div className="space-y-1 text-sm">
+              {(Object.keys(METRIC_LABELS) as MetricKey[]).map((key) => {
+                // Centrality is computed only while a size or color view uses it
+                const value = metrics[key];
+                if (value === undefined) return null;
+                return (
+                  <div key={key} className="flex justify-between">
+                    <span className="text-slate-500 dark:text-slate-400">{METRIC_LABELS[key]}</span>
+                    <span className="font-mono text-slate-700 dark:text-slate-200">
+                      {Number.isInteger(value) ? value : value.toFixed(3)}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </>
+      )}
+
+      {/* Symbols (symbol-level graphs) */}
+      {symbols.length > 0 && (
+        <>
+          <hr className="my-4 border-slate-200 dark:border-slate-700" />
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-slate-700 dark:text-slate-200">
+                Symbols ({symbols.length})
+              </h3>
+              <button
+                onClick={onToggleExpand}
+                className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                {isExpanded ? 'Collapse' : 'Expand in graph'}
+              </button>
+            </div>
+            <ul className="space-y-1">
+              {symbols.map((symbol) => (
+                <li key={symbol.id} className="text-sm text-slate-600 dark:text-slate-300 flex items-center gap-2">
+                  <span className="text-[10px] font-semibold text-slate-400 dark:text-slate-500 w-16">{symbol.kind}</span>
+                  <span className="truncate">{symbol.label}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </>
+      )}
+
+      {/* Architecture rule violations */}
+      {violations.length > 0 && (
+        <>
+          <hr className="my-4 border-slate-200 dark:border-slate-700" />
+          <div>
+            <h3 className="text-sm font-medium text-rose-600 dark:text-rose-400 mb-2">
+              Rule Violations ({violations.length})
+            </h3>
+            <ul className="space-y-1">
+              {violations.map((violation, i) => (
+                <li key={i} className="text-sm text-slate-600 dark:text-slate-300 flex items-start gap-2">
+                  <span
+                    className={`mt-1.5 w-1.5 h-1.5 shrink-0 rounded-full ${
+                      violation.severity === 'error' ? 'bg-rose-600' : 'bg-pink-400'
+                    }`}
+                  />
+                  <span className="break-all" title={violation.rule}>{violation.message}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </>
+      )}
+
       <hr className="my-4 border-slate-200 dark:border-slate-700" />
 
       {/* Imports */}
@@ -378,8 +835,16 @@ function NodeDetails({
               <li key={edge.id} className="text-sm text-slate-600 dark:text-slate-300 flex items-center gap-2">
                 <span className="w-1.5 h-1.5 rounded-full bg-slate-400 dark:bg-slate-500" />
                 <span className="truncate">{edge.target}</span>
+                {edge.kind && edge.kind !== 'static' && (
+                  <span className="text-xs text-slate-400 dark:text-slate-500">{edge.kind}</span>
+                )}
                 {edge.isBroken && (
-                  <span className="text-xs text-red-500 font-medium">BROKEN</span>
+                  <span
+                    className="text-xs text-red-500 font-medium"
+                    title={edge.brokenSymbols ? `Changed: ${edge.brokenSymbols.join(', ')}` : undefined}
+                  >
+                    BROKEN
+                  </span>
                 )}
               </li>
             ))}
@@ -408,6 +873,35 @@ function NodeDetails({
         )}
       </div>
 
+      {/* Blast radius (transitive dependents) */}
+      {impact && impact.impactedFiles.length > 0 && (
+        <>
+          <hr className="my-4 border-slate-200 dark:border-slate-700" />
+          <div>
+            <h3 className="text-sm font-medium text-orange-600 dark:text-orange-400 mb-2 flex items-center gap-1.5">
+              <Zap className="w-3.5 h-3.5" />
+              Blast Radius ({impact.impactedFiles.length})
+              {impact.testFiles.length > 0 && (
+                <span className="text-xs font-normal text-slate-500 dark:text-slate-400">
+                  {impact.testFiles.length} tests
+                </span>
+              )}
+            </h3>
+            <ul className="space-y-1">
+              {impact.impactedFiles.map((f) => (
+                <li key={f.file} className="text-sm text-slate-600 dark:text-slate-300 flex items-center gap-2">
+                  <span className="w-4 text-xs text-right font-mono text-orange-500 dark:text-orange-400" title="Imports away">
+                    {f.distance}
+                  </span>
+                  <span className="truncate flex-1" title={f.file}>{f.file}</span>
+                  {f.isTest && <span className="text-xs text-slate-400 dark:text-slate-500">test</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </>
+      )}
+
       {/* Similar Files (Semantic edges) */}
       {similarFiles.length > 0 && (
         <>
@@ -445,6 +939,7 @@ function StatusBadge({ status }: { status: TopologyNode['status'] }) {
     ADDED: 'bg-green-100 dark:bg-green-900/50 text-green-700 dark:text-green-400',
     MODIFIED: 'bg-yellow-100 dark:bg-yellow-900/50 text-yellow-700 dark:text-yellow-400',
     DELETED: 'bg-red-100 dark:bg-red-900/50 text-red-700 dark:text-red-400',
+    RENAMED: 'bg-sky-100 dark:bg-sky-900/50 text-sky-700 dark:text-sky-400',
   };
 
   return (
@@ -0,0 +1,28 @@
+'use client';
+
+import { memo } from 'react';
+import type { Node, NodeProps } from '@xyflow/react';
+import { Package } from 'lucide-react';
+
+export interface PackageGroupNodeData extends Record<string, unknown> {
+  /** Workspace package name (e.g. "@topology/core") */
+  label: string;
+  /** Number of files in the package */
+  fileCount: number;
+}
+
+export type PackageGroupNodeType = Node<PackageGroupNodeData, 'packageGroup'>;
+
+function PackageGroupNodeComponent({ data }: NodeProps<PackageGroupNodeType>) {
+  return (
+    <div className="w-full h-full rounded-xl border-2 border-dashed border-slate-300 dark:border-slate-600 bg-slate-100/40 dark:bg-slate-800/40">
+      <div className="flex items-center gap-1.5 px-3 py-2 text-xs font-semibold text-slate-600 dark:text-slate-300">
+        <Package className="w-3.5 h-3.5" />
+        <span className="truncate">{data.label}</span>
+        <span className="font-normal text-slate-400 dark:text-slate-500">{data.fileCount} files</span>
+      </div>
+    </div>
+  );
+}
+
+export const PackageGroupNode = memo(PackageGroupNodeComponent);
@@ -1,18 +1,20 @@
 'use client';
 
 import { useRef, useEffect, useCallback } from 'react';
-import { Search, X, FileCode, Component, Wrench } from 'lucide-react';
+import { Search, X, FileCode, Component, Wrench, FileImage } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useTopologyStore } from '@/stores/topologyStore';
 import type { NodeType, DiffStatus, Language, TopologyNode } from '@/types/topology';
+import { BUILTIN_LANGUAGES, getLanguageInfo } from '@/lib/languages';
 
 const TYPE_CONFIG: Record<NodeType, { icon: typeof FileCode; label: string; color: string }> = {
   FILE: { icon: FileCode, label: 'File', color: 'bg-slate-100 text-slate-700 hover:bg-slate-200' },
   COMPONENT: { icon: Component, label: 'Component', color: 'bg-emerald-100 text-emerald-700 hover:bg-emerald-200' },
   UTILITY: { icon: Wrench, label: 'Utility', color: 'bg-amber-100 text-amber-700 hover:bg-amber-200' },
+  ASSET: { icon: FileImage, label: 'Asset', color: 'bg-pink-100 text-pink-700 hover:bg-pink-200' },
 };
 
 const STATUS_CONFIG: Record<DiffStatus, { label: string; color: string }> = {
@@ -20,12 +22,7 @@ const STATUS_CONFIG: Record<DiffStatus, { label: string; color: string }> = {
   ADDED: { label: 'Added', color: 'bg-green-100 text-green-700 hover:bg-green-200' },
   MODIFIED: { label: 'Modified', color: 'bg-yellow-100 text-yellow-700 hover:bg-yellow-200' },
   DELETED: { label: 'Deleted', color: 'bg-red-100 text-red-700 hover:bg-red-200' },
-};
-
-const LANGUAGE_CONFIG: Record<Language, { label: string; color: string }> = {
-  typescript: { label: 'TypeScript', color: 'bg-blue-100 text-blue-700 hover:bg-blue-200' },
-  javascript: { label: 'JavaScript', color: 'bg-yellow-100 text-yellow-700 hover:bg-yellow-200' },
-  python: { label: 'Python', color: 'bg-green-100 text-green-700 hover:bg-green-200' },
+  RENAMED: { label: 'Renamed', color: 'bg-sky-100 text-sky-700 hover:bg-sky-200' },
 };
 
 export function SearchPanel() {
@@ -46,8 +43,18 @@ export function SearchPanel() {
     clearSearch,
     setSearchFocused,
     getSearchResults,
+    snapshots,
+    currentIndex,
   } = useTopologyStore();
 
+  // Built-in languages plus any plugin-provided languages present in the graph
+  const languages: Language[] = Array.from(
+    new Set<Language>([
+      ...Object.keys(BUILTIN_LANGUAGES),
+      ...(snapshots[currentIndex]?.graph?.nodes.flatMap((n) => (n.language ? [n.language] : [])) ?? []),
+    ])
+  );
+
   const searchResults = getSearchResults();
   const hasFilters = searchQuery || typeFilters.size > 0 || statusFilters.size > 0 || languageFilters.size > 0;
 
@@ -195,8 +202,8 @@ export function SearchPanel() {
           <div className="p-3 border-b border-slate-100 dark:border-slate-700">
             <div className="text-xs font-medium text-slate-500 dark:text-slate-400 mb-2">Filter by Language</div>
             <div className="flex flex-wrap gap-1.5">
-              {(Object.keys(LANGUAGE_CONFIG) as Language[]).map((language) => {
-                const config = LANGUAGE_CONFIG[language];
+              {languages.map((language) => {
+                const config = getLanguageInfo(language);
                 const isActive = languageFilters.has(language);
                 return (
                   <Badge
@@ -204,7 +211,7 @@ export function SearchPanel() {
                     variant="outline"
                     className={`cursor-pointer transition-colors ${
                       isActive
-                        ? config.color.replace('hover:', '')
+                        ? config.filterColor.replace('hover:', '')
                         : 'bg-white dark:bg-slate-700 text-slate-500 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-600'
                     }`}
                     onClick={() => toggleLanguageFilter(language)}
@@ -253,14 +260,9 @@ export function SearchPanel() {
                         <div className="flex items-center gap-1">
                           {node.language && (
                             <span
-                              className={`text-[10px] font-semibold px-1 py-0.5 rounded text-white ${
-                                node.language === 'typescript' ? 'bg-blue-500' :
-                                node.language === 'javascript' ? 'bg-yellow-500' :
-                                'bg-green-600'
-                              }`}
+                              className={`text-[10px] font-semibold px-1 py-0.5 rounded text-white ${getLanguageInfo(node.language).color}`}
                             >
-                              {node.language === 'typescript' ? 'TS' :
-                               node.language === 'javascript' ? 'JS' : 'PY'}
+                              {getLanguageInfo(node.language).short}
                             </span>
                           )}
                           {node.status !== 'UNCHANGED' && (
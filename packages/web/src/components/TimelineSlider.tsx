@@ -11,6 +11,7 @@ import {
   Tag,
   AlertTriangle,
   Radio,
+  GitCompare,
 } from 'lucide-react';
 import { Slider } from '@/components/ui/slider';
 import { Button } from '@/components/ui/button';
@@ -49,6 +50,17 @@ function getStatusDotColor(metadata: SnapshotMetadata): string {
   return 'bg-emerald-500';
 }
 
+/**
+ * Format a metric with its change since the previous snapshot (e.g. "0.42 (+0.05)")
+ */
+function formatTrend(value: number, previous: number | undefined, digits: number): string {
+  const formatted = value.toFixed(digits);
+  if (previous === undefined) return formatted;
+  const delta = value - previous;
+  if (Math.abs(delta) < 10 ** -digits / 2) return formatted;
+  return `${formatted} (${delta > 0 ? '+' : ''}${delta.toFixed(digits)})`;
+}
+
 /**
  * Format timestamp as readable date
  */
@@ -82,7 +94,10 @@ export function TimelineSlider() {
   const {
     snapshots,
     currentIndex,
+    loadingIndex,
+    compareIndex,
     setCurrentIndex,
+    setCompareIndex,
     goToFirst,
     goToPrevious,
     goToNext,
@@ -204,7 +219,7 @@ export function TimelineSlider() {
 
             <div className="flex-1 relative">
               <Slider
-                value={[currentIndex]}
+                value={[loadingIndex ?? currentIndex]}
                 min={0}
                 max={snapshots.length - 1}
                 step={1}
@@ -214,43 +229,57 @@ export function TimelineSlider() {
 
               {/* Snapshot markers */}
               <div className="absolute top-4 left-0 right-0 flex justify-between px-2 pointer-events-none">
-                {snapshots.map((snap, idx) => (
-                  <Tooltip key={idx}>
-                    <TooltipTrigger asChild>
-                      <div
-                        className={`w-1.5 h-1.5 rounded-full pointer-events-auto cursor-pointer transition-transform ${
-                          idx === currentIndex ? 'scale-150' : ''
-                        } ${getStatusDotColor(snap.metadata)}`}
-                        onClick={() => setCurrentIndex(idx)}
-                      />
-                    </TooltipTrigger>
-                    <TooltipContent side="bottom" className="max-w-xs">
-                      <div className="space-y-1">
-                        <div className="font-medium">
-                          {formatDate(snap.metadata.timestamp)}
-                        </div>
-                        {snap.metadata.commitHash && (
-                          <div className="text-xs opacity-80">
-                            {snap.metadata.commitHash}: {snap.metadata.commitMessage}
+                {snapshots.map((snap, idx) => {
+                  const metrics = snap.metadata.metrics;
+                  const previousMetrics = snapshots[idx - 1]?.metadata.metrics;
+                  return (
+                    <Tooltip key={idx}>
+                      <TooltipTrigger asChild>
+                        <div
+                          className={`w-1.5 h-1.5 rounded-full pointer-events-auto cursor-pointer transition-transform ${
+                            idx === currentIndex ? 'scale-150' : ''
+                          } ${
+                            idx === compareIndex ? 'ring-2 ring-indigo-500 ring-offset-1 dark:ring-offset-slate-800' : ''
+                          } ${getStatusDotColor(snap.metadata)}`}
+                          onClick={() => setCurrentIndex(idx)}
+                        />
+                      </TooltipTrigger>
+                      <TooltipContent side="bottom" className="max-w-xs">
+                        <div className="space-y-1">
+                          <div className="font-medium">
+                            {formatDate(snap.metadata.timestamp)}
                           </div>
-                        )}
-                        {snap.metadata.label && (
-                          <div className="text-xs opacity-80">
-                            Label: {snap.metadata.label}
+                          {snap.metadata.commitHash && (
+                            <div className="text-xs opacity-80">
+                              {snap.metadata.commitHash}: {snap.metadata.commitMessage}
+                            </div>
+                          )}
+                          {snap.metadata.label && (
+                            <div className="text-xs opacity-80">
+                              Label: {snap.metadata.label}
+                            </div>
+                          )}
+                          <div className="text-xs opacity-60">
+                            {snap.metadata.nodeCount} nodes, {snap.metadata.edgeCount} edges
+                            {snap.metadata.brokenCount > 0 && (
+                              <span className="text-red-300 ml-1">
+                                ({snap.metadata.brokenCount} broken)
+                              </span>
+                            )}
                           </div>
-                        )}
-                        <div className="text-xs opacity-60">
-                          {snap.metadata.nodeCount} nodes, {snap.metadata.edgeCount} edges
-                          {snap.metadata.brokenCount > 0 && (
-                            <span className="text-red-300 ml-1">
-                              ({snap.metadata.brokenCount} broken)
-                            </span>
+                          {metrics && (
+                            <div className="text-xs opacity-60">
+                              Fan-out {formatTrend(metrics.averageFanOut, previousMetrics?.averageFanOut, 2)},
+                              instability {formatTrend(metrics.averageInstability, previousMetrics?.averageInstability, 2)},
+                              depth {formatTrend(metrics.maxDepth, previousMetrics?.maxDepth, 0)}
+                              {metrics.godModuleCount > 0 && `, ${metrics.godModuleCount} god modules`}
+                            </div>
                           )}
                         </div>
-                      </div>
-                    </TooltipContent>
-                  </Tooltip>
-                ))}
+                      </TooltipContent>
+                    </Tooltip>
+                  );
+                })}
               </div>
             </div>
 
@@ -290,6 +319,24 @@ export function TimelineSlider() {
               </TooltipTrigger>
               <TooltipContent>Latest snapshot (End)</TooltipContent>
             </Tooltip>
+
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className={`h-8 w-8 ${compareIndex !== null ? 'text-indigo-600 dark:text-indigo-400' : ''}`}
+                  onClick={() => setCompareIndex(compareIndex === null ? currentIndex : null)}
+                >
+                  <GitCompare className="h-4 w-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                {compareIndex === null
+                  ? 'Compare: pin this snapshot as the base, then move to another one'
+                  : 'Stop comparing'}
+              </TooltipContent>
+            </Tooltip>
           </div>
 
           {/* Divider */}
@@ -11,46 +11,116 @@ import {
   type Edge,
   type NodeTypes,
   MarkerType,
+  type ReactFlowInstance,
 } from '@xyflow/react';
 import ELK, { type ElkNode } from 'elkjs/lib/elk.bundled.js';
 import '@xyflow/react/dist/style.css';
 
 import { TopologyNode, type TopologyNodeData } from './TopologyNode';
-import type { TopologyGraph as TopologyGraphData, TopologyEdge } from '@/types/topology';
+import { PackageGroupNode, type PackageGroupNodeData } from './PackageGroupNode';
+import type { TopologyGraph as TopologyGraphData, TopologyEdge, EdgeKind } from '@/types/topology';
+import { isContainmentEdge } from '@/lib/symbols';
+import { getCycleEdges } from '@/lib/cycles';
+import { getViolationEdges } from '@/lib/rules';
+import type { EdgeChange } from '@/lib/compare';
+import type { NodeMetricStyle } from '@/lib/metrics';
 
 // Register custom node types
 const nodeTypes: NodeTypes = {
   topology: TopologyNode,
+  packageGroup: PackageGroupNode,
 };
 
 // ELK layout configuration
 const NODE_WIDTH = 180;
 const NODE_HEIGHT = 60;
+const GROUP_ID_PREFIX = 'package:';
+
+/** Duration of the viewport pan that follows a renamed node to its new position */
+const FOLLOW_DURATION_MS = 600;
+
+/** Stroke color and dash pattern for non-static dependency edges */
+const EDGE_KIND_STYLES: Record<Exclude<EdgeKind, 'static'>, { stroke: string; strokeDasharray: string }> = {
+  dynamic: { stroke: '#0ea5e9', strokeDasharray: '6,3' },
+  require: { stroke: '#14b8a6', strokeDasharray: '2,3' },
+  mock: { stroke: '#a78bfa', strokeDasharray: '1,4' },
+};
+
+/** Stroke colors for edges on import cycles (new = introduced relative to the base branch) */
+const CYCLE_EDGE_COLORS = { existing: '#f59e0b', new: '#ea580c' };
+
+/** Stroke colors for edges that violate an architecture rule, by rule severity */
+const VIOLATION_EDGE_COLORS = { error: '#e11d48', warning: '#f472b6' };
+
+/** Stroke color of dependency edges inside the selected node's blast radius */
+const IMPACT_EDGE_COLOR = '#f97316';
+
+/** Edge styles in compare mode: dependencies added or removed since the base snapshot */
+const EDGE_CHANGE_STYLES: Record<EdgeChange, { stroke: string; strokeWidth: number; strokeDasharray?: string; opacity?: number }> = {
+  added: { stroke: '#22c55e', strokeWidth: 2 },
+  removed: { stroke: '#f87171', strokeWidth: 1.5, strokeDasharray: '2,4', opacity: 0.7 },
+};
 
 const elk = new ELK();
 
+const LAYOUT_OPTIONS = {
+  'elk.algorithm': 'layered',
+  'elk.direction': 'DOWN',
+  'elk.spacing.nodeNode': '50',
+  'elk.layered.spacing.nodeNodeBetweenLayers': '80',
+  'elk.edgeRouting': 'ORTHOGONAL',
+};
+
+/**
+ * Lay out nodes with ELK. When packageOf is given, nodes are nested in one
+ * group per workspace package (ELK child coordinates are relative to the group,
+ * which matches React Flow's parentId positioning)
+ */
 async function getLayoutedElements(
   nodes: Node[],
   edges: Edge[],
+  packageOf?: Map<string, string>,
 ): Promise<{ nodes: Node[]; edges: Edge[] }> {
   if (nodes.length === 0) {
     return { nodes: [], edges: [] };
   }
 
+  const toElkChild = (node: Node): ElkNode => ({
+    id: node.id,
+    width: getNodeWidth(node),
+    height: NODE_HEIGHT,
+  });
+
+  const packageMembers = new Map<string, Node[]>();
+  const ungrouped: Node[] = [];
+  for (const node of nodes) {
+    const pkg = packageOf?.get(node.id);
+    if (pkg) {
+      const members = packageMembers.get(pkg) ?? [];
+      members.push(node);
+      packageMembers.set(pkg, members);
+    } else {
+      ungrouped.push(node);
+    }
+  }
+
   const elkGraph: ElkNode = {
     id: 'root',
     layoutOptions: {
-      'elk.algorithm': 'layered',
-      'elk.direction': 'DOWN',
-      'elk.spacing.nodeNode': '50',
-      'elk.layered.spacing.nodeNodeBetweenLayers': '80',
-      'elk.edgeRouting': 'ORTHOGONAL',
+      ...LAYOUT_OPTIONS,
+      ...(packageMembers.size > 0 ? { 'elk.hierarchyHandling': 'INCLUDE_CHILDREN' } : {}),
     },
-    children: nodes.map((node) => ({
-      id: node.id,
-      width: NODE_WIDTH,
-      height: NODE_HEIGHT,
-    })),
+    children: [
+      ...Array.from(packageMembers, ([pkg, members]) => ({
+        id: `${GROUP_ID_PREFIX}${pkg}`,
+        layoutOptions: {
+          ...LAYOUT_OPTIONS,
+          'elk.padding': '[top=40,left=20,bottom=20,right=20]',
+        },
+        children: members.map(toElkChild),
+      })),
+      ...ungrouped.map(toElkChild),
+    ],
     edges: edges.map((edge) => ({
       id: edge.id,
       sources: [edge.source],
@@ -60,10 +130,36 @@ async function getLayoutedElements(
 
   const layoutResult = await elk.layout(elkGraph);
 
+  // Index every laid-out ELK node (including nested ones)
+  const elkNodes = new Map<string, ElkNode>();
+  const collect = (elkNode: ElkNode) => {
+    for (const child of elkNode.children ?? []) {
+      elkNodes.set(child.id, child);
+      collect(child);
+    }
+  };
+  collect(layoutResult);
+
+  // Group nodes must precede their children for React Flow
+  const groupNodes: Node[] = Array.from(packageMembers, ([pkg, members]) => {
+    const id = `${GROUP_ID_PREFIX}${pkg}`;
+    const elkNode = elkNodes.get(id);
+    return {
+      id,
+      type: 'packageGroup',
+      position: { x: elkNode?.x ?? 0, y: elkNode?.y ?? 0 },
+      style: { width: elkNode?.width, height: elkNode?.height },
+      selectable: false,
+      data: { label: pkg, fileCount: members.length } satisfies PackageGroupNodeData,
+    };
+  });
+
   const layoutedNodes = nodes.map((node) => {
-    const elkNode = layoutResult.children?.find((n) => n.id === node.id);
+    const elkNode = elkNodes.get(node.id);
+    const pkg = packageOf?.get(node.id);
     return {
       ...node,
+      ...(pkg ? { parentId: `${GROUP_ID_PREFIX}${pkg}`, extent: 'parent' as const } : {}),
       position: {
         x: elkNode?.x ?? 0,
         y: elkNode?.y ?? 0,
@@ -71,28 +167,74 @@ async function getLayoutedElements(
     };
   });
 
-  return { nodes: layoutedNodes, edges };
+  return { nodes: [...groupNodes, ...layoutedNodes], edges };
+}
+
+/**
+ * Layout width of a node, widened by its size metric
+ */
+function getNodeWidth(node: Node): number {
+  const scale = (node.data as Partial<TopologyNodeData>).sizeScale ?? 1;
+  return NODE_WIDTH * scale;
+}
+
+/**
+ * Get the center of a laid-out node in flow coordinates (grouped nodes are relative to their group)
+ */
+function getNodeCenter(nodes: Node[], nodeId: string): { x: number; y: number } | null {
+  const node = nodes.find((n) => n.id === nodeId);
+  if (!node) return null;
+
+  const parent = node.parentId ? nodes.find((n) => n.id === node.parentId) : undefined;
+  return {
+    x: (parent?.position.x ?? 0) + node.position.x + getNodeWidth(node) / 2,
+    y: (parent?.position.y ?? 0) + node.position.y + NODE_HEIGHT / 2,
+  };
 }
 
 interface TopologyGraphProps {
   data: TopologyGraphData | null;
   onNodeClick?: (nodeId: string) => void;
+  onNodeDoubleClick?: (nodeId: string) => void;
   onBrokenEdgeClick?: (edge: TopologyEdge) => void;
   highlightedNodeIds?: Set<string>;
   selectedNodeId?: string | null;
+  /** Nest nodes inside one box per workspace package */
+  groupByPackage?: boolean;
+  /** Number of symbol nodes per file (symbol-level graphs) */
+  symbolCounts?: Map<string, number>;
+  /** Files currently expanded into their symbols */
+  expandedFileIds?: Set<string>;
+  /** Compare mode: edges added or removed since the base snapshot */
+  edgeChanges?: Map<string, EdgeChange>;
+  /** Node size and color from architecture metrics */
+  metricStyles?: Map<string, NodeMetricStyle>;
+  /** Files depending on the selected node, with their import distance to it */
+  impactDistances?: Map<string, number>;
 }
 
 export function TopologyGraph({
   data,
   onNodeClick,
+  onNodeDoubleClick,
   onBrokenEdgeClick,
   highlightedNodeIds,
   selectedNodeId,
+  groupByPackage,
+  symbolCounts,
+  expandedFileIds,
+  edgeChanges,
+  metricStyles,
+  impactDistances,
 }: TopologyGraphProps) {
   const hasHighlight = highlightedNodeIds && highlightedNodeIds.size > 0;
   const [layoutedNodes, setLayoutedNodes] = useState<Node[]>([]);
   const [layoutedEdges, setLayoutedEdges] = useState<Edge[]>([]);
   const layoutIdRef = useRef(0);
+  const flowRef = useRef<ReactFlowInstance | null>(null);
+  // Graph and selection of the previous layout, to detect a selection that followed a rename
+  const previousDataRef = useRef(data);
+  const previousSelectedRef = useRef(selectedNodeId);
 
   useEffect(() => {
     if (!data) {
@@ -104,6 +246,7 @@ export function TopologyGraph({
     const rawNodes: Node[] = data.nodes.map((node) => {
       const isHighlighted = hasHighlight && highlightedNodeIds?.has(node.id);
       const isFaded = hasHighlight && !highlightedNodeIds?.has(node.id);
+      const metricStyle = metricStyles?.get(node.id);
 
       return {
         id: node.id,
@@ -115,29 +258,62 @@ export function TopologyGraph({
           type: node.type,
           status: node.status,
           fullPath: node.id,
+          previousPath: node.previousId,
           language: node.language,
+          kind: node.kind,
+          symbolCount: symbolCounts?.get(node.id),
+          isExpanded: expandedFileIds?.has(node.id),
+          sizeScale: metricStyle?.sizeScale,
+          metricColor: metricStyle?.metricColor,
+          isGodModule: metricStyle?.isGodModule,
+          impactDistance: impactDistances?.get(node.id),
           isHighlighted,
           isFaded,
         } satisfies TopologyNodeData,
       };
     });
 
+    const cycleEdges = getCycleEdges(data);
+    const violationEdges = getViolationEdges(data);
+
     const rawEdges: Edge[] = data.edges.map((edge) => {
       const isEdgeHighlighted =
         hasHighlight &&
         highlightedNodeIds?.has(edge.source) &&
         highlightedNodeIds?.has(edge.target);
       const isEdgeFaded = hasHighlight && !isEdgeHighlighted;
+      // Import edges that carry a change of the selected node to its dependents
+      const isImpactEdge =
+        isEdgeHighlighted &&
+        edge.linkType !== 'semantic' &&
+        edge.kind !== 'mock' &&
+        impactDistances?.has(edge.source) &&
+        (edge.target === selectedNodeId || impactDistances.has(edge.target));
 
-      const baseStyle = edge.isBroken
+      const kindStyle = edge.kind && edge.kind !== 'static' ? EDGE_KIND_STYLES[edge.kind] : null;
+      const isNewCycle = cycleEdges.get(edge.id);
+      const violationSeverity = violationEdges.get(edge.id);
+      const change = edgeChanges?.get(edge.id);
+      const baseStyle = isContainmentEdge(edge)
+        ? { stroke: '#cbd5e1', strokeWidth: 1, strokeDasharray: '1,3' }
+        : edge.isBroken
         ? { stroke: '#ef4444', strokeWidth: 2, strokeDasharray: '5,5', cursor: 'pointer' }
+        : change
+        ? EDGE_CHANGE_STYLES[change]
+        : violationSeverity
+        ? { ...kindStyle, stroke: VIOLATION_EDGE_COLORS[violationSeverity], strokeWidth: 2.5 }
         : edge.linkType === 'semantic'
           ? { stroke: '#8b5cf6', strokeWidth: 1, strokeDasharray: '4,4' }
-          : { stroke: '#94a3b8', strokeWidth: 1.5 };
+          : isNewCycle !== undefined
+            ? { ...kindStyle, stroke: isNewCycle ? CYCLE_EDGE_COLORS.new : CYCLE_EDGE_COLORS.existing, strokeWidth: 2 }
+            : kindStyle
+              ? { ...kindStyle, strokeWidth: 1.5 }
+              : { stroke: '#94a3b8', strokeWidth: 1.5 };
 
       const fadeStyle = isEdgeFaded ? { opacity: 0.2 } : {};
+      const highlightColor = isImpactEdge ? IMPACT_EDGE_COLOR : '#3b82f6';
       const highlightStyle = isEdgeHighlighted && !edge.isBroken
-        ? { stroke: '#3b82f6', strokeWidth: 2 }
+        ? { stroke: highlightColor, strokeWidth: 2 }
         : {};
 
       return {
@@ -145,11 +321,11 @@ export function TopologyGraph({
         source: edge.source,
         target: edge.target,
         animated: edge.isBroken,
-        data: { isBroken: edge.isBroken, linkType: edge.linkType, similarity: edge.similarity },
+        data: { isBroken: edge.isBroken, linkType: edge.linkType, kind: edge.kind, similarity: edge.similarity },
         style: { ...baseStyle, ...fadeStyle, ...highlightStyle },
         markerEnd: {
           type: MarkerType.ArrowClosed,
-          color: isEdgeHighlighted && !edge.isBroken ? '#3b82f6' : edge.isBroken ? '#ef4444' : edge.linkType === 'semantic' ? '#8b5cf6' : '#94a3b8',
+          color: isEdgeHighlighted && !edge.isBroken ? highlightColor : baseStyle.stroke,
           width: 20,
           height: 20,
         },
@@ -159,21 +335,57 @@ export function TopologyGraph({
     // Track layout request to prevent stale updates
     const currentId = ++layoutIdRef.current;
 
-    getLayoutedElements(rawNodes, rawEdges).then((result) => {
+    // The store moved the selection to the node's new ID while switching snapshots: pan along with it
+    const followNodeId =
+      data !== previousDataRef.current &&
+      selectedNodeId &&
+      previousSelectedRef.current &&
+      selectedNodeId !== previousSelectedRef.current
+        ? selectedNodeId
+        : null;
+    previousDataRef.current = data;
+    previousSelectedRef.current = selectedNodeId;
+
+    const packageOf = groupByPackage
+      ? new Map(
+          data.nodes
+            .filter((node) => node.package)
+            .map((node) => [node.id, node.package!] as const)
+        )
+      : undefined;
+
+    getLayoutedElements(rawNodes, rawEdges, packageOf).then((result) => {
       if (currentId === layoutIdRef.current) {
         setLayoutedNodes(result.nodes);
         setLayoutedEdges(result.edges);
+
+        const center = followNodeId ? getNodeCenter(result.nodes, followNodeId) : null;
+        if (center && flowRef.current) {
+          flowRef.current.setCenter(center.x, center.y, {
+            zoom: flowRef.current.getZoom(),
+            duration: FOLLOW_DURATION_MS,
+          });
+        }
       }
     });
-  }, [data, highlightedNodeIds, selectedNodeId, hasHighlight]);
+  }, [data, highlightedNodeIds, selectedNodeId, hasHighlight, groupByPackage, symbolCounts, expandedFileIds, edgeChanges, metricStyles, impactDistances]);
 
   const handleNodeClick = useCallback(
     (_: React.MouseEvent, node: Node) => {
+      if (node.type === 'packageGroup') return;
       onNodeClick?.(node.id);
     },
     [onNodeClick]
   );
 
+  const handleNodeDoubleClick = useCallback(
+    (_: React.MouseEvent, node: Node) => {
+      if (node.type === 'packageGroup') return;
+      onNodeDoubleClick?.(node.id);
+    },
+    [onNodeDoubleClick]
+  );
+
   const handleEdgeClick = useCallback(
     (_: React.MouseEvent, edge: Edge) => {
       // Only trigger for broken edges
@@ -208,8 +420,11 @@ export function TopologyGraph({
       nodes={layoutedNodes}
       edges={layoutedEdges}
       onNodeClick={handleNodeClick}
+      onNodeDoubleClick={handleNodeDoubleClick}
+      zoomOnDoubleClick={false}
       onEdgeClick={handleEdgeClick}
       nodeTypes={nodeTypes}
+      onInit={(instance) => { flowRef.current = instance; }}
       fitView
       fitViewOptions={{ padding: 0.2 }}
       minZoom={0.1}
@@ -223,12 +438,17 @@ export function TopologyGraph({
       <Controls className={isDark ? '!bg-slate-800 !border-slate-600 !shadow-md [&>button]:!bg-slate-800 [&>button]:!border-slate-600 [&>button]:!fill-slate-300 [&>button:hover]:!bg-slate-700' : '!bg-white !border-slate-200 !shadow-md'} />
       <MiniMap
         nodeColor={(node) => {
+          if (node.type === 'packageGroup') {
+            return isDark ? 'rgba(51, 65, 85, 0.4)' : 'rgba(226, 232, 240, 0.6)';
+          }
           const nodeData = node.data as unknown as TopologyNodeData | undefined;
           switch (nodeData?.type) {
             case 'COMPONENT':
               return '#10b981';
             case 'UTILITY':
               return '#f59e0b';
+            case 'ASSET':
+              return '#ec4899';
             default:
               return isDark ? '#475569' : '#64748b';
           }
@@ -2,26 +2,35 @@
 
 import { memo } from 'react';
 import { Handle, Position, type Node, type NodeProps } from '@xyflow/react';
-import { FileCode, Component, Wrench } from 'lucide-react';
-import type { NodeType, DiffStatus, Language } from '@/types/topology';
+import { FileCode, Component, Wrench, FileImage, Box, Braces, FunctionSquare, ChevronDown, ChevronRight, Crown, Zap } from 'lucide-react';
+import type { NodeType, NodeKind, DiffStatus, Language } from '@/types/topology';
+import { getLanguageInfo } from '@/lib/languages';
 
 export interface TopologyNodeData extends Record<string, unknown> {
   label: string;
   type: NodeType;
   status: DiffStatus;
   fullPath: string;
+  /** Path on the base branch (renamed nodes) */
+  previousPath?: string;
   language?: Language;
+  /** Symbol kind for symbol nodes (file nodes leave this unset or 'FILE') */
+  kind?: NodeKind;
+  /** Number of symbols the file can be expanded into */
+  symbolCount?: number;
+  isExpanded?: boolean;
+  /** Width multiplier from the selected size metric */
+  sizeScale?: number;
+  /** Background tint from the selected color metric */
+  metricColor?: string;
+  /** Coupled far above the rest of the graph in both directions */
+  isGodModule?: boolean;
+  /** Import hops to the selected file when this file depends on it (blast radius) */
+  impactDistance?: number;
   isHighlighted?: boolean;
   isFaded?: boolean;
 }
 
-/** Language display info */
-const languageInfo: Record<Language, { label: string; color: string }> = {
-  typescript: { label: 'TS', color: 'bg-blue-500' },
-  javascript: { label: 'JS', color: 'bg-yellow-500' },
-  python: { label: 'PY', color: 'bg-green-600' },
-};
-
 export type TopologyNodeType = Node<TopologyNodeData, 'topology'>;
 
 const nodeStyles: Record<NodeType, { bg: string; border: string; icon: typeof FileCode }> = {
@@ -40,6 +49,18 @@ const nodeStyles: Record<NodeType, { bg: string; border: string; icon: typeof Fi
     border: 'border-amber-400 dark:border-amber-600',
     icon: Wrench,
   },
+  ASSET: {
+    bg: 'bg-pink-50 dark:bg-pink-900/40',
+    border: 'border-pink-300 dark:border-pink-700',
+    icon: FileImage,
+  },
+};
+
+/** Icons for symbol nodes (symbol-level graphs) */
+const symbolIcons: Partial<Record<NodeKind, typeof FileCode>> = {
+  CLASS: Box,
+  FUNCTION: FunctionSquare,
+  INTERFACE: Braces,
 };
 
 const statusStyles: Record<DiffStatus, string> = {
@@ -47,12 +68,14 @@ const statusStyles: Record<DiffStatus, string> = {
   ADDED: 'ring-2 ring-green-500',
   MODIFIED: 'ring-2 ring-yellow-500',
   DELETED: 'ring-2 ring-red-500 opacity-60',
+  RENAMED: 'ring-2 ring-sky-500',
 };
 
 function TopologyNodeComponent({ data, selected }: NodeProps<TopologyNodeType>) {
   const style = nodeStyles[data.type];
   const statusStyle = statusStyles[data.status];
-  const Icon = style.icon;
+  const symbolIcon = data.kind ? symbolIcons[data.kind] : undefined;
+  const Icon = symbolIcon ?? style.icon;
 
   // Highlight/fade styles for dependency chain visualization
   const highlightStyle = data.isHighlighted
@@ -65,12 +88,17 @@ function TopologyNodeComponent({ data, selected }: NodeProps<TopologyNodeType>)
   return (
     <div
       className={`
-        px-3 py-2 rounded-lg border-2 shadow-sm min-w-[120px]
+        px-3 py-2 rounded-lg shadow-sm min-w-[120px]
+        ${symbolIcon ? 'border border-dashed' : 'border-2'}
         ${style.bg} ${style.border} ${statusStyle}
         ${selected ? 'ring-2 ring-blue-500 ring-offset-2' : ''}
         ${highlightStyle} ${fadeStyle}
         transition-all duration-200 hover:shadow-md
       `}
+      style={{
+        ...(data.sizeScale ? { minWidth: 120 * data.sizeScale } : {}),
+        ...(data.metricColor ? { backgroundImage: `linear-gradient(${data.metricColor}, ${data.metricColor})` } : {}),
+      }}
     >
       <Handle
         type="target"
@@ -85,16 +113,42 @@ function TopologyNodeComponent({ data, selected }: NodeProps<TopologyNodeType>)
             <span className="text-sm font-medium text-slate-800 dark:text-slate-100 truncate">
               {data.label}
             </span>
-            {data.language && (
+            {data.symbolCount !== undefined && data.symbolCount > 0 && (
+              <span
+                className="flex items-center text-[10px] font-medium text-slate-500 dark:text-slate-400"
+                title={data.isExpanded ? 'Double-click to collapse symbols' : 'Double-click to expand symbols'}
+              >
+                {data.isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                {data.symbolCount}
+              </span>
+            )}
+            {data.impactDistance !== undefined && (
+              <span
+                className="flex items-center text-[10px] font-medium text-orange-600 dark:text-orange-400"
+                title={`Depends on the selected file (${data.impactDistance} import${data.impactDistance === 1 ? '' : 's'} away)`}
+              >
+                <Zap className="w-3 h-3" />
+                {data.impactDistance}
+              </span>
+            )}
+            {data.isGodModule && (
+              <span title="God module: heavily imported and importing">
+                <Crown className="w-3 h-3 text-rose-500" />
+              </span>
+            )}
+            {data.language && !symbolIcon && (
               <span
-                className={`text-[10px] font-semibold px-1 py-0.5 rounded text-white ${languageInfo[data.language].color}`}
+                className={`text-[10px] font-semibold px-1 py-0.5 rounded text-white ${getLanguageInfo(data.language).color}`}
               >
-                {languageInfo[data.language].label}
+                {getLanguageInfo(data.language).short}
               </span>
             )}
           </div>
-          <span className="text-xs text-slate-500 dark:text-slate-400 truncate">
-            {data.fullPath}
+          <span
+            className="text-xs text-slate-500 dark:text-slate-400 truncate"
+            title={data.previousPath ? `Renamed from ${data.previousPath}` : undefined}
+          >
+            {symbolIcon ? data.kind?.toLowerCase() : data.fullPath}
           </span>
         </div>
       </div>
@@ -4,7 +4,7 @@
  */
 
 import { useEffect, useRef, useCallback, useState } from 'react';
-import type { TopologySnapshot, ConflictWarning } from '@/types/topology';
+import type { TopologySnapshot, ConflictWarning, RuleViolation } from '@/types/topology';
 import type { WsMessage, GitEvent } from '@topology/protocol';
 
 export type WsConnectionStatus = 'disconnected' | 'connecting' | 'connected';
@@ -22,6 +22,8 @@ export interface UseWebSocketUpdatesOptions {
   onGitEvent?: (event: GitEvent) => void;
   /** Callback when conflict warnings are received */
   onConflictWarnings?: (warnings: ConflictWarning[]) => void;
+  /** Callback when architecture rule violations are received */
+  onRuleViolations?: (violations: RuleViolation[]) => void;
   /** Reconnect interval in ms (default: 3000, max: 30000) */
   reconnectInterval?: number;
 }
@@ -45,7 +47,7 @@ const RECONNECT_BACKOFF_MULTIPLIER = 1.5;
 export function useWebSocketUpdates(
   options: UseWebSocketUpdatesOptions
 ): UseWebSocketUpdatesResult {
-  const { url, enabled, onSnapshot, onError, onGitEvent, onConflictWarnings, reconnectInterval = 3000 } = options;
+  const { url, enabled, onSnapshot, onError, onGitEvent, onConflictWarnings, onRuleViolations, reconnectInterval = 3000 } = options;
 
   const [connectionStatus, setConnectionStatus] = useState<WsConnectionStatus>('disconnected');
   const [isReconnecting, setIsReconnecting] = useState(false);
@@ -148,6 +150,12 @@ export function useWebSocketUpdates(
               }
               break;
 
+            case 'rule_violation':
+              if (message.ruleViolations) {
+                onRuleViolations?.(message.ruleViolations);
+              }
+              break;
+
             case 'connected':
               // Initial connection acknowledgment
               break;
@@ -182,7 +190,7 @@ export function useWebSocketUpdates(
         scheduleReconnect();
       }
     }
-  }, [url, enabled, onSnapshot, onError, onGitEvent, onConflictWarnings, reconnectInterval, cleanup, scheduleReconnect]);
+  }, [url, enabled, onSnapshot, onError, onGitEvent, onConflictWarnings, onRuleViolations, reconnectInterval, cleanup, scheduleReconnect]);
 
   // Main effect - handle enabled state changes
   useEffect(() => {
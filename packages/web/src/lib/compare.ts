@@ -0,0 +1,48 @@
+import type { SnapshotDiff } from '@topology/core/compare';
+import type { TopologyGraph } from '@/types/topology';
+
+/** How an edge changed in compare mode */
+export type EdgeChange = 'added' | 'removed';
+
+/** ID prefix of base-only edges drawn in the compare overlay (edge IDs are per snapshot) */
+const REMOVED_EDGE_PREFIX = 'removed:';
+
+/**
+ * Overlay the base snapshot of a diff on the head graph for compare mode
+ * Head nodes are marked ADDED, RENAMED or UNCHANGED relative to the base; base-only nodes
+ * and edges are added back (nodes as DELETED) so removals stay visible.
+ */
+export function buildCompareGraph(
+  head: TopologyGraph,
+  diff: SnapshotDiff
+): { graph: TopologyGraph; edgeChanges: Map<string, EdgeChange> } {
+  const addedIds = new Set(diff.addedNodes.map((n) => n.id));
+  const previousIds = new Map(diff.renamedNodes.map(({ from, to }) => [to, from]));
+  const headIds = new Map(diff.renamedNodes.map(({ from, to }) => [from, to]));
+  const toHeadId = (id: string) => headIds.get(id) ?? id;
+
+  const nodes = [
+    ...head.nodes.map((node) => ({
+      ...node,
+      status: addedIds.has(node.id) ? ('ADDED' as const) : previousIds.has(node.id) ? ('RENAMED' as const) : ('UNCHANGED' as const),
+      previousId: previousIds.get(node.id),
+    })),
+    ...diff.removedNodes.map((node) => ({ ...node, status: 'DELETED' as const, previousId: undefined })),
+  ];
+
+  const edgeChanges = new Map<string, EdgeChange>();
+  for (const edge of diff.addedEdges) {
+    edgeChanges.set(edge.id, 'added');
+  }
+  const removedEdges = diff.removedEdges.map((edge) => {
+    const id = `${REMOVED_EDGE_PREFIX}${edge.id}`;
+    edgeChanges.set(id, 'removed');
+    return { ...edge, id, source: toHeadId(edge.source), target: toHeadId(edge.target), isBroken: false };
+  });
+
+  // Semantic edges are not compared: keep the head's
+  return {
+    graph: { ...head, nodes, edges: [...head.edges, ...removedEdges] },
+    edgeChanges,
+  };
+}
@@ -0,0 +1,38 @@
+import type { TopologyGraph } from '@/types/topology';
+
+/**
+ * Find the dependency edges that lie on an import cycle
+ * Symbol nodes count as their containing file; mock edges never close a cycle.
+ * @returns Edge ID → whether the cycle is new relative to the base branch
+ */
+export function getCycleEdges(graph: TopologyGraph): Map<string, boolean> {
+  const cycleEdges = new Map<string, boolean>();
+  if (!graph.cycles || graph.cycles.length === 0) {
+    return cycleEdges;
+  }
+
+  const cycleOf = new Map<string, number>();
+  graph.cycles.forEach((cycle, i) => {
+    for (const file of cycle.files) {
+      cycleOf.set(file, i);
+    }
+  });
+
+  const fileOf = new Map<string, string>();
+  for (const node of graph.nodes) {
+    fileOf.set(node.id, node.parentId ?? node.id);
+  }
+
+  for (const edge of graph.edges) {
+    if (edge.linkType === 'semantic' || edge.kind === 'mock') continue;
+
+    const source = fileOf.get(edge.source) ?? edge.source;
+    const target = fileOf.get(edge.target) ?? edge.target;
+    const cycle = cycleOf.get(source);
+    if (source !== target && cycle !== undefined && cycleOf.get(target) === cycle) {
+      cycleEdges.set(edge.id, graph.cycles[cycle]!.isNew);
+    }
+  }
+
+  return cycleEdges;
+}
@@ -0,0 +1,91 @@
+import type { Language } from '@/types/topology';
+
+export interface LanguageInfo {
+  /** Full display name (e.g. "TypeScript") */
+  label: string;
+  /** Short badge text (e.g. "TS") */
+  short: string;
+  /** Solid badge color class */
+  color: string;
+  /** Filter chip color classes */
+  filterColor: string;
+}
+
+/** Display info for built-in languages */
+export const BUILTIN_LANGUAGES: Record<string, LanguageInfo> = {
+  typescript: {
+    label: 'TypeScript',
+    short: 'TS',
+    color: 'bg-blue-500',
+    filterColor: 'bg-blue-100 text-blue-700 hover:bg-blue-200',
+  },
+  javascript: {
+    label: 'JavaScript',
+    short: 'JS',
+    color: 'bg-yellow-500',
+    filterColor: 'bg-yellow-100 text-yellow-700 hover:bg-yellow-200',
+  },
+  python: {
+    label: 'Python',
+    short: 'PY',
+    color: 'bg-green-600',
+    filterColor: 'bg-green-100 text-green-700 hover:bg-green-200',
+  },
+  go: {
+    label: 'Go',
+    short: 'GO',
+    color: 'bg-cyan-500',
+    filterColor: 'bg-cyan-100 text-cyan-700 hover:bg-cyan-200',
+  },
+  rust: {
+    label: 'Rust',
+    short: 'RS',
+    color: 'bg-orange-600',
+    filterColor: 'bg-orange-100 text-orange-700 hover:bg-orange-200',
+  },
+  java: {
+    label: 'Java',
+    short: 'JV',
+    color: 'bg-red-500',
+    filterColor: 'bg-red-100 text-red-700 hover:bg-red-200',
+  },
+  csharp: {
+    label: 'C#',
+    short: 'C#',
+    color: 'bg-purple-600',
+    filterColor: 'bg-purple-100 text-purple-700 hover:bg-purple-200',
+  },
+  vue: {
+    label: 'Vue',
+    short: 'VU',
+    color: 'bg-emerald-500',
+    filterColor: 'bg-emerald-100 text-emerald-700 hover:bg-emerald-200',
+  },
+  svelte: {
+    label: 'Svelte',
+    short: 'SV',
+    color: 'bg-orange-500',
+    filterColor: 'bg-orange-100 text-orange-700 hover:bg-orange-200',
+  },
+  astro: {
+    label: 'Astro',
+    short: 'AS',
+    color: 'bg-fuchsia-600',
+    filterColor: 'bg-fuchsia-100 text-fuchsia-700 hover:bg-fuchsia-200',
+  },
+};
+
+/**
+ * Get display info for a language, with a neutral fallback for plugin-provided languages
+ */
+export function getLanguageInfo(language: Language): LanguageInfo {
+  const builtin = BUILTIN_LANGUAGES[language];
+  if (builtin) return builtin;
+
+  return {
+    label: language.charAt(0).toUpperCase() + language.slice(1),
+    short: language.slice(0, 2).toUpperCase(),
+    color: 'bg-slate-500',
+    filterColor: 'bg-slate-100 text-slate-700 hover:bg-slate-200',
+  };
+}
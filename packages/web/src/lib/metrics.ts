@@ -0,0 +1,62 @@
+import type { NodeMetrics, TopologyGraph } from '@/types/topology';
+
+/** Node metrics that can drive node size and color */
+export type MetricKey = 'fanIn' | 'fanOut' | 'instability' | 'depth' | 'centrality';
+
+export const METRIC_LABELS: Record<MetricKey, string> = {
+  fanIn: 'Fan-in',
+  fanOut: 'Fan-out',
+  instability: 'Instability',
+  depth: 'Depth',
+  centrality: 'Centrality',
+};
+
+/** Width multiplier of the node with the highest size metric */
+const MAX_SIZE_SCALE = 1.8;
+
+export interface NodeMetricStyle {
+  /** Width multiplier (1 = default size) */
+  sizeScale?: number;
+  /** Background tint from green (low) to red (high) */
+  metricColor?: string;
+  isGodModule: boolean;
+}
+
+/**
+ * Color for a normalized metric value (0-1), green through yellow to red
+ */
+export function getMetricColor(value: number): string {
+  return `hsla(${Math.round(120 - 120 * value)}, 85%, 50%, 0.35)`;
+}
+
+/**
+ * Map file metrics to node size and color, each normalized to the graph's highest value
+ * Symbol nodes take the metrics of their file.
+ */
+export function getMetricStyles(
+  graph: TopologyGraph,
+  metrics: Map<string, NodeMetrics>,
+  sizeMetric: MetricKey | null,
+  colorMetric: MetricKey | null
+): Map<string, NodeMetricStyle> {
+  const styles = new Map<string, NodeMetricStyle>();
+  // Instability is already a 0-1 ratio
+  const maxOf = (key: MetricKey) =>
+    key === 'instability' ? 1 : Math.max(0, ...Array.from(metrics.values(), (m) => m[key] ?? 0));
+  const normalize = (m: NodeMetrics, key: MetricKey, max: number) => (max > 0 ? (m[key] ?? 0) / max : 0);
+
+  const maxSize = sizeMetric ? maxOf(sizeMetric) : 0;
+  const maxColor = colorMetric ? maxOf(colorMetric) : 0;
+
+  for (const node of graph.nodes) {
+    const m = metrics.get(node.parentId ?? node.id);
+    if (!m) continue;
+    styles.set(node.id, {
+      sizeScale: sizeMetric ? 1 + (MAX_SIZE_SCALE - 1) * normalize(m, sizeMetric, maxSize) : undefined,
+      metricColor: colorMetric ? getMetricColor(normalize(m, colorMetric, maxColor)) : undefined,
+      isGodModule: m.isGodModule,
+    });
+  }
+
+  return styles;
+}
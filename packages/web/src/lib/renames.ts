@@ -0,0 +1,48 @@
+import type { TopologyGraph } from '@/types/topology';
+
+/**
+ * Follow a node ID from one snapshot to another across renames
+ * Steps through every loaded snapshot in between (graphs that are not loaded are skipped):
+ * moving forward, a node whose previousId is the tracked ID takes over; moving back, the
+ * tracked node's previousId does.
+ * @returns The node's ID in the target snapshot, or null when it does not exist there
+ */
+export function followNodeId(
+  snapshots: { graph: TopologyGraph | null }[],
+  nodeId: string,
+  fromIndex: number,
+  toIndex: number
+): string | null {
+  let id = nodeId;
+  const step = toIndex > fromIndex ? 1 : -1;
+  if (!snapshots[toIndex]?.graph) return null;
+
+  let current = snapshots[fromIndex]?.graph?.nodes;
+  for (let i = fromIndex + step; current && i !== toIndex + step; i += step) {
+    const next = snapshots[i]?.graph?.nodes;
+    if (!next) continue;
+
+    if (step > 0) {
+      const renamed = next.find((n) => n.previousId === id);
+      if (renamed) {
+        id = renamed.id;
+        current = next;
+        continue;
+      }
+    } else {
+      const previousId = current.find((n) => n.id === id)?.previousId;
+      if (previousId && next.some((n) => n.id === previousId)) {
+        id = previousId;
+        current = next;
+        continue;
+      }
+    }
+
+    if (!next.some((n) => n.id === id)) {
+      return null;
+    }
+    current = next;
+  }
+
+  return current ? id : null;
+}
@@ -0,0 +1,40 @@
+import type { TopologyGraph, RuleSeverity } from '@/types/topology';
+
+/**
+ * Find the dependency edges that violate an architecture rule
+ * Symbol nodes count as their containing file; fan-in/fan-out violations have no edge.
+ * @returns Edge ID → most severe violation severity
+ */
+export function getViolationEdges(graph: TopologyGraph): Map<string, RuleSeverity> {
+  const violationEdges = new Map<string, RuleSeverity>();
+  if (!graph.violations || graph.violations.length === 0) {
+    return violationEdges;
+  }
+
+  const severityOf = new Map<string, RuleSeverity>();
+  for (const violation of graph.violations) {
+    if (!violation.source || !violation.target) continue;
+    const key = `${violation.source}\n${violation.target}`;
+    if (severityOf.get(key) !== 'error') {
+      severityOf.set(key, violation.severity);
+    }
+  }
+
+  const fileOf = new Map<string, string>();
+  for (const node of graph.nodes) {
+    fileOf.set(node.id, node.parentId ?? node.id);
+  }
+
+  for (const edge of graph.edges) {
+    if (edge.linkType === 'semantic') continue;
+
+    const source = fileOf.get(edge.source) ?? edge.source;
+    const target = fileOf.get(edge.target) ?? edge.target;
+    const severity = severityOf.get(`${source}\n${target}`);
+    if (severity) {
+      violationEdges.set(edge.id, severity);
+    }
+  }
+
+  return violationEdges;
+}
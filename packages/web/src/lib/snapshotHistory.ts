@@ -0,0 +1,62 @@
+/**
+ * Server-side access to the snapshot history stored in the project's cache DB
+ * Used by the /api/snapshots routes only (opens SQLite, never bundled for the browser)
+ */
+
+import { existsSync } from 'fs';
+import { extname, resolve } from 'path';
+import { CacheDb, SnapshotStore } from '@topology/core/cache';
+import { loadProjectConfig, PROJECT_CONFIG_FILES } from '@topology/core/config';
+
+// Repository path - defaults to current working directory
+const REPO_PATH = process.env.REPO_PATH || process.cwd();
+
+// Cache directory override, for projects that set cacheDir in a topology.config.ts/.js file
+const CACHE_DIR = process.env.TOPOLOGY_CACHE_DIR;
+
+let cacheDir: Promise<string | undefined> | undefined;
+
+/**
+ * Resolve the cache directory: TOPOLOGY_CACHE_DIR, else cacheDir from .topology/config.json
+ * TS/JS config files are not evaluated inside the Next server
+ * @returns undefined for the default <repo>/.topology/
+ */
+async function resolveCacheDir(): Promise<string | undefined> {
+  let configured = CACHE_DIR;
+  if (!configured) {
+    const configPath = PROJECT_CONFIG_FILES.map((file) => resolve(REPO_PATH, file)).find((file) => existsSync(file));
+    if (configPath && extname(configPath) === '.json') {
+      configured = (await loadProjectConfig(REPO_PATH, configPath)).config.cacheDir;
+    }
+  }
+  return configured ? resolve(REPO_PATH, configured) : undefined;
+}
+
+/**
+ * Get the cache directory, resolved on first use (a failed lookup is retried on the next request)
+ */
+function getCacheDir(): Promise<string | undefined> {
+  cacheDir ??= resolveCacheDir().catch((error: unknown) => {
+    cacheDir = undefined;
+    throw error;
+  });
+  return cacheDir;
+}
+
+/**
+ * Run a read against the snapshot store (the DB is opened read-only)
+ * @returns null when the repository has no cache DB yet (nothing was analyzed in history mode)
+ */
+export async function withSnapshotStore<T>(read: (store: SnapshotStore) => T): Promise<T | null> {
+  const cacheDb = new CacheDb(REPO_PATH, await getCacheDir());
+  if (!existsSync(cacheDb.path)) {
+    return null;
+  }
+
+  cacheDb.openReadOnly();
+  try {
+    return read(new SnapshotStore(cacheDb));
+  } finally {
+    cacheDb.close();
+  }
+}
@@ -0,0 +1,86 @@
+import type { TopologyGraph, TopologyEdge } from '@/types/topology';
+
+/** ID prefix of synthetic file → symbol containment edges */
+const CONTAINMENT_EDGE_PREFIX = 'contains:';
+
+/**
+ * Check whether an edge is a synthetic file → symbol containment edge
+ */
+export function isContainmentEdge(edge: TopologyEdge): boolean {
+  return edge.id.startsWith(CONTAINMENT_EDGE_PREFIX);
+}
+
+/**
+ * Count symbol nodes per containing file
+ */
+export function countSymbolsByFile(graph: TopologyGraph): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const node of graph.nodes) {
+    if (node.parentId) {
+      counts.set(node.parentId, (counts.get(node.parentId) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Show symbol nodes only for expanded files.
+ * Edges to collapsed symbols are folded onto their file (deduplicated), and
+ * expanded files get containment edges to their symbols.
+ */
+export function applySymbolExpansion(
+  graph: TopologyGraph,
+  expandedFileIds: Set<string>,
+): TopologyGraph {
+  const parentOf = new Map<string, string>();
+  for (const node of graph.nodes) {
+    if (node.parentId) {
+      parentOf.set(node.id, node.parentId);
+    }
+  }
+  if (parentOf.size === 0) {
+    return graph;
+  }
+
+  const isVisible = (id: string) => {
+    const parent = parentOf.get(id);
+    return !parent || expandedFileIds.has(parent);
+  };
+  const displayId = (id: string) => (isVisible(id) ? id : parentOf.get(id)!);
+
+  const nodes = graph.nodes.filter((node) => isVisible(node.id));
+
+  const edges: TopologyEdge[] = [];
+  const edgeKeys = new Set<string>();
+  for (const edge of graph.edges) {
+    const source = displayId(edge.source);
+    const target = displayId(edge.target);
+    const key = `${source}→${target}:${edge.linkType}:${edge.kind ?? ''}`;
+
+    if (source === edge.source && target === edge.target) {
+      edges.push(edge);
+      edgeKeys.add(key);
+      continue;
+    }
+
+    // Folded edge: skip if an equivalent edge is already shown
+    if (source !== target && !edgeKeys.has(key)) {
+      edgeKeys.add(key);
+      edges.push({ ...edge, source, target });
+    }
+  }
+
+  for (const node of nodes) {
+    if (node.parentId) {
+      edges.push({
+        id: `${CONTAINMENT_EDGE_PREFIX}${node.id}`,
+        source: node.parentId,
+        target: node.id,
+        isBroken: false,
+        linkType: 'dependency',
+      });
+    }
+  }
+
+  return { ...graph, nodes, edges };
+}
@@ -9,25 +9,52 @@ import type {
   TopologySnapshot,
   TopologyDataFile,
   SnapshotMetadata,
+  SnapshotPage,
   TopologyNode,
   NodeType,
   DiffStatus,
   Language,
+  EdgeKind,
   ConflictWarning,
+  RuleViolation,
 } from '@/types/topology';
+import { followNodeId } from '@/lib/renames';
+import type { MetricKey } from '@/lib/metrics';
 
 /** WebSocket connection status */
 export type WsConnectionStatus = 'disconnected' | 'connecting' | 'connected';
 
+/** A snapshot on the timeline; graphs of stored snapshots are fetched when needed */
+export interface TimelineSnapshot {
+  /** ID in the snapshot history API (null for data file and live snapshots) */
+  id: number | null;
+  metadata: SnapshotMetadata;
+  /** Null until the graph of a stored snapshot is loaded */
+  graph: TopologyGraph | null;
+}
+
+/** Metadata page size when reading the snapshot history */
+const HISTORY_PAGE_SIZE = 500;
+
+/** Stored graphs kept in memory on each side of the current snapshot */
+const LOADED_GRAPH_RADIUS = 5;
+
+/** Live snapshots kept on the timeline in watch mode */
+const MAX_LIVE_SNAPSHOTS = 50;
+
 interface TopologyStore {
   // Data
-  snapshots: TopologySnapshot[];
+  snapshots: TimelineSnapshot[];
   currentIndex: number;
+  /** Snapshot whose graph is being fetched before the timeline moves to it */
+  loadingIndex: number | null;
+  /** Base snapshot of compare mode (the current snapshot is overlaid on it), null when off */
+  compareIndex: number | null;
   isLoading: boolean;
   error: string | null;
 
   // Computed (derived from snapshots + currentIndex)
-  currentSnapshot: TopologySnapshot | null;
+  currentSnapshot: TimelineSnapshot | null;
   currentGraph: TopologyGraph | null;
   currentMetadata: SnapshotMetadata | null;
 
@@ -43,16 +70,38 @@ interface TopologyStore {
   // Semantic edge visibility
   showSemanticEdges: boolean;
 
+  // Asset node visibility (stylesheets, data, images)
+  showAssets: boolean;
+
+  // Group nodes by workspace package
+  groupByPackage: boolean;
+
+  // Architecture metrics mapped to node size and color (null = off)
+  sizeMetric: MetricKey | null;
+  colorMetric: MetricKey | null;
+
+  // Dependency edge kinds hidden from the graph (static / dynamic / require / mock)
+  hiddenEdgeKinds: Set<EdgeKind>;
+
+  // File nodes expanded into their symbol nodes (symbol-level graphs)
+  expandedFileIds: Set<string>;
+
   // Conflict warnings
   conflictWarnings: ConflictWarning[];
 
+  // Architecture rule violations pushed by watch mode
+  ruleViolations: RuleViolation[];
+
   // Live Updates state
   liveUpdatesEnabled: boolean;
   wsConnectionStatus: WsConnectionStatus;
 
   // Timeline Actions
   loadData: () => Promise<void>;
+  showSnapshot: (index: number) => Promise<void>;
+  loadSnapshotGraph: (index: number) => Promise<void>;
   setCurrentIndex: (index: number) => void;
+  setCompareIndex: (index: number | null) => void;
   goToFirst: () => void;
   goToPrevious: () => void;
   goToNext: () => void;
@@ -70,10 +119,29 @@ interface TopologyStore {
   // Semantic edge toggle
   toggleSemanticEdges: () => void;
 
+  // Asset node toggle
+  toggleAssets: () => void;
+
+  // Workspace package grouping toggle
+  toggleGroupByPackage: () => void;
+
+  // Node size/color metric selection
+  setSizeMetric: (metric: MetricKey | null) => void;
+  setColorMetric: (metric: MetricKey | null) => void;
+
+  // Edge kind visibility toggle
+  toggleEdgeKind: (kind: EdgeKind) => void;
+
+  // Symbol expansion toggle
+  toggleFileExpanded: (fileId: string) => void;
+
   // Conflict warning actions
   setConflictWarnings: (warnings: ConflictWarning[]) => void;
   clearConflictWarnings: () => void;
 
+  // Rule violation actions
+  setRuleViolations: (violations: RuleViolation[]) => void;
+
   // Live Updates Actions
   setLiveUpdatesEnabled: (enabled: boolean) => void;
   setWsConnectionStatus: (status: WsConnectionStatus) => void;
@@ -125,6 +193,56 @@ function migrateToV2(data: unknown): TopologyDataFile {
   };
 }
 
+/**
+ * Read all snapshot metadata from the history API, page by page
+ * @returns null when the API is unavailable or no history is stored
+ */
+async function fetchSnapshotHistory(): Promise<TimelineSnapshot[] | null> {
+  const entries: TimelineSnapshot[] = [];
+  let total = Infinity;
+
+  while (entries.length < total) {
+    const res = await fetch(`/api/snapshots?offset=${entries.length}&limit=${HISTORY_PAGE_SIZE}`);
+    if (!res.ok) return null;
+
+    const page = (await res.json()) as SnapshotPage;
+    total = page.total;
+    if (page.snapshots.length === 0) break;
+
+    entries.push(...page.snapshots.map(({ id, ...metadata }) => ({ id, metadata, graph: null })));
+  }
+
+  return entries.length > 0 ? entries : null;
+}
+
+/**
+ * Fetch the graph of a stored snapshot
+ */
+async function fetchSnapshotGraph(id: number): Promise<TopologyGraph> {
+  const res = await fetch(`/api/snapshots/${id}`);
+  if (!res.ok) {
+    throw new Error(`Failed to load snapshot ${id}`);
+  }
+  const snapshot = (await res.json()) as TopologySnapshot;
+  return snapshot.graph;
+}
+
+/**
+ * Drop stored graphs far from the current (and compare) snapshot; they are fetched again when needed
+ */
+function releaseDistantGraphs(snapshots: TimelineSnapshot[], indices: number[]): TimelineSnapshot[] {
+  const isDistant = (snapshot: TimelineSnapshot, i: number) =>
+    snapshot.id !== null &&
+    snapshot.graph !== null &&
+    indices.every((index) => Math.abs(i - index) > LOADED_GRAPH_RADIUS);
+
+  if (!snapshots.some(isDistant)) return snapshots;
+  return snapshots.map((snapshot, i) => (isDistant(snapshot, i) ? { ...snapshot, graph: null } : snapshot));
+}
+
+/** Incremented on each navigation so slower graph fetches cannot move the timeline back */
+let navigationId = 0;
+
 /**
  * Calculate the dependency chain for a node (upstream and downstream)
  */
@@ -170,10 +288,38 @@ function getDependencyChain(
   return highlighted;
 }
 
+/**
+ * Move to another snapshot, keeping the selected node selected across renames
+ * The selection is cleared when the node does not exist in the target snapshot
+ */
+function moveToSnapshot(
+  state: Pick<TopologyStore, 'snapshots' | 'currentIndex' | 'selectedNodeId'>,
+  index: number
+): Partial<TopologyStore> {
+  const { snapshots, currentIndex, selectedNodeId } = state;
+  if (!selectedNodeId || index === currentIndex) {
+    return { currentIndex: index };
+  }
+
+  const nodeId = followNodeId(snapshots, selectedNodeId, currentIndex, index);
+  const graph = snapshots[index]?.graph;
+  if (!nodeId || !graph) {
+    return { currentIndex: index, selectedNodeId: null, highlightedNodeIds: new Set() };
+  }
+
+  return {
+    currentIndex: index,
+    selectedNodeId: nodeId,
+    highlightedNodeIds: getDependencyChain(nodeId, graph),
+  };
+}
+
 export const useTopologyStore = create<TopologyStore>((set, get) => ({
   // Initial state
   snapshots: [],
   currentIndex: 0,
+  loadingIndex: null,
+  compareIndex: null,
   isLoading: true,
   error: null,
 
@@ -189,9 +335,28 @@ export const useTopologyStore = create<TopologyStore>((set, get) => ({
   // Semantic edge initial state
   showSemanticEdges: true,
 
+  // Asset node initial state
+  showAssets: true,
+
+  // Package grouping initial state
+  groupByPackage: false,
+
+  // Metric mapping initial state (plain nodes)
+  sizeMetric: null,
+  colorMetric: null,
+
+  // Edge kind initial state (all visible)
+  hiddenEdgeKinds: new Set<EdgeKind>(),
+
+  // Symbol expansion initial state (all collapsed)
+  expandedFileIds: new Set<string>(),
+
   // Conflict warnings initial state
   conflictWarnings: [],
 
+  // Rule violations initial state
+  ruleViolations: [],
+
   // Live Updates initial state
   liveUpdatesEnabled: false,
   wsConnectionStatus: 'disconnected' as WsConnectionStatus,
@@ -217,17 +382,35 @@ export const useTopologyStore = create<TopologyStore>((set, get) => ({
     set({ isLoading: true, error: null });
 
     try {
+      // Snapshot history stored in the cache DB (graphs are fetched per snapshot)
+      const history = (await fetchSnapshotHistory().catch(() => null)) ?? [];
+
+      // The data file holds the latest analysis, which is only stored in history mode
       const res = await fetch('/data/topology-data.json');
-      if (!res.ok) {
+      const dataFile = res.ok ? migrateToV2(await res.json()) : null;
+      const lastStored = history[history.length - 1]?.metadata.timestamp ?? -Infinity;
+      const unstored = (dataFile?.snapshots ?? [])
+        .filter((snapshot) => snapshot.metadata.timestamp > lastStored)
+        .map((snapshot) => ({ id: null, ...snapshot }));
+
+      const snapshots: TimelineSnapshot[] = [...history, ...unstored];
+      if (snapshots.length === 0) {
         throw new Error('No topology data found');
       }
 
-      const rawData = await res.json();
-      const dataFile = migrateToV2(rawData);
+      const currentIndex = unstored.length > 0 && history.length === 0
+        ? dataFile!.currentIndex
+        : snapshots.length - 1;
+      const current = snapshots[currentIndex]!;
+      if (!current.graph && current.id !== null) {
+        snapshots[currentIndex] = { ...current, graph: await fetchSnapshotGraph(current.id) };
+      }
 
       set({
-        snapshots: dataFile.snapshots,
-        currentIndex: dataFile.currentIndex,
+        snapshots,
+        currentIndex,
+        loadingIndex: null,
+        compareIndex: null,
         isLoading: false,
         error: null,
       });
@@ -241,34 +424,84 @@ export const useTopologyStore = create<TopologyStore>((set, get) => ({
     }
   },
 
+  showSnapshot: async (index: number) => {
+    if (index < 0 || index >= get().snapshots.length) return;
+    const navigation = ++navigationId;
+
+    if (!get().snapshots[index]?.graph) {
+      set({ loadingIndex: index });
+      try {
+        await get().loadSnapshotGraph(index);
+      } catch (err) {
+        console.warn(`⚠️  ${err instanceof Error ? err.message : 'Failed to load snapshot'}`);
+        if (navigation === navigationId) set({ loadingIndex: null });
+        return;
+      }
+      // A later navigation took over while this graph was loading
+      if (navigation !== navigationId) return;
+    }
+
+    set({ ...moveToSnapshot(get(), index), loadingIndex: null });
+    set((state) => ({
+      snapshots: releaseDistantGraphs(state.snapshots, [index, ...(state.compareIndex !== null ? [state.compareIndex] : [])]),
+    }));
+
+    // Prefetch the neighbours so stepping through the timeline does not wait
+    for (const neighbour of [index - 1, index + 1]) {
+      get().loadSnapshotGraph(neighbour).catch(() => {});
+    }
+  },
+
+  loadSnapshotGraph: async (index: number) => {
+    const entry = get().snapshots[index];
+    if (!entry || entry.graph || entry.id === null) return;
+
+    const graph = await fetchSnapshotGraph(entry.id);
+    set((state) => ({
+      snapshots: state.snapshots.map((snapshot) =>
+        snapshot.id === entry.id ? { ...snapshot, graph } : snapshot
+      ),
+    }));
+  },
+
   setCurrentIndex: (index: number) => {
-    const { snapshots } = get();
-    if (index >= 0 && index < snapshots.length) {
-      set({ currentIndex: index });
+    void get().showSnapshot(index);
+  },
+
+  setCompareIndex: (index: number | null) => {
+    if (index === null || index < 0 || index >= get().snapshots.length) {
+      set({ compareIndex: null });
+      return;
     }
+
+    set({ compareIndex: index });
+    get().loadSnapshotGraph(index).catch((err) => {
+      console.warn(`⚠️  ${err instanceof Error ? err.message : 'Failed to load snapshot'}`);
+      if (get().compareIndex === index) set({ compareIndex: null });
+    });
   },
 
   goToFirst: () => {
-    set({ currentIndex: 0 });
+    void get().showSnapshot(0);
   },
 
   goToPrevious: () => {
     const { currentIndex } = get();
     if (currentIndex > 0) {
-      set({ currentIndex: currentIndex - 1 });
+      void get().showSnapshot(currentIndex - 1);
     }
   },
 
   goToNext: () => {
     const { currentIndex, snapshots } = get();
     if (currentIndex < snapshots.length - 1) {
-      set({ currentIndex: currentIndex + 1 });
+      void get().showSnapshot(currentIndex + 1);
     }
   },
 
   goToLatest: () => {
     const { snapshots } = get();
-    set({ currentIndex: snapshots.length - 1 });
+    void get().showSnapshot(snapshots.length - 1);
   },
 
   // Search & Filter Actions
@@ -345,6 +578,49 @@ export const useTopologyStore = create<TopologyStore>((set, get) => ({
     set((state) => ({ showSemanticEdges: !state.showSemanticEdges }));
   },
 
+  // Asset node toggle
+  toggleAssets: () => {
+    set((state) => ({ showAssets: !state.showAssets }));
+  },
+
+  // Workspace package grouping toggle
+  toggleGroupByPackage: () => {
+    set((state) => ({ groupByPackage: !state.groupByPackage }));
+  },
+
+  // Node size/color metric selection
+  setSizeMetric: (metric: MetricKey | null) => {
+    set({ sizeMetric: metric });
+  },
+
+  setColorMetric: (metric: MetricKey | null) => {
+    set({ colorMetric: metric });
+  },
+
+  // Edge kind visibility toggle
+  toggleEdgeKind: (kind: EdgeKind) => {
+    const { hiddenEdgeKinds } = get();
+    const newHidden = new Set(hiddenEdgeKinds);
+    if (newHidden.has(kind)) {
+      newHidden.delete(kind);
+    } else {
+      newHidden.add(kind);
+    }
+    set({ hiddenEdgeKinds: newHidden });
+  },
+
+  // Symbol expansion toggle
+  toggleFileExpanded: (fileId: string) => {
+    const { expandedFileIds } = get();
+    const newExpanded = new Set(expandedFileIds);
+    if (newExpanded.has(fileId)) {
+      newExpanded.delete(fileId);
+    } else {
+      newExpanded.add(fileId);
+    }
+    set({ expandedFileIds: newExpanded });
+  },
+
   // Conflict warning actions
   setConflictWarnings: (warnings: ConflictWarning[]) => {
     set({ conflictWarnings: warnings });
@@ -354,6 +630,11 @@ export const useTopologyStore = create<TopologyStore>((set, get) => ({
     set({ conflictWarnings: [] });
   },
 
+  // Rule violation actions
+  setRuleViolations: (violations: RuleViolation[]) => {
+    set({ ruleViolations: violations });
+  },
+
   // Live Updates Actions
   setLiveUpdatesEnabled: (enabled: boolean) => {
     set({ liveUpdatesEnabled: enabled });
@@ -364,22 +645,35 @@ export const useTopologyStore = create<TopologyStore>((set, get) => ({
   },
 
   addLiveSnapshot: (snapshot: TopologySnapshot) => {
-    const { snapshots } = get();
-    const maxSnapshots = 50;
+    const { snapshots, currentIndex, compareIndex, selectedNodeId } = get();
+    navigationId++;
 
     // Append the new snapshot
-    const newSnapshots = [...snapshots, snapshot];
-
-    // Trim to max snapshots (keep most recent)
-    if (newSnapshots.length > maxSnapshots) {
-      const excess = newSnapshots.length - maxSnapshots;
-      newSnapshots.splice(0, excess);
-    }
-
-    // Update state and move to latest
+    const appended: TimelineSnapshot[] = [...snapshots, { id: null, ...snapshot }];
+
+    // Trim live snapshots to the most recent ones (stored history stays on the timeline)
+    const liveIndices = appended.flatMap((entry, i) => (entry.id === null ? [i] : []));
+    const trimmed = new Set(liveIndices.slice(0, Math.max(0, liveIndices.length - MAX_LIVE_SNAPSHOTS)));
+    const newSnapshots = appended.filter((_, i) => !trimmed.has(i));
+
+    // Update state and move to latest (indices shift when old snapshots are trimmed)
+    const shift = (index: number) =>
+      trimmed.has(index) ? -1 : index - liveIndices.filter((i) => trimmed.has(i) && i < index).length;
+    const shiftedIndex = shift(currentIndex);
+    const shiftedCompareIndex = compareIndex !== null ? shift(compareIndex) : -1;
     set({
-      snapshots: newSnapshots,
-      currentIndex: newSnapshots.length - 1,
+      ...moveToSnapshot(
+        shiftedIndex >= 0
+          ? { snapshots: newSnapshots, currentIndex: shiftedIndex, selectedNodeId }
+          : { snapshots: newSnapshots, currentIndex: 0, selectedNodeId: null },
+        newSnapshots.length - 1
+      ),
+      snapshots: releaseDistantGraphs(
+        newSnapshots,
+        [newSnapshots.length - 1, ...(shiftedCompareIndex >= 0 ? [shiftedCompareIndex] : [])]
+      ),
+      loadingIndex: null,
+      compareIndex: shiftedCompareIndex >= 0 ? shiftedCompareIndex : null,
       isLoading: false,
       error: null,
     });
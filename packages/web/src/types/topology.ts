@@ -5,14 +5,24 @@
 
 export {
   type LinkType,
+  type EdgeKind,
   type NodeType,
+  type NodeKind,
   type DiffStatus,
   type Language,
   type TopologyNode,
   type TopologyEdge,
+  type DependencyCycle,
+  type RuleSeverity,
+  type RuleViolation,
+  type NodeMetrics,
+  type DirectoryMetrics,
+  type MetricsSummary,
   type TopologyGraph,
   type SnapshotMetadata,
   type TopologySnapshot,
+  type StoredSnapshotMetadata,
+  type SnapshotPage,
   type TopologyDataFile,
   type ConflictWarning,
 } from '@topology/protocol';